@@ -0,0 +1,163 @@
+/**
+ * App Invoices Component
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { InvoiceDetails, InvoiceStatus, OAuthApp } from '../../shared/schema';
+import { formatInvoiceAmount, INVOICE_STATUS_LABELS } from '../../shared/invoices';
+import { LISTED_INVOICE_STATUSES } from '../../shared/validation';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+// Icons
+import { FileJson, FileText, ReceiptText, RefreshCw } from 'lucide-react';
+
+const INVOICE_STATUS_VARIANTS: Record<InvoiceStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  draft: 'outline',
+  open: 'secondary',
+  paid: 'default',
+  void: 'destructive'
+};
+
+const AppInvoices = () => {
+  const [appId, setAppId] = useState<number | undefined>(undefined);
+  const [status, setStatus] = useState<InvoiceStatus | undefined>(undefined);
+
+  // Query for the developer's apps, to filter by
+  const { data: apps = [] } = useQuery<OAuthApp[]>({
+    queryKey: ['/api/oauth-apps'],
+  });
+
+  // Query for invoices of the developer's apps
+  const { data: invoices = [], isLoading } = useQuery<InvoiceDetails[]>({
+    queryKey: ['/api/developer/invoices', appId, status],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (appId) params.set('appId', String(appId));
+      if (status) params.set('status', status);
+      return apiRequest(`/api/developer/invoices?${params}`, { method: 'GET' });
+    },
+  });
+
+  return (
+    <div className="container py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">App Invoices</h1>
+        <p className="text-muted-foreground mt-2">
+          Invoices issued to the subscribers of your apps
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <ReceiptText className="h-5 w-5" />
+            Invoices
+          </CardTitle>
+          <div className="flex gap-2">
+            <Select
+              value={appId ? String(appId) : 'any'}
+              onValueChange={(value) => setAppId(value === 'any' ? undefined : Number(value))}
+            >
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="App" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">All apps</SelectItem>
+                {apps.map(app => (
+                  <SelectItem key={app.id} value={String(app.id)}>{app.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={status ?? 'any'}
+              onValueChange={(value) => setStatus(value === 'any' ? undefined : value as InvoiceStatus)}
+            >
+              <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any status</SelectItem>
+                {LISTED_INVOICE_STATUSES.map(value => (
+                  <SelectItem key={value} value={value}>{INVOICE_STATUS_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-10">
+              <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4" />
+              <p>Loading invoices...</p>
+            </div>
+          ) : invoices.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Subscription</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Download</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invoices.map(invoice => (
+                  <TableRow key={invoice.id}>
+                    <TableCell className="font-mono">{invoice.number ?? '—'}</TableCell>
+                    <TableCell>{new Date(invoice.finalizedAt ?? invoice.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{invoice.customer.name || invoice.customer.username}</div>
+                      <div className="text-xs text-muted-foreground">{invoice.customer.email}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div>{invoice.appName}</div>
+                      <div className="text-xs text-muted-foreground">{invoice.planName}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={INVOICE_STATUS_VARIANTS[invoice.status]}>
+                        {INVOICE_STATUS_LABELS[invoice.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{formatInvoiceAmount(invoice.total, invoice.currency)}</TableCell>
+                    <TableCell className="text-right space-x-1">
+                      <Button variant="outline" size="sm" asChild>
+                        <a href={`/api/invoices/${invoice.id}/invoice.pdf`} download>
+                          <FileText className="mr-1 h-4 w-4" />
+                          PDF
+                        </a>
+                      </Button>
+                      <Button variant="outline" size="sm" asChild>
+                        <a href={`/api/invoices/${invoice.id}/invoice.json`} download>
+                          <FileJson className="mr-1 h-4 w-4" />
+                          JSON
+                        </a>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-center text-muted-foreground py-10">
+              No invoices match. Invoices for your apps' paid plans will show up here.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AppInvoices;
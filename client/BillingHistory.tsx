@@ -0,0 +1,140 @@
+/**
+ * Billing History Component
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Invoice, InvoiceStatus } from '../../shared/schema';
+import { formatInvoiceAmount, INVOICE_STATUS_LABELS } from '../../shared/invoices';
+import { LISTED_INVOICE_STATUSES } from '../../shared/validation';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+// Icons
+import { FileJson, FileText, ReceiptText, RefreshCw } from 'lucide-react';
+
+const INVOICE_STATUS_VARIANTS: Record<InvoiceStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  draft: 'outline',
+  open: 'secondary',
+  paid: 'default',
+  void: 'destructive'
+};
+
+const formatPeriod = (invoice: Invoice) =>
+  `${new Date(invoice.periodStart).toLocaleDateString()} – ${new Date(invoice.periodEnd).toLocaleDateString()}`;
+
+const BillingHistory = () => {
+  const [status, setStatus] = useState<InvoiceStatus | undefined>(undefined);
+
+  // Query for the user's invoices
+  const { data: invoices = [], isLoading } = useQuery<Invoice[]>({
+    queryKey: ['/api/invoices', status],
+    queryFn: async () => apiRequest(`/api/invoices${status ? `?status=${status}` : ''}`, { method: 'GET' }),
+  });
+
+  return (
+    <div className="container py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">Billing History</h1>
+        <p className="text-muted-foreground mt-2">
+          Invoices for your app subscriptions. Open invoices are waiting for payment; void ones were written off.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <ReceiptText className="h-5 w-5" />
+            Invoices
+          </CardTitle>
+          <Select
+            value={status ?? 'any'}
+            onValueChange={(value) => setStatus(value === 'any' ? undefined : value as InvoiceStatus)}
+          >
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any status</SelectItem>
+              {LISTED_INVOICE_STATUSES.map(value => (
+                <SelectItem key={value} value={value}>{INVOICE_STATUS_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-10">
+              <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4" />
+              <p>Loading invoices...</p>
+            </div>
+          ) : invoices.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Subscription</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Amount due</TableHead>
+                  <TableHead className="text-right">Download</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invoices.map(invoice => (
+                  <TableRow key={invoice.id}>
+                    <TableCell className="font-mono">{invoice.number ?? '—'}</TableCell>
+                    <TableCell>{new Date(invoice.finalizedAt ?? invoice.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{invoice.appName}</div>
+                      <div className="text-xs text-muted-foreground">{invoice.planName}</div>
+                    </TableCell>
+                    <TableCell>{formatPeriod(invoice)}</TableCell>
+                    <TableCell>
+                      <Badge variant={INVOICE_STATUS_VARIANTS[invoice.status]}>
+                        {INVOICE_STATUS_LABELS[invoice.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{formatInvoiceAmount(invoice.total, invoice.currency)}</TableCell>
+                    <TableCell className="text-right font-medium">
+                      {invoice.status === 'open' ? formatInvoiceAmount(invoice.amountDue, invoice.currency) : '—'}
+                    </TableCell>
+                    <TableCell className="text-right space-x-1">
+                      <Button variant="outline" size="sm" asChild>
+                        <a href={`/api/invoices/${invoice.id}/invoice.pdf`} download>
+                          <FileText className="mr-1 h-4 w-4" />
+                          PDF
+                        </a>
+                      </Button>
+                      <Button variant="outline" size="sm" asChild>
+                        <a href={`/api/invoices/${invoice.id}/invoice.json`} download>
+                          <FileJson className="mr-1 h-4 w-4" />
+                          JSON
+                        </a>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-center text-muted-foreground py-10">
+              {status ? `No ${INVOICE_STATUS_LABELS[status].toLowerCase()} invoices.` : 'No invoices yet. Charges for your subscriptions will show up here.'}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BillingHistory;
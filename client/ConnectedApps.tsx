@@ -0,0 +1,236 @@
+/**
+ * Connected Apps Component
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { ConnectedApp } from '../../shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+
+// Icons
+import { AlertCircle, Check, ExternalLink, Key, Link2, RefreshCw, ShieldOff } from 'lucide-react';
+
+const ConnectedApps = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedApp, setSelectedApp] = useState<ConnectedApp | null>(null);
+  const [showRevokeDialog, setShowRevokeDialog] = useState(false);
+
+  // Query for the user's connected apps
+  const { data: connectedApps, isLoading } = useQuery({
+    queryKey: ['/api/connected-apps'],
+  });
+
+  // Mutation to revoke an app's access
+  const revokeMutation = useMutation({
+    mutationFn: async (appId: number) => {
+      return apiRequest(`/api/connected-apps/${appId}`, {
+        method: 'DELETE'
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/connected-apps'] });
+      setShowRevokeDialog(false);
+      toast({
+        title: "Access Revoked",
+        description: `${selectedApp?.app.name} can no longer access your account`,
+      });
+      setSelectedApp(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke access",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const confirmRevoke = () => {
+    if (selectedApp) {
+      revokeMutation.mutate(selectedApp.app.id);
+    }
+  };
+
+  return (
+    <div className="container py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">Connected Apps</h1>
+        <p className="text-muted-foreground mt-2">
+          Applications you have authorized to access your account
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-16">
+          <RefreshCw className="h-10 w-10 animate-spin mx-auto mb-4" />
+          <p>Loading connected apps...</p>
+        </div>
+      ) : connectedApps?.length > 0 ? (
+        <div className="grid grid-cols-1 gap-6">
+          {connectedApps.map((connection: ConnectedApp) => (
+            <Card key={connection.app.id}>
+              <CardHeader className="pb-3">
+                <div className="flex items-center space-x-3">
+                  {connection.app.logoUrl ? (
+                    <img
+                      src={connection.app.logoUrl}
+                      alt={`${connection.app.name} logo`}
+                      className="h-10 w-10 rounded"
+                    />
+                  ) : (
+                    <div className="h-10 w-10 rounded bg-primary/10 flex items-center justify-center">
+                      <span className="text-primary font-bold">
+                        {connection.app.name.charAt(0)}
+                      </span>
+                    </div>
+                  )}
+                  <div>
+                    <CardTitle className="flex items-center">
+                      {connection.app.name}
+                      {connection.app.verificationStatus === 'verified' && (
+                        <Badge className="ml-2">
+                          <Check className="mr-1 h-3 w-3" /> Verified
+                        </Badge>
+                      )}
+                    </CardTitle>
+                    <CardDescription className="mt-1">
+                      {connection.app.description}
+                    </CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                  <div>
+                    <h3 className="text-sm font-medium mb-1">First Authorized</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {new Date(connection.firstAuthorizedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <div>
+                    <h3 className="text-sm font-medium mb-1">Last Authorized</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {new Date(connection.lastAuthorizedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <div>
+                    <h3 className="text-sm font-medium mb-1">Active Tokens</h3>
+                    <p className="text-sm text-muted-foreground flex items-center">
+                      <Key className="mr-1 h-3 w-3" />
+                      {connection.activeTokenCount}
+                    </p>
+                  </div>
+                </div>
+
+                <h3 className="text-sm font-medium mb-2">Granted Scopes</h3>
+                {connection.scopes.length > 0 ? (
+                  <div className="flex flex-wrap gap-2">
+                    {connection.scopes.map(scope => (
+                      <Badge key={scope} variant="outline" className="font-mono">{scope}</Badge>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Identity only</p>
+                )}
+              </CardContent>
+
+              <CardFooter className="flex justify-between">
+                <Button variant="outline" size="sm" asChild>
+                  <a href={connection.app.homepageUrl} target="_blank" rel="noopener noreferrer">
+                    <ExternalLink className="mr-2 h-4 w-4" />
+                    Visit Site
+                  </a>
+                </Button>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => {
+                    setSelectedApp(connection);
+                    setShowRevokeDialog(true);
+                  }}
+                >
+                  <ShieldOff className="mr-2 h-4 w-4" />
+                  Revoke Access
+                </Button>
+              </CardFooter>
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="pt-10 pb-10">
+            <div className="text-center max-w-md mx-auto">
+              <Link2 className="mx-auto h-12 w-12 text-primary mb-4" />
+              <h3 className="text-xl font-medium mb-2">No Connected Apps</h3>
+              <p className="text-muted-foreground mb-6">
+                Apps you sign in to with your account will appear here.
+              </p>
+              <Button asChild>
+                <a href="/oauth-apps">Browse Marketplace</a>
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Revoke Confirmation Dialog */}
+      <Dialog open={showRevokeDialog} onOpenChange={setShowRevokeDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Revoke Access</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to revoke this app's access to your account?
+            </DialogDescription>
+          </DialogHeader>
+
+          {selectedApp && (
+            <Alert variant="destructive" className="mt-2">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle className="font-medium">Warning</AlertTitle>
+              <AlertDescription>
+                <strong>{selectedApp.app.name}</strong> will be signed out immediately and all of its
+                access and refresh tokens will stop working. You can authorize it again later.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <DialogFooter className="mt-4">
+            <Button variant="outline" onClick={() => setShowRevokeDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={confirmRevoke}
+              disabled={revokeMutation.isPending}
+            >
+              {revokeMutation.isPending ? (
+                <>
+                  <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                  Revoking...
+                </>
+              ) : (
+                <>
+                  <ShieldOff className="mr-2 h-4 w-4" />
+                  Revoke Access
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ConnectedApps;
@@ -0,0 +1,376 @@
+/**
+ * Developer Earnings Component
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { DeveloperEarnings as Earnings, EarningsReportRow, PayoutRequest, PayoutStatus } from '../../shared/schema';
+import { creditsToPrice } from '../../shared/credits';
+import { FieldErrors, MIN_PAYOUT_CREDITS, requestPayoutSchema, validate } from '../../shared/validation';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+
+// Icons
+import { Banknote, Clock, Download, ReceiptText, RefreshCw, TrendingUp } from 'lucide-react';
+
+const PAYOUT_STATUS_LABELS: Record<PayoutStatus, string> = {
+  pending: 'Pending',
+  paid: 'Paid',
+  rejected: 'Rejected'
+};
+
+const PAYOUT_STATUS_VARIANTS: Record<PayoutStatus, 'default' | 'secondary' | 'destructive'> = {
+  pending: 'secondary',
+  paid: 'default',
+  rejected: 'destructive'
+};
+
+interface RevenueSummary {
+  key: string;
+  label: string;
+  grossAmount: number;
+  platformFee: number;
+  netAmount: number;
+  paymentCount: number;
+}
+
+const formatCredits = (credits: number) =>
+  `${credits.toLocaleString()} ($${creditsToPrice(credits).toFixed(2)})`;
+
+// Add up report rows that share a key, e.g. every month of one plan
+const summarize = (
+  rows: EarningsReportRow[],
+  keyOf: (row: EarningsReportRow) => string,
+  labelOf: (row: EarningsReportRow) => string
+): RevenueSummary[] => {
+  const summaries = new Map<string, RevenueSummary>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    const summary = summaries.get(key) ?? {
+      key,
+      label: labelOf(row),
+      grossAmount: 0,
+      platformFee: 0,
+      netAmount: 0,
+      paymentCount: 0
+    };
+    summary.grossAmount += row.grossAmount;
+    summary.platformFee += row.platformFee;
+    summary.netAmount += row.netAmount;
+    summary.paymentCount += row.paymentCount;
+    summaries.set(key, summary);
+  }
+  return Array.from(summaries.values());
+};
+
+const RevenueTable = ({ label, summaries }: { label: string; summaries: RevenueSummary[] }) => (
+  summaries.length > 0 ? (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          <TableHead className="text-right">Payments</TableHead>
+          <TableHead className="text-right">Gross</TableHead>
+          <TableHead className="text-right">Platform fee</TableHead>
+          <TableHead className="text-right">Your earnings</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {summaries.map(summary => (
+          <TableRow key={summary.key}>
+            <TableCell>{summary.label}</TableCell>
+            <TableCell className="text-right">{summary.paymentCount}</TableCell>
+            <TableCell className="text-right">{formatCredits(summary.grossAmount)}</TableCell>
+            <TableCell className="text-right">{formatCredits(summary.platformFee)}</TableCell>
+            <TableCell className="text-right font-medium">{formatCredits(summary.netAmount)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  ) : (
+    <p className="text-center text-muted-foreground py-10">
+      No subscription revenue yet. Payments for your paid plans will show up here.
+    </p>
+  )
+);
+
+const DeveloperEarnings = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showPayoutDialog, setShowPayoutDialog] = useState(false);
+  const [payoutAmount, setPayoutAmount] = useState('');
+  const [formErrors, setFormErrors] = useState<FieldErrors>({});
+
+  // Query for the earnings report
+  const { data: earnings, isLoading: isLoadingEarnings } = useQuery<Earnings>({
+    queryKey: ['/api/developer/earnings'],
+  });
+
+  // Query for the payout requests
+  const { data: payouts = [], isLoading: isLoadingPayouts } = useQuery<PayoutRequest[]>({
+    queryKey: ['/api/developer/payouts'],
+  });
+
+  const availableBalance = earnings?.availableBalance ?? 0;
+  const rows = earnings?.rows ?? [];
+  const appNames = new Map(earnings?.apps.map(app => [app.id, app.name]));
+  const planNames = new Map(earnings?.plans.map(plan => [plan.id, plan.name]));
+  // Apps and plans that have since been deleted are still in the report without a name
+  const appName = (appId: number | null) => (appId !== null && appNames.get(appId)) || 'Deleted app';
+  const planName = (planId: number | null) => (planId !== null && planNames.get(planId)) || 'Deleted plan';
+
+  const byApp = summarize(rows, row => String(row.appId), row => appName(row.appId));
+  const byPlan = summarize(
+    rows,
+    row => `${row.appId}:${row.planId}`,
+    row => `${appName(row.appId)} · ${planName(row.planId)}`
+  );
+  const byMonth = summarize(rows, row => row.month, row => row.month)
+    .sort((a, b) => b.key.localeCompare(a.key));
+
+  // Mutation to request a payout
+  const payoutMutation = useMutation({
+    mutationFn: async (amount: number) => {
+      return apiRequest('/api/developer/payouts', {
+        method: 'POST',
+        body: JSON.stringify({ amount })
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/developer/earnings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/developer/payouts'] });
+      setShowPayoutDialog(false);
+      setPayoutAmount('');
+      toast({
+        title: "Payout Requested",
+        description: "It will show as paid here once an admin has sent the payment.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to request payout",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const confirmPayout = () => {
+    const result = validate(requestPayoutSchema, { amount: Number(payoutAmount) });
+    if (!result.success) {
+      setFormErrors(result.errors);
+      return;
+    }
+    if (result.data.amount > availableBalance) {
+      setFormErrors({ amount: 'Amount exceeds your available earnings' });
+      return;
+    }
+    setFormErrors({});
+    payoutMutation.mutate(result.data.amount);
+  };
+
+  return (
+    <div className="container py-8">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Earnings</h1>
+          <p className="text-muted-foreground mt-2">
+            Revenue from your apps' paid plans, after the platform fee. One credit is worth $0.01.
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <a href="/developer/invoices">
+            <ReceiptText className="mr-2 h-4 w-4" />
+            View Invoices
+          </a>
+        </Button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 mb-8">
+        <Card>
+          <CardHeader>
+            <CardDescription>Available for payout</CardDescription>
+            <CardTitle className="text-3xl flex items-center gap-2">
+              <Banknote className="h-7 w-7 text-primary" />
+              {isLoadingEarnings ? '—' : formatCredits(availableBalance)}
+            </CardTitle>
+          </CardHeader>
+          <CardFooter>
+            <Button
+              onClick={() => setShowPayoutDialog(true)}
+              disabled={availableBalance < MIN_PAYOUT_CREDITS}
+            >
+              Request Payout
+            </Button>
+          </CardFooter>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardDescription>Pending payouts</CardDescription>
+            <CardTitle className="text-3xl flex items-center gap-2">
+              <Clock className="h-7 w-7 text-muted-foreground" />
+              {isLoadingEarnings ? '—' : formatCredits(earnings?.pendingPayouts ?? 0)}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {earnings && earnings.apps.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Platform fee: {earnings.apps.map(app => `${app.name} ${app.platformFeePercent}%`).join(', ')}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5" />
+            Revenue
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoadingEarnings ? (
+            <div className="text-center py-10">
+              <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4" />
+              <p>Loading earnings...</p>
+            </div>
+          ) : (
+            <Tabs defaultValue="app">
+              <TabsList className="mb-4">
+                <TabsTrigger value="app">By App</TabsTrigger>
+                <TabsTrigger value="plan">By Plan</TabsTrigger>
+                <TabsTrigger value="month">By Month</TabsTrigger>
+              </TabsList>
+              <TabsContent value="app">
+                <RevenueTable label="App" summaries={byApp} />
+              </TabsContent>
+              <TabsContent value="plan">
+                <RevenueTable label="Plan" summaries={byPlan} />
+              </TabsContent>
+              <TabsContent value="month">
+                <RevenueTable label="Month" summaries={byMonth} />
+              </TabsContent>
+            </Tabs>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Payouts</CardTitle>
+          <Button variant="outline" size="sm" asChild>
+            <a href="/api/developer/payouts/export.csv" download>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </a>
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoadingPayouts ? (
+            <div className="text-center py-10">
+              <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4" />
+              <p>Loading payouts...</p>
+            </div>
+          ) : payouts.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Requested</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Processed</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payouts.map(payout => (
+                  <TableRow key={payout.id}>
+                    <TableCell>{new Date(payout.requestedAt).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <Badge variant={PAYOUT_STATUS_VARIANTS[payout.status]}>
+                        {PAYOUT_STATUS_LABELS[payout.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {payout.processedAt ? new Date(payout.processedAt).toLocaleDateString() : '—'}
+                    </TableCell>
+                    <TableCell>{payout.note || '—'}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCredits(payout.amount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-center text-muted-foreground py-10">
+              No payouts yet.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Payout Dialog */}
+      <Dialog open={showPayoutDialog} onOpenChange={setShowPayoutDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request Payout</DialogTitle>
+            <DialogDescription>
+              The amount is set aside from your earnings until an admin sends the payment.
+              A rejected request returns it to your earnings.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="payout-amount">Credits</Label>
+            <Input
+              id="payout-amount"
+              type="number"
+              min={MIN_PAYOUT_CREDITS}
+              max={availableBalance}
+              step={1}
+              placeholder={String(availableBalance)}
+              value={payoutAmount}
+              onChange={(e) => setPayoutAmount(e.target.value)}
+            />
+            {formErrors.amount && (
+              <p className="text-xs text-red-500">{formErrors.amount}</p>
+            )}
+            <p className="text-sm text-muted-foreground">
+              Minimum {MIN_PAYOUT_CREDITS.toLocaleString()} credits. You'll receive
+              ${creditsToPrice(Number(payoutAmount) || 0).toFixed(2)}.
+            </p>
+          </div>
+
+          <DialogFooter className="mt-4">
+            <Button variant="outline" onClick={() => setShowPayoutDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={confirmPayout} disabled={payoutMutation.isPending}>
+              {payoutMutation.isPending ? (
+                <>
+                  <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                  Requesting...
+                </>
+              ) : (
+                'Request Payout'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default DeveloperEarnings;
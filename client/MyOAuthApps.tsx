@@ -6,7 +6,9 @@
 import React, { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
-import { OAuthApp } from '../../shared/schema';
+import { AppCategory, OAuthScope, SafeOAuthApp } from '../../shared/schema';
+import { FieldErrors, MAX_APP_TAGS, insertOAuthAppSchema, validate } from '../../shared/validation';
+import { flattenCategoryTree } from '../../shared/categoryTree';
 import { apiRequest } from '@/lib/queryClient';
 
 // UI Components
@@ -20,37 +22,68 @@ import { Separator } from '@/components/ui/separator';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Switch } from '@/components/ui/switch';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 // Icons
-import { AlertCircle, ArrowRight, Check, ChevronDown, Copy, Edit, EyeOff, Eye, Globe, Key, MoreVertical, Plus, RefreshCw, Settings, Shield, Trash2, Zap } from 'lucide-react';
+import { AlertCircle, ArrowRight, Check, ChevronDown, Copy, Edit, EyeOff, Eye, Globe, Key, MoreVertical, Plus, RefreshCw, Settings, Shield, Trash2, X, Zap } from 'lucide-react';
 
 const MyOAuthApps = () => {
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [showNewAppDialog, setShowNewAppDialog] = useState(false);
+  const [showAppDialog, setShowAppDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [showRegenerateCredentialsDialog, setShowRegenerateCredentialsDialog] = useState(false);
-  const [selectedApp, setSelectedApp] = useState<OAuthApp | null>(null);
-  const [showSecrets, setShowSecrets] = useState<Record<number, boolean>>({});
+  const [selectedApp, setSelectedApp] = useState<SafeOAuthApp | null>(null);
+  // App being edited in the app dialog; null when creating a new app
+  const [editingApp, setEditingApp] = useState<SafeOAuthApp | null>(null);
+  const [gracePeriodHours, setGracePeriodHours] = useState(24);
+  // Newly generated credentials, shown exactly once
+  const [revealedCredentials, setRevealedCredentials] = useState<{
+    appName: string;
+    clientId: string;
+    clientSecret: string;
+  } | null>(null);
   
   // Form state for new app
   const [formData, setFormData] = useState({
     name: '',
     description: '',
     homepageUrl: '',
-    callbackUrl: '',
-    logoUrl: ''
+    redirectUris: [''],
+    logoUrl: '',
+    isPublicClient: false,
+    requiredScopes: [] as string[],
+    optionalScopes: [] as string[],
+    categoryId: null as number | null,
+    tags: [] as string[]
   });
+  const [formErrors, setFormErrors] = useState<FieldErrors>({});
+  // Tag being typed, added to formData.tags on Enter or comma
+  const [tagInput, setTagInput] = useState('');
+  const tagsError = Object.entries(formErrors).find(([field]) => field.startsWith('tags'))?.[1];
   
   // Query for user's OAuth apps
   const { data: myApps, isLoading: isLoadingApps } = useQuery({
     queryKey: ['/api/oauth-apps'],
   });
   
+  // Query for the scope catalog
+  const { data: scopeCatalog } = useQuery({
+    queryKey: ['/oauth/scopes'],
+    staleTime: Infinity,
+  });
+  
+  // Query for the marketplace categories
+  const { data: categories } = useQuery<AppCategory[]>({
+    queryKey: ['/api/oauth-apps/marketplace/categories'],
+    staleTime: 300000, // 5 minutes
+  });
+  
   // Mutation to create a new OAuth app
   const createAppMutation = useMutation({
     mutationFn: async (data: typeof formData) => {
@@ -59,10 +92,17 @@ const MyOAuthApps = () => {
         body: JSON.stringify(data)
       });
     },
-    onSuccess: () => {
+    onSuccess: (data: any) => {
       queryClient.invalidateQueries({ queryKey: ['/api/oauth-apps'] });
-      setShowNewAppDialog(false);
+      setShowAppDialog(false);
       resetForm();
+      if (data.clientSecret) {
+        setRevealedCredentials({
+          appName: data.name,
+          clientId: data.clientId,
+          clientSecret: data.clientSecret
+        });
+      }
       toast({
         title: "App Created",
         description: "Your OAuth app has been created successfully",
@@ -77,6 +117,33 @@ const MyOAuthApps = () => {
     }
   });
   
+  // Mutation to update an existing app
+  const updateAppMutation = useMutation({
+    mutationFn: async ({ appId, data }: { appId: number, data: Partial<typeof formData> & { isListed?: boolean } }) => {
+      return apiRequest(`/api/oauth-apps/${appId}`, {
+        method: 'PATCH',
+        body: JSON.stringify(data)
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/oauth-apps'] });
+      setShowAppDialog(false);
+      setEditingApp(null);
+      resetForm();
+      toast({
+        title: "App Updated",
+        description: "Your OAuth app has been updated successfully",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update OAuth app",
+        variant: "destructive",
+      });
+    }
+  });
+  
   // Mutation to publish/unpublish an app
   const publishAppMutation = useMutation({
     mutationFn: async ({ appId, publish }: { appId: number, publish: boolean }) => {
@@ -105,17 +172,23 @@ const MyOAuthApps = () => {
   
   // Mutation to regenerate credentials
   const regenerateCredentialsMutation = useMutation({
-    mutationFn: async (appId: number) => {
+    mutationFn: async ({ appId, gracePeriodHours }: { appId: number, gracePeriodHours: number }) => {
       return apiRequest(`/api/oauth-apps/${appId}/credentials`, {
-        method: 'POST'
+        method: 'POST',
+        body: JSON.stringify({ gracePeriodHours })
       });
     },
-    onSuccess: (_, appId) => {
+    onSuccess: (data: any) => {
       queryClient.invalidateQueries({ queryKey: ['/api/oauth-apps'] });
       setShowRegenerateCredentialsDialog(false);
+      setRevealedCredentials({
+        appName: data.name,
+        clientId: data.clientId,
+        clientSecret: data.clientSecret
+      });
       toast({
-        title: "Credentials Regenerated",
-        description: "New client ID and secret have been generated",
+        title: "Secret Regenerated",
+        description: "A new client secret has been generated",
       });
     },
     onError: (error: any) => {
@@ -158,23 +231,134 @@ const MyOAuthApps = () => {
     setFormData(prev => ({ ...prev, [name]: value }));
   };
   
+  const handleRedirectUriChange = (index: number, value: string) => {
+    const updatedUris = [...formData.redirectUris];
+    updatedUris[index] = value;
+    setFormData(prev => ({ ...prev, redirectUris: updatedUris }));
+  };
+  
+  const addRedirectUriField = () => {
+    setFormData(prev => ({ ...prev, redirectUris: [...prev.redirectUris, ''] }));
+  };
+  
+  const removeRedirectUriField = (index: number) => {
+    const updatedUris = [...formData.redirectUris];
+    updatedUris.splice(index, 1);
+    setFormData(prev => ({ ...prev, redirectUris: updatedUris }));
+  };
+  
+  const handlePublicClientToggle = (checked: boolean) => {
+    setFormData(prev => ({ ...prev, isPublicClient: checked }));
+  };
+  
+  const handleCategoryChange = (value: string) => {
+    setFormData(prev => ({ ...prev, categoryId: value === 'none' ? null : parseInt(value) }));
+  };
+  
+  // Tags are stored lowercase; the schema reports anything else that's wrong on submit
+  const addTag = () => {
+    const tag = tagInput.trim().toLowerCase();
+    if (tag && !formData.tags.includes(tag)) {
+      setFormData(prev => ({ ...prev, tags: [...prev.tags, tag] }));
+    }
+    setTagInput('');
+  };
+  
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag();
+    }
+  };
+  
+  const removeTag = (tag: string) => {
+    setFormData(prev => ({ ...prev, tags: prev.tags.filter(existing => existing !== tag) }));
+  };
+  
+  // A scope is either not requested, optional or required
+  const getScopeMode = (name: string) => {
+    if (formData.requiredScopes.includes(name)) return 'required';
+    if (formData.optionalScopes.includes(name)) return 'optional';
+    return 'none';
+  };
+  
+  const handleScopeModeChange = (name: string, mode: string) => {
+    setFormData(prev => ({
+      ...prev,
+      requiredScopes: mode === 'required'
+        ? [...prev.requiredScopes.filter(scope => scope !== name), name]
+        : prev.requiredScopes.filter(scope => scope !== name),
+      optionalScopes: mode === 'optional'
+        ? [...prev.optionalScopes.filter(scope => scope !== name), name]
+        : prev.optionalScopes.filter(scope => scope !== name)
+    }));
+  };
+  
   const resetForm = () => {
     setFormData({
       name: '',
       description: '',
       homepageUrl: '',
-      callbackUrl: '',
-      logoUrl: ''
+      redirectUris: [''],
+      logoUrl: '',
+      isPublicClient: false,
+      requiredScopes: [],
+      optionalScopes: [],
+      categoryId: null,
+      tags: []
     });
+    setTagInput('');
+    setFormErrors({});
   };
   
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    createAppMutation.mutate(formData);
+    const cleanedData = {
+      ...formData,
+      redirectUris: formData.redirectUris.filter(uri => uri.trim() !== '')
+    };
+    
+    // Same schema the server validates against
+    const result = validate(insertOAuthAppSchema, cleanedData);
+    setFormErrors(result.success ? {} : result.errors);
+    if (!result.success) return;
+    
+    if (editingApp) {
+      updateAppMutation.mutate({ appId: editingApp.id, data: cleanedData });
+    } else {
+      createAppMutation.mutate(cleanedData);
+    }
+  };
+  
+  // Open the app dialog for a new app
+  const handleCreate = () => {
+    setEditingApp(null);
+    resetForm();
+    setShowAppDialog(true);
+  };
+  
+  // Open the app dialog pre-filled with an existing app
+  const handleEdit = (app: SafeOAuthApp) => {
+    setEditingApp(app);
+    setFormData({
+      name: app.name,
+      description: app.description,
+      homepageUrl: app.homepageUrl,
+      redirectUris: [...app.redirectUris],
+      logoUrl: app.logoUrl || '',
+      isPublicClient: app.isPublicClient,
+      requiredScopes: [...app.requiredScopes],
+      optionalScopes: [...app.optionalScopes],
+      categoryId: app.categoryId,
+      tags: [...app.tags]
+    });
+    setTagInput('');
+    setFormErrors({});
+    setShowAppDialog(true);
   };
   
   // Toggle app publishing status
-  const togglePublishStatus = (app: OAuthApp) => {
+  const togglePublishStatus = (app: SafeOAuthApp) => {
     publishAppMutation.mutate({ 
       appId: app.id, 
       publish: !app.isPublished 
@@ -191,7 +375,7 @@ const MyOAuthApps = () => {
   // Regenerate credentials confirmation
   const confirmRegenerateCredentials = () => {
     if (selectedApp) {
-      regenerateCredentialsMutation.mutate(selectedApp.id);
+      regenerateCredentialsMutation.mutate({ appId: selectedApp.id, gracePeriodHours });
     }
   };
   
@@ -203,14 +387,6 @@ const MyOAuthApps = () => {
       description: `${label} copied to clipboard`,
     });
   };
-  
-  // Toggle secret visibility
-  const toggleSecretVisibility = (appId: number) => {
-    setShowSecrets(prev => ({
-      ...prev,
-      [appId]: !prev[appId]
-    }));
-  };
 
   return (
     <div className="container py-8">
@@ -221,7 +397,7 @@ const MyOAuthApps = () => {
             Manage your OAuth applications with quantum-secured protection
           </p>
         </div>
-        <Button onClick={() => setShowNewAppDialog(true)}>
+        <Button onClick={handleCreate}>
           <Plus className="mr-2 h-4 w-4" />
           New App
         </Button>
@@ -234,7 +410,7 @@ const MyOAuthApps = () => {
         </div>
       ) : myApps?.length > 0 ? (
         <div className="grid grid-cols-1 gap-6">
-          {myApps.map((app: OAuthApp) => (
+          {myApps.map((app: SafeOAuthApp) => (
             <Card key={app.id}>
               <CardHeader className="pb-3">
                 <div className="flex items-start justify-between">
@@ -283,21 +459,21 @@ const MyOAuthApps = () => {
                           View in Marketplace
                         </a>
                       </DropdownMenuItem>
-                      <DropdownMenuItem asChild>
-                        <a href={`/oauth-apps/${app.id}/edit`}>
-                          <Edit className="mr-2 h-4 w-4" />
-                          Edit App
-                        </a>
-                      </DropdownMenuItem>
-                      <DropdownMenuItem 
-                        onClick={() => {
-                          setSelectedApp(app);
-                          setShowRegenerateCredentialsDialog(true);
-                        }}
-                      >
-                        <Key className="mr-2 h-4 w-4" />
-                        Regenerate Credentials
+                      <DropdownMenuItem onClick={() => handleEdit(app)}>
+                        <Edit className="mr-2 h-4 w-4" />
+                        Edit App
                       </DropdownMenuItem>
+                      {!app.isPublicClient && (
+                        <DropdownMenuItem 
+                          onClick={() => {
+                            setSelectedApp(app);
+                            setShowRegenerateCredentialsDialog(true);
+                          }}
+                        >
+                          <Key className="mr-2 h-4 w-4" />
+                          Regenerate Secret
+                        </DropdownMenuItem>
+                      )}
                       <DropdownMenuSeparator />
                       <DropdownMenuItem 
                         onClick={() => togglePublishStatus(app)}
@@ -358,20 +534,22 @@ const MyOAuthApps = () => {
                       </div>
                       
                       <div>
-                        <h3 className="text-sm font-medium mb-1">Callback URL</h3>
-                        <div className="flex items-center">
-                          <p className="text-sm text-muted-foreground mr-2 truncate">
-                            {app.callbackUrl}
-                          </p>
-                          <Button 
-                            variant="ghost" 
-                            size="icon" 
-                            className="h-6 w-6"
-                            onClick={() => copyToClipboard(app.callbackUrl, "Callback URL")}
-                          >
-                            <Copy className="h-3 w-3" />
-                          </Button>
-                        </div>
+                        <h3 className="text-sm font-medium mb-1">Redirect URIs</h3>
+                        {app.redirectUris.map(uri => (
+                          <div key={uri} className="flex items-center">
+                            <p className="text-sm text-muted-foreground mr-2 truncate">
+                              {uri}
+                            </p>
+                            <Button 
+                              variant="ghost" 
+                              size="icon" 
+                              className="h-6 w-6"
+                              onClick={() => copyToClipboard(uri, "Redirect URI")}
+                            >
+                              <Copy className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        ))}
                       </div>
                       
                       <div>
@@ -399,19 +577,36 @@ const MyOAuthApps = () => {
                         </Badge>
                       </div>
                       
+                      <div className="md:col-span-2">
+                        <h3 className="text-sm font-medium mb-1">Scopes</h3>
+                        {app.requiredScopes.length + app.optionalScopes.length > 0 ? (
+                          <div className="flex flex-wrap gap-2">
+                            {app.requiredScopes.map(scope => (
+                              <Badge key={scope} className="font-mono">{scope}</Badge>
+                            ))}
+                            {app.optionalScopes.map(scope => (
+                              <Badge key={scope} variant="outline" className="font-mono">{scope} (optional)</Badge>
+                            ))}
+                          </div>
+                        ) : (
+                          <p className="text-sm text-muted-foreground">No scopes requested</p>
+                        )}
+                      </div>
+                      
+                      <div>
+                        <h3 className="text-sm font-medium mb-1">Client Type</h3>
+                        <Badge variant="outline">
+                          {app.isPublicClient ? "Public (PKCE)" : "Confidential"}
+                        </Badge>
+                      </div>
+                      
                       <div>
                         <h3 className="text-sm font-medium mb-1">Listed in Marketplace</h3>
                         <div className="flex items-center">
                           <Switch 
                             checked={app.isListed} 
-                            onCheckedChange={() => {
-                              // This would be a mutation in a real app
-                              toast({
-                                title: app.isListed ? "Unlisted from Marketplace" : "Listed in Marketplace",
-                                description: app.isListed 
-                                  ? "Your app will no longer appear in search results" 
-                                  : "Your app will now appear in marketplace search results",
-                              });
+                            onCheckedChange={(checked) => {
+                              updateAppMutation.mutate({ appId: app.id, data: { isListed: checked } });
                             }} 
                             className="mr-2" 
                           />
@@ -454,51 +649,52 @@ const MyOAuthApps = () => {
                       <div>
                         <h3 className="text-sm font-medium mb-1">Client Secret</h3>
                         <div className="flex items-center">
-                          {app.clientSecret ? (
-                            <>
-                              <p className="font-mono text-sm text-muted-foreground mr-2 truncate">
-                                {showSecrets[app.id] ? app.clientSecret : '••••••••••••••••••••••••••••••••'}
-                              </p>
-                              <Button
-                                variant="ghost"
-                                size="icon"
-                                className="h-6 w-6 mr-1"
-                                onClick={() => toggleSecretVisibility(app.id)}
-                              >
-                                {showSecrets[app.id] ? (
-                                  <EyeOff className="h-3 w-3" />
-                                ) : (
-                                  <Eye className="h-3 w-3" />
-                                )}
-                              </Button>
-                              <Button
-                                variant="ghost"
-                                size="icon"
-                                className="h-6 w-6"
-                                onClick={() => copyToClipboard(app.clientSecret || '', "Client Secret")}
-                              >
-                                <Copy className="h-3 w-3" />
-                              </Button>
-                            </>
+                          {app.isPublicClient ? (
+                            <p className="text-sm text-muted-foreground">
+                              Public client: no secret is used. Authorization requests must use PKCE (S256).
+                            </p>
+                          ) : app.hasClientSecret ? (
+                            <p className="font-mono text-sm text-muted-foreground mr-2 truncate">
+                              ••••••••••••••••••••••••••••••••
+                            </p>
                           ) : (
                             <p className="font-mono text-sm text-muted-foreground">Not generated yet</p>
                           )}
                         </div>
+                        {app.hasClientSecret && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Secrets are stored hashed and only shown once, when generated.
+                          </p>
+                        )}
                       </div>
                       
-                      <div className="pt-2">
-                        <Button 
-                          variant="outline" 
-                          size="sm"
-                          onClick={() => {
-                            setSelectedApp(app);
-                            setShowRegenerateCredentialsDialog(true);
-                          }}
-                        >
-                          <RefreshCw className="mr-2 h-3 w-3" />
-                          Regenerate Credentials
-                        </Button>
-                      </div>
+                      {app.previousClientSecretExpiresAt && new Date(app.previousClientSecretExpiresAt) > new Date() && (
+                        <Alert>
+                          <AlertCircle className="h-4 w-4" />
+                          <AlertTitle>Previous Secret Still Active</AlertTitle>
+                          <AlertDescription>
+                            The previous client secret keeps working until{' '}
+                            {new Date(app.previousClientSecretExpiresAt).toLocaleString()}.
+                            Update your integrations before then.
+                          </AlertDescription>
+                        </Alert>
+                      )}
+                      
+                      {!app.isPublicClient && (
+                        <div className="pt-2">
+                          <Button 
+                            variant="outline" 
+                            size="sm"
+                            onClick={() => {
+                              setSelectedApp(app);
+                              setShowRegenerateCredentialsDialog(true);
+                            }}
+                          >
+                            <RefreshCw className="mr-2 h-3 w-3" />
+                            {app.hasClientSecret ? 'Regenerate Secret' : 'Generate Secret'}
+                          </Button>
+                        </div>
+                      )}
                     </div>
                   </TabsContent>
                   
@@ -557,11 +753,9 @@ const MyOAuthApps = () => {
                   <span>Quantum protected</span>
                 </div>
                 
-                <Button variant="outline" size="sm" asChild>
-                  <a href={`/oauth-apps/${app.id}/edit`}>
-                    <Settings className="mr-2 h-4 w-4" />
-                    Manage App
-                  </a>
+                <Button variant="outline" size="sm" onClick={() => handleEdit(app)}>
+                  <Settings className="mr-2 h-4 w-4" />
+                  Manage App
                 </Button>
               </CardFooter>
             </Card>
@@ -576,7 +770,7 @@ const MyOAuthApps = () => {
               <p className="text-muted-foreground mb-6">
                 Build secure OAuth applications with quantum-protected credentials and neural security monitoring.
               </p>
-              <Button onClick={() => setShowNewAppDialog(true)}>
+              <Button onClick={handleCreate}>
                 <Plus className="mr-2 h-4 w-4" />
                 New OAuth App
               </Button>
@@ -585,17 +779,19 @@ const MyOAuthApps = () => {
         </Card>
       )}
       
-      {/* New App Dialog */}
-      <Dialog open={showNewAppDialog} onOpenChange={setShowNewAppDialog}>
+      {/* New/Edit App Dialog */}
+      <Dialog open={showAppDialog} onOpenChange={setShowAppDialog}>
         <DialogContent className="sm:max-w-[550px]">
           <DialogHeader>
-            <DialogTitle>Create a New OAuth App</DialogTitle>
+            <DialogTitle>{editingApp ? `Edit ${editingApp.name}` : 'Create a New OAuth App'}</DialogTitle>
             <DialogDescription>
-              Build a secure OAuth application with quantum-protected credentials.
+              {editingApp
+                ? 'Update your OAuth application settings.'
+                : 'Build a secure OAuth application with quantum-protected credentials.'}
             </DialogDescription>
           </DialogHeader>
           
-          <form onSubmit={handleSubmit}>
+          <form onSubmit={handleSubmit} noValidate>
             <div className="grid gap-4 py-4">
               <div className="grid gap-2">
                 <Label htmlFor="name">Application Name</Label>
@@ -607,6 +803,9 @@ const MyOAuthApps = () => {
                   onChange={handleInputChange}
                   required
                 />
+                {formErrors.name && (
+                  <p className="text-xs text-red-500">{formErrors.name}</p>
+                )}
               </div>
               
               <div className="grid gap-2">
@@ -619,6 +818,9 @@ const MyOAuthApps = () => {
                   onChange={handleInputChange}
                   required
                 />
+                {formErrors.description && (
+                  <p className="text-xs text-red-500">{formErrors.description}</p>
+                )}
               </div>
               
               <div className="grid gap-2">
@@ -632,22 +834,51 @@ const MyOAuthApps = () => {
                   onChange={handleInputChange}
                   required
                 />
+                {formErrors.homepageUrl && (
+                  <p className="text-xs text-red-500">{formErrors.homepageUrl}</p>
+                )}
               </div>
               
               <div className="grid gap-2">
-                <Label htmlFor="callbackUrl">Authorization Callback URL</Label>
-                <Input
-                  id="callbackUrl"
-                  name="callbackUrl"
-                  type="url"
-                  placeholder="https://my-app.com/callback"
-                  value={formData.callbackUrl}
-                  onChange={handleInputChange}
-                  required
-                />
+                <Label>Redirect URIs</Label>
                 <p className="text-xs text-muted-foreground">
-                  The callback URL to redirect users after authentication
+                  Where users are sent after authorizing. HTTPS is required except for localhost;
+                  fragments and wildcards are not allowed. Matched exactly.
                 </p>
+                {formData.redirectUris.map((uri, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      type="url"
+                      placeholder="https://my-app.com/callback"
+                      value={uri}
+                      onChange={(e) => handleRedirectUriChange(index, e.target.value)}
+                      required={index === 0}
+                    />
+                    {formData.redirectUris.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeRedirectUriField(index)}
+                        className="flex-shrink-0"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                {formErrors.redirectUris && (
+                  <p className="text-xs text-red-500">{formErrors.redirectUris}</p>
+                )}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={addRedirectUriField}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Redirect URI
+                </Button>
               </div>
               
               <div className="grid gap-2">
@@ -660,29 +891,162 @@ const MyOAuthApps = () => {
                   value={formData.logoUrl}
                   onChange={handleInputChange}
                 />
+                {formErrors.logoUrl && (
+                  <p className="text-xs text-red-500">{formErrors.logoUrl}</p>
+                )}
                 <p className="text-xs text-muted-foreground">
                   A square image URL for your application's logo
                 </p>
               </div>
+              
+              <div className="grid gap-2">
+                <Label htmlFor="categoryId">Category</Label>
+                <Select
+                  value={formData.categoryId === null ? 'none' : String(formData.categoryId)}
+                  onValueChange={handleCategoryChange}
+                >
+                  <SelectTrigger id="categoryId">
+                    <SelectValue placeholder="Choose a category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No category</SelectItem>
+                    {flattenCategoryTree(categories ?? []).map(({ category, depth }) => (
+                      <SelectItem key={category.id} value={String(category.id)}>
+                        <span style={{ paddingLeft: `${depth}rem` }}>{category.name}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {formErrors.categoryId && (
+                  <p className="text-xs text-red-500">{formErrors.categoryId}</p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Where your app appears when users browse the marketplace
+                </p>
+              </div>
+              
+              <div className="grid gap-2">
+                <Label htmlFor="tagInput">Tags (optional)</Label>
+                {formData.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {formData.tags.map(tag => (
+                      <Badge key={tag} variant="secondary" className="gap-1">
+                        {tag}
+                        <button type="button" onClick={() => removeTag(tag)} aria-label={`Remove ${tag}`}>
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                <Input
+                  id="tagInput"
+                  placeholder="e.g. analytics"
+                  value={tagInput}
+                  onChange={(e) => setTagInput(e.target.value)}
+                  onKeyDown={handleTagKeyDown}
+                  onBlur={addTag}
+                  disabled={formData.tags.length >= MAX_APP_TAGS}
+                />
+                {tagsError && (
+                  <p className="text-xs text-red-500">{tagsError}</p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Press Enter to add a tag, up to {MAX_APP_TAGS}. Letters, numbers and hyphens only.
+                </p>
+              </div>
+              
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="isPublicClient" className="block mb-1">Public Client</Label>
+                  <p className="text-xs text-muted-foreground">
+                    For SPAs and CLIs that cannot keep a client secret. Requires PKCE (S256).
+                  </p>
+                  {editingApp && !editingApp.isPublicClient && formData.isPublicClient && (
+                    <p className="text-xs text-red-500 mt-1">
+                      Saving will permanently delete this app's client secret.
+                    </p>
+                  )}
+                </div>
+                <Switch
+                  id="isPublicClient"
+                  checked={formData.isPublicClient}
+                  onCheckedChange={handlePublicClientToggle}
+                />
+              </div>
+              
+              <Separator />
+              
+              <div className="grid gap-2">
+                <Label>Scopes</Label>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Required scopes are always granted; users may decline optional ones
+                </p>
+                <ScrollArea className="h-[200px] pr-4">
+                  {scopeCatalog?.map((scope: OAuthScope) => (
+                    <div key={scope.name} className="flex items-start justify-between gap-3 mb-3">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-mono text-sm">{scope.name}</span>
+                          {scope.sensitivity === 'high' && (
+                            <Badge variant="destructive">Sensitive</Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground">{scope.description}</p>
+                      </div>
+                      <RadioGroup
+                        value={getScopeMode(scope.name)}
+                        onValueChange={(mode) => handleScopeModeChange(scope.name, mode)}
+                        className="flex space-x-2 flex-shrink-0"
+                      >
+                        {['none', 'optional', 'required'].map(mode => (
+                          <div key={mode} className="flex items-center space-x-1">
+                            <RadioGroupItem value={mode} id={`scope-${scope.name}-${mode}`} />
+                            <Label htmlFor={`scope-${scope.name}-${mode}`} className="cursor-pointer text-xs capitalize">
+                              {mode === 'none' ? 'Off' : mode}
+                            </Label>
+                          </div>
+                        ))}
+                      </RadioGroup>
+                    </div>
+                  ))}
+                </ScrollArea>
+              </div>
             </div>
             
             <DialogFooter>
-              <Button variant="outline" type="button" onClick={() => setShowNewAppDialog(false)}>
+              <Button variant="outline" type="button" onClick={() => setShowAppDialog(false)}>
                 Cancel
               </Button>
-              <Button type="submit" disabled={createAppMutation.isPending}>
-                {createAppMutation.isPending ? (
-                  <>
-                    <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
-                    Creating...
-                  </>
-                ) : (
-                  <>
-                    Create App
-                    <ArrowRight className="ml-2 h-4 w-4" />
-                  </>
-                )}
-              </Button>
+              {editingApp ? (
+                <Button type="submit" disabled={updateAppMutation.isPending}>
+                  {updateAppMutation.isPending ? (
+                    <>
+                      <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>
+                      <Check className="mr-2 h-4 w-4" />
+                      Save Changes
+                    </>
+                  )}
+                </Button>
+              ) : (
+                <Button type="submit" disabled={createAppMutation.isPending}>
+                  {createAppMutation.isPending ? (
+                    <>
+                      <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                      Creating...
+                    </>
+                  ) : (
+                    <>
+                      Create App
+                      <ArrowRight className="ml-2 h-4 w-4" />
+                    </>
+                  )}
+                </Button>
+              )}
             </DialogFooter>
           </form>
         </DialogContent>
@@ -738,10 +1102,9 @@ const MyOAuthApps = () => {
       <Dialog open={showRegenerateCredentialsDialog} onOpenChange={setShowRegenerateCredentialsDialog}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Regenerate Client Credentials</DialogTitle>
+            <DialogTitle>Regenerate Client Secret</DialogTitle>
             <DialogDescription>
-              Are you sure you want to regenerate client credentials for this app?
-              This will invalidate all existing credentials.
+              A new client secret will be generated. The client ID stays the same.
             </DialogDescription>
           </DialogHeader>
           
@@ -750,12 +1113,27 @@ const MyOAuthApps = () => {
               <AlertCircle className="h-4 w-4" />
               <AlertTitle className="font-medium">Important</AlertTitle>
               <AlertDescription>
-                Regenerating credentials for <strong>{selectedApp.name}</strong> will require 
-                updating your application's configuration with the new credentials.
+                Update <strong>{selectedApp.name}</strong>'s configuration with the new secret before
+                the grace period ends. After that, the current secret stops working.
               </AlertDescription>
             </Alert>
           )}
           
+          <div className="grid gap-2 mt-2">
+            <Label htmlFor="gracePeriodHours">Grace Period (hours)</Label>
+            <Input
+              id="gracePeriodHours"
+              type="number"
+              min="0"
+              max="168"
+              value={gracePeriodHours}
+              onChange={(e) => setGracePeriodHours(parseInt(e.target.value) || 0)}
+            />
+            <p className="text-xs text-muted-foreground">
+              How long the current secret stays valid alongside the new one. Use 0 to revoke it immediately.
+            </p>
+          </div>
+          
           <DialogFooter className="mt-4">
             <Button variant="outline" onClick={() => setShowRegenerateCredentialsDialog(false)}>
               Cancel
@@ -772,13 +1150,77 @@ const MyOAuthApps = () => {
               ) : (
                 <>
                   <Key className="mr-2 h-4 w-4" />
-                  Regenerate Credentials
+                  Regenerate Secret
                 </>
               )}
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
+      
+      {/* New Credentials Dialog */}
+      <Dialog open={!!revealedCredentials} onOpenChange={(open) => !open && setRevealedCredentials(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save Your Client Secret</DialogTitle>
+            <DialogDescription>
+              Credentials for {revealedCredentials?.appName}
+            </DialogDescription>
+          </DialogHeader>
+          
+          <Alert variant="destructive" className="mt-2">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle className="font-medium">This is the only time the secret is shown</AlertTitle>
+            <AlertDescription>
+              Copy it now and store it securely. If you lose it, you will need to generate a new one.
+            </AlertDescription>
+          </Alert>
+          
+          {revealedCredentials && (
+            <div className="space-y-4 mt-2">
+              <div>
+                <h3 className="text-sm font-medium mb-1">Client ID</h3>
+                <div className="flex items-center">
+                  <p className="font-mono text-sm text-muted-foreground mr-2 break-all">
+                    {revealedCredentials.clientId}
+                  </p>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 flex-shrink-0"
+                    onClick={() => copyToClipboard(revealedCredentials.clientId, "Client ID")}
+                  >
+                    <Copy className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+              <div>
+                <h3 className="text-sm font-medium mb-1">Client Secret</h3>
+                <div className="flex items-center">
+                  <p className="font-mono text-sm text-muted-foreground mr-2 break-all">
+                    {revealedCredentials.clientSecret}
+                  </p>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 flex-shrink-0"
+                    onClick={() => copyToClipboard(revealedCredentials.clientSecret, "Client Secret")}
+                  >
+                    <Copy className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+          
+          <DialogFooter className="mt-4">
+            <Button onClick={() => setRevealedCredentials(null)}>
+              <Check className="mr-2 h-4 w-4" />
+              I've Saved It
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
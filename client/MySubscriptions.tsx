@@ -0,0 +1,699 @@
+/**
+ * My Subscriptions Component
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { PricingPlan, ProrationPreview, SubscriptionDetails, SubscriptionStatus, UsageInvoice } from '../../shared/schema';
+import { MANAGEABLE_SUBSCRIPTION_STATUSES } from '../../shared/subscriptionLifecycle';
+import { isPaidWithCredits } from '../../shared/credits';
+import { formatPlanPrice } from '../../shared/planOffers';
+import { isFreePlan, isPlanForSale } from '../../shared/planPricing';
+import { describeDiscount } from '../../shared/coupons';
+import { formatMinorUnits, getDisplayCurrency, getLocaleCountry, getLocaleCurrency, getPlanPriceIn } from '../../shared/currency';
+import { MAX_SEATS } from '../../shared/validation';
+import { apiRequest } from '@/lib/queryClient';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+
+// Icons
+import { AlertCircle, ArrowRightLeft, CreditCard, ReceiptText, RefreshCw, RotateCcw, Users, XCircle } from 'lucide-react';
+
+const STATUS_LABELS: Record<SubscriptionStatus, string> = {
+  pending: 'Awaiting payment',
+  trialing: 'Trial',
+  active: 'Active',
+  past_due: 'Past due',
+  canceled: 'Canceled',
+  expired: 'Expired'
+};
+
+const formatDate = (date: Date | string | null) => date ? new Date(date).toLocaleDateString() : '—';
+
+// Still paying the introductory price the subscription started with
+const hasIntroPrice = (subscription: SubscriptionDetails) =>
+  subscription.introPrice !== null && !!subscription.introEndsAt && new Date(subscription.introEndsAt) > new Date();
+
+// The plan's price in the currency the subscription is billed in
+const formatBilledPrice = (plan: PricingPlan, currency: string) =>
+  formatPlanPrice(plan, getPlanPriceIn(plan, currency) ?? plan.price, currency);
+
+// Still getting the coupon discount locked in at checkout
+const hasDiscount = (subscription: SubscriptionDetails) =>
+  subscription.discountType !== null && subscription.discountValue !== null &&
+  (!subscription.discountEndsAt || new Date(subscription.discountEndsAt) > new Date());
+
+const MySubscriptions = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedSubscription, setSelectedSubscription] = useState<SubscriptionDetails | null>(null);
+  const [showChangePlanDialog, setShowChangePlanDialog] = useState(false);
+  const [showCancelDialog, setShowCancelDialog] = useState(false);
+  const [showSeatsDialog, setShowSeatsDialog] = useState(false);
+  const [targetPlanId, setTargetPlanId] = useState<number | null>(null);
+  const [targetSeats, setTargetSeats] = useState(1);
+  const [cancelAtPeriodEnd, setCancelAtPeriodEnd] = useState(true);
+  // Where a move to a paid plan through checkout is billed, for tax
+  const [billingCountry, setBillingCountry] = useState(getLocaleCountry(navigator.language) ?? '');
+  const [billingRegion, setBillingRegion] = useState('');
+
+  // Query for the user's subscriptions
+  const { data: subscriptions, isLoading } = useQuery<SubscriptionDetails[]>({
+    queryKey: ['/api/subscriptions'],
+  });
+
+  // Plans the selected subscription can switch to
+  const { data: appPlans } = useQuery<PricingPlan[]>({
+    queryKey: ['/api/oauth-apps', String(selectedSubscription?.appId), 'pricing-plans'],
+    enabled: showChangePlanDialog && !!selectedSubscription,
+  });
+  // Paid subscriptions keep the currency they were bought in; moving off a free
+  // plan goes through checkout in the currency for the user's locale
+  const getBillingCurrency = (plan: PricingPlan) =>
+    selectedSubscription && !isFreePlan(selectedSubscription.plan)
+      ? selectedSubscription.currency
+      : getDisplayCurrency(plan, getLocaleCurrency(navigator.language));
+  const otherPlans = appPlans?.filter(plan => plan.id !== selectedSubscription?.planId && isPlanForSale(plan) &&
+    getPlanPriceIn(plan, getBillingCurrency(plan)) !== null) ?? [];
+  const targetPlan = otherPlans.find(plan => plan.id === targetPlanId) ?? null;
+
+  // Free subscriptions have no payment method on file, so paid plans go through checkout
+  const needsCheckout = !!targetPlan && !isFreePlan(targetPlan) && !!selectedSubscription &&
+    !selectedSubscription.providerSubscriptionId && !isPaidWithCredits(selectedSubscription);
+
+  // Prorated cost of the switch
+  const { data: proration, isLoading: isLoadingProration } = useQuery<ProrationPreview>({
+    queryKey: ['/api/subscriptions', selectedSubscription?.id, 'proration', targetPlanId],
+    queryFn: async () => apiRequest(
+      `/api/subscriptions/${selectedSubscription!.id}/proration?planId=${targetPlanId}`,
+      { method: 'GET' }
+    ),
+    enabled: !!selectedSubscription && !!targetPlan && !needsCheckout,
+  });
+
+  // Prorated cost of adding or removing seats
+  const seatsChanged = !!selectedSubscription && targetSeats !== selectedSubscription.seats;
+  const { data: seatProration, isLoading: isLoadingSeatProration } = useQuery<ProrationPreview>({
+    queryKey: ['/api/subscriptions', selectedSubscription?.id, 'seats', 'proration', targetSeats],
+    queryFn: async () => apiRequest(
+      `/api/subscriptions/${selectedSubscription!.id}/seats/proration?seats=${targetSeats}`,
+      { method: 'GET' }
+    ),
+    enabled: showSeatsDialog && seatsChanged,
+  });
+
+  const onMutationError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  // Mutation to switch plans
+  const changePlanMutation = useMutation({
+    mutationFn: async ({ subscriptionId, planId }: { subscriptionId: number; planId: number }) => {
+      return apiRequest(`/api/subscriptions/${subscriptionId}/change-plan`, {
+        method: 'POST',
+        body: JSON.stringify({ planId })
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/subscriptions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/wallet'] });
+      setShowChangePlanDialog(false);
+      toast({
+        title: "Plan Changed",
+        description: `You're now on the ${targetPlan?.name} plan`,
+      });
+    },
+    onError: onMutationError("Failed to change plan")
+  });
+
+  // Mutation to change the number of seats
+  const changeSeatsMutation = useMutation({
+    mutationFn: async ({ subscriptionId, seats }: { subscriptionId: number; seats: number }) => {
+      return apiRequest(`/api/subscriptions/${subscriptionId}/seats`, {
+        method: 'POST',
+        body: JSON.stringify({ seats })
+      });
+    },
+    onSuccess: (_data, { seats }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/subscriptions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/wallet'] });
+      setShowSeatsDialog(false);
+      toast({
+        title: "Seats Updated",
+        description: `Your subscription now has ${seats} ${seats === 1 ? 'seat' : 'seats'}`,
+      });
+    },
+    onError: onMutationError("Failed to change seats")
+  });
+
+  // Mutation to move from a free plan to a paid one through checkout
+  const checkoutMutation = useMutation({
+    mutationFn: async ({ appId, planId, currency }: { appId: number; planId: number; currency: string }) => {
+      return apiRequest('/api/subscriptions/checkout', {
+        method: 'POST',
+        body: JSON.stringify({ appId, planId, currency, billingCountry, billingRegion: billingRegion || null })
+      });
+    },
+    onSuccess: (data: { checkoutUrl: string | null }) => {
+      if (data.checkoutUrl) {
+        window.location.href = data.checkoutUrl;
+      }
+    },
+    onError: onMutationError("Failed to start checkout")
+  });
+
+  // Mutation to cancel a subscription
+  const cancelMutation = useMutation({
+    mutationFn: async ({ subscriptionId, atPeriodEnd }: { subscriptionId: number; atPeriodEnd: boolean }) => {
+      return apiRequest(`/api/subscriptions/${subscriptionId}/cancel`, {
+        method: 'POST',
+        body: JSON.stringify({ atPeriodEnd })
+      });
+    },
+    onSuccess: (_data, { atPeriodEnd }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/subscriptions'] });
+      setShowCancelDialog(false);
+      toast({
+        title: "Subscription Canceled",
+        description: atPeriodEnd
+          ? `You'll keep access until ${formatDate(selectedSubscription?.currentPeriodEnd ?? null)}`
+          : "Your subscription has ended",
+      });
+    },
+    onError: onMutationError("Failed to cancel subscription")
+  });
+
+  // Mutation to undo a scheduled cancellation
+  const resumeMutation = useMutation({
+    mutationFn: async (subscriptionId: number) => {
+      return apiRequest(`/api/subscriptions/${subscriptionId}/resume`, {
+        method: 'POST'
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/subscriptions'] });
+      toast({
+        title: "Subscription Resumed",
+        description: "Your subscription will renew as usual",
+      });
+    },
+    onError: onMutationError("Failed to resume subscription")
+  });
+
+  const openChangePlan = (subscription: SubscriptionDetails) => {
+    setSelectedSubscription(subscription);
+    setTargetPlanId(null);
+    setShowChangePlanDialog(true);
+  };
+
+  const openChangeSeats = (subscription: SubscriptionDetails) => {
+    setSelectedSubscription(subscription);
+    setTargetSeats(subscription.seats);
+    setShowSeatsDialog(true);
+  };
+
+  const openCancel = (subscription: SubscriptionDetails) => {
+    setSelectedSubscription(subscription);
+    // Past due subscriptions have no paid period left to run out
+    setCancelAtPeriodEnd(subscription.status !== 'past_due');
+    setShowCancelDialog(true);
+  };
+
+  const confirmChangePlan = () => {
+    if (!selectedSubscription || !targetPlan) return;
+    if (needsCheckout) {
+      checkoutMutation.mutate({
+        appId: selectedSubscription.appId,
+        planId: targetPlan.id,
+        currency: getBillingCurrency(targetPlan)
+      });
+    } else {
+      changePlanMutation.mutate({ subscriptionId: selectedSubscription.id, planId: targetPlan.id });
+    }
+  };
+
+  const confirmChangeSeats = () => {
+    if (selectedSubscription && seatsChanged) {
+      changeSeatsMutation.mutate({ subscriptionId: selectedSubscription.id, seats: targetSeats });
+    }
+  };
+
+  const confirmCancel = () => {
+    if (selectedSubscription) {
+      cancelMutation.mutate({ subscriptionId: selectedSubscription.id, atPeriodEnd: cancelAtPeriodEnd });
+    }
+  };
+
+  return (
+    <div className="container py-8">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">My Subscriptions</h1>
+          <p className="text-muted-foreground mt-2">
+            Change plans, cancel or resume your app subscriptions
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <a href="/billing">
+            <ReceiptText className="mr-2 h-4 w-4" />
+            Billing History
+          </a>
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-16">
+          <RefreshCw className="h-10 w-10 animate-spin mx-auto mb-4" />
+          <p>Loading subscriptions...</p>
+        </div>
+      ) : subscriptions && subscriptions.length > 0 ? (
+        <div className="grid grid-cols-1 gap-6">
+          {subscriptions.map(subscription => {
+            const manageable = MANAGEABLE_SUBSCRIPTION_STATUSES.includes(subscription.status);
+            return (
+              <Card key={subscription.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      {subscription.app.logoUrl ? (
+                        <img
+                          src={subscription.app.logoUrl}
+                          alt={`${subscription.app.name} logo`}
+                          className="h-10 w-10 rounded"
+                        />
+                      ) : (
+                        <div className="h-10 w-10 rounded bg-primary/10 flex items-center justify-center">
+                          <span className="text-primary font-bold">
+                            {subscription.app.name.charAt(0)}
+                          </span>
+                        </div>
+                      )}
+                      <div>
+                        <CardTitle>
+                          <a href={`/oauth-apps/${subscription.app.id}`} className="hover:underline">
+                            {subscription.app.name}
+                          </a>
+                        </CardTitle>
+                        <CardDescription className="mt-1">
+                          {subscription.plan.name} · {hasIntroPrice(subscription)
+                            ? `${formatPlanPrice(subscription.plan, subscription.introPrice!, subscription.currency)} until ${formatDate(subscription.introEndsAt)}, then ${formatBilledPrice(subscription.plan, subscription.currency)}`
+                            : formatBilledPrice(subscription.plan, subscription.currency)}
+                          {subscription.plan.pricingModel === 'per_seat' &&
+                            ` · ${subscription.seats} ${subscription.seats === 1 ? 'seat' : 'seats'}`}
+                          {hasDiscount(subscription) && ` · ${describeDiscount({
+                            discountType: subscription.discountType!,
+                            discountValue: subscription.discountValue!
+                          }, subscription.currency)}${subscription.discountEndsAt ? ` until ${formatDate(subscription.discountEndsAt)}` : ''}`}
+                          {isPaidWithCredits(subscription) && ' · Paid with credits'}
+                        </CardDescription>
+                      </div>
+                    </div>
+                    <Badge variant={subscription.status === 'past_due' ? 'destructive' : manageable ? 'default' : 'outline'}>
+                      {STATUS_LABELS[subscription.status]}
+                    </Badge>
+                  </div>
+                </CardHeader>
+
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <h3 className="text-sm font-medium mb-1">Started</h3>
+                      <p className="text-sm text-muted-foreground">{formatDate(subscription.startDate)}</p>
+                    </div>
+                    <div>
+                      <h3 className="text-sm font-medium mb-1">Current Period</h3>
+                      <p className="text-sm text-muted-foreground">
+                        {formatDate(subscription.currentPeriodStart)} – {formatDate(subscription.currentPeriodEnd)}
+                      </p>
+                    </div>
+                    <div>
+                      <h3 className="text-sm font-medium mb-1">
+                        {subscription.cancelAtPeriodEnd
+                          ? 'Cancels On'
+                          : subscription.status === 'trialing' ? 'Trial Ends' : manageable ? 'Renews On' : 'Ended'}
+                      </h3>
+                      <p className="text-sm text-muted-foreground">
+                        {formatDate(manageable && !subscription.cancelAtPeriodEnd
+                          ? subscription.currentPeriodEnd
+                          : subscription.endDate)}
+                      </p>
+                    </div>
+                  </div>
+
+                  {subscription.plan.pricingModel === 'metered' &&
+                    (subscription.status === 'active' || subscription.status === 'trialing') && (
+                    <CurrentUsage subscription={subscription} />
+                  )}
+
+                  {subscription.migrationPlan && subscription.migratesAt && (
+                    <Alert className="mt-4">
+                      <ArrowRightLeft className="h-4 w-4" />
+                      <AlertTitle>Your plan is changing</AlertTitle>
+                      <AlertDescription>
+                        The developer is moving you to {subscription.migrationPlan.name} ({formatBilledPrice(subscription.migrationPlan, subscription.currency)})
+                        on {formatDate(subscription.migratesAt)}. Cancel or switch plans before then to keep it from changing.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {subscription.status === 'past_due' && (
+                    <Alert variant="destructive" className="mt-4">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertTitle>Payment failed</AlertTitle>
+                      <AlertDescription>
+                        {isPaidWithCredits(subscription)
+                          ? <>Your wallet couldn't cover the renewal. <a href="/wallet" className="underline">Buy credits</a> to keep this subscription.</>
+                          : 'Update your payment method with the payment provider to keep this subscription.'}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                </CardContent>
+
+                {manageable && (
+                  <CardFooter className="flex justify-end gap-2">
+                    {subscription.cancelAtPeriodEnd ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => resumeMutation.mutate(subscription.id)}
+                        disabled={resumeMutation.isPending}
+                      >
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        Resume
+                      </Button>
+                    ) : (
+                      <Button variant="outline" size="sm" onClick={() => openCancel(subscription)}>
+                        <XCircle className="mr-2 h-4 w-4" />
+                        Cancel
+                      </Button>
+                    )}
+                    {subscription.status !== 'past_due' && subscription.plan.pricingModel === 'per_seat' && (
+                      <Button variant="outline" size="sm" onClick={() => openChangeSeats(subscription)}>
+                        <Users className="mr-2 h-4 w-4" />
+                        Change Seats
+                      </Button>
+                    )}
+                    {subscription.status !== 'past_due' && (
+                      <Button size="sm" onClick={() => openChangePlan(subscription)}>
+                        <ArrowRightLeft className="mr-2 h-4 w-4" />
+                        Change Plan
+                      </Button>
+                    )}
+                  </CardFooter>
+                )}
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="pt-10 pb-10">
+            <div className="text-center max-w-md mx-auto">
+              <CreditCard className="mx-auto h-12 w-12 text-primary mb-4" />
+              <h3 className="text-xl font-medium mb-2">No Subscriptions</h3>
+              <p className="text-muted-foreground mb-6">
+                Plans you subscribe to in the marketplace will appear here.
+              </p>
+              <Button asChild>
+                <a href="/oauth-apps">Browse Marketplace</a>
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Change Plan Dialog */}
+      <Dialog open={showChangePlanDialog} onOpenChange={setShowChangePlanDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Change Plan</DialogTitle>
+            <DialogDescription>
+              Switch {selectedSubscription?.app.name} from the {selectedSubscription?.plan.name} plan.
+              The change takes effect immediately.
+              {selectedSubscription && hasIntroPrice(selectedSubscription) &&
+                ' Switching ends your introductory price.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {otherPlans.length > 0 ? (
+            <RadioGroup
+              value={targetPlanId ? String(targetPlanId) : ''}
+              onValueChange={(value) => setTargetPlanId(parseInt(value))}
+              className="space-y-2"
+            >
+              {otherPlans.map(plan => (
+                <div key={plan.id} className="flex items-center space-x-2">
+                  <RadioGroupItem value={String(plan.id)} id={`plan-${plan.id}`} />
+                  <Label htmlFor={`plan-${plan.id}`}>
+                    {plan.name} · {formatBilledPrice(plan, getBillingCurrency(plan))}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          ) : (
+            <p className="text-sm text-muted-foreground">This app has no other plans.</p>
+          )}
+
+          {needsCheckout ? (
+            <Alert>
+              <CreditCard className="h-4 w-4" />
+              <AlertTitle>Payment required</AlertTitle>
+              <AlertDescription>
+                You'll be taken to checkout. Your free plan ends when you start the new subscription.
+                <div className="grid grid-cols-2 gap-2 mt-3">
+                  <div className="grid gap-1">
+                    <Label htmlFor="billing-country">Country</Label>
+                    <Input
+                      id="billing-country"
+                      placeholder="US"
+                      maxLength={2}
+                      value={billingCountry}
+                      onChange={(e) => setBillingCountry(e.target.value.toUpperCase())}
+                    />
+                  </div>
+                  <div className="grid gap-1">
+                    <Label htmlFor="billing-region">State or region (optional)</Label>
+                    <Input
+                      id="billing-region"
+                      placeholder="CA"
+                      maxLength={3}
+                      value={billingRegion}
+                      onChange={(e) => setBillingRegion(e.target.value.toUpperCase())}
+                    />
+                  </div>
+                </div>
+              </AlertDescription>
+            </Alert>
+          ) : targetPlan && (
+            <div className="rounded-md border p-4 text-sm space-y-1">
+              {isLoadingProration || !proration ? (
+                <p className="text-muted-foreground">Calculating...</p>
+              ) : (
+                <>
+                  <div className="flex justify-between">
+                    <span>Credit for unused time</span>
+                    <span>−{formatMinorUnits(proration.currentPlanCredit, getBillingCurrency(targetPlan))}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>{targetPlan.name} until {formatDate(proration.periodEnd)}</span>
+                    <span>{formatMinorUnits(proration.newPlanCharge, getBillingCurrency(targetPlan))}</span>
+                  </div>
+                  <div className="flex justify-between font-medium pt-1 border-t">
+                    <span>{proration.amountDue < 0 ? 'Credited to you' : 'Due now'}</span>
+                    <span>{formatMinorUnits(Math.abs(proration.amountDue), getBillingCurrency(targetPlan))}</span>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          <DialogFooter className="mt-4">
+            <Button variant="outline" onClick={() => setShowChangePlanDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={confirmChangePlan}
+              disabled={
+                !targetPlan || (needsCheckout && billingCountry.trim().length !== 2) ||
+                changePlanMutation.isPending || checkoutMutation.isPending
+              }
+            >
+              {changePlanMutation.isPending || checkoutMutation.isPending ? (
+                <>
+                  <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                  Switching...
+                </>
+              ) : needsCheckout ? 'Continue to Payment' : 'Confirm Change'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Change Seats Dialog */}
+      <Dialog open={showSeatsDialog} onOpenChange={setShowSeatsDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Change Seats</DialogTitle>
+            <DialogDescription>
+              Add or remove seats on your {selectedSubscription?.plan.name} plan for {selectedSubscription?.app.name}.
+              The change takes effect immediately.
+              {selectedSubscription && hasIntroPrice(selectedSubscription) &&
+                ' Changing seats ends your introductory price.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-2">
+            <Label htmlFor="target-seats">Seats</Label>
+            <Input
+              id="target-seats"
+              type="number"
+              step="1"
+              min="1"
+              max={MAX_SEATS}
+              value={targetSeats}
+              onChange={(e) => setTargetSeats(Math.min(MAX_SEATS, Math.max(1, parseInt(e.target.value) || 1)))}
+            />
+          </div>
+
+          {seatsChanged && (
+            <div className="rounded-md border p-4 text-sm space-y-1">
+              {isLoadingSeatProration || !seatProration ? (
+                <p className="text-muted-foreground">Calculating...</p>
+              ) : (
+                <>
+                  <div className="flex justify-between">
+                    <span>Credit for unused time</span>
+                    <span>−{formatMinorUnits(seatProration.currentPlanCredit, selectedSubscription!.currency)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>{targetSeats} seats until {formatDate(seatProration.periodEnd)}</span>
+                    <span>{formatMinorUnits(seatProration.newPlanCharge, selectedSubscription!.currency)}</span>
+                  </div>
+                  <div className="flex justify-between font-medium pt-1 border-t">
+                    <span>{seatProration.amountDue < 0 ? 'Credited to you' : 'Due now'}</span>
+                    <span>{formatMinorUnits(Math.abs(seatProration.amountDue), selectedSubscription!.currency)}</span>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          <DialogFooter className="mt-4">
+            <Button variant="outline" onClick={() => setShowSeatsDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={confirmChangeSeats} disabled={!seatsChanged || changeSeatsMutation.isPending}>
+              {changeSeatsMutation.isPending ? (
+                <>
+                  <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                  Updating...
+                </>
+              ) : 'Confirm Change'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Cancel Dialog */}
+      <Dialog open={showCancelDialog} onOpenChange={setShowCancelDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Subscription</DialogTitle>
+            <DialogDescription>
+              Cancel your {selectedSubscription?.plan.name} plan for {selectedSubscription?.app.name}.
+            </DialogDescription>
+          </DialogHeader>
+
+          <RadioGroup
+            value={cancelAtPeriodEnd ? 'period-end' : 'now'}
+            onValueChange={(value) => setCancelAtPeriodEnd(value === 'period-end')}
+            className="space-y-2"
+          >
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem
+                value="period-end"
+                id="cancel-period-end"
+                disabled={selectedSubscription?.status === 'past_due'}
+              />
+              <Label htmlFor="cancel-period-end">
+                At the end of the period ({formatDate(selectedSubscription?.currentPeriodEnd ?? null)})
+              </Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="now" id="cancel-now" />
+              <Label htmlFor="cancel-now">Immediately</Label>
+            </div>
+          </RadioGroup>
+
+          {!cancelAtPeriodEnd && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Access ends now</AlertTitle>
+              <AlertDescription>
+                The rest of the current period is not refunded.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <DialogFooter className="mt-4">
+            <Button variant="outline" onClick={() => setShowCancelDialog(false)}>
+              Keep Subscription
+            </Button>
+            <Button variant="destructive" onClick={confirmCancel} disabled={cancelMutation.isPending}>
+              {cancelMutation.isPending ? (
+                <>
+                  <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                  Canceling...
+                </>
+              ) : (
+                'Cancel Subscription'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+// Usage so far in the current period of a metered subscription, priced through the plan's tiers
+const CurrentUsage = ({ subscription }: { subscription: SubscriptionDetails }) => {
+  const { data: usage, isLoading } = useQuery<UsageInvoice>({
+    queryKey: ['/api/subscriptions', subscription.id, 'usage'],
+    queryFn: async () => apiRequest(`/api/subscriptions/${subscription.id}/usage`, { method: 'GET' }),
+  });
+
+  return (
+    <div className="mt-4 rounded-md border p-4 text-sm">
+      <h3 className="font-medium mb-1">Usage This Period</h3>
+      {isLoading || !usage ? (
+        <p className="text-muted-foreground">Loading usage...</p>
+      ) : (
+        <div className="flex justify-between">
+          <span>
+            {usage.quantity.toLocaleString()} × {usage.usageUnit} since {formatDate(usage.periodStart)}
+          </span>
+          <span>
+            {subscription.status === 'trialing' ? 'Free during trial' : `${formatMinorUnits(usage.amount, subscription.currency)} so far`}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MySubscriptions;
@@ -3,11 +3,27 @@
  * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
  */
 
-import React, { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
 import { useParams } from 'wouter';
-import { OAuthApp, PricingPlan, AppReview } from '../../shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { OAuthApp, OAuthScope, PricingPlan, AppReview, AppSubscription, CouponPreview } from '../../shared/schema';
+import { MANAGEABLE_SUBSCRIPTION_STATUSES } from '../../shared/subscriptionLifecycle';
+import { CREDITS_CURRENCY, priceToCredits } from '../../shared/credits';
+import { describeIntroOffer, describePlanOffers, describeTrial, describeUsageTiers } from '../../shared/planOffers';
+import {
+  formatMinorUnits,
+  getDisplayCurrency,
+  getLocaleCountry,
+  getLocaleCurrency,
+  getPlanCurrencies,
+  getPlanPriceIn,
+  getPlanPrices,
+  toMajorUnits
+} from '../../shared/currency';
+import { getBilledSeats, isFreePlan } from '../../shared/planPricing';
+import { couponCodeSchema, MAX_SEATS, validate } from '../../shared/validation';
 
 // UI Components
 import { Button } from '@/components/ui/button';
@@ -19,15 +35,32 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Progress } from '@/components/ui/progress';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 // Icons
-import { AlertCircle, Check, ExternalLink, Globe, RefreshCw, Shield, Star, StarHalf, Users, Zap } from 'lucide-react';
+import { AlertCircle, Check, ExternalLink, Globe, Lock, RefreshCw, Shield, Star, StarHalf, Tag, Users, Zap } from 'lucide-react';
+
+// Prices are shown in the currency of the user's locale where plans are sold in it
+const localeCurrency = getLocaleCurrency(navigator.language);
 
 const OAuthAppDetails = () => {
   const { id } = useParams();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [selectedPlan, setSelectedPlan] = useState<PricingPlan | null>(null);
   const [showSubscribeDialog, setShowSubscribeDialog] = useState(false);
+  const [payWithCredits, setPayWithCredits] = useState(false);
+  const [seats, setSeats] = useState(1);
+  const [currency, setCurrency] = useState<string | null>(null);
+  const [billingCountry, setBillingCountry] = useState(getLocaleCountry(navigator.language) ?? '');
+  const [billingRegion, setBillingRegion] = useState('');
+  const [couponInput, setCouponInput] = useState('');
+  const [couponCode, setCouponCode] = useState<string | null>(null);
+  const [couponError, setCouponError] = useState<string | undefined>(undefined);
+  const [showInstallDialog, setShowInstallDialog] = useState(false);
   
   // Fetch app details
   const { data: app, isLoading: isLoadingApp } = useQuery({
@@ -35,10 +68,11 @@ const OAuthAppDetails = () => {
     enabled: !!id,
   });
   
-  // Fetch pricing plans
+  // Fetch pricing plans; the owner also gets archived ones, which can't be bought
   const { data: pricingPlans, isLoading: isLoadingPlans } = useQuery({
     queryKey: ['/api/oauth-apps', id, 'pricing-plans'],
     enabled: !!id,
+    select: (plans: PricingPlan[]) => plans.filter(plan => !plan.archivedAt),
   });
   
   // Fetch reviews
@@ -47,29 +81,183 @@ const OAuthAppDetails = () => {
     enabled: !!id,
   });
   
+  // Fetch the scope catalog
+  const { data: scopeCatalog } = useQuery({
+    queryKey: ['/oauth/scopes'],
+    staleTime: Infinity,
+  });
+  
+  // Fetch the user's subscriptions
+  const { data: subscriptions } = useQuery<AppSubscription[]>({
+    queryKey: ['/api/subscriptions'],
+  });
+  
+  // Whether the user has already had their one trial of this app
+  const { data: trialStatus } = useQuery<{ trialUsed: boolean }>({
+    queryKey: ['/api/subscriptions/trials', id],
+    enabled: !!id,
+  });
+  const trialUsed = trialStatus?.trialUsed ?? false;
+  
+  const activeSubscription = subscriptions?.find(subscription =>
+    subscription.appId === Number(id) && MANAGEABLE_SUBSCRIPTION_STATUSES.includes(subscription.status));
+  
+  // Fetch the wallet balance when a paid plan could be paid with credits
+  const { data: wallet } = useQuery<{ balance: number }>({
+    queryKey: ['/api/wallet'],
+    enabled: showSubscribeDialog && !!selectedPlan && !isFreePlan(selectedPlan),
+  });
+  
+  // Check the applied coupon code against the selected plan and seat count
+  const { data: couponPreview, error: couponPreviewError, isFetching: isCheckingCoupon } = useQuery<CouponPreview>({
+    queryKey: ['/api/subscriptions/coupons/preview', selectedPlan?.id, seats, couponCode, currency],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        appId: String(selectedPlan!.appId),
+        planId: String(selectedPlan!.id),
+        seats: String(getBilledSeats(selectedPlan!, seats)),
+        couponCode: couponCode!,
+        currency: currency!
+      });
+      return apiRequest(`/api/subscriptions/coupons/preview?${params}`, { method: 'GET' });
+    },
+    enabled: showSubscribeDialog && !!selectedPlan && !!couponCode,
+    retry: false,
+  });
+  const appliedCoupon = couponCode && !couponPreviewError ? couponPreview : undefined;
+  
+  // Mirrors getAmountDueAtCheckout: nothing during a trial, otherwise the first period's price for every seat,
+  // less the coupon's discount once the server has checked it. Credits only pay in their own currency.
+  const selectedPlanHasTrial = !!selectedPlan && !isFreePlan(selectedPlan) && selectedPlan.trialDays > 0 && !trialUsed;
+  const selectedPrices = selectedPlan && currency ? getPlanPrices(selectedPlan, currency) : null;
+  const creditsAccepted = currency === CREDITS_CURRENCY;
+  const planCredits = !selectedPrices || selectedPlanHasTrial
+    ? 0
+    : appliedCoupon
+      ? priceToCredits(toMajorUnits(appliedCoupon.amountDue, currency!))
+      : priceToCredits(
+        toMajorUnits(selectedPrices.introPrice ?? selectedPrices.price, currency!) * getBilledSeats(selectedPlan!, seats)
+      );
+  const canPayWithCredits = creditsAccepted && !!wallet && wallet.balance >= planCredits;
+  
+  // Report the outcome when the payment provider sends the user back here
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const outcome = params.get('checkout');
+    if (!outcome) return;
+    
+    if (outcome === 'success') {
+      toast({
+        title: "Checkout Complete",
+        description: "Your subscription will be active as soon as the payment is confirmed.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/subscriptions'] });
+    } else {
+      toast({
+        title: "Checkout Cancelled",
+        description: "You have not been charged.",
+      });
+    }
+    params.delete('checkout');
+    const query = params.toString();
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+  }, []);
+  
+  // Mutation to start checkout for the selected plan
+  const checkoutMutation = useMutation({
+    mutationFn: async ({ plan, payWithCredits, seats, couponCode, currency }: {
+      plan: PricingPlan;
+      payWithCredits: boolean;
+      seats: number;
+      couponCode?: string;
+      currency: string;
+    }) => {
+      return apiRequest('/api/subscriptions/checkout', {
+        method: 'POST',
+        body: JSON.stringify({
+          appId: plan.appId,
+          planId: plan.id,
+          payWithCredits,
+          seats,
+          couponCode,
+          currency,
+          billingCountry,
+          billingRegion: billingRegion || null
+        })
+      });
+    },
+    onSuccess: (data: { subscription: AppSubscription; checkoutUrl: string | null }) => {
+      // Paid plans continue on the payment provider's page
+      if (data.checkoutUrl) {
+        window.location.href = data.checkoutUrl;
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/subscriptions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/subscriptions/trials', id] });
+      queryClient.invalidateQueries({ queryKey: ['/api/wallet'] });
+      setShowSubscribeDialog(false);
+      toast({
+        title: "Subscription Complete",
+        description: `You've successfully subscribed to ${app?.name}!`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start checkout",
+        variant: "destructive",
+      });
+    }
+  });
+  
   // Handle subscription
   const handleSubscribe = (plan: PricingPlan) => {
     setSelectedPlan(plan);
+    setCurrency(getDisplayCurrency(plan, localeCurrency));
+    setPayWithCredits(false);
+    setSeats(1);
+    setCouponInput('');
+    setCouponCode(null);
+    setCouponError(undefined);
     setShowSubscribeDialog(true);
   };
   
+  // Validate the code locally, then let the preview query check it with the server
+  const applyCoupon = () => {
+    const result = validate(couponCodeSchema, couponInput);
+    if (!result.success) {
+      setCouponError(Object.values(result.errors)[0]);
+      return;
+    }
+    setCouponError(undefined);
+    setCouponCode(result.data);
+  };
+  
+  // Credits only pay in their own currency; the coupon preview re-checks the code for the new one
+  const changeCurrency = (value: string) => {
+    setCurrency(value);
+    if (value !== CREDITS_CURRENCY) {
+      setPayWithCredits(false);
+    }
+  };
+  
+  const removeCoupon = () => {
+    setCouponInput('');
+    setCouponCode(null);
+    setCouponError(undefined);
+  };
+  
   // Handle confirm subscription
   const confirmSubscription = () => {
-    if (!selectedPlan) return;
-    
-    toast({
-      title: "Subscription Processing",
-      description: `Processing your subscription to ${app?.name} (${selectedPlan.name} plan)`,
-    });
-    
-    // In a real app, this would make an API call
-    setTimeout(() => {
-      toast({
-        title: "Subscription Complete",
-        description: `You've successfully subscribed to ${app?.name}!`,
+    if (selectedPlan) {
+      checkoutMutation.mutate({
+        plan: selectedPlan,
+        payWithCredits: payWithCredits && !isFreePlan(selectedPlan),
+        seats: getBilledSeats(selectedPlan, seats),
+        couponCode: appliedCoupon?.code,
+        currency: currency ?? selectedPlan.currency
       });
-      setShowSubscribeDialog(false);
-    }, 1500);
+    }
   };
   
   if (isLoadingApp) {
@@ -95,6 +283,16 @@ const OAuthAppDetails = () => {
     );
   }
   
+  // Resolve the app's scopes against the catalog
+  const describeScope = (name: string): OAuthScope => {
+    return scopeCatalog?.find((scope: OAuthScope) => scope.name === name)
+      || { name, description: name, sensitivity: 'low' };
+  };
+  const appScopes = [
+    ...app.requiredScopes.map((name: string) => ({ ...describeScope(name), required: true })),
+    ...app.optionalScopes.map((name: string) => ({ ...describeScope(name), required: false }))
+  ];
+  
   // Calculate average rating
   const averageRating = reviews?.length
     ? reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length
@@ -170,7 +368,7 @@ const OAuthAppDetails = () => {
         
         {/* Action Buttons */}
         <div className="flex flex-col gap-2 md:self-start">
-          <Button size="lg">
+          <Button size="lg" onClick={() => setShowInstallDialog(true)}>
             Install Now
           </Button>
           <Button variant="outline" size="lg" asChild>
@@ -228,7 +426,17 @@ const OAuthAppDetails = () => {
               </Card>
             </div>
             
-            <div>
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Permissions</CardTitle>
+                  <CardDescription>Access this app requests to your account</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ScopeList scopes={appScopes} />
+                </CardContent>
+              </Card>
+              
               <Card>
                 <CardHeader>
                   <CardTitle>Developer Information</CardTitle>
@@ -274,39 +482,61 @@ const OAuthAppDetails = () => {
             </div>
           ) : pricingPlans?.length > 0 ? (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {pricingPlans.map((plan: PricingPlan) => (
-                <Card key={plan.id} className="flex flex-col">
-                  <CardHeader>
-                    <CardTitle>{plan.name}</CardTitle>
-                    <CardDescription>
-                      {plan.billingInterval === 'monthly' ? 'Billed monthly' : 'Billed annually'}
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent className="flex-grow">
-                    <div className="mb-4">
-                      <span className="text-3xl font-bold">${plan.price}</span>
-                      <span className="text-muted-foreground">/{plan.billingInterval === 'monthly' ? 'mo' : 'year'}</span>
-                    </div>
-                    <ul className="space-y-2 mb-6">
-                      {plan.features.map((feature, index) => (
-                        <li key={index} className="flex items-start">
-                          <Check className="h-5 w-5 text-green-500 mr-2 flex-shrink-0 mt-0.5" />
-                          <span>{feature}</span>
-                        </li>
-                      ))}
-                    </ul>
-                  </CardContent>
-                  <CardFooter>
-                    <Button 
-                      className="w-full" 
-                      variant={plan.name === 'Professional' ? 'default' : 'outline'}
-                      onClick={() => handleSubscribe(plan)}
-                    >
-                      {plan.name === 'Free' ? 'Get Started' : 'Subscribe'}
-                    </Button>
-                  </CardFooter>
-                </Card>
-              ))}
+              {pricingPlans.map((plan: PricingPlan) => {
+                const displayCurrency = getDisplayCurrency(plan, localeCurrency);
+                return (
+                  <Card key={plan.id} className="flex flex-col">
+                    <CardHeader>
+                      <CardTitle>{plan.name}</CardTitle>
+                      <CardDescription>
+                        {plan.billingInterval === 'monthly' ? 'Billed monthly' : 'Billed annually'}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="flex-grow">
+                      <div className="mb-4">
+                        <span className="text-3xl font-bold">
+                          {formatMinorUnits(getPlanPriceIn(plan, displayCurrency) ?? plan.price, displayCurrency)}
+                        </span>
+                        <span className="text-muted-foreground">
+                          /{plan.pricingModel === 'per_seat' && 'seat/'}{plan.billingInterval === 'monthly' ? 'mo' : 'year'}
+                          {plan.pricingModel === 'metered' && ' plus usage'}
+                        </span>
+                        {describeUsageTiers(plan).map(line => (
+                          <p key={line} className="text-sm text-muted-foreground">{line}</p>
+                        ))}
+                        {!isFreePlan(plan) && describeTrial(plan) && (
+                          <p className="text-sm text-muted-foreground">
+                            {trialUsed ? 'Trial already used' : describeTrial(plan)}
+                          </p>
+                        )}
+                        {describeIntroOffer(plan, displayCurrency) && (
+                          <p className="text-sm font-medium text-green-600">{describeIntroOffer(plan, displayCurrency)}</p>
+                        )}
+                      </div>
+                      <ul className="space-y-2 mb-6">
+                        {plan.features.map((feature, index) => (
+                          <li key={index} className="flex items-start">
+                            <Check className="h-5 w-5 text-green-500 mr-2 flex-shrink-0 mt-0.5" />
+                            <span>{feature}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </CardContent>
+                    <CardFooter>
+                      <Button 
+                        className="w-full" 
+                        variant={plan.name === 'Professional' ? 'default' : 'outline'}
+                        onClick={() => handleSubscribe(plan)}
+                        disabled={!!activeSubscription}
+                      >
+                        {activeSubscription?.planId === plan.id
+                          ? 'Current Plan'
+                          : plan.name === 'Free' ? 'Get Started' : 'Subscribe'}
+                      </Button>
+                    </CardFooter>
+                  </Card>
+                );
+              })}
             </div>
           ) : (
             <Card>
@@ -317,7 +547,7 @@ const OAuthAppDetails = () => {
                   <p className="text-muted-foreground mb-4">
                     This app is currently available for free with no subscription required.
                   </p>
-                  <Button>Install Now</Button>
+                  <Button onClick={() => setShowInstallDialog(true)}>Install Now</Button>
                 </div>
               </CardContent>
             </Card>
@@ -444,13 +674,42 @@ const OAuthAppDetails = () => {
         </TabsContent>
       </Tabs>
       
+      {/* Install Dialog */}
+      <Dialog open={showInstallDialog} onOpenChange={setShowInstallDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Install {app.name}</DialogTitle>
+            <DialogDescription>
+              When you sign in, {app.name} will ask for the following access. You can decline optional permissions.
+            </DialogDescription>
+          </DialogHeader>
+          
+          <div className="py-4">
+            <ScopeList scopes={appScopes} />
+          </div>
+          
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowInstallDialog(false)}>
+              Cancel
+            </Button>
+            <Button asChild>
+              <a href={app.homepageUrl} target="_blank" rel="noopener noreferrer">
+                Continue to {app.name}
+                <ExternalLink className="ml-2 h-4 w-4" />
+              </a>
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      
       {/* Subscribe Dialog */}
       <Dialog open={showSubscribeDialog} onOpenChange={setShowSubscribeDialog}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Subscribe to {app.name}</DialogTitle>
             <DialogDescription>
-              You're subscribing to the {selectedPlan?.name} plan at ${selectedPlan?.price}/{selectedPlan?.billingInterval === 'monthly' ? 'month' : 'year'}.
+              You're subscribing to the {selectedPlan?.name} plan
+              {selectedPlan && currency && `: ${describePlanOffers(selectedPlan, selectedPlanHasTrial, currency)}`}.
             </DialogDescription>
           </DialogHeader>
           
@@ -468,12 +727,148 @@ const OAuthAppDetails = () => {
                 </ul>
               </div>
               
+              {selectedPlan.pricingModel === 'per_seat' && (
+                <div className="grid gap-2 pb-4">
+                  <Label htmlFor="seats">Seats</Label>
+                  <Input
+                    id="seats"
+                    type="number"
+                    step="1"
+                    min="1"
+                    max={MAX_SEATS}
+                    value={seats}
+                    onChange={(e) => setSeats(Math.min(MAX_SEATS, Math.max(1, parseInt(e.target.value) || 1)))}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    You can add or remove seats later from your subscriptions.
+                  </p>
+                </div>
+              )}
+              
+              {selectedPlan.pricingModel === 'metered' && (
+                <p className="text-sm text-muted-foreground pb-4">
+                  Usage is billed at the end of each billing period.
+                  {selectedPlanHasTrial && ' Usage during your trial is free.'}
+                </p>
+              )}
+              
+              {!isFreePlan(selectedPlan) && (
+                <div className="grid grid-cols-2 gap-2 pb-4">
+                  {getPlanCurrencies(selectedPlan).length > 1 && (
+                    <div className="grid gap-2 col-span-2">
+                      <Label htmlFor="currency">Currency</Label>
+                      <Select value={currency ?? selectedPlan.currency} onValueChange={changeCurrency}>
+                        <SelectTrigger id="currency">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {getPlanCurrencies(selectedPlan).map(code => (
+                            <SelectItem key={code} value={code}>
+                              {code} · {formatMinorUnits(getPlanPriceIn(selectedPlan, code)!, code)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <div className="grid gap-2">
+                    <Label htmlFor="billing-country">Country</Label>
+                    <Input
+                      id="billing-country"
+                      placeholder="US"
+                      maxLength={2}
+                      value={billingCountry}
+                      onChange={(e) => setBillingCountry(e.target.value.toUpperCase())}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="billing-region">State or region (optional)</Label>
+                    <Input
+                      id="billing-region"
+                      placeholder="CA"
+                      maxLength={3}
+                      value={billingRegion}
+                      onChange={(e) => setBillingRegion(e.target.value.toUpperCase())}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground col-span-2">
+                    Prices include any tax due where you are billed.
+                  </p>
+                </div>
+              )}
+              
+              {!isFreePlan(selectedPlan) && (
+                <div className="grid gap-2 pb-4">
+                  <Label htmlFor="coupon-code">Coupon Code</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="coupon-code"
+                      placeholder="Optional"
+                      value={couponInput}
+                      onChange={(e) => setCouponInput(e.target.value)}
+                      disabled={!!couponCode}
+                    />
+                    {couponCode ? (
+                      <Button variant="outline" onClick={removeCoupon}>Remove</Button>
+                    ) : (
+                      <Button variant="outline" onClick={applyCoupon} disabled={!couponInput.trim()}>Apply</Button>
+                    )}
+                  </div>
+                  {couponError || couponPreviewError ? (
+                    <p className="text-xs text-red-500">{couponError ?? (couponPreviewError as Error).message}</p>
+                  ) : isCheckingCoupon ? (
+                    <p className="text-xs text-muted-foreground">Checking code...</p>
+                  ) : appliedCoupon && (
+                    <p className="text-xs text-green-600 flex items-center">
+                      <Tag className="h-3 w-3 mr-1" />
+                      {appliedCoupon.code}: {appliedCoupon.description}
+                      {!selectedPlanHasTrial && ` (due now: ${formatMinorUnits(appliedCoupon.amountDue, appliedCoupon.currency)})`}
+                    </p>
+                  )}
+                </div>
+              )}
+              
+              {!isFreePlan(selectedPlan) && (
+                <div className="flex items-center justify-between rounded-md border p-4">
+                  <div>
+                    <Label htmlFor="pay-with-credits">Pay with credits</Label>
+                    <p className="text-sm text-muted-foreground">
+                      {!creditsAccepted
+                        ? `Credits can only pay for plans billed in ${CREDITS_CURRENCY}.`
+                        : selectedPlanHasTrial
+                          ? 'Nothing is charged until your trial ends.'
+                          : `${planCredits.toLocaleString()} credits for the first ${selectedPlan.billingInterval === 'monthly' ? 'month' : 'year'}.`}
+                      {' '}Your balance: {wallet ? wallet.balance.toLocaleString() : '—'}
+                    </p>
+                  </div>
+                  <Switch
+                    id="pay-with-credits"
+                    checked={payWithCredits}
+                    onCheckedChange={setPayWithCredits}
+                    disabled={!canPayWithCredits}
+                  />
+                </div>
+              )}
+              
               <DialogFooter>
                 <Button variant="outline" onClick={() => setShowSubscribeDialog(false)}>
                   Cancel
                 </Button>
-                <Button onClick={confirmSubscription}>
-                  Confirm Subscription
+                <Button
+                  onClick={confirmSubscription}
+                  disabled={
+                    checkoutMutation.isPending || isCheckingCoupon ||
+                    (!isFreePlan(selectedPlan) && billingCountry.trim().length !== 2)
+                  }
+                >
+                  {checkoutMutation.isPending ? (
+                    <>
+                      <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                      Starting checkout...
+                    </>
+                  ) : (
+                    !isFreePlan(selectedPlan) && !payWithCredits ? 'Continue to Payment' : 'Confirm Subscription'
+                  )}
                 </Button>
               </DialogFooter>
             </>
@@ -484,4 +879,36 @@ const OAuthAppDetails = () => {
   );
 };
 
+// Scope List Component
+const ScopeList = ({ scopes }: { scopes: (OAuthScope & { required: boolean })[] }) => {
+  if (scopes.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        This app only verifies your identity and requests no additional access.
+      </p>
+    );
+  }
+  
+  return (
+    <ul className="space-y-3">
+      {scopes.map(scope => (
+        <li key={scope.name} className="flex items-start">
+          <Lock className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0 mt-0.5" />
+          <div>
+            <div className="flex items-center gap-2">
+              <span className="text-sm">{scope.description}</span>
+              {scope.sensitivity === 'high' && (
+                <Badge variant="destructive">Sensitive</Badge>
+              )}
+            </div>
+            <span className="text-xs text-muted-foreground">
+              {scope.required ? 'Required' : 'Optional'}
+            </span>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
 export default OAuthAppDetails;
@@ -3,10 +3,12 @@
  * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
  */
 
-import React, { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import React, { useEffect, useState } from 'react';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
-import { OAuthApp } from '../../shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { AppCategory, MarketplaceListing, MarketplaceSearchResult } from '../../shared/schema';
+import { DEFAULT_CURRENCY, formatMinorUnits, getLocaleCurrency } from '../../shared/currency';
 
 // Cards and UI components
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
@@ -15,46 +17,133 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Input } from '@/components/ui/input';
-import { Search, Star, AlertCircle, Check, ExternalLink } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, Star, AlertCircle, Check, ExternalLink, RefreshCw, X } from 'lucide-react';
+
+// Search filters, mirrored in the query string so searches survive reloads and can be shared
+const FILTER_KEYS = ['q', 'category', 'tag', 'verificationStatus', 'minPrice', 'maxPrice', 'minRating'] as const;
+type FilterKey = typeof FILTER_KEYS[number];
+type Filters = Partial<Record<FilterKey, string>>;
+
+// Starting prices and the price filter are in the currency of the user's locale
+const marketplaceCurrency = getLocaleCurrency(navigator.language) ?? DEFAULT_CURRENCY;
+
+const readFiltersFromUrl = (): Filters => {
+  const params = new URLSearchParams(window.location.search);
+  const filters: Filters = {};
+  for (const key of FILTER_KEYS) {
+    const value = params.get(key);
+    if (value) filters[key] = value;
+  }
+  return filters;
+};
 
 const OAuthAppMarketplace = () => {
   const { toast } = useToast();
-  const [searchQuery, setSearchQuery] = useState('');
+  const [filters, setFilters] = useState<Filters>(readFiltersFromUrl);
+  const [searchInput, setSearchInput] = useState(filters.q ?? '');
   const [activeTab, setActiveTab] = useState('all');
   
-  // Query for all OAuth apps in marketplace
-  const { data: allApps, isLoading: isLoadingAll } = useQuery({
-    queryKey: ['/api/oauth-apps/marketplace/list'],
+  const setFilter = (key: FilterKey, value: string | undefined) => {
+    setFilters(prev => {
+      const next = { ...prev };
+      if (value) {
+        next[key] = value;
+      } else {
+        delete next[key];
+      }
+      return next;
+    });
+  };
+  
+  const clearFilters = () => {
+    setSearchInput('');
+    setFilters({});
+  };
+  
+  // Debounce typing before it becomes a search
+  useEffect(() => {
+    const timer = setTimeout(() => setFilter('q', searchInput.trim() || undefined), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+  
+  // Keep the query string in sync with the filters
+  const searchParams = new URLSearchParams(filters).toString();
+  useEffect(() => {
+    const url = `${window.location.pathname}${searchParams ? `?${searchParams}` : ''}`;
+    window.history.replaceState(window.history.state, '', url);
+  }, [searchParams]);
+  
+  // Search results, one page per cursor
+  const {
+    data: searchResults,
+    isLoading: isLoadingAll,
+    isError: isSearchError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteQuery({
+    queryKey: ['/api/oauth-apps/marketplace/search', searchParams],
+    queryFn: async ({ pageParam }): Promise<MarketplaceSearchResult<MarketplaceListing>> => {
+      const params = new URLSearchParams(searchParams);
+      params.set('currency', marketplaceCurrency);
+      if (pageParam) params.set('cursor', pageParam);
+      return apiRequest(`/api/oauth-apps/marketplace/search?${params}`, { method: 'GET' });
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     staleTime: 60000, // 1 minute
   });
   
-  // Query for top rated apps
-  const { data: topRatedApps, isLoading: isLoadingTopRated } = useQuery({
-    queryKey: ['/api/oauth-apps/marketplace/top-rated'],
+  const searchedApps = searchResults?.pages.flatMap(page => page.apps) ?? [];
+  const totalResults = searchResults?.pages[0]?.total ?? 0;
+  const hasFilters = Object.keys(filters).length > 0;
+  
+  // Query for the category tree
+  const { data: categories } = useQuery<AppCategory[]>({
+    queryKey: ['/api/oauth-apps/marketplace/categories'],
+    staleTime: 300000, // 5 minutes
+  });
+  
+  // Navigation shows the top level, plus the children of the selected top-level category.
+  // Deeper categories are still included when their ancestor is selected.
+  const selectedCategory = categories?.find(category => String(category.id) === filters.category);
+  let selectedRoot = selectedCategory;
+  while (selectedRoot?.parentId) {
+    const parentId: number = selectedRoot.parentId;
+    selectedRoot = categories?.find(category => category.id === parentId);
+  }
+  const topLevelCategories = categories?.filter(category => category.parentId === null) ?? [];
+  const subcategories = selectedRoot
+    ? categories?.filter(category => category.parentId === selectedRoot.id) ?? []
+    : [];
+  
+  const handleTagClick = (tag: string) => {
+    setFilter('tag', tag);
+    setActiveTab('all');
+  };
+  
+  // Query for top rated apps, within the selected category when there is one
+  const { data: topRatedApps, isLoading: isLoadingTopRated } = useQuery<MarketplaceListing[]>({
+    queryKey: ['/api/oauth-apps/marketplace/top-rated', filters.category],
+    queryFn: async () => {
+      const params = new URLSearchParams({ currency: marketplaceCurrency });
+      if (filters.category) params.set('category', filters.category);
+      return apiRequest(`/api/oauth-apps/marketplace/top-rated?${params}`, { method: 'GET' });
+    },
     staleTime: 60000, // 1 minute
   });
   
   // Query for recent apps 
-  const { data: recentApps, isLoading: isLoadingRecent } = useQuery({
+  const { data: recentApps, isLoading: isLoadingRecent } = useQuery<MarketplaceListing[]>({
     queryKey: ['/api/oauth-apps/marketplace/recent'],
+    queryFn: async () =>
+      apiRequest(`/api/oauth-apps/marketplace/recent?currency=${marketplaceCurrency}`, { method: 'GET' }),
     staleTime: 60000, // 1 minute
   });
   
-  // Filter apps by search query
-  const filteredApps = React.useMemo(() => {
-    if (!searchQuery.trim()) {
-      return allApps;
-    }
-    
-    const lowerQuery = searchQuery.toLowerCase();
-    return allApps?.filter((app: OAuthApp) => 
-      app.name.toLowerCase().includes(lowerQuery) || 
-      app.description.toLowerCase().includes(lowerQuery)
-    );
-  }, [allApps, searchQuery]);
-  
   // Handle app installation
-  const handleInstallApp = (app: OAuthApp) => {
+  const handleInstallApp = (app: MarketplaceListing) => {
     // In a real app, this would navigate to the app details page
     toast({
       title: "Installation Started",
@@ -78,11 +167,117 @@ const OAuthAppMarketplace = () => {
           <Input
             placeholder="Search apps..."
             className="pl-10"
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+            value={searchInput}
+            onChange={(e) => {
+              setSearchInput(e.target.value);
+              setActiveTab('all');
+            }}
           />
         </div>
         
+        {topLevelCategories.length > 0 && (
+          <div className="flex flex-col gap-2">
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant={filters.category ? 'outline' : 'default'}
+                size="sm"
+                onClick={() => setFilter('category', undefined)}
+              >
+                All categories
+              </Button>
+              {topLevelCategories.map(category => (
+                <Button
+                  key={category.id}
+                  variant={selectedRoot?.id === category.id ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setFilter('category', String(category.id))}
+                >
+                  {category.name}
+                </Button>
+              ))}
+            </div>
+            {subcategories.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {subcategories.map(category => (
+                  <Button
+                    key={category.id}
+                    variant={selectedCategory?.id === category.id ? 'secondary' : 'ghost'}
+                    size="sm"
+                    onClick={() => setFilter('category', String(category.id))}
+                  >
+                    {category.name}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+        
+        <div className="flex flex-wrap items-center gap-3">
+          {filters.tag && (
+            <Badge variant="secondary" className="gap-1">
+              #{filters.tag}
+              <button type="button" onClick={() => setFilter('tag', undefined)} aria-label="Remove tag filter">
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          )}
+          
+          <Select
+            value={filters.verificationStatus ?? 'any'}
+            onValueChange={(value) => setFilter('verificationStatus', value === 'any' ? undefined : value)}
+          >
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="Verification" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any status</SelectItem>
+              <SelectItem value="verified">Verified only</SelectItem>
+            </SelectContent>
+          </Select>
+          
+          <Select
+            value={filters.minRating ?? 'any'}
+            onValueChange={(value) => setFilter('minRating', value === 'any' ? undefined : value)}
+          >
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="Rating" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any rating</SelectItem>
+              {['4', '3', '2'].map(rating => (
+                <SelectItem key={rating} value={rating}>{rating}+ stars</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder={`Min price (${marketplaceCurrency})`}
+            className="w-[120px]"
+            value={filters.minPrice ?? ''}
+            onChange={(e) => setFilter('minPrice', e.target.value)}
+          />
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder={`Max price (${marketplaceCurrency})`}
+            className="w-[120px]"
+            value={filters.maxPrice ?? ''}
+            onChange={(e) => setFilter('maxPrice', e.target.value)}
+          />
+          
+          {hasFilters && (
+            <Button variant="ghost" size="sm" onClick={clearFilters}>
+              <X className="mr-1 h-4 w-4" />
+              Clear filters
+            </Button>
+          )}
+        </div>
+        
         <Tabs defaultValue="all" value={activeTab} onValueChange={setActiveTab}>
           <TabsList className="mb-4">
             <TabsTrigger value="all">All Apps</TabsTrigger>
@@ -93,18 +288,43 @@ const OAuthAppMarketplace = () => {
           <TabsContent value="all">
             {isLoadingAll ? (
               <div className="text-center py-10">Loading apps...</div>
-            ) : filteredApps?.length > 0 ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {filteredApps.map((app: OAuthApp) => (
-                  <AppCard key={app.id} app={app} onInstall={handleInstallApp} />
-                ))}
+            ) : isSearchError ? (
+              <div className="text-center py-10">
+                <AlertCircle className="mx-auto h-10 w-10 text-muted-foreground mb-4" />
+                <h3 className="text-lg font-medium">Search failed</h3>
+                <p className="text-muted-foreground mt-2">Check the filters and try again</p>
               </div>
+            ) : searchedApps.length > 0 ? (
+              <>
+                <p className="text-sm text-muted-foreground mb-4">
+                  {totalResults} {totalResults === 1 ? 'app' : 'apps'}
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {searchedApps.map((app: MarketplaceListing) => (
+                    <AppCard key={app.id} app={app} onInstall={handleInstallApp} onTagClick={handleTagClick} />
+                  ))}
+                </div>
+                {hasNextPage && (
+                  <div className="text-center mt-6">
+                    <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                      {isFetchingNextPage ? (
+                        <>
+                          <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                          Loading...
+                        </>
+                      ) : (
+                        'Load more'
+                      )}
+                    </Button>
+                  </div>
+                )}
+              </>
             ) : (
               <div className="text-center py-10">
                 <AlertCircle className="mx-auto h-10 w-10 text-muted-foreground mb-4" />
                 <h3 className="text-lg font-medium">No apps found</h3>
                 <p className="text-muted-foreground mt-2">
-                  {searchQuery ? "Try a different search term" : "Check back later for new apps"}
+                  {hasFilters ? "Try a different search term or fewer filters" : "Check back later for new apps"}
                 </p>
               </div>
             )}
@@ -113,16 +333,18 @@ const OAuthAppMarketplace = () => {
           <TabsContent value="top">
             {isLoadingTopRated ? (
               <div className="text-center py-10">Loading top rated apps...</div>
-            ) : topRatedApps?.length > 0 ? (
+            ) : topRatedApps && topRatedApps.length > 0 ? (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {topRatedApps.map((app: OAuthApp) => (
-                  <AppCard key={app.id} app={app} onInstall={handleInstallApp} />
+                {topRatedApps.map((app: MarketplaceListing) => (
+                  <AppCard key={app.id} app={app} onInstall={handleInstallApp} onTagClick={handleTagClick} />
                 ))}
               </div>
             ) : (
               <div className="text-center py-10">
                 <AlertCircle className="mx-auto h-10 w-10 text-muted-foreground mb-4" />
-                <h3 className="text-lg font-medium">No top rated apps yet</h3>
+                <h3 className="text-lg font-medium">
+                  {selectedCategory ? `No top rated apps in ${selectedCategory.name} yet` : 'No top rated apps yet'}
+                </h3>
                 <p className="text-muted-foreground mt-2">
                   Be the first to rate an app
                 </p>
@@ -133,10 +355,10 @@ const OAuthAppMarketplace = () => {
           <TabsContent value="recent">
             {isLoadingRecent ? (
               <div className="text-center py-10">Loading recent apps...</div>
-            ) : recentApps?.length > 0 ? (
+            ) : recentApps && recentApps.length > 0 ? (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {recentApps.map((app: OAuthApp) => (
-                  <AppCard key={app.id} app={app} onInstall={handleInstallApp} />
+                {recentApps.map((app: MarketplaceListing) => (
+                  <AppCard key={app.id} app={app} onInstall={handleInstallApp} onTagClick={handleTagClick} />
                 ))}
               </div>
             ) : (
@@ -156,7 +378,13 @@ const OAuthAppMarketplace = () => {
 };
 
 // App Card Component
-const AppCard = ({ app, onInstall }) => {
+interface AppCardProps {
+  app: MarketplaceListing;
+  onInstall: (app: MarketplaceListing) => void;
+  onTagClick: (tag: string) => void;
+}
+
+const AppCard = ({ app, onInstall, onTagClick }: AppCardProps) => {
   return (
     <Card>
       <CardHeader>
@@ -191,14 +419,35 @@ const AppCard = ({ app, onInstall }) => {
         <div className="flex items-center text-sm text-muted-foreground">
           <span className="flex items-center">
             <Star className="mr-1 h-3 w-3 fill-primary text-primary" />
-            {/* This would be actual rating in a real app */}
-            {Math.floor(Math.random() * 5) + 1} stars
+            {app.averageRating !== null
+              ? `${app.averageRating.toFixed(1)} (${app.reviewCount} ${app.reviewCount === 1 ? 'review' : 'reviews'})`
+              : 'No ratings yet'}
           </span>
           <Separator orientation="vertical" className="mx-2 h-4" />
           <span>
-            {Math.floor(Math.random() * 1000) + 10} installs
+            {app.installCount} {app.installCount === 1 ? 'install' : 'installs'}
+          </span>
+          <Separator orientation="vertical" className="mx-2 h-4" />
+          <span>
+            {app.startingPrice
+              ? `From ${formatMinorUnits(app.startingPrice, app.startingPriceCurrency!)}`
+              : 'Free'}
           </span>
         </div>
+        {app.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-3">
+            {app.tags.map(tag => (
+              <Badge
+                key={tag}
+                variant="secondary"
+                className="cursor-pointer"
+                onClick={() => onTagClick(tag)}
+              >
+                #{tag}
+              </Badge>
+            ))}
+          </div>
+        )}
       </CardContent>
       <CardFooter className="flex justify-between">
         <Button variant="outline" size="sm" onClick={() => window.location.href = app.homepageUrl}>
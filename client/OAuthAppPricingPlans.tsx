@@ -7,7 +7,40 @@ import React, { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
 import { useParams } from 'wouter';
-import { PricingPlan } from '../../shared/schema';
+import {
+  Coupon,
+  CouponDiscountType,
+  CouponDuration,
+  CouponRedemptionDetails,
+  PricingModel,
+  PricingPlan,
+  SubscriptionStatus,
+  UsageTier
+} from '../../shared/schema';
+import {
+  FieldErrors,
+  InsertCouponInput,
+  InsertPricingPlanInput,
+  MAX_COUPON_PERIODS,
+  MAX_INTRO_PERIODS,
+  MAX_MIGRATION_NOTICE_DAYS,
+  MAX_TRIAL_DAYS,
+  MAX_USAGE_TIERS,
+  MIN_MIGRATION_NOTICE_DAYS,
+  PlanMigrationInput,
+  UpdateCouponInput,
+  UpdatePricingPlanInput,
+  getCouponErrors,
+  getPlanErrors,
+  insertCouponSchema,
+  insertPricingPlanSchema,
+  planMigrationSchema,
+  validate
+} from '../../shared/validation';
+import { describeIntroOffer, describeTrial, describeUsageTiers } from '../../shared/planOffers';
+import { COUPON_DURATION_LABELS, describeCoupon } from '../../shared/coupons';
+import { isFreePlan } from '../../shared/planPricing';
+import { CURRENCIES, DEFAULT_CURRENCY, formatMinorUnits, toMajorUnits, toMinorUnits } from '../../shared/currency';
 import { apiRequest } from '@/lib/queryClient';
 
 // UI Components
@@ -19,6 +52,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Separator } from '@/components/ui/separator';
 import { Switch } from '@/components/ui/switch';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
@@ -26,7 +60,45 @@ import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 
 // Icons
-import { AlertCircle, ArrowLeft, Check, CircleDollarSign, DollarSign, Edit, Grip, Plus, RefreshCw, Save, Trash2 } from 'lucide-react';
+import {
+  AlertCircle,
+  Archive,
+  ArchiveRestore,
+  ArrowLeft,
+  ArrowRightLeft,
+  Check,
+  CircleDollarSign,
+  Edit,
+  Grip,
+  Plus,
+  RefreshCw,
+  Save,
+  Tag,
+  Trash2,
+  Users
+} from 'lucide-react';
+
+// The plan form edits prices in major units, e.g. 9.99; plans store them in minor units
+const convertPlanPrices = (
+  plan: Partial<PricingPlan>,
+  convert: (amount: number, currency: string) => number
+): Partial<PricingPlan> => {
+  const currency = plan.currency ?? DEFAULT_CURRENCY;
+  return {
+    ...plan,
+    price: convert(plan.price ?? 0, currency),
+    introPrice: plan.introPrice == null ? null : convert(plan.introPrice, currency),
+    priceOverrides: Object.fromEntries(
+      Object.entries(plan.priceOverrides ?? {}).map(([code, price]) => [code, convert(price, code)])
+    ),
+    // Unit prices keep hundredths of a minor unit
+    usageTiers: plan.usageTiers?.map(tier => ({
+      ...tier,
+      unitPrice: convert(tier.unitPrice * 100, currency) / 100,
+      flatFee: convert(tier.flatFee, currency)
+    }))
+  };
+};
 
 const OAuthAppPricingPlans = () => {
   const { id } = useParams();
@@ -35,16 +107,34 @@ const OAuthAppPricingPlans = () => {
   const [showAddPlanDialog, setShowAddPlanDialog] = useState(false);
   const [showEditPlanDialog, setShowEditPlanDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showMigrateDialog, setShowMigrateDialog] = useState(false);
   const [selectedPlan, setSelectedPlan] = useState<PricingPlan | null>(null);
+  const [draggedPlanId, setDraggedPlanId] = useState<number | null>(null);
+  
+  // Form state for moving a plan's subscribers
+  const [migrationForm, setMigrationForm] = useState({ targetPlanId: '', noticeDays: String(MIN_MIGRATION_NOTICE_DAYS) });
+  const [migrationErrors, setMigrationErrors] = useState<FieldErrors>({});
   
   // Form state for new/edit plan
   const [formData, setFormData] = useState<Partial<PricingPlan>>({
     name: '',
     price: 0,
+    currency: DEFAULT_CURRENCY,
+    priceOverrides: {},
     billingInterval: 'monthly',
     features: [''],
-    isPublic: true
+    isPublic: true,
+    pricingModel: 'flat',
+    usageUnit: null,
+    usageTiers: [],
+    trialDays: 0,
+    introPrice: null,
+    introPeriods: null
   });
+  const [formErrors, setFormErrors] = useState<FieldErrors>({});
+  
+  // Feature errors are keyed by index; show the first one under the list
+  const featuresError = Object.entries(formErrors).find(([field]) => field.startsWith('features'))?.[1];
   
   // Query app details
   const { data: app, isLoading: isLoadingApp } = useQuery({
@@ -60,7 +150,7 @@ const OAuthAppPricingPlans = () => {
   
   // Mutation to create a pricing plan
   const createPlanMutation = useMutation({
-    mutationFn: async (data: Partial<PricingPlan>) => {
+    mutationFn: async (data: InsertPricingPlanInput) => {
       return apiRequest(`/api/oauth-apps/${id}/pricing-plans`, {
         method: 'POST',
         body: JSON.stringify(data)
@@ -86,7 +176,7 @@ const OAuthAppPricingPlans = () => {
   
   // Mutation to update a pricing plan
   const updatePlanMutation = useMutation({
-    mutationFn: async ({ planId, data }: { planId: number, data: Partial<PricingPlan> }) => {
+    mutationFn: async ({ planId, data }: { planId: number, data: UpdatePricingPlanInput }) => {
       return apiRequest(`/api/oauth-apps/pricing-plans/${planId}`, {
         method: 'PUT',
         body: JSON.stringify(data)
@@ -135,13 +225,122 @@ const OAuthAppPricingPlans = () => {
     }
   });
   
+  // Mutation to reorder the plans; the new order shows right away
+  const reorderPlansMutation = useMutation({
+    mutationFn: async (planIds: number[]) => {
+      return apiRequest(`/api/oauth-apps/${id}/pricing-plans/order`, {
+        method: 'PUT',
+        body: JSON.stringify({ planIds })
+      });
+    },
+    onMutate: (planIds: number[]) => {
+      queryClient.setQueryData(['/api/oauth-apps', id, 'pricing-plans'], (plans: PricingPlan[] = []) =>
+        planIds.map(planId => plans.find(plan => plan.id === planId)).filter(Boolean)
+      );
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reorder pricing plans",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/oauth-apps', id, 'pricing-plans'] });
+    }
+  });
+  
+  // Mutation to archive a pricing plan or put it back on sale
+  const archivePlanMutation = useMutation({
+    mutationFn: async ({ planId, archive }: { planId: number, archive: boolean }) => {
+      return apiRequest(`/api/oauth-apps/pricing-plans/${planId}/${archive ? 'archive' : 'restore'}`, {
+        method: 'POST'
+      });
+    },
+    onSuccess: (plan: PricingPlan) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/oauth-apps', id, 'pricing-plans'] });
+      toast({
+        title: plan.archivedAt ? "Plan Archived" : "Plan Restored",
+        description: plan.archivedAt
+          ? `${plan.name} is no longer for sale; its subscribers keep it`
+          : `${plan.name} is for sale again`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update pricing plan",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  // Mutation to schedule moving a plan's subscribers to another plan
+  const migratePlanMutation = useMutation({
+    mutationFn: async ({ planId, data }: { planId: number, data: PlanMigrationInput }) => {
+      return apiRequest(`/api/oauth-apps/pricing-plans/${planId}/migration`, {
+        method: 'POST',
+        body: JSON.stringify(data)
+      });
+    },
+    onSuccess: ({ scheduled }: { scheduled: number }) => {
+      setShowMigrateDialog(false);
+      setSelectedPlan(null);
+      toast({
+        title: "Migration Scheduled",
+        description: scheduled === 1
+          ? "1 subscriber will be moved at the end of their notice"
+          : `${scheduled} subscribers will be moved at the end of their notice`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to schedule plan migration",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  // Mutation to call off a scheduled migration
+  const cancelMigrationMutation = useMutation({
+    mutationFn: async (planId: number) => {
+      return apiRequest(`/api/oauth-apps/pricing-plans/${planId}/migration`, {
+        method: 'DELETE'
+      });
+    },
+    onSuccess: ({ canceled }: { canceled: number }) => {
+      setShowMigrateDialog(false);
+      setSelectedPlan(null);
+      toast({
+        title: "Migration Called Off",
+        description: canceled === 1
+          ? "1 subscriber stays on the plan"
+          : `${canceled} subscribers stay on the plan`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to cancel plan migration",
+        variant: "destructive",
+      });
+    }
+  });
+  
   // Form handlers
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
-    if (name === 'price') {
+    if (name === 'price' || name === 'trialDays') {
       // Convert to number and handle decimals
       const numValue = parseFloat(value);
       setFormData(prev => ({ ...prev, [name]: isNaN(numValue) ? 0 : numValue }));
+    } else if (name === 'usageUnit') {
+      setFormData(prev => ({ ...prev, usageUnit: value.trim() === '' ? null : value }));
+    } else if (name === 'introPrice' || name === 'introPeriods') {
+      // Left empty when the plan has no introductory offer
+      const numValue = parseFloat(value);
+      setFormData(prev => ({ ...prev, [name]: isNaN(numValue) ? null : numValue }));
     } else {
       setFormData(prev => ({ ...prev, [name]: value }));
     }
@@ -174,45 +373,98 @@ const OAuthAppPricingPlans = () => {
     setFormData(prev => ({ ...prev, isPublic: checked }));
   };
   
+  // Only metered plans carry a unit and tiers; start them off with a single open-ended tier
+  const handlePricingModelChange = (value: string) => {
+    const pricingModel = value as PricingModel;
+    setFormData(prev => ({
+      ...prev,
+      pricingModel,
+      usageUnit: pricingModel === 'metered' ? prev.usageUnit ?? null : null,
+      usageTiers: pricingModel === 'metered'
+        ? (prev.usageTiers?.length ? prev.usageTiers : [{ upTo: null, unitPrice: 0, flatFee: 0 }])
+        : []
+    }));
+  };
+  
+  const handleUsageTiersChange = (usageTiers: UsageTier[]) => {
+    setFormData(prev => ({ ...prev, usageTiers }));
+  };
+  
+  // The plan's own currency can't also be an override
+  const handleCurrencyChange = (currency: string) => {
+    setFormData(prev => {
+      const { [currency]: _, ...priceOverrides } = prev.priceOverrides ?? {};
+      return { ...prev, currency, priceOverrides };
+    });
+  };
+  
+  const handlePriceOverridesChange = (priceOverrides: Record<string, number>) => {
+    setFormData(prev => ({ ...prev, priceOverrides }));
+  };
+  
   const resetForm = () => {
     setFormData({
       name: '',
       price: 0,
+      currency: DEFAULT_CURRENCY,
+      priceOverrides: {},
       billingInterval: 'monthly',
       features: [''],
-      isPublic: true
+      isPublic: true,
+      pricingModel: 'flat',
+      usageUnit: null,
+      usageTiers: [],
+      trialDays: 0,
+      introPrice: null,
+      introPeriods: null
     });
+    setFormErrors({});
   };
   
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     // Filter out empty features
     const cleanedData = {
-      ...formData,
+      ...convertPlanPrices(formData, toMinorUnits),
       features: formData.features?.filter(f => f.trim() !== '') || []
     };
     
+    // Same checks the server runs
+    const result = validate(insertPricingPlanSchema, cleanedData);
+    const errors = result.success ? getPlanErrors(result.data) : result.errors;
+    setFormErrors(errors);
+    if (!result.success || Object.keys(errors).length > 0) return;
+    
     if (selectedPlan) {
       // Update existing plan
       updatePlanMutation.mutate({ 
         planId: selectedPlan.id, 
-        data: cleanedData 
+        data: result.data 
       });
     } else {
       // Create new plan
-      createPlanMutation.mutate(cleanedData);
+      createPlanMutation.mutate(result.data);
     }
   };
   
   const handleEdit = (plan: PricingPlan) => {
     setSelectedPlan(plan);
-    setFormData({
+    setFormData(convertPlanPrices({
       name: plan.name,
       price: plan.price,
+      currency: plan.currency,
+      priceOverrides: plan.priceOverrides,
       billingInterval: plan.billingInterval,
       features: [...plan.features],
-      isPublic: plan.isPublic
-    });
+      isPublic: plan.isPublic,
+      pricingModel: plan.pricingModel,
+      usageUnit: plan.usageUnit,
+      usageTiers: plan.usageTiers,
+      trialDays: plan.trialDays,
+      introPrice: plan.introPrice,
+      introPeriods: plan.introPeriods
+    }, toMajorUnits));
+    setFormErrors({});
     setShowEditPlanDialog(true);
   };
   
@@ -227,6 +479,37 @@ const OAuthAppPricingPlans = () => {
     }
   };
   
+  const handleMigrate = (plan: PricingPlan) => {
+    setSelectedPlan(plan);
+    setMigrationForm({ targetPlanId: '', noticeDays: String(MIN_MIGRATION_NOTICE_DAYS) });
+    setMigrationErrors({});
+    setShowMigrateDialog(true);
+  };
+  
+  const handleMigrationSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedPlan) return;
+    
+    // Same checks the server runs
+    const result = validate(planMigrationSchema, {
+      targetPlanId: Number(migrationForm.targetPlanId),
+      noticeDays: Number(migrationForm.noticeDays)
+    });
+    setMigrationErrors(result.success ? {} : result.errors);
+    if (!result.success) return;
+    
+    migratePlanMutation.mutate({ planId: selectedPlan.id, data: result.data });
+  };
+  
+  // Dropping a plan on another row puts it in that row's place
+  const handleDrop = (targetPlanId: number) => {
+    if (draggedPlanId === null || draggedPlanId === targetPlanId) return;
+    const planIds = pricingPlans.map((plan: PricingPlan) => plan.id).filter((planId: number) => planId !== draggedPlanId);
+    planIds.splice(pricingPlans.findIndex((plan: PricingPlan) => plan.id === targetPlanId), 0, draggedPlanId);
+    setDraggedPlanId(null);
+    reorderPlansMutation.mutate(planIds);
+  };
+  
   if (isLoadingApp) {
     return (
       <div className="container py-12 text-center">
@@ -290,6 +573,7 @@ const OAuthAppPricingPlans = () => {
             <Table>
               <TableHeader>
                 <TableRow>
+                  <TableHead className="w-8" />
                   <TableHead>Plan Name</TableHead>
                   <TableHead>Price</TableHead>
                   <TableHead>Billing</TableHead>
@@ -300,21 +584,53 @@ const OAuthAppPricingPlans = () => {
               </TableHeader>
               <TableBody>
                 {pricingPlans.map((plan: PricingPlan) => (
-                  <TableRow key={plan.id}>
+                  <TableRow
+                    key={plan.id}
+                    draggable
+                    onDragStart={() => setDraggedPlanId(plan.id)}
+                    onDragEnd={() => setDraggedPlanId(null)}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={() => handleDrop(plan.id)}
+                    className={draggedPlanId === plan.id ? "opacity-50" : undefined}
+                  >
+                    <TableCell className="cursor-grab" title="Drag to reorder">
+                      <Grip className="h-4 w-4 text-muted-foreground" />
+                    </TableCell>
                     <TableCell className="font-medium">{plan.name}</TableCell>
                     <TableCell>
                       <div className="flex items-center">
-                        <DollarSign className="h-3 w-3 mr-1" />
-                        {plan.price.toFixed(2)}
+                        {formatMinorUnits(plan.price, plan.currency)}
+                        {plan.pricingModel !== 'flat' && (
+                          <Badge variant="outline" className="ml-2">
+                            {PRICING_MODEL_LABELS[plan.pricingModel]}
+                          </Badge>
+                        )}
                       </div>
+                      {describeUsageTiers(plan).map(line => (
+                        <p key={line} className="text-xs text-muted-foreground">{line}</p>
+                      ))}
+                      {Object.keys(plan.priceOverrides).length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Also {Object.entries(plan.priceOverrides)
+                            .map(([currency, price]) => formatMinorUnits(price, currency))
+                            .join(', ')}
+                        </p>
+                      )}
                     </TableCell>
                     <TableCell>
                       {plan.billingInterval === 'monthly' ? 'Monthly' : 'Yearly'}
+                      {[describeTrial(plan), describeIntroOffer(plan)].filter(Boolean).map(offer => (
+                        <p key={offer} className="text-xs text-muted-foreground">{offer}</p>
+                      ))}
                     </TableCell>
                     <TableCell>
-                      <Badge variant={plan.isPublic ? "default" : "outline"}>
-                        {plan.isPublic ? "Public" : "Private"}
-                      </Badge>
+                      {plan.archivedAt ? (
+                        <Badge variant="secondary">Archived</Badge>
+                      ) : (
+                        <Badge variant={plan.isPublic ? "default" : "outline"}>
+                          {plan.isPublic ? "Public" : "Private"}
+                        </Badge>
+                      )}
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center">
@@ -346,10 +662,31 @@ const OAuthAppPricingPlans = () => {
                           variant="ghost" 
                           size="icon"
                           className="h-8 w-8 mr-1"
+                          title={plan.archivedAt ? "Restore the plan to edit it" : "Edit"}
+                          disabled={!!plan.archivedAt}
                           onClick={() => handleEdit(plan)}
                         >
                           <Edit className="h-4 w-4" />
                         </Button>
+                        <Button 
+                          variant="ghost" 
+                          size="icon"
+                          className="h-8 w-8 mr-1"
+                          title={plan.archivedAt ? "Restore" : "Archive"}
+                          disabled={archivePlanMutation.isPending}
+                          onClick={() => archivePlanMutation.mutate({ planId: plan.id, archive: !plan.archivedAt })}
+                        >
+                          {plan.archivedAt ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                        </Button>
+                        <Button 
+                          variant="ghost" 
+                          size="icon"
+                          className="h-8 w-8 mr-1"
+                          title="Move subscribers"
+                          onClick={() => handleMigrate(plan)}
+                        >
+                          <ArrowRightLeft className="h-4 w-4" />
+                        </Button>
                         <Button 
                           variant="ghost" 
                           size="icon"
@@ -394,6 +731,8 @@ const OAuthAppPricingPlans = () => {
         </Card>
       )}
       
+      {!isLoadingPlans && <AppCoupons appId={Number(id)} plans={pricingPlans ?? []} />}
+      
       {/* Add Plan Dialog */}
       <Dialog open={showAddPlanDialog} onOpenChange={setShowAddPlanDialog}>
         <DialogContent className="sm:max-w-[550px]">
@@ -404,7 +743,7 @@ const OAuthAppPricingPlans = () => {
             </DialogDescription>
           </DialogHeader>
           
-          <form onSubmit={handleSubmit}>
+          <form onSubmit={handleSubmit} noValidate>
             <div className="grid gap-4 py-4">
               <div className="grid gap-2">
                 <Label htmlFor="name">Plan Name</Label>
@@ -416,29 +755,22 @@ const OAuthAppPricingPlans = () => {
                   onChange={handleInputChange}
                   required
                 />
+                {formErrors.name && (
+                  <p className="text-xs text-red-500">{formErrors.name}</p>
+                )}
               </div>
               
-              <div className="grid gap-2">
-                <Label htmlFor="price">Price ($)</Label>
-                <div className="relative">
-                  <DollarSign className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    id="price"
-                    name="price"
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    className="pl-8"
-                    placeholder="9.99"
-                    value={formData.price}
-                    onChange={handleInputChange}
-                    required
-                  />
-                </div>
-                <p className="text-xs text-muted-foreground">
-                  Set to 0 for free plans
-                </p>
-              </div>
+              <PlanPricingFields
+                idPrefix=""
+                formData={formData}
+                formErrors={formErrors}
+                modelLocked={false}
+                onChange={handleInputChange}
+                onPricingModelChange={handlePricingModelChange}
+                onUsageTiersChange={handleUsageTiersChange}
+                onCurrencyChange={handleCurrencyChange}
+                onPriceOverridesChange={handlePriceOverridesChange}
+              />
               
               <div className="grid gap-2">
                 <Label>Billing Interval</Label>
@@ -456,6 +788,9 @@ const OAuthAppPricingPlans = () => {
                     <Label htmlFor="yearly" className="cursor-pointer">Yearly</Label>
                   </div>
                 </RadioGroup>
+                {formErrors.billingInterval && (
+                  <p className="text-xs text-red-500">{formErrors.billingInterval}</p>
+                )}
               </div>
               
               <Separator />
@@ -498,10 +833,22 @@ const OAuthAppPricingPlans = () => {
                   <Plus className="mr-2 h-4 w-4" />
                   Add Feature
                 </Button>
+                {featuresError && (
+                  <p className="text-xs text-red-500">{featuresError}</p>
+                )}
               </div>
               
               <Separator />
               
+              <PlanOfferFields
+                idPrefix=""
+                formData={formData}
+                formErrors={formErrors}
+                onChange={handleInputChange}
+              />
+              
+              <Separator />
+              
               <div className="flex items-center justify-between">
                 <div>
                   <Label htmlFor="isPublic" className="block mb-1">Public Plan</Label>
@@ -549,7 +896,7 @@ const OAuthAppPricingPlans = () => {
             </DialogDescription>
           </DialogHeader>
           
-          <form onSubmit={handleSubmit}>
+          <form onSubmit={handleSubmit} noValidate>
             <div className="grid gap-4 py-4">
               <div className="grid gap-2">
                 <Label htmlFor="edit-name">Plan Name</Label>
@@ -561,29 +908,22 @@ const OAuthAppPricingPlans = () => {
                   onChange={handleInputChange}
                   required
                 />
+                {formErrors.name && (
+                  <p className="text-xs text-red-500">{formErrors.name}</p>
+                )}
               </div>
               
-              <div className="grid gap-2">
-                <Label htmlFor="edit-price">Price ($)</Label>
-                <div className="relative">
-                  <DollarSign className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    id="edit-price"
-                    name="price"
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    className="pl-8"
-                    placeholder="9.99"
-                    value={formData.price}
-                    onChange={handleInputChange}
-                    required
-                  />
-                </div>
-                <p className="text-xs text-muted-foreground">
-                  Set to 0 for free plans
-                </p>
-              </div>
+              <PlanPricingFields
+                idPrefix="edit-"
+                formData={formData}
+                formErrors={formErrors}
+                modelLocked
+                onChange={handleInputChange}
+                onPricingModelChange={handlePricingModelChange}
+                onUsageTiersChange={handleUsageTiersChange}
+                onCurrencyChange={handleCurrencyChange}
+                onPriceOverridesChange={handlePriceOverridesChange}
+              />
               
               <div className="grid gap-2">
                 <Label>Billing Interval</Label>
@@ -601,6 +941,9 @@ const OAuthAppPricingPlans = () => {
                     <Label htmlFor="edit-yearly" className="cursor-pointer">Yearly</Label>
                   </div>
                 </RadioGroup>
+                {formErrors.billingInterval && (
+                  <p className="text-xs text-red-500">{formErrors.billingInterval}</p>
+                )}
               </div>
               
               <Separator />
@@ -645,10 +988,22 @@ const OAuthAppPricingPlans = () => {
                   <Plus className="mr-2 h-4 w-4" />
                   Add Feature
                 </Button>
+                {featuresError && (
+                  <p className="text-xs text-red-500">{featuresError}</p>
+                )}
               </div>
               
               <Separator />
               
+              <PlanOfferFields
+                idPrefix="edit-"
+                formData={formData}
+                formErrors={formErrors}
+                onChange={handleInputChange}
+              />
+              
+              <Separator />
+              
               <div className="flex items-center justify-between">
                 <div>
                   <Label htmlFor="edit-isPublic" className="block mb-1">Public Plan</Label>
@@ -693,6 +1048,7 @@ const OAuthAppPricingPlans = () => {
             <DialogTitle>Delete Pricing Plan</DialogTitle>
             <DialogDescription>
               Are you sure you want to delete this pricing plan? This action cannot be undone.
+              Plans that have subscribers can't be deleted; archive them instead.
             </DialogDescription>
           </DialogHeader>
           
@@ -701,8 +1057,8 @@ const OAuthAppPricingPlans = () => {
               <AlertCircle className="h-4 w-4" />
               <AlertTitle className="font-medium">Warning</AlertTitle>
               <AlertDescription>
-                Deleting <strong>{selectedPlan.name}</strong> plan will affect any users 
-                currently subscribed to this plan.
+                Deleting <strong>{selectedPlan.name}</strong> plan will remove it for good. To stop
+                selling it while keeping its subscribers, archive it instead.
               </AlertDescription>
             </Alert>
           )}
@@ -731,10 +1087,966 @@ const OAuthAppPricingPlans = () => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+      
+      {/* Migrate Subscribers Dialog */}
+      <Dialog open={showMigrateDialog} onOpenChange={setShowMigrateDialog}>
+        <DialogContent>
+          <form onSubmit={handleMigrationSubmit}>
+            <DialogHeader>
+              <DialogTitle>Move Subscribers</DialogTitle>
+              <DialogDescription>
+                Subscribers of <strong>{selectedPlan?.name}</strong> are moved at the start of their first
+                billing period after the notice, with the change prorated. They can cancel or switch plans
+                until then.
+              </DialogDescription>
+            </DialogHeader>
+            
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="targetPlanId">Move to</Label>
+                <Select
+                  value={migrationForm.targetPlanId}
+                  onValueChange={(value) => setMigrationForm(prev => ({ ...prev, targetPlanId: value }))}
+                >
+                  <SelectTrigger id="targetPlanId">
+                    <SelectValue placeholder="Choose a plan" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(pricingPlans ?? [])
+                      .filter((plan: PricingPlan) => plan.id !== selectedPlan?.id && !plan.archivedAt)
+                      .map((plan: PricingPlan) => (
+                        <SelectItem key={plan.id} value={String(plan.id)}>
+                          {plan.name} ({formatMinorUnits(plan.price, plan.currency)})
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                {migrationErrors.targetPlanId && <p className="text-xs text-red-500">{migrationErrors.targetPlanId}</p>}
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="noticeDays">Notice (days)</Label>
+                <Input
+                  id="noticeDays"
+                  type="number"
+                  min={MIN_MIGRATION_NOTICE_DAYS}
+                  max={MAX_MIGRATION_NOTICE_DAYS}
+                  value={migrationForm.noticeDays}
+                  onChange={(e) => setMigrationForm(prev => ({ ...prev, noticeDays: e.target.value }))}
+                />
+                {migrationErrors.noticeDays && <p className="text-xs text-red-500">{migrationErrors.noticeDays}</p>}
+                <p className="text-xs text-muted-foreground">
+                  At least {MIN_MIGRATION_NOTICE_DAYS} days. Scheduling again replaces an earlier migration.
+                </p>
+              </div>
+            </div>
+            
+            <DialogFooter className="sm:justify-between">
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => selectedPlan && cancelMigrationMutation.mutate(selectedPlan.id)}
+                disabled={cancelMigrationMutation.isPending}
+              >
+                Call Off Scheduled Migration
+              </Button>
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" onClick={() => setShowMigrateDialog(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={migratePlanMutation.isPending}>
+                  {migratePlanMutation.isPending ? (
+                    <>
+                      <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                      Scheduling...
+                    </>
+                  ) : (
+                    <>
+                      <ArrowRightLeft className="mr-2 h-4 w-4" />
+                      Schedule Migration
+                    </>
+                  )}
+                </Button>
+              </div>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
 
+const PRICING_MODEL_LABELS: Record<PricingModel, string> = {
+  flat: 'Flat',
+  per_seat: 'Per seat',
+  metered: 'Metered'
+};
+
+const PRICE_LABELS: Record<PricingModel, string> = {
+  flat: 'Price',
+  per_seat: 'Price per Seat',
+  metered: 'Base Price'
+};
+
+const PRICE_HINTS: Record<PricingModel, string> = {
+  flat: 'Set to 0 for free plans',
+  per_seat: 'Subscribers pick how many seats they pay for',
+  metered: 'Charged every billing period on top of usage; can be 0'
+};
+
+// Pricing model, currency, price and usage tier inputs, shared by the add and edit dialogs.
+// The model and currency are fixed once a plan exists, so the edit dialog locks them.
+const PlanPricingFields = ({
+  idPrefix,
+  formData,
+  formErrors,
+  modelLocked,
+  onChange,
+  onPricingModelChange,
+  onUsageTiersChange,
+  onCurrencyChange,
+  onPriceOverridesChange
+}: {
+  idPrefix: string;
+  formData: Partial<PricingPlan>;
+  formErrors: FieldErrors;
+  modelLocked: boolean;
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onPricingModelChange: (value: string) => void;
+  onUsageTiersChange: (tiers: UsageTier[]) => void;
+  onCurrencyChange: (currency: string) => void;
+  onPriceOverridesChange: (overrides: Record<string, number>) => void;
+}) => {
+  const pricingModel = formData.pricingModel ?? 'flat';
+  const currency = formData.currency ?? DEFAULT_CURRENCY;
+  const tiers = formData.usageTiers ?? [];
+  const overrides = Object.entries(formData.priceOverrides ?? {});
+  // Tier and override errors are keyed by index or currency; show the first one under the table
+  const tiersError = Object.entries(formErrors).find(([field]) => field.startsWith('usageTiers'))?.[1];
+  const overridesError = Object.entries(formErrors).find(([field]) => field.startsWith('priceOverrides'))?.[1];
+  const unusedCurrencies = CURRENCIES.filter(code => code !== currency && !(code in (formData.priceOverrides ?? {})));
+  
+  const updateTier = (index: number, field: keyof UsageTier, value: string) => {
+    const numValue = parseFloat(value);
+    const updated = tiers.map((tier, i) => i !== index ? tier : {
+      ...tier,
+      // An empty limit makes the tier open-ended
+      [field]: isNaN(numValue) ? (field === 'upTo' ? null : 0) : numValue
+    });
+    onUsageTiersChange(updated);
+  };
+  
+  const addTier = () => {
+    onUsageTiersChange([...tiers, { upTo: null, unitPrice: 0, flatFee: 0 }]);
+  };
+  
+  const removeTier = (index: number) => {
+    onUsageTiersChange(tiers.filter((_, i) => i !== index));
+  };
+  
+  // Entries keep their order when one is renamed to another currency
+  const updateOverride = (index: number, code: string, price: number) => {
+    onPriceOverridesChange(Object.fromEntries(
+      overrides.map((entry, i) => i !== index ? entry : [code, price])
+    ));
+  };
+  
+  const addOverride = () => {
+    onPriceOverridesChange({ ...formData.priceOverrides, [unusedCurrencies[0]]: 0 });
+  };
+  
+  const removeOverride = (index: number) => {
+    onPriceOverridesChange(Object.fromEntries(overrides.filter((_, i) => i !== index)));
+  };
+  
+  return (
+    <div className="grid gap-4">
+      <div className="grid gap-2">
+        <Label>Pricing Model</Label>
+        <RadioGroup
+          value={pricingModel}
+          onValueChange={onPricingModelChange}
+          disabled={modelLocked}
+          className="flex space-x-4"
+        >
+          {(Object.keys(PRICING_MODEL_LABELS) as PricingModel[]).map(model => (
+            <div key={model} className="flex items-center space-x-2">
+              <RadioGroupItem value={model} id={`${idPrefix}model-${model}`} />
+              <Label htmlFor={`${idPrefix}model-${model}`} className="cursor-pointer">
+                {PRICING_MODEL_LABELS[model]}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+        {formErrors.pricingModel ? (
+          <p className="text-xs text-red-500">{formErrors.pricingModel}</p>
+        ) : modelLocked && (
+          <p className="text-xs text-muted-foreground">
+            The pricing model can't be changed once the plan exists
+          </p>
+        )}
+      </div>
+      
+      <div className="grid grid-cols-[auto_1fr] gap-4">
+        <div className="grid gap-2">
+          <Label htmlFor={`${idPrefix}currency`}>Currency</Label>
+          <Select value={currency} onValueChange={onCurrencyChange} disabled={modelLocked}>
+            <SelectTrigger id={`${idPrefix}currency`} className="w-[100px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCIES.map(code => (
+                <SelectItem key={code} value={code}>{code}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor={`${idPrefix}price`}>{PRICE_LABELS[pricingModel]} ({currency})</Label>
+          <Input
+            id={`${idPrefix}price`}
+            name="price"
+            type="number"
+            step="0.01"
+            min="0"
+            placeholder="9.99"
+            value={formData.price}
+            onChange={onChange}
+            required
+          />
+        </div>
+      </div>
+      {formErrors.currency || formErrors.price ? (
+        <p className="text-xs text-red-500">{formErrors.currency || formErrors.price}</p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          {PRICE_HINTS[pricingModel]}
+          {modelLocked && '. The currency can\'t be changed once the plan exists'}
+        </p>
+      )}
+      
+      {pricingModel !== 'metered' && (
+        <div className="grid gap-2">
+          <Label>Prices in Other Currencies</Label>
+          <p className="text-xs text-muted-foreground mb-2">
+            Buyers who pay in one of these currencies are charged this price instead of a conversion.
+          </p>
+          {overrides.map(([code, price], index) => (
+            <div key={code} className="grid grid-cols-[100px_1fr_auto] gap-2 items-center">
+              <Select value={code} onValueChange={(value) => updateOverride(index, value, price)}>
+                <SelectTrigger aria-label={`Currency ${index + 1}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[code, ...unusedCurrencies].map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                aria-label={`Price in ${code}`}
+                value={price}
+                onChange={(e) => updateOverride(index, code, parseFloat(e.target.value) || 0)}
+              />
+              <Button type="button" variant="ghost" size="icon" onClick={() => removeOverride(index)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="mt-2 w-fit"
+            disabled={unusedCurrencies.length === 0}
+            onClick={addOverride}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Currency
+          </Button>
+          {overridesError && (
+            <p className="text-xs text-red-500">{overridesError}</p>
+          )}
+        </div>
+      )}
+      
+      {pricingModel === 'metered' && (
+        <>
+          <div className="grid gap-2">
+            <Label htmlFor={`${idPrefix}usageUnit`}>Usage Unit</Label>
+            <Input
+              id={`${idPrefix}usageUnit`}
+              name="usageUnit"
+              placeholder="API call, GB stored, message, etc."
+              value={formData.usageUnit ?? ''}
+              onChange={onChange}
+            />
+            {formErrors.usageUnit && (
+              <p className="text-xs text-red-500">{formErrors.usageUnit}</p>
+            )}
+          </div>
+          
+          <div className="grid gap-2">
+            <Label>Usage Tiers</Label>
+            <p className="text-xs text-muted-foreground mb-2">
+              Each tier prices only the units that fall inside it. Leave the last tier's limit empty.
+            </p>
+            <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 text-xs text-muted-foreground">
+              <span>Up to (units)</span>
+              <span>Unit Price ({currency})</span>
+              <span>Flat Fee ({currency})</span>
+              <span className="w-10" />
+            </div>
+            {tiers.map((tier, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+                <Input
+                  type="number"
+                  step="1"
+                  min="1"
+                  placeholder="No limit"
+                  aria-label={`Tier ${index + 1} limit`}
+                  value={tier.upTo ?? ''}
+                  onChange={(e) => updateTier(index, 'upTo', e.target.value)}
+                />
+                <Input
+                  type="number"
+                  step="0.0001"
+                  min="0"
+                  aria-label={`Tier ${index + 1} unit price`}
+                  value={tier.unitPrice}
+                  onChange={(e) => updateTier(index, 'unitPrice', e.target.value)}
+                />
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  aria-label={`Tier ${index + 1} flat fee`}
+                  value={tier.flatFee}
+                  onChange={(e) => updateTier(index, 'flatFee', e.target.value)}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  disabled={tiers.length === 1}
+                  onClick={() => removeTier(index)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="mt-2"
+              disabled={tiers.length >= MAX_USAGE_TIERS}
+              onClick={addTier}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Tier
+            </Button>
+            {tiersError && (
+              <p className="text-xs text-red-500">{tiersError}</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// Trial and introductory price inputs, shared by the add and edit dialogs
+const PlanOfferFields = ({
+  idPrefix,
+  formData,
+  formErrors,
+  onChange
+}: {
+  idPrefix: string;
+  formData: Partial<PricingPlan>;
+  formErrors: FieldErrors;
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+}) => (
+  <div className="grid gap-4">
+    <div className="grid gap-2">
+      <Label htmlFor={`${idPrefix}trialDays`}>Free Trial (days)</Label>
+      <Input
+        id={`${idPrefix}trialDays`}
+        name="trialDays"
+        type="number"
+        step="1"
+        min="0"
+        max={MAX_TRIAL_DAYS}
+        value={formData.trialDays ?? 0}
+        onChange={onChange}
+      />
+      {formErrors.trialDays ? (
+        <p className="text-xs text-red-500">{formErrors.trialDays}</p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Set to 0 for no trial. Each user can try your app once.
+        </p>
+      )}
+    </div>
+    
+    <div className="grid grid-cols-2 gap-4">
+      <div className="grid gap-2">
+        <Label htmlFor={`${idPrefix}introPrice`}>
+          Introductory Price ({formData.currency ?? DEFAULT_CURRENCY})
+        </Label>
+        <Input
+          id={`${idPrefix}introPrice`}
+          name="introPrice"
+          type="number"
+          step="0.01"
+          min="0"
+          placeholder="None"
+          value={formData.introPrice ?? ''}
+          onChange={onChange}
+        />
+        {formErrors.introPrice && (
+          <p className="text-xs text-red-500">{formErrors.introPrice}</p>
+        )}
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor={`${idPrefix}introPeriods`}>For Billing Periods</Label>
+        <Input
+          id={`${idPrefix}introPeriods`}
+          name="introPeriods"
+          type="number"
+          step="1"
+          min="1"
+          max={MAX_INTRO_PERIODS}
+          placeholder="None"
+          value={formData.introPeriods ?? ''}
+          onChange={onChange}
+        />
+        {formErrors.introPeriods && (
+          <p className="text-xs text-red-500">{formErrors.introPeriods}</p>
+        )}
+      </div>
+    </div>
+    <p className="text-xs text-muted-foreground">
+      Changes to the trial or introductory price apply to new subscribers only. In other
+      currencies the introductory price is discounted by the same share.
+    </p>
+  </div>
+);
+
+const SUBSCRIPTION_STATUS_LABELS: Record<SubscriptionStatus, string> = {
+  pending: 'Awaiting payment',
+  trialing: 'Trial',
+  active: 'Active',
+  past_due: 'Past due',
+  canceled: 'Canceled',
+  expired: 'Expired'
+};
+
+interface CouponFormData {
+  code: string;
+  discountType: CouponDiscountType;
+  discountValue: string;
+  // Only sent for fixed discounts
+  currency: string;
+  duration: CouponDuration;
+  durationPeriods: string;
+  maxRedemptions: string;
+  expiresAt: string;
+  planIds: number[];
+}
+
+const EMPTY_COUPON_FORM: CouponFormData = {
+  code: '',
+  discountType: 'percent',
+  discountValue: '',
+  currency: DEFAULT_CURRENCY,
+  duration: 'once',
+  durationPeriods: '',
+  maxRedemptions: '',
+  expiresAt: '',
+  planIds: []
+};
+
+// Empty number inputs mean "not set"
+const toOptionalNumber = (value: string) => value.trim() === '' ? null : Number(value);
+
+const isUsedUp = (coupon: Coupon) => coupon.maxRedemptions !== null && coupon.redemptionCount >= coupon.maxRedemptions;
+
+const isExpired = (coupon: Coupon) => coupon.expiresAt !== null && new Date(coupon.expiresAt) <= new Date();
+
+// The app's coupons: creating them, switching them off and on, and who redeemed them
+const AppCoupons = ({ appId, plans }: { appId: number; plans: PricingPlan[] }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [formData, setFormData] = useState<CouponFormData>(EMPTY_COUPON_FORM);
+  const [formErrors, setFormErrors] = useState<FieldErrors>({});
+  const [redemptionsCoupon, setRedemptionsCoupon] = useState<Coupon | null>(null);
+  
+  const planNames = new Map(plans.map(plan => [plan.id, plan.name]));
+  const paidPlans = plans.filter(plan => !isFreePlan(plan));
+  
+  // Query the app's coupons
+  const { data: coupons = [], isLoading } = useQuery<Coupon[]>({
+    queryKey: ['/api/oauth-apps', String(appId), 'coupons'],
+  });
+  
+  // Query who redeemed the selected coupon
+  const { data: redemptions = [], isLoading: isLoadingRedemptions } = useQuery<CouponRedemptionDetails[]>({
+    queryKey: ['/api/oauth-apps/coupons', redemptionsCoupon?.id, 'redemptions'],
+    queryFn: async () => apiRequest(`/api/oauth-apps/coupons/${redemptionsCoupon!.id}/redemptions`, { method: 'GET' }),
+    enabled: !!redemptionsCoupon,
+  });
+  
+  // Mutation to create a coupon
+  const createCouponMutation = useMutation({
+    mutationFn: async (data: InsertCouponInput) => {
+      return apiRequest(`/api/oauth-apps/${appId}/coupons`, {
+        method: 'POST',
+        body: JSON.stringify(data)
+      });
+    },
+    onSuccess: (coupon: Coupon) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/oauth-apps', String(appId), 'coupons'] });
+      setShowCreateDialog(false);
+      setFormData(EMPTY_COUPON_FORM);
+      setFormErrors({});
+      toast({
+        title: "Coupon Created",
+        description: `Subscribers can now use ${coupon.code} at checkout`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create coupon",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  // Mutation to switch a coupon off or on
+  const updateCouponMutation = useMutation({
+    mutationFn: async ({ couponId, data }: { couponId: number, data: UpdateCouponInput }) => {
+      return apiRequest(`/api/oauth-apps/coupons/${couponId}`, {
+        method: 'PATCH',
+        body: JSON.stringify(data)
+      });
+    },
+    onSuccess: (coupon: Coupon) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/oauth-apps', String(appId), 'coupons'] });
+      toast({
+        title: coupon.isActive ? "Coupon Activated" : "Coupon Deactivated",
+        description: coupon.isActive
+          ? `${coupon.code} can be redeemed again`
+          : `${coupon.code} can no longer be redeemed; existing discounts are kept`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update coupon",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+  
+  const togglePlan = (planId: number, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      planIds: checked ? [...prev.planIds, planId] : prev.planIds.filter(id => id !== planId)
+    }));
+  };
+  
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Fixed discounts are entered in major units, e.g. 5.00, and stored in minor units
+    const discountValue = toOptionalNumber(formData.discountValue);
+    
+    // Same checks the server runs
+    const result = validate(insertCouponSchema, {
+      code: formData.code,
+      discountType: formData.discountType,
+      discountValue: discountValue !== null && formData.discountType === 'fixed'
+        ? toMinorUnits(discountValue, formData.currency)
+        : discountValue,
+      currency: formData.discountType === 'fixed' ? formData.currency : null,
+      duration: formData.duration,
+      durationPeriods: formData.duration === 'repeating' ? toOptionalNumber(formData.durationPeriods) : null,
+      maxRedemptions: toOptionalNumber(formData.maxRedemptions),
+      // The end of the chosen day, in the developer's time zone
+      expiresAt: formData.expiresAt ? new Date(`${formData.expiresAt}T23:59:59`) : null,
+      planIds: formData.planIds
+    });
+    const errors = result.success ? getCouponErrors(result.data) : result.errors;
+    setFormErrors(errors);
+    if (!result.success || Object.keys(errors).length > 0) return;
+    
+    createCouponMutation.mutate(result.data);
+  };
+  
+  const openCreateDialog = () => {
+    setFormData(EMPTY_COUPON_FORM);
+    setFormErrors({});
+    setShowCreateDialog(true);
+  };
+  
+  const couponStatus = (coupon: Coupon): { label: string; variant: 'default' | 'secondary' | 'outline' } =>
+    !coupon.isActive ? { label: 'Inactive', variant: 'outline' }
+      : isExpired(coupon) ? { label: 'Expired', variant: 'secondary' }
+      : isUsedUp(coupon) ? { label: 'Used up', variant: 'secondary' }
+      : { label: 'Active', variant: 'default' };
+  
+  return (
+    <>
+      <Card className="mt-8">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Tag className="h-5 w-5" />
+              Coupons
+            </CardTitle>
+            <CardDescription>
+              Promotion codes subscribers enter at checkout for a discount on paid plans
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={openCreateDialog} disabled={paidPlans.length === 0}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Coupon
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-10">
+              <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4" />
+              <p>Loading coupons...</p>
+            </div>
+          ) : coupons.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Discount</TableHead>
+                  <TableHead>Plans</TableHead>
+                  <TableHead>Redemptions</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {coupons.map(coupon => {
+                  const status = couponStatus(coupon);
+                  return (
+                    <TableRow key={coupon.id}>
+                      <TableCell className="font-mono font-medium">{coupon.code}</TableCell>
+                      <TableCell>{describeCoupon(coupon)}</TableCell>
+                      <TableCell>
+                        {coupon.planIds.length > 0
+                          ? coupon.planIds.map(planId => planNames.get(planId) ?? 'Deleted plan').join(', ')
+                          : 'All paid plans'}
+                      </TableCell>
+                      <TableCell>
+                        {coupon.redemptionCount}
+                        {coupon.maxRedemptions !== null && ` / ${coupon.maxRedemptions}`}
+                      </TableCell>
+                      <TableCell>{coupon.expiresAt ? new Date(coupon.expiresAt).toLocaleDateString() : 'Never'}</TableCell>
+                      <TableCell>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end items-center gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => setRedemptionsCoupon(coupon)}>
+                            <Users className="mr-1 h-4 w-4" />
+                            Redemptions
+                          </Button>
+                          <Switch
+                            checked={coupon.isActive}
+                            onCheckedChange={(isActive) => updateCouponMutation.mutate({ couponId: coupon.id, data: { isActive } })}
+                            disabled={updateCouponMutation.isPending}
+                            aria-label={coupon.isActive ? `Deactivate ${coupon.code}` : `Activate ${coupon.code}`}
+                          />
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-center text-muted-foreground py-10">
+              {paidPlans.length > 0
+                ? 'No coupons yet. Create one to offer a discount to new subscribers.'
+                : 'Create a paid pricing plan before adding coupons.'}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+      
+      {/* Create Coupon Dialog */}
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent className="sm:max-w-[550px]">
+          <DialogHeader>
+            <DialogTitle>Add Coupon</DialogTitle>
+            <DialogDescription>
+              The code and discount can't be changed once the coupon is created.
+            </DialogDescription>
+          </DialogHeader>
+          
+          <form onSubmit={handleSubmit} noValidate>
+            <ScrollArea className="max-h-[60vh] pr-4">
+              <div className="grid gap-4 py-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="coupon-code">Code</Label>
+                  <Input
+                    id="coupon-code"
+                    name="code"
+                    placeholder="LAUNCH20"
+                    value={formData.code}
+                    onChange={handleInputChange}
+                    className="font-mono uppercase"
+                  />
+                  {formErrors.code && (
+                    <p className="text-xs text-red-500">{formErrors.code}</p>
+                  )}
+                </div>
+                
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="grid gap-2">
+                    <Label>Discount Type</Label>
+                    <RadioGroup
+                      value={formData.discountType}
+                      onValueChange={(value) => setFormData(prev => ({ ...prev, discountType: value as CouponDiscountType }))}
+                      className="flex space-x-4"
+                    >
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="percent" id="coupon-percent" />
+                        <Label htmlFor="coupon-percent" className="cursor-pointer">Percent</Label>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="fixed" id="coupon-fixed" />
+                        <Label htmlFor="coupon-fixed" className="cursor-pointer">Fixed</Label>
+                      </div>
+                    </RadioGroup>
+                    {formData.discountType === 'fixed' && (
+                      <Select
+                        value={formData.currency}
+                        onValueChange={(value) => setFormData(prev => ({ ...prev, currency: value }))}
+                      >
+                        <SelectTrigger aria-label="Discount currency" className="w-[100px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CURRENCIES.map(code => (
+                            <SelectItem key={code} value={code}>{code}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    {formErrors.currency ? (
+                      <p className="text-xs text-red-500">{formErrors.currency}</p>
+                    ) : formData.discountType === 'fixed' && (
+                      <p className="text-xs text-muted-foreground">Only applies to payments in this currency</p>
+                    )}
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="coupon-discountValue">
+                      {formData.discountType === 'percent' ? 'Discount (%)' : `Discount (${formData.currency})`}
+                    </Label>
+                    <Input
+                      id="coupon-discountValue"
+                      name="discountValue"
+                      type="number"
+                      step={formData.discountType === 'percent' ? '1' : '0.01'}
+                      min="0"
+                      max={formData.discountType === 'percent' ? 100 : undefined}
+                      value={formData.discountValue}
+                      onChange={handleInputChange}
+                    />
+                    {formErrors.discountValue && (
+                      <p className="text-xs text-red-500">{formErrors.discountValue}</p>
+                    )}
+                  </div>
+                </div>
+                
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="grid gap-2">
+                    <Label>Duration</Label>
+                    <RadioGroup
+                      value={formData.duration}
+                      onValueChange={(value) => setFormData(prev => ({ ...prev, duration: value as CouponDuration }))}
+                      className="flex space-x-4"
+                    >
+                      {(Object.keys(COUPON_DURATION_LABELS) as CouponDuration[]).map(duration => (
+                        <div key={duration} className="flex items-center space-x-2">
+                          <RadioGroupItem value={duration} id={`coupon-${duration}`} />
+                          <Label htmlFor={`coupon-${duration}`} className="cursor-pointer">
+                            {COUPON_DURATION_LABELS[duration]}
+                          </Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  </div>
+                  {formData.duration === 'repeating' && (
+                    <div className="grid gap-2">
+                      <Label htmlFor="coupon-durationPeriods">For Billing Periods</Label>
+                      <Input
+                        id="coupon-durationPeriods"
+                        name="durationPeriods"
+                        type="number"
+                        step="1"
+                        min="1"
+                        max={MAX_COUPON_PERIODS}
+                        value={formData.durationPeriods}
+                        onChange={handleInputChange}
+                      />
+                      {formErrors.durationPeriods && (
+                        <p className="text-xs text-red-500">{formErrors.durationPeriods}</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+                
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="grid gap-2">
+                    <Label htmlFor="coupon-maxRedemptions">Redemption Limit</Label>
+                    <Input
+                      id="coupon-maxRedemptions"
+                      name="maxRedemptions"
+                      type="number"
+                      step="1"
+                      min="1"
+                      placeholder="Unlimited"
+                      value={formData.maxRedemptions}
+                      onChange={handleInputChange}
+                    />
+                    {formErrors.maxRedemptions && (
+                      <p className="text-xs text-red-500">{formErrors.maxRedemptions}</p>
+                    )}
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="coupon-expiresAt">Expires</Label>
+                    <Input
+                      id="coupon-expiresAt"
+                      name="expiresAt"
+                      type="date"
+                      value={formData.expiresAt}
+                      onChange={handleInputChange}
+                    />
+                    {formErrors.expiresAt && (
+                      <p className="text-xs text-red-500">{formErrors.expiresAt}</p>
+                    )}
+                  </div>
+                </div>
+                
+                <Separator />
+                
+                <div className="grid gap-2">
+                  <Label>Plans</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Leave all off to accept the code on every paid plan
+                  </p>
+                  {paidPlans.map(plan => (
+                    <div key={plan.id} className="flex items-center justify-between">
+                      <Label htmlFor={`coupon-plan-${plan.id}`} className="cursor-pointer">{plan.name}</Label>
+                      <Switch
+                        id={`coupon-plan-${plan.id}`}
+                        checked={formData.planIds.includes(plan.id)}
+                        onCheckedChange={(checked) => togglePlan(plan.id, checked)}
+                      />
+                    </div>
+                  ))}
+                  {formErrors.planIds && (
+                    <p className="text-xs text-red-500">{formErrors.planIds}</p>
+                  )}
+                </div>
+              </div>
+            </ScrollArea>
+            
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowCreateDialog(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createCouponMutation.isPending}>
+                {createCouponMutation.isPending ? (
+                  <>
+                    <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                    Creating...
+                  </>
+                ) : (
+                  <>
+                    <Save className="mr-2 h-4 w-4" />
+                    Create Coupon
+                  </>
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+      
+      {/* Redemptions Dialog */}
+      <Dialog open={!!redemptionsCoupon} onOpenChange={(open) => !open && setRedemptionsCoupon(null)}>
+        <DialogContent className="sm:max-w-[700px]">
+          <DialogHeader>
+            <DialogTitle>Redemptions of {redemptionsCoupon?.code}</DialogTitle>
+            <DialogDescription>
+              {redemptionsCoupon && describeCoupon(redemptionsCoupon)}. Checkouts that are abandoned give their redemption back.
+            </DialogDescription>
+          </DialogHeader>
+          
+          {isLoadingRedemptions ? (
+            <div className="text-center py-10">
+              <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4" />
+              <p>Loading redemptions...</p>
+            </div>
+          ) : redemptions.length > 0 ? (
+            <ScrollArea className="max-h-[60vh]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Plan</TableHead>
+                    <TableHead>Redeemed</TableHead>
+                    <TableHead>Subscription</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {redemptions.map(redemption => (
+                    <TableRow key={redemption.id}>
+                      <TableCell>
+                        <div className="font-medium">{redemption.customer.name || redemption.customer.username}</div>
+                        <div className="text-xs text-muted-foreground">{redemption.customer.email}</div>
+                      </TableCell>
+                      <TableCell>{planNames.get(redemption.planId) ?? 'Deleted plan'}</TableCell>
+                      <TableCell>{new Date(redemption.redeemedAt).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{SUBSCRIPTION_STATUS_LABELS[redemption.subscriptionStatus]}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          ) : (
+            <p className="text-center text-muted-foreground py-10">
+              Nobody has redeemed this code yet.
+            </p>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
 // Component for viewing features in the table
 const Eye = (props: any) => {
   return (
@@ -8,6 +8,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
 import { useParams } from 'wouter';
 import { OAuthApp, AppReview } from '../../shared/schema';
+import { FieldErrors, InsertAppReviewInput, insertAppReviewSchema, validate } from '../../shared/validation';
 import { apiRequest } from '@/lib/queryClient';
 
 // UI Components
@@ -37,6 +38,7 @@ const OAuthAppReviews = () => {
     rating: 5,
     reviewText: ''
   });
+  const [formErrors, setFormErrors] = useState<FieldErrors>({});
   
   // Current user (would be from auth context in a real app)
   const currentUserId = 1; // Simulated current user ID
@@ -61,7 +63,7 @@ const OAuthAppReviews = () => {
   
   // Mutation to submit a review
   const submitReviewMutation = useMutation({
-    mutationFn: async (data: typeof formData) => {
+    mutationFn: async (data: InsertAppReviewInput) => {
       return apiRequest(`/api/oauth-apps/${id}/reviews`, {
         method: 'POST',
         body: JSON.stringify(data)
@@ -88,7 +90,7 @@ const OAuthAppReviews = () => {
   
   // Mutation to update a review
   const updateReviewMutation = useMutation({
-    mutationFn: async ({ reviewId, data }: { reviewId: number, data: typeof formData }) => {
+    mutationFn: async ({ reviewId, data }: { reviewId: number, data: InsertAppReviewInput }) => {
       return apiRequest(`/api/oauth-apps/reviews/${reviewId}`, {
         method: 'PUT',
         body: JSON.stringify(data)
@@ -182,18 +184,24 @@ const OAuthAppReviews = () => {
       rating: 5,
       reviewText: ''
     });
+    setFormErrors({});
   };
   
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
+    // Same schema the server validates against
+    const result = validate(insertAppReviewSchema, formData);
+    setFormErrors(result.success ? {} : result.errors);
+    if (!result.success) return;
+    
     if (isEditing && selectedReview) {
       updateReviewMutation.mutate({ 
         reviewId: selectedReview.id, 
-        data: formData 
+        data: result.data 
       });
     } else {
-      submitReviewMutation.mutate(formData);
+      submitReviewMutation.mutate(result.data);
     }
   };
   
@@ -203,6 +211,7 @@ const OAuthAppReviews = () => {
       rating: review.rating,
       reviewText: review.reviewText || ''
     });
+    setFormErrors({});
     setIsEditing(true);
     setShowReviewDialog(true);
   };
@@ -496,6 +505,9 @@ const OAuthAppReviews = () => {
                   interactive={true} 
                   size={8}
                 />
+                {formErrors.rating && (
+                  <p className="text-xs text-red-500">{formErrors.rating}</p>
+                )}
               </div>
               
               <Separator />
@@ -509,6 +521,9 @@ const OAuthAppReviews = () => {
                   value={formData.reviewText}
                   onChange={handleInputChange}
                 />
+                {formErrors.reviewText && (
+                  <p className="text-xs text-red-500">{formErrors.reviewText}</p>
+                )}
               </div>
             </div>
             
@@ -0,0 +1,212 @@
+/**
+ * OAuth Consent Screen Component
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import React, { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { OAuthScope } from '../../shared/schema';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Switch } from '@/components/ui/switch';
+
+// Icons
+import { AlertCircle, Check, Globe, RefreshCw, Shield, X } from 'lucide-react';
+
+const OAuthConsent = () => {
+  const { toast } = useToast();
+  const search = window.location.search;
+  const params = new URLSearchParams(search);
+  const [declinedScopes, setDeclinedScopes] = useState<string[]>([]);
+
+  // Query the pending authorization request
+  const { data: details, isLoading, error } = useQuery({
+    queryKey: [`/oauth/authorize/details${search}`],
+    retry: false,
+  });
+
+  // Mutation to submit the user's decision
+  const decisionMutation = useMutation({
+    mutationFn: async (approved: boolean) => {
+      return apiRequest('/oauth/authorize', {
+        method: 'POST',
+        body: JSON.stringify({
+          ...Object.fromEntries(params.entries()),
+          approved,
+          grantedScopes: details.scopes
+            .map((scope: OAuthScope) => scope.name)
+            .filter((name: string) => !declinedScopes.includes(name))
+        })
+      });
+    },
+    onSuccess: (data: any) => {
+      window.location.href = data.redirectUrl;
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to complete authorization",
+        variant: "destructive",
+      });
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container py-12 text-center">
+        <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4" />
+        <p>Loading authorization request...</p>
+      </div>
+    );
+  }
+
+  if (error || !details) {
+    return (
+      <div className="container py-12 text-center">
+        <Alert variant="destructive" className="max-w-md mx-auto">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Invalid Authorization Request</AlertTitle>
+          <AlertDescription>
+            This authorization request is invalid or the application is not registered.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const { app, redirectUri, scopes } = details;
+  
+  // Optional scopes can be declined individually
+  const toggleScope = (name: string, granted: boolean) => {
+    setDeclinedScopes(prev => granted
+      ? prev.filter(scope => scope !== name)
+      : [...prev, name]
+    );
+  };
+
+  return (
+    <div className="container py-12">
+      <Card className="max-w-md mx-auto">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            {app.logoUrl ? (
+              <img
+                src={app.logoUrl}
+                alt={`${app.name} logo`}
+                className="h-16 w-16 rounded-lg"
+              />
+            ) : (
+              <div className="h-16 w-16 rounded-lg bg-primary/10 flex items-center justify-center">
+                <span className="text-primary font-bold text-2xl">
+                  {app.name.charAt(0)}
+                </span>
+              </div>
+            )}
+          </div>
+          <CardTitle>Authorize {app.name}</CardTitle>
+          <CardDescription>
+            {app.name} is requesting access to your account
+          </CardDescription>
+          <div className="flex justify-center mt-2">
+            <Badge variant={app.verificationStatus === 'verified' ? 'default' : 'outline'}>
+              {app.verificationStatus === 'verified' ? (
+                <><Check className="mr-1 h-3 w-3" /> Verified</>
+              ) : (
+                app.verificationStatus
+              )}
+            </Badge>
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          <p className="text-sm text-muted-foreground mb-4">{app.description}</p>
+
+          <div className="flex items-center gap-2 text-sm mb-2">
+            <Globe className="h-4 w-4" />
+            <a href={app.homepageUrl} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline truncate">
+              {app.homepageUrl}
+            </a>
+          </div>
+
+          <Separator className="my-4" />
+
+          <h3 className="text-sm font-medium mb-3">This application will be able to:</h3>
+          {scopes.length > 0 ? (
+            <ul className="space-y-3 mb-4">
+              {scopes.map((scope: OAuthScope & { required: boolean }) => (
+                <li key={scope.name} className="flex items-start justify-between gap-3">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm">{scope.description}</span>
+                      {scope.sensitivity === 'high' && (
+                        <Badge variant="destructive">Sensitive</Badge>
+                      )}
+                    </div>
+                    <span className="font-mono text-xs text-muted-foreground">{scope.name}</span>
+                  </div>
+                  {scope.required ? (
+                    <Badge variant="outline">Required</Badge>
+                  ) : (
+                    <Switch
+                      checked={!declinedScopes.includes(scope.name)}
+                      onCheckedChange={(checked) => toggleScope(scope.name, checked)}
+                    />
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground mb-4">
+              Confirm your identity. No additional access is requested.
+            </p>
+          )}
+
+          <Separator className="my-4" />
+
+          <div className="flex items-start gap-2 text-sm text-muted-foreground">
+            <Shield className="h-4 w-4 flex-shrink-0 mt-0.5" />
+            <span>
+              After authorizing, you will be redirected to <span className="font-mono break-all">{redirectUri}</span>
+            </span>
+          </div>
+        </CardContent>
+
+        <CardFooter className="flex justify-between">
+          <Button
+            variant="outline"
+            onClick={() => decisionMutation.mutate(false)}
+            disabled={decisionMutation.isPending}
+          >
+            <X className="mr-2 h-4 w-4" />
+            Deny
+          </Button>
+          <Button
+            onClick={() => decisionMutation.mutate(true)}
+            disabled={decisionMutation.isPending}
+          >
+            {decisionMutation.isPending ? (
+              <>
+                <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                Authorizing...
+              </>
+            ) : (
+              <>
+                <Check className="mr-2 h-4 w-4" />
+                Authorize
+              </>
+            )}
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default OAuthConsent;
@@ -0,0 +1,278 @@
+/**
+ * Wallet Component
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useInfiniteQuery, useMutation, useQuery } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { CreditTransactionType, WalletTransaction } from '../../shared/schema';
+import { creditsToPrice } from '../../shared/credits';
+import { FieldErrors, MAX_CREDIT_PURCHASE, MIN_CREDIT_PURCHASE, purchaseCreditsSchema, validate } from '../../shared/validation';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+// Icons
+import { Coins, History, Plus, RefreshCw } from 'lucide-react';
+
+const PAGE_SIZE = 20;
+
+const PURCHASE_PRESETS = [1000, 2500, 5000, 10000];
+
+const TRANSACTION_LABELS: Record<CreditTransactionType, string> = {
+  purchase: 'Purchase',
+  plan_payment: 'Plan payment',
+  refund: 'Refund',
+  promotional_grant: 'Promotion',
+  payout: 'Payout'
+};
+
+const formatCredits = (credits: number) => credits.toLocaleString();
+
+const Wallet = () => {
+  const { toast } = useToast();
+  const [showPurchaseDialog, setShowPurchaseDialog] = useState(false);
+  const [purchaseAmount, setPurchaseAmount] = useState(String(PURCHASE_PRESETS[0]));
+  const [formErrors, setFormErrors] = useState<FieldErrors>({});
+
+  // Query for the balance
+  const { data: wallet, isLoading: isLoadingWallet } = useQuery<{ balance: number }>({
+    queryKey: ['/api/wallet'],
+  });
+
+  // Query for the transaction history, a page at a time
+  const {
+    data: history,
+    isLoading: isLoadingHistory,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteQuery({
+    queryKey: ['/api/wallet/transactions'],
+    queryFn: async ({ pageParam }): Promise<WalletTransaction[]> => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (pageParam) params.set('before', String(pageParam));
+      return apiRequest(`/api/wallet/transactions?${params}`, { method: 'GET' });
+    },
+    initialPageParam: null as number | null,
+    getNextPageParam: (lastPage) => lastPage.length === PAGE_SIZE ? lastPage[lastPage.length - 1].id : null,
+  });
+
+  const transactions = history?.pages.flat() ?? [];
+
+  // Report the outcome when the payment provider sends the user back here
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const outcome = params.get('purchase');
+    if (!outcome) return;
+
+    if (outcome === 'success') {
+      toast({
+        title: "Purchase Complete",
+        description: "Your credits will appear as soon as the payment is confirmed.",
+      });
+    } else {
+      toast({
+        title: "Purchase Cancelled",
+        description: "You have not been charged.",
+      });
+    }
+    params.delete('purchase');
+    const query = params.toString();
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+  }, []);
+
+  // Mutation to start a credit purchase
+  const purchaseMutation = useMutation({
+    mutationFn: async (credits: number) => {
+      return apiRequest('/api/wallet/purchase', {
+        method: 'POST',
+        body: JSON.stringify({ credits })
+      });
+    },
+    onSuccess: (data: { checkoutUrl: string }) => {
+      window.location.href = data.checkoutUrl;
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start credit purchase",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const confirmPurchase = () => {
+    const result = validate(purchaseCreditsSchema, { credits: Number(purchaseAmount) });
+    if (!result.success) {
+      setFormErrors(result.errors);
+      return;
+    }
+    setFormErrors({});
+    purchaseMutation.mutate(result.data.credits);
+  };
+
+  return (
+    <div className="container py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">Wallet</h1>
+        <p className="text-muted-foreground mt-2">
+          Buy credits and pay for app subscriptions with them. One credit is worth $0.01.
+        </p>
+      </div>
+
+      <Card className="mb-8">
+        <CardHeader>
+          <CardDescription>Balance</CardDescription>
+          <CardTitle className="text-4xl flex items-center gap-2">
+            <Coins className="h-8 w-8 text-primary" />
+            {isLoadingWallet ? '—' : formatCredits(wallet?.balance ?? 0)}
+            <span className="text-base font-normal text-muted-foreground">
+              credits (${creditsToPrice(wallet?.balance ?? 0).toFixed(2)})
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardFooter>
+          <Button onClick={() => setShowPurchaseDialog(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Buy Credits
+          </Button>
+        </CardFooter>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Transaction History
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoadingHistory ? (
+            <div className="text-center py-10">
+              <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4" />
+              <p>Loading transactions...</p>
+            </div>
+          ) : transactions.length > 0 ? (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transactions.map(transaction => (
+                    <TableRow key={transaction.id}>
+                      <TableCell>{new Date(transaction.createdAt).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{TRANSACTION_LABELS[transaction.type]}</Badge>
+                      </TableCell>
+                      <TableCell>{transaction.description}</TableCell>
+                      <TableCell className={`text-right font-medium ${transaction.amount > 0 ? 'text-green-600' : ''}`}>
+                        {transaction.amount > 0 ? '+' : ''}{formatCredits(transaction.amount)}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCredits(transaction.balanceAfter)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {hasNextPage && (
+                <div className="text-center mt-4">
+                  <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                    {isFetchingNextPage ? (
+                      <>
+                        <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                        Loading...
+                      </>
+                    ) : (
+                      'Load More'
+                    )}
+                  </Button>
+                </div>
+              )}
+            </>
+          ) : (
+            <p className="text-center text-muted-foreground py-10">
+              No transactions yet. Credits you buy or spend will show up here.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Purchase Dialog */}
+      <Dialog open={showPurchaseDialog} onOpenChange={setShowPurchaseDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Buy Credits</DialogTitle>
+            <DialogDescription>
+              You'll pay on the payment provider's page. Credits are added once the payment is confirmed.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex flex-wrap gap-2">
+            {PURCHASE_PRESETS.map(credits => (
+              <Button
+                key={credits}
+                variant={purchaseAmount === String(credits) ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setPurchaseAmount(String(credits))}
+              >
+                {formatCredits(credits)}
+              </Button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="purchase-amount">Credits</Label>
+            <Input
+              id="purchase-amount"
+              type="number"
+              min={MIN_CREDIT_PURCHASE}
+              max={MAX_CREDIT_PURCHASE}
+              step={1}
+              value={purchaseAmount}
+              onChange={(e) => setPurchaseAmount(e.target.value)}
+            />
+            {formErrors.credits && (
+              <p className="text-xs text-red-500">{formErrors.credits}</p>
+            )}
+            <p className="text-sm text-muted-foreground">
+              Total: ${creditsToPrice(Number(purchaseAmount) || 0).toFixed(2)}
+            </p>
+          </div>
+
+          <DialogFooter className="mt-4">
+            <Button variant="outline" onClick={() => setShowPurchaseDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={confirmPurchase} disabled={purchaseMutation.isPending}>
+              {purchaseMutation.isPending ? (
+                <>
+                  <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                  Starting checkout...
+                </>
+              ) : (
+                'Continue to Payment'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Wallet;
@@ -0,0 +1,138 @@
+-- Initial schema for the OAuth App Marketplace
+-- Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+
+CREATE TABLE users (
+  id serial PRIMARY KEY,
+  username text NOT NULL UNIQUE,
+  name text,
+  email text NOT NULL UNIQUE,
+  password text,
+  credits integer NOT NULL DEFAULT 0,
+  github_id text UNIQUE,
+  github_username text,
+  avatar_url text,
+  is_admin boolean NOT NULL DEFAULT false
+);
+
+CREATE TABLE oauth_apps (
+  id serial PRIMARY KEY,
+  user_id integer NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text NOT NULL,
+  client_id text UNIQUE,
+  client_secret_hash text,
+  previous_client_secret_hash text,
+  previous_client_secret_expires_at timestamptz,
+  homepage_url text NOT NULL,
+  redirect_uris text[] NOT NULL DEFAULT '{}'::text[],
+  is_published boolean NOT NULL DEFAULT false,
+  verification_status text NOT NULL DEFAULT 'pending',
+  logo_url text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  is_listed boolean NOT NULL DEFAULT true,
+  is_public_client boolean NOT NULL DEFAULT false,
+  required_scopes text[] NOT NULL DEFAULT '{}'::text[],
+  optional_scopes text[] NOT NULL DEFAULT '{}'::text[]
+);
+
+CREATE INDEX oauth_apps_user_id_idx ON oauth_apps (user_id);
+CREATE INDEX oauth_apps_published_idx ON oauth_apps (is_published, is_listed);
+
+CREATE TABLE pricing_plans (
+  id serial PRIMARY KEY,
+  app_id integer NOT NULL REFERENCES oauth_apps(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  price double precision NOT NULL,
+  billing_interval text NOT NULL,
+  features text[] NOT NULL DEFAULT '{}'::text[],
+  is_public boolean NOT NULL DEFAULT true
+);
+
+CREATE INDEX pricing_plans_app_id_idx ON pricing_plans (app_id);
+
+CREATE TABLE app_subscriptions (
+  id serial PRIMARY KEY,
+  user_id integer NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  app_id integer NOT NULL REFERENCES oauth_apps(id) ON DELETE CASCADE,
+  plan_id integer NOT NULL REFERENCES pricing_plans(id) ON DELETE RESTRICT,
+  status text NOT NULL,
+  start_date timestamptz NOT NULL DEFAULT now(),
+  end_date timestamptz
+);
+
+CREATE INDEX app_subscriptions_user_id_idx ON app_subscriptions (user_id);
+CREATE INDEX app_subscriptions_app_id_idx ON app_subscriptions (app_id);
+CREATE INDEX app_subscriptions_plan_id_idx ON app_subscriptions (plan_id);
+
+CREATE TABLE app_reviews (
+  id serial PRIMARY KEY,
+  app_id integer NOT NULL REFERENCES oauth_apps(id) ON DELETE CASCADE,
+  user_id integer NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  rating integer NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  review_text text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- One review per user per app
+CREATE UNIQUE INDEX app_reviews_app_id_user_id_key ON app_reviews (app_id, user_id);
+
+CREATE TABLE oauth_authorization_codes (
+  id serial PRIMARY KEY,
+  code_hash text NOT NULL UNIQUE,
+  app_id integer NOT NULL REFERENCES oauth_apps(id) ON DELETE CASCADE,
+  user_id integer NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  redirect_uri text,
+  code_challenge text,
+  code_challenge_method text,
+  scopes text[] NOT NULL DEFAULT '{}'::text[],
+  nonce text,
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX oauth_authorization_codes_user_app_idx ON oauth_authorization_codes (user_id, app_id);
+
+CREATE TABLE oauth_tokens (
+  id serial PRIMARY KEY,
+  app_id integer NOT NULL REFERENCES oauth_apps(id) ON DELETE CASCADE,
+  user_id integer NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  authorization_code_id integer REFERENCES oauth_authorization_codes(id) ON DELETE SET NULL,
+  scopes text[] NOT NULL DEFAULT '{}'::text[],
+  access_token_hash text NOT NULL UNIQUE,
+  refresh_token_hash text UNIQUE,
+  access_token_expires_at timestamptz NOT NULL,
+  refresh_token_expires_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX oauth_tokens_user_app_idx ON oauth_tokens (user_id, app_id);
+CREATE INDEX oauth_tokens_authorization_code_id_idx ON oauth_tokens (authorization_code_id);
+
+CREATE TABLE oauth_grants (
+  id serial PRIMARY KEY,
+  user_id integer NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  app_id integer NOT NULL REFERENCES oauth_apps(id) ON DELETE CASCADE,
+  scopes text[] NOT NULL DEFAULT '{}'::text[],
+  first_authorized_at timestamptz NOT NULL DEFAULT now(),
+  last_authorized_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX oauth_grants_user_id_app_id_key ON oauth_grants (user_id, app_id);
+
+CREATE TABLE signing_keys (
+  id serial PRIMARY KEY,
+  kid text NOT NULL UNIQUE,
+  algorithm text NOT NULL CHECK (algorithm IN ('RS256', 'ES256')),
+  status text NOT NULL CHECK (status IN ('active', 'retired')),
+  public_jwk jsonb NOT NULL,
+  private_key_pem text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  retired_at timestamptz,
+  publish_until timestamptz
+);
+
+-- At most one active key at a time
+CREATE UNIQUE INDEX signing_keys_single_active_key ON signing_keys (status) WHERE status = 'active';
@@ -0,0 +1,47 @@
+-- Full-text search over app names, descriptions and public plan features
+-- Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+
+ALTER TABLE oauth_apps ADD COLUMN search_vector tsvector NOT NULL DEFAULT ''::tsvector;
+
+-- Name ranks above description, which ranks above plan features
+CREATE FUNCTION oauth_app_search_vector(app_name text, app_description text, target_app_id integer)
+RETURNS tsvector AS $$
+  SELECT setweight(to_tsvector('english', app_name), 'A') ||
+    setweight(to_tsvector('english', app_description), 'B') ||
+    setweight(to_tsvector('english', coalesce((
+      SELECT string_agg(feature, ' ')
+      FROM pricing_plans p CROSS JOIN LATERAL unnest(p.features) AS feature
+      WHERE p.app_id = target_app_id AND p.is_public
+    ), '')), 'C')
+$$ LANGUAGE sql STABLE;
+
+CREATE FUNCTION oauth_apps_search_vector_trigger() RETURNS trigger AS $$
+BEGIN
+  NEW.search_vector := oauth_app_search_vector(NEW.name, NEW.description, NEW.id);
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER oauth_apps_search_vector_update
+  BEFORE INSERT OR UPDATE OF name, description ON oauth_apps
+  FOR EACH ROW EXECUTE FUNCTION oauth_apps_search_vector_trigger();
+
+-- Plan features are part of the app's vector, so plan changes refresh it
+CREATE FUNCTION pricing_plans_search_vector_trigger() RETURNS trigger AS $$
+DECLARE
+  changed_app_id integer := CASE WHEN TG_OP = 'DELETE' THEN OLD.app_id ELSE NEW.app_id END;
+BEGIN
+  UPDATE oauth_apps
+  SET search_vector = oauth_app_search_vector(name, description, id)
+  WHERE id = changed_app_id;
+  RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER pricing_plans_search_vector_update
+  AFTER INSERT OR UPDATE OR DELETE ON pricing_plans
+  FOR EACH ROW EXECUTE FUNCTION pricing_plans_search_vector_trigger();
+
+UPDATE oauth_apps SET search_vector = oauth_app_search_vector(name, description, id);
+
+CREATE INDEX oauth_apps_search_vector_idx ON oauth_apps USING gin (search_vector);
@@ -0,0 +1,12 @@
+-- Publish time for the recent feed and indexes for marketplace aggregates
+-- Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+
+ALTER TABLE oauth_apps ADD COLUMN published_at timestamptz;
+
+-- Best available approximation for apps published before this migration
+UPDATE oauth_apps SET published_at = created_at WHERE is_published;
+
+CREATE INDEX oauth_apps_published_at_idx ON oauth_apps (published_at);
+
+-- Install counts aggregate grants per app
+CREATE INDEX oauth_grants_app_id_idx ON oauth_grants (app_id);
@@ -0,0 +1,64 @@
+-- Admin-managed category tree and free-form tags for marketplace apps
+-- Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+
+CREATE TABLE app_categories (
+  id serial PRIMARY KEY,
+  parent_id integer REFERENCES app_categories (id) ON DELETE RESTRICT,
+  name text NOT NULL,
+  slug text NOT NULL UNIQUE,
+  description text,
+  position integer NOT NULL DEFAULT 0
+);
+
+CREATE INDEX app_categories_parent_id_idx ON app_categories (parent_id);
+
+ALTER TABLE oauth_apps
+  ADD COLUMN category_id integer REFERENCES app_categories (id) ON DELETE SET NULL,
+  ADD COLUMN tags text[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX oauth_apps_category_id_idx ON oauth_apps (category_id);
+CREATE INDEX oauth_apps_tags_idx ON oauth_apps USING gin (tags);
+
+-- Tags are searchable alongside the description
+DROP TRIGGER oauth_apps_search_vector_update ON oauth_apps;
+DROP TRIGGER pricing_plans_search_vector_update ON pricing_plans;
+DROP FUNCTION oauth_apps_search_vector_trigger();
+DROP FUNCTION pricing_plans_search_vector_trigger();
+DROP FUNCTION oauth_app_search_vector(text, text, integer);
+
+CREATE FUNCTION oauth_app_search_vector(app_name text, app_description text, app_tags text[], target_app_id integer)
+RETURNS tsvector AS $$
+  SELECT setweight(to_tsvector('english', app_name), 'A') ||
+    setweight(to_tsvector('english', app_description || ' ' || array_to_string(app_tags, ' ')), 'B') ||
+    setweight(to_tsvector('english', coalesce((
+      SELECT string_agg(feature, ' ')
+      FROM pricing_plans p CROSS JOIN LATERAL unnest(p.features) AS feature
+      WHERE p.app_id = target_app_id AND p.is_public
+    ), '')), 'C')
+$$ LANGUAGE sql STABLE;
+
+CREATE FUNCTION oauth_apps_search_vector_trigger() RETURNS trigger AS $$
+BEGIN
+  NEW.search_vector := oauth_app_search_vector(NEW.name, NEW.description, NEW.tags, NEW.id);
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER oauth_apps_search_vector_update
+  BEFORE INSERT OR UPDATE OF name, description, tags ON oauth_apps
+  FOR EACH ROW EXECUTE FUNCTION oauth_apps_search_vector_trigger();
+
+CREATE FUNCTION pricing_plans_search_vector_trigger() RETURNS trigger AS $$
+DECLARE
+  changed_app_id integer := CASE WHEN TG_OP = 'DELETE' THEN OLD.app_id ELSE NEW.app_id END;
+BEGIN
+  UPDATE oauth_apps
+  SET search_vector = oauth_app_search_vector(name, description, tags, id)
+  WHERE id = changed_app_id;
+  RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER pricing_plans_search_vector_update
+  AFTER INSERT OR UPDATE OR DELETE ON pricing_plans
+  FOR EACH ROW EXECUTE FUNCTION pricing_plans_search_vector_trigger();
@@ -0,0 +1,16 @@
+-- Payment provider references for subscription checkout
+-- Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+
+ALTER TABLE app_subscriptions
+  ADD COLUMN payment_provider text,
+  ADD COLUMN provider_checkout_id text,
+  ADD COLUMN provider_subscription_id text;
+
+CREATE UNIQUE INDEX app_subscriptions_provider_checkout_key
+  ON app_subscriptions (payment_provider, provider_checkout_id);
+CREATE INDEX app_subscriptions_provider_subscription_idx
+  ON app_subscriptions (payment_provider, provider_subscription_id);
+
+-- At most one pending or active subscription per user and app
+CREATE UNIQUE INDEX app_subscriptions_single_live_subscription
+  ON app_subscriptions (user_id, app_id) WHERE status IN ('pending', 'active');
@@ -0,0 +1,23 @@
+-- Billing periods, scheduled cancellation and the full subscription state machine
+-- Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+
+ALTER TABLE app_subscriptions
+  ADD COLUMN current_period_start timestamptz,
+  ADD COLUMN current_period_end timestamptz,
+  ADD COLUMN cancel_at_period_end boolean NOT NULL DEFAULT false;
+
+UPDATE app_subscriptions SET status = 'canceled' WHERE status = 'cancelled';
+
+-- Existing active subscriptions get a period anchored on their start date
+UPDATE app_subscriptions s
+SET current_period_start = s.start_date,
+  current_period_end = s.start_date + CASE p.billing_interval WHEN 'yearly' THEN interval '1 year' ELSE interval '1 month' END
+FROM pricing_plans p
+WHERE p.id = s.plan_id AND s.status = 'active';
+
+-- Trialing and past-due subscriptions also hold the user's one subscription per app
+DROP INDEX app_subscriptions_single_live_subscription;
+CREATE UNIQUE INDEX app_subscriptions_single_live_subscription
+  ON app_subscriptions (user_id, app_id) WHERE status IN ('pending', 'trialing', 'active', 'past_due');
+
+CREATE INDEX app_subscriptions_current_period_end_idx ON app_subscriptions (current_period_end);
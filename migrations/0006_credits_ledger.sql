@@ -0,0 +1,63 @@
+-- Double-entry credits ledger; users.credits becomes the wallet account's balance
+-- Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+
+CREATE TABLE credit_accounts (
+  id serial PRIMARY KEY,
+  user_id integer REFERENCES users (id) ON DELETE RESTRICT,
+  type text NOT NULL,
+  balance integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- One account of each type per user, and one of each platform account
+CREATE UNIQUE INDEX credit_accounts_user_id_type_key ON credit_accounts (user_id, type) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX credit_accounts_platform_type_key ON credit_accounts (type) WHERE user_id IS NULL;
+
+CREATE TABLE credit_transactions (
+  id serial PRIMARY KEY,
+  type text NOT NULL,
+  description text NOT NULL,
+  subscription_id integer REFERENCES app_subscriptions (id) ON DELETE SET NULL,
+  reference text UNIQUE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX credit_transactions_subscription_id_idx ON credit_transactions (subscription_id);
+
+CREATE TABLE credit_entries (
+  id serial PRIMARY KEY,
+  transaction_id integer NOT NULL REFERENCES credit_transactions (id) ON DELETE RESTRICT,
+  account_id integer NOT NULL REFERENCES credit_accounts (id) ON DELETE RESTRICT,
+  amount integer NOT NULL,
+  balance_after integer NOT NULL
+);
+
+CREATE INDEX credit_entries_transaction_id_idx ON credit_entries (transaction_id);
+CREATE INDEX credit_entries_account_id_idx ON credit_entries (account_id, transaction_id);
+
+-- Existing balances become opening grants from the promotions account
+INSERT INTO credit_accounts (user_id, type, balance)
+SELECT NULL, 'promotions', -SUM(credits) FROM users WHERE credits > 0 HAVING COUNT(*) > 0;
+
+INSERT INTO credit_accounts (user_id, type, balance)
+SELECT id, 'wallet', credits FROM users WHERE credits > 0;
+
+INSERT INTO credit_transactions (type, description, reference)
+SELECT 'promotional_grant', 'Opening balance', 'opening-balance:' || id FROM users WHERE credits > 0;
+
+INSERT INTO credit_entries (transaction_id, account_id, amount, balance_after)
+SELECT t.id, a.id, u.credits, u.credits
+FROM users u
+JOIN credit_accounts a ON a.user_id = u.id AND a.type = 'wallet'
+JOIN credit_transactions t ON t.reference = 'opening-balance:' || u.id
+WHERE u.credits > 0;
+
+INSERT INTO credit_entries (transaction_id, account_id, amount, balance_after)
+SELECT t.id, p.id, -u.credits, -SUM(u.credits) OVER (ORDER BY u.id)
+FROM users u
+JOIN credit_transactions t ON t.reference = 'opening-balance:' || u.id
+JOIN credit_accounts p ON p.user_id IS NULL AND p.type = 'promotions'
+WHERE u.credits > 0;
+
+UPDATE users SET credits = 0 WHERE credits < 0;
+ALTER TABLE users ADD CONSTRAINT users_credits_nonnegative CHECK (credits >= 0);
@@ -0,0 +1,31 @@
+-- Per-app platform fees, app and plan on ledger transactions, and developer payout requests
+-- Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+
+ALTER TABLE oauth_apps
+  ADD COLUMN platform_fee_percent double precision
+    CHECK (platform_fee_percent BETWEEN 0 AND 100);
+
+ALTER TABLE credit_transactions
+  ADD COLUMN app_id integer REFERENCES oauth_apps (id) ON DELETE SET NULL,
+  ADD COLUMN plan_id integer REFERENCES pricing_plans (id) ON DELETE SET NULL;
+
+UPDATE credit_transactions t
+SET app_id = s.app_id, plan_id = s.plan_id
+FROM app_subscriptions s
+WHERE s.id = t.subscription_id;
+
+CREATE INDEX credit_transactions_app_id_idx ON credit_transactions (app_id, created_at);
+
+CREATE TABLE payout_requests (
+  id serial PRIMARY KEY,
+  user_id integer NOT NULL REFERENCES users (id) ON DELETE RESTRICT,
+  amount integer NOT NULL CHECK (amount > 0),
+  status text NOT NULL DEFAULT 'pending',
+  transaction_id integer NOT NULL REFERENCES credit_transactions (id) ON DELETE RESTRICT,
+  note text,
+  requested_at timestamptz NOT NULL DEFAULT now(),
+  processed_at timestamptz
+);
+
+CREATE INDEX payout_requests_user_id_idx ON payout_requests (user_id, requested_at);
+CREATE INDEX payout_requests_status_idx ON payout_requests (status, requested_at);
@@ -0,0 +1,23 @@
+-- Free trials and introductory pricing on plans, and one trial per user and app
+-- Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+
+ALTER TABLE pricing_plans
+  ADD COLUMN trial_days integer NOT NULL DEFAULT 0 CHECK (trial_days >= 0),
+  ADD COLUMN intro_price double precision CHECK (intro_price > 0 AND intro_price < price),
+  ADD COLUMN intro_periods integer CHECK (intro_periods > 0),
+  ADD CONSTRAINT pricing_plans_intro_offer_complete CHECK ((intro_price IS NULL) = (intro_periods IS NULL));
+
+ALTER TABLE app_subscriptions
+  ADD COLUMN trial_end timestamptz,
+  ADD COLUMN intro_price double precision,
+  ADD COLUMN intro_ends_at timestamptz;
+
+CREATE TABLE app_trials (
+  id serial PRIMARY KEY,
+  user_id integer NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  app_id integer NOT NULL REFERENCES oauth_apps (id) ON DELETE CASCADE,
+  started_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Also what makes claiming a trial safe against concurrent checkouts
+CREATE UNIQUE INDEX app_trials_user_id_app_id_key ON app_trials (user_id, app_id);
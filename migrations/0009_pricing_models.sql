@@ -0,0 +1,28 @@
+-- Per-seat and metered pricing plans, seat counts and reported usage
+-- Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+
+ALTER TABLE pricing_plans
+  ADD COLUMN pricing_model text NOT NULL DEFAULT 'flat' CHECK (pricing_model IN ('flat', 'per_seat', 'metered')),
+  ADD COLUMN usage_unit text,
+  ADD COLUMN usage_tiers jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD CONSTRAINT pricing_plans_usage_pricing_metered_only
+    CHECK (pricing_model = 'metered' OR (usage_unit IS NULL AND usage_tiers = '[]'::jsonb));
+
+ALTER TABLE app_subscriptions
+  ADD COLUMN seats integer NOT NULL DEFAULT 1 CHECK (seats > 0),
+  ADD COLUMN usage_billed_until timestamptz;
+
+CREATE TABLE usage_records (
+  id serial PRIMARY KEY,
+  subscription_id integer NOT NULL REFERENCES app_subscriptions (id) ON DELETE CASCADE,
+  app_id integer NOT NULL REFERENCES oauth_apps (id) ON DELETE CASCADE,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  occurred_at timestamptz NOT NULL,
+  idempotency_key text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Period totals are summed per subscription over occurred_at
+CREATE INDEX usage_records_subscription_id_idx ON usage_records (subscription_id, occurred_at);
+-- Keys are unique per app; reports without one are never deduplicated
+CREATE UNIQUE INDEX usage_records_app_id_idempotency_key_key ON usage_records (app_id, idempotency_key);
@@ -0,0 +1,36 @@
+-- Invoices for subscription charges, numbered from their own sequence when finalized
+-- Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+
+CREATE SEQUENCE invoice_number_seq;
+
+CREATE TABLE invoices (
+  id serial PRIMARY KEY,
+  number text UNIQUE,
+  user_id integer NOT NULL REFERENCES users (id) ON DELETE RESTRICT,
+  subscription_id integer REFERENCES app_subscriptions (id) ON DELETE SET NULL,
+  app_id integer REFERENCES oauth_apps (id) ON DELETE SET NULL,
+  plan_id integer REFERENCES pricing_plans (id) ON DELETE SET NULL,
+  app_name text NOT NULL,
+  plan_name text NOT NULL,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'open', 'paid', 'void')),
+  period_start timestamptz NOT NULL,
+  period_end timestamptz NOT NULL,
+  lines jsonb NOT NULL DEFAULT '[]'::jsonb,
+  total double precision NOT NULL,
+  tax double precision NOT NULL,
+  credits_applied double precision NOT NULL,
+  amount_due double precision NOT NULL,
+  payment_method text,
+  reference text UNIQUE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  finalized_at timestamptz,
+  paid_at timestamptz,
+  voided_at timestamptz,
+  -- Numbered when finalized; a draft voided before then never gets a number
+  CONSTRAINT invoices_numbered_when_finalized
+    CHECK ((status <> 'draft' OR number IS NULL) AND (status NOT IN ('open', 'paid') OR number IS NOT NULL))
+);
+
+CREATE INDEX invoices_user_id_idx ON invoices (user_id, created_at);
+CREATE INDEX invoices_app_id_idx ON invoices (app_id, created_at);
+CREATE INDEX invoices_subscription_id_idx ON invoices (subscription_id, status);
@@ -0,0 +1,43 @@
+-- Coupons for app pricing plans, their redemptions, and the discount locked in on subscriptions
+-- Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+
+CREATE TABLE coupons (
+  id serial PRIMARY KEY,
+  app_id integer NOT NULL REFERENCES oauth_apps (id) ON DELETE CASCADE,
+  code text NOT NULL CHECK (code = upper(code)),
+  discount_type text NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  discount_value double precision NOT NULL CHECK (discount_value > 0),
+  duration text NOT NULL CHECK (duration IN ('once', 'repeating', 'forever')),
+  duration_periods integer CHECK (duration_periods > 0),
+  max_redemptions integer CHECK (max_redemptions > 0),
+  redemption_count integer NOT NULL DEFAULT 0 CHECK (redemption_count >= 0),
+  expires_at timestamptz,
+  plan_ids integer[] NOT NULL DEFAULT '{}'::integer[],
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT coupons_percent_at_most_100 CHECK (discount_type <> 'percent' OR discount_value <= 100),
+  CONSTRAINT coupons_periods_when_repeating CHECK ((duration = 'repeating') = (duration_periods IS NOT NULL))
+);
+
+CREATE UNIQUE INDEX coupons_app_id_code_key ON coupons (app_id, code);
+
+CREATE TABLE coupon_redemptions (
+  id serial PRIMARY KEY,
+  coupon_id integer NOT NULL REFERENCES coupons (id) ON DELETE CASCADE,
+  user_id integer NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  subscription_id integer NOT NULL REFERENCES app_subscriptions (id) ON DELETE CASCADE,
+  -- Not a foreign key: the plan may be deleted after the subscription moves off it
+  plan_id integer NOT NULL,
+  redeemed_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- One redemption per user and coupon, and one coupon per subscription
+CREATE UNIQUE INDEX coupon_redemptions_coupon_id_user_id_key ON coupon_redemptions (coupon_id, user_id);
+CREATE UNIQUE INDEX coupon_redemptions_subscription_id_key ON coupon_redemptions (subscription_id);
+
+ALTER TABLE app_subscriptions
+  ADD COLUMN coupon_id integer REFERENCES coupons (id) ON DELETE SET NULL,
+  ADD COLUMN discount_type text CHECK (discount_type IN ('percent', 'fixed')),
+  ADD COLUMN discount_value double precision CHECK (discount_value > 0),
+  ADD COLUMN discount_ends_at timestamptz,
+  ADD CONSTRAINT app_subscriptions_discount_complete CHECK ((discount_type IS NULL) = (discount_value IS NULL));
@@ -0,0 +1,28 @@
+-- Plan prices in minor units and other currencies, the currency subscriptions
+-- and invoices are billed in, and the billing address tax is worked out from
+-- Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+
+-- Existing prices were in dollars
+ALTER TABLE pricing_plans
+  ALTER COLUMN price TYPE integer USING round(price * 100)::integer,
+  ALTER COLUMN intro_price TYPE integer USING round(intro_price * 100)::integer,
+  ADD COLUMN currency text NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$'),
+  ADD COLUMN price_overrides jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE app_subscriptions
+  ALTER COLUMN intro_price TYPE integer USING round(intro_price * 100)::integer,
+  ADD COLUMN currency text NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$'),
+  ADD COLUMN billing_country text CHECK (billing_country ~ '^[A-Z]{2}$'),
+  ADD COLUMN billing_region text;
+
+ALTER TABLE invoices
+  ADD COLUMN currency text NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$');
+
+-- Fixed discounts are an amount in one currency
+ALTER TABLE coupons
+  ADD COLUMN currency text CHECK (currency ~ '^[A-Z]{3}$');
+
+UPDATE coupons SET currency = 'USD' WHERE discount_type = 'fixed';
+
+ALTER TABLE coupons
+  ADD CONSTRAINT coupons_currency_when_fixed CHECK ((discount_type = 'fixed') = (currency IS NOT NULL));
@@ -0,0 +1,31 @@
+-- Plan order, archived plans, and moving subscribers to another plan with notice
+-- Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+
+ALTER TABLE pricing_plans
+  ADD COLUMN position integer NOT NULL DEFAULT 0 CHECK (position >= 0),
+  ADD COLUMN archived_at timestamptz;
+
+-- Plans were listed cheapest first
+UPDATE pricing_plans SET position = ordered.position
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY app_id ORDER BY price, id) - 1 AS position
+  FROM pricing_plans
+) AS ordered
+WHERE pricing_plans.id = ordered.id;
+
+ALTER TABLE app_subscriptions
+  ADD COLUMN migration_plan_id integer REFERENCES pricing_plans (id) ON DELETE RESTRICT,
+  ADD COLUMN migrates_at timestamptz,
+  ADD CONSTRAINT app_subscriptions_migration_complete CHECK ((migration_plan_id IS NULL) = (migrates_at IS NULL));
+
+-- Archived plans' features no longer make their app searchable
+CREATE OR REPLACE FUNCTION oauth_app_search_vector(app_name text, app_description text, app_tags text[], target_app_id integer)
+RETURNS tsvector AS $$
+  SELECT setweight(to_tsvector('english', app_name), 'A') ||
+    setweight(to_tsvector('english', app_description || ' ' || array_to_string(app_tags, ' ')), 'B') ||
+    setweight(to_tsvector('english', coalesce((
+      SELECT string_agg(feature, ' ')
+      FROM pricing_plans p CROSS JOIN LATERAL unnest(p.features) AS feature
+      WHERE p.app_id = target_app_id AND p.is_public AND p.archived_at IS NULL
+    ), '')), 'C')
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,42 @@
+-- Fixed discounts, invoice amounts and usage tier prices in minor units, as
+-- plan prices have been since 0012
+-- Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+
+-- Percent discounts stay percentages; fixed ones were in dollars
+UPDATE coupons SET discount_value = round(discount_value * 100) WHERE discount_type = 'fixed';
+
+ALTER TABLE coupons
+  ADD CONSTRAINT coupons_fixed_in_minor_units CHECK (discount_type <> 'fixed' OR discount_value = trunc(discount_value));
+
+UPDATE app_subscriptions SET discount_value = round(discount_value * 100) WHERE discount_type = 'fixed';
+
+ALTER TABLE app_subscriptions
+  ADD CONSTRAINT app_subscriptions_fixed_in_minor_units
+    CHECK (discount_type IS DISTINCT FROM 'fixed' OR discount_value = trunc(discount_value));
+
+ALTER TABLE invoices
+  ALTER COLUMN total TYPE integer USING round(total * 100)::integer,
+  ALTER COLUMN tax TYPE integer USING round(tax * 100)::integer,
+  ALTER COLUMN credits_applied TYPE integer USING round(credits_applied * 100)::integer,
+  ALTER COLUMN amount_due TYPE integer USING round(amount_due * 100)::integer;
+
+UPDATE invoices SET lines = (
+  SELECT coalesce(jsonb_agg(
+    line || jsonb_build_object('amount', round((line ->> 'amount')::numeric * 100)::integer)
+    ORDER BY position
+  ), '[]'::jsonb)
+  FROM jsonb_array_elements(lines) WITH ORDINALITY AS numbered (line, position)
+);
+
+-- Unit prices keep hundredths of a minor unit; flat fees are whole
+UPDATE pricing_plans SET usage_tiers = (
+  SELECT jsonb_agg(
+    tier || jsonb_build_object(
+      'unitPrice', round((tier ->> 'unitPrice')::numeric * 100, 2),
+      'flatFee', round((tier ->> 'flatFee')::numeric * 100)::integer
+    )
+    ORDER BY position
+  )
+  FROM jsonb_array_elements(usage_tiers) WITH ORDINALITY AS numbered (tier, position)
+)
+WHERE usage_tiers <> '[]'::jsonb;
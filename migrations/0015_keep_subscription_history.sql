@@ -0,0 +1,6 @@
+-- Apps that have had subscribers can't be deleted, so their subscription history stays
+-- Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+
+ALTER TABLE app_subscriptions
+  DROP CONSTRAINT app_subscriptions_app_id_fkey,
+  ADD CONSTRAINT app_subscriptions_app_id_fkey FOREIGN KEY (app_id) REFERENCES oauth_apps (id) ON DELETE RESTRICT;
@@ -0,0 +1,46 @@
+/**
+ * Admin Routes for per-app marketplace settings
+ * Mounted at /api/admin/apps
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { Router, Request, Response } from 'express';
+import { storage } from './storage';
+import { parseBody } from './validation';
+import { platformFeeSchema } from '../shared/validation';
+
+const router = Router();
+
+// Middleware to check admin access
+const requireAdmin = (req: Request, res: Response, next: Function) => {
+  if (!req.isAuthenticated() || !req.user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+  if (!req.user.isAdmin) {
+    return res.status(403).json({ message: 'Admin access required' });
+  }
+  next();
+};
+
+// Override the platform's share of an app's subscription revenue, or clear the
+// override with null. Applies to payments recorded from now on.
+router.patch('/:id/platform-fee', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const appId = parseInt(req.params.id);
+    const app = Number.isNaN(appId) ? undefined : await storage.getOAuthApp(appId);
+    if (!app) {
+      return res.status(404).json({ message: 'App not found' });
+    }
+
+    const body = parseBody(platformFeeSchema, req, res);
+    if (!body) return;
+
+    const updatedApp = await storage.updateOAuthApp(app.id, { platformFeePercent: body.platformFeePercent });
+    res.status(200).json({ id: updatedApp.id, platformFeePercent: updatedApp.platformFeePercent });
+  } catch (error) {
+    console.error('Error updating platform fee:', error);
+    res.status(500).json({ message: 'Failed to update platform fee' });
+  }
+});
+
+export default router;
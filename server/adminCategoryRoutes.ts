@@ -0,0 +1,108 @@
+/**
+ * Admin Routes for the marketplace category tree
+ * Mounted at /api/admin/categories
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { Router, Request, Response } from 'express';
+import { storage } from './storage';
+import { parseBody, sendValidationError } from './validation';
+import { AppCategory } from '../shared/schema';
+import { wouldCreateCycle } from '../shared/categoryTree';
+import { insertAppCategorySchema, updateAppCategorySchema } from '../shared/validation';
+
+const router = Router();
+
+// Middleware to check admin access
+const requireAdmin = (req: Request, res: Response, next: Function) => {
+  if (!req.isAuthenticated() || !req.user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+  if (!req.user.isAdmin) {
+    return res.status(403).json({ message: 'Admin access required' });
+  }
+  next();
+};
+
+// Load the category named in the URL, or send a 404
+const getCategory = async (req: Request, res: Response): Promise<AppCategory | null> => {
+  const categoryId = parseInt(req.params.id);
+  const category = Number.isNaN(categoryId) ? undefined : await storage.getAppCategory(categoryId);
+  if (!category) {
+    res.status(404).json({ message: 'Category not found' });
+    return null;
+  }
+  return category;
+};
+
+// Create a category, optionally under an existing parent
+router.post('/', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const body = parseBody(insertAppCategorySchema, req, res);
+    if (!body) return;
+
+    if (await storage.getAppCategoryBySlug(body.slug)) {
+      return res.status(409).json({ message: 'A category with this slug already exists' });
+    }
+    if (body.parentId && !(await storage.getAppCategory(body.parentId))) {
+      return sendValidationError(res, { parentId: 'Parent category does not exist' });
+    }
+
+    const category = await storage.createAppCategory(body);
+    res.status(201).json(category);
+  } catch (error) {
+    console.error('Error creating category:', error);
+    res.status(500).json({ message: 'Failed to create category' });
+  }
+});
+
+// Rename, re-slug, reorder or move a category
+router.patch('/:id', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const category = await getCategory(req, res);
+    if (!category) return;
+
+    const body = parseBody(updateAppCategorySchema, req, res);
+    if (!body) return;
+
+    if (body.slug && body.slug !== category.slug && await storage.getAppCategoryBySlug(body.slug)) {
+      return res.status(409).json({ message: 'A category with this slug already exists' });
+    }
+    if (body.parentId) {
+      const categories = await storage.getAppCategories();
+      if (!categories.some(existing => existing.id === body.parentId)) {
+        return sendValidationError(res, { parentId: 'Parent category does not exist' });
+      }
+      if (wouldCreateCycle(categories, category.id, body.parentId)) {
+        return sendValidationError(res, { parentId: 'A category cannot be moved under itself or its subcategories' });
+      }
+    }
+
+    const updatedCategory = await storage.updateAppCategory(category.id, body);
+    res.status(200).json(updatedCategory);
+  } catch (error) {
+    console.error('Error updating category:', error);
+    res.status(500).json({ message: 'Failed to update category' });
+  }
+});
+
+// Delete a category. Its apps become uncategorized; subcategories must be moved or deleted first.
+router.delete('/:id', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const category = await getCategory(req, res);
+    if (!category) return;
+
+    const categories = await storage.getAppCategories();
+    if (categories.some(existing => existing.parentId === category.id)) {
+      return res.status(409).json({ message: 'Move or delete the subcategories first' });
+    }
+
+    await storage.deleteAppCategory(category.id);
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting category:', error);
+    res.status(500).json({ message: 'Failed to delete category' });
+  }
+});
+
+export default router;
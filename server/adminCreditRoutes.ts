@@ -0,0 +1,44 @@
+/**
+ * Admin Routes for promotional credit grants
+ * Mounted at /api/admin/credits
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { Router, Request, Response } from 'express';
+import { storage } from './storage';
+import { parseBody } from './validation';
+import { grantPromotionalCredits } from './creditsLedger';
+import { grantCreditsSchema } from '../shared/validation';
+
+const router = Router();
+
+// Middleware to check admin access
+const requireAdmin = (req: Request, res: Response, next: Function) => {
+  if (!req.isAuthenticated() || !req.user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+  if (!req.user.isAdmin) {
+    return res.status(403).json({ message: 'Admin access required' });
+  }
+  next();
+};
+
+// Add promotional credits to a user's wallet
+router.post('/grants', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const body = parseBody(grantCreditsSchema, req, res);
+    if (!body) return;
+
+    if (!(await storage.getUser(body.userId))) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const transaction = await grantPromotionalCredits(body.userId, body.credits, body.description);
+    res.status(201).json(transaction);
+  } catch (error) {
+    console.error('Error granting credits:', error);
+    res.status(500).json({ message: 'Failed to grant credits' });
+  }
+});
+
+export default router;
@@ -0,0 +1,51 @@
+/**
+ * Admin Routes for platform signing key management
+ * Mounted at /api/admin/signing-keys
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { Router, Request, Response } from 'express';
+import { storage } from './storage';
+import { rotateSigningKey } from './keyStore';
+
+const router = Router();
+
+// Middleware to check admin access
+const requireAdmin = (req: Request, res: Response, next: Function) => {
+  if (!req.isAuthenticated() || !req.user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+  if (!req.user.isAdmin) {
+    return res.status(403).json({ message: 'Admin access required' });
+  }
+  next();
+};
+
+// List signing keys without private material
+router.get('/', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const keys = await storage.getSigningKeys();
+    res.status(200).json(keys.map(({ privateKeyPem, ...key }) => key));
+  } catch (error) {
+    console.error('Error fetching signing keys:', error);
+    res.status(500).json({ message: 'Failed to fetch signing keys' });
+  }
+});
+
+// Rotate on demand: generate a new active key and retire the current one
+router.post('/rotate', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { algorithm } = req.body;
+    if (algorithm !== undefined && algorithm !== 'RS256' && algorithm !== 'ES256') {
+      return res.status(400).json({ message: 'algorithm must be RS256 or ES256' });
+    }
+
+    const { privateKeyPem, ...key } = await rotateSigningKey(algorithm);
+    res.status(201).json(key);
+  } catch (error) {
+    console.error('Error rotating signing key:', error);
+    res.status(500).json({ message: 'Failed to rotate signing key' });
+  }
+});
+
+export default router;
@@ -0,0 +1,123 @@
+/**
+ * Admin Routes for processing developer payout requests
+ * Mounted at /api/admin/payouts
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { Router, Request, Response } from 'express';
+import { storage } from './storage';
+import { parseBody, sendValidationError } from './validation';
+import { completePayout, rejectPayout, toPayoutCsv } from './payouts';
+import { InsufficientCreditsError } from './creditsLedger';
+import { PayoutRequest, User } from '../shared/schema';
+import { completePayoutSchema, payoutListSchema, rejectPayoutSchema, validate } from '../shared/validation';
+
+const router = Router();
+
+// Middleware to check admin access
+const requireAdmin = (req: Request, res: Response, next: Function) => {
+  if (!req.isAuthenticated() || !req.user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+  if (!req.user.isAdmin) {
+    return res.status(403).json({ message: 'Admin access required' });
+  }
+  next();
+};
+
+// Load the payout request named in the URL, or send a 404
+const getPayoutRequest = async (req: Request, res: Response): Promise<PayoutRequest | null> => {
+  const payoutId = parseInt(req.params.id);
+  const payout = Number.isNaN(payoutId) ? undefined : await storage.getPayoutRequest(payoutId);
+  if (!payout) {
+    res.status(404).json({ message: 'Payout request not found' });
+    return null;
+  }
+  return payout;
+};
+
+// Payout requests filtered by ?status=, or null after sending the validation errors
+const listPayoutRequests = async (req: Request, res: Response): Promise<PayoutRequest[] | null> => {
+  const result = validate(payoutListSchema, req.query);
+  if (!result.success) {
+    sendValidationError(res, result.errors);
+    return null;
+  }
+  return storage.getPayoutRequests(result.data.status);
+};
+
+// List payout requests, newest first
+router.get('/', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const payouts = await listPayoutRequests(req, res);
+    if (!payouts) return;
+    res.status(200).json(payouts);
+  } catch (error) {
+    console.error('Error fetching payout requests:', error);
+    res.status(500).json({ message: 'Failed to fetch payout requests' });
+  }
+});
+
+// Payout requests as a CSV download, e.g. ?status=pending for the next payment run
+router.get('/export.csv', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const payouts = await listPayoutRequests(req, res);
+    if (!payouts) return;
+
+    const userIds = Array.from(new Set(payouts.map(payout => payout.userId)));
+    const users = await Promise.all(userIds.map(id => storage.getUser(id)));
+    const usersById = new Map(users.filter((user): user is User => !!user).map(user => [user.id, user]));
+    res.status(200)
+      .type('text/csv')
+      .attachment('payouts.csv')
+      .send(toPayoutCsv(payouts, usersById));
+  } catch (error) {
+    console.error('Error exporting payout requests:', error);
+    res.status(500).json({ message: 'Failed to export payout requests' });
+  }
+});
+
+// Mark a pending request as paid once the money has been sent
+router.post('/:id/pay', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const payout = await getPayoutRequest(req, res);
+    if (!payout) return;
+
+    const body = parseBody(completePayoutSchema, req, res);
+    if (!body) return;
+
+    const processed = await completePayout(payout, body.note || null);
+    if (!processed) {
+      return res.status(409).json({ message: `Payout request is already ${payout.status}` });
+    }
+    res.status(200).json(processed);
+  } catch (error) {
+    console.error('Error completing payout:', error);
+    res.status(500).json({ message: 'Failed to complete payout' });
+  }
+});
+
+// Reject a pending request, returning the amount to the developer's earnings
+router.post('/:id/reject', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const payout = await getPayoutRequest(req, res);
+    if (!payout) return;
+
+    const body = parseBody(rejectPayoutSchema, req, res);
+    if (!body) return;
+
+    const processed = await rejectPayout(payout, body.note);
+    if (!processed) {
+      return res.status(409).json({ message: `Payout request is already ${payout.status}` });
+    }
+    res.status(200).json(processed);
+  } catch (error) {
+    if (error instanceof InsufficientCreditsError) {
+      return res.status(409).json({ message: error.message });
+    }
+    console.error('Error rejecting payout:', error);
+    res.status(500).json({ message: 'Failed to reject payout' });
+  }
+});
+
+export default router;
@@ -0,0 +1,66 @@
+/**
+ * OAuth client authentication, shared by the token endpoints and the usage API
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { Request } from 'express';
+import { storage } from './storage';
+import { OAuthApp } from '../shared/schema';
+import { verifyClientSecret } from './oauthTokens';
+
+// Authenticate the client from HTTP Basic credentials or the request body.
+// Public clients identify themselves by client_id alone and must not send a secret.
+export const authenticateClient = async (req: Request): Promise<OAuthApp | null> => {
+  let clientId: string | undefined;
+  let clientSecret: string | undefined;
+
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith('Basic ')) {
+    const decoded = Buffer.from(authHeader.slice(6), 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator === -1) {
+      return null;
+    }
+    try {
+      clientId = decodeURIComponent(decoded.slice(0, separator));
+      clientSecret = decodeURIComponent(decoded.slice(separator + 1));
+    } catch {
+      // A malformed percent-escape can't name a client
+      return null;
+    }
+  } else {
+    clientId = req.body?.client_id;
+    clientSecret = req.body?.client_secret;
+  }
+
+  if (!clientId) {
+    return null;
+  }
+
+  const app = await storage.getOAuthAppByClientId(clientId);
+  if (!app) {
+    return null;
+  }
+
+  if (app.isPublicClient) {
+    return clientSecret ? null : app;
+  }
+
+  if (!clientSecret || !app.clientSecretHash) {
+    return null;
+  }
+  if (await verifyClientSecret(clientSecret, app.clientSecretHash)) {
+    return app;
+  }
+
+  // During a rotation grace window the previous secret is still accepted
+  if (
+    app.previousClientSecretHash &&
+    app.previousClientSecretExpiresAt &&
+    app.previousClientSecretExpiresAt.getTime() > Date.now() &&
+    await verifyClientSecret(clientSecret, app.previousClientSecretHash)
+  ) {
+    return app;
+  }
+  return null;
+};
@@ -0,0 +1,76 @@
+/**
+ * Connected Apps Routes: a user's OAuth grants
+ * Mounted at /api/connected-apps
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { Router, Request, Response } from 'express';
+import { storage } from './storage';
+import { ConnectedApp } from '../shared/schema';
+
+const router = Router();
+
+// Middleware to check authentication
+const requireAuth = (req: Request, res: Response, next: Function) => {
+  if (!req.isAuthenticated() || !req.user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+  next();
+};
+
+// List every app the user has authorized
+router.get('/', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user.id;
+    const grants = await storage.getUserOAuthGrants(userId);
+
+    const connectedApps = await Promise.all(grants.map(async (grant): Promise<ConnectedApp | null> => {
+      const app = await storage.getOAuthApp(grant.appId);
+      if (!app) {
+        return null;
+      }
+
+      return {
+        app: {
+          id: app.id,
+          name: app.name,
+          description: app.description,
+          homepageUrl: app.homepageUrl,
+          logoUrl: app.logoUrl,
+          verificationStatus: app.verificationStatus
+        },
+        scopes: grant.scopes,
+        firstAuthorizedAt: grant.firstAuthorizedAt,
+        lastAuthorizedAt: grant.lastAuthorizedAt,
+        activeTokenCount: await storage.countActiveOAuthTokens(userId, app.id)
+      };
+    }));
+
+    res.status(200).json(connectedApps.filter(Boolean));
+  } catch (error) {
+    console.error('Error fetching connected apps:', error);
+    res.status(500).json({ message: 'Failed to fetch connected apps' });
+  }
+});
+
+// Revoke an app's access: removes the grant, every token and any unused codes
+router.delete('/:appId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const appId = parseInt(req.params.appId);
+    if (isNaN(appId)) {
+      return res.status(400).json({ message: 'Invalid app ID' });
+    }
+
+    const revoked = await storage.revokeOAuthGrant(req.user.id, appId);
+    if (!revoked) {
+      return res.status(404).json({ message: 'App is not connected' });
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error revoking app access:', error);
+    res.status(500).json({ message: 'Failed to revoke app access' });
+  }
+});
+
+export default router;
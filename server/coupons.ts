@@ -0,0 +1,73 @@
+/**
+ * Coupons: checking a promotion code at checkout and redeeming it for the new subscription
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { storage } from './storage';
+import { AppSubscription, Coupon, PricingPlan } from '../shared/schema';
+import { normalizeCouponCode } from '../shared/coupons';
+import { isFreePlan } from '../shared/planPricing';
+
+// Thrown when a code can't be used for a checkout; the message is for the user
+export class CouponError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CouponError';
+  }
+}
+
+const isUsedUp = (coupon: Coupon) => coupon.maxRedemptions !== null && coupon.redemptionCount >= coupon.maxRedemptions;
+
+// The plan's app's coupon for the code, if the user can redeem it on the plan
+// now, paying in the currency. Throws CouponError saying why not otherwise.
+export const findRedeemableCoupon = async (
+  userId: number,
+  plan: PricingPlan,
+  code: string,
+  currency = plan.currency,
+  now = new Date()
+): Promise<Coupon> => {
+  const coupon = await storage.getCouponByCode(plan.appId, normalizeCouponCode(code));
+  if (!coupon || !coupon.isActive) {
+    throw new CouponError('This code is not valid');
+  }
+  if (coupon.expiresAt && coupon.expiresAt <= now) {
+    throw new CouponError('This code has expired');
+  }
+  if (isFreePlan(plan)) {
+    throw new CouponError('Codes can only be used on paid plans');
+  }
+  if (coupon.planIds.length > 0 && !coupon.planIds.includes(plan.id)) {
+    throw new CouponError('This code does not apply to this plan');
+  }
+  if (coupon.currency !== null && coupon.currency !== currency) {
+    throw new CouponError(`This code only applies to payments in ${coupon.currency}`);
+  }
+
+  // A checkout still pending is replaced, releasing its code, when the user starts another
+  const redemption = await storage.getUserCouponRedemption(coupon.id, userId);
+  const redeemedBy = redemption && await storage.getAppSubscription(redemption.subscriptionId);
+  if (redeemedBy && redeemedBy.status !== 'pending') {
+    throw new CouponError('You have already used this code');
+  }
+  if (!redemption && isUsedUp(coupon)) {
+    throw new CouponError('This code has been used up');
+  }
+  return coupon;
+};
+
+// Claim the coupon for a new subscription. The discount itself is locked in
+// once the first paid period is known. Throws CouponError when the last
+// redemption went to a concurrent checkout.
+export const redeemCoupon = async (coupon: Coupon, subscription: AppSubscription): Promise<AppSubscription> => {
+  const redemption = await storage.redeemCoupon({
+    couponId: coupon.id,
+    userId: subscription.userId,
+    subscriptionId: subscription.id,
+    planId: subscription.planId
+  });
+  if (!redemption) {
+    throw new CouponError('This code has been used up');
+  }
+  return storage.updateAppSubscription(subscription.id, { couponId: coupon.id });
+};
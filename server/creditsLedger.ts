@@ -0,0 +1,140 @@
+/**
+ * Credits ledger: purchases, plan payments, refunds, grants and payouts
+ * Each function records one balanced transaction through storage, or drafts one
+ * for storage to record together with a payout request
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { storage } from './storage';
+import { AppSubscription, CreditPosting, CreditTransaction, CreditTransactionDraft, OAuthApp } from '../shared/schema';
+
+// Platform fee for apps without their own, in percent
+export const DEFAULT_PLATFORM_FEE_PERCENT = Number(process.env.PLATFORM_FEE_PERCENT ?? 20);
+
+// Thrown when a wallet or earnings account can't cover a debit
+export class InsufficientCreditsError extends Error {
+  constructor(message = 'Not enough credits') {
+    super(message);
+    this.name = 'InsufficientCreditsError';
+  }
+}
+
+const requireRecorded = (transaction: CreditTransaction | undefined, message: string): CreditTransaction => {
+  if (!transaction) {
+    throw new InsufficientCreditsError(message);
+  }
+  return transaction;
+};
+
+export const getPlatformFeePercent = (app: Pick<OAuthApp, 'platformFeePercent'>): number =>
+  app.platformFeePercent ?? DEFAULT_PLATFORM_FEE_PERCENT;
+
+// Split a subscription payment between the platform and the app's developer
+export const splitRevenue = (credits: number, app: Pick<OAuthApp, 'platformFeePercent'>) => {
+  const platformFee = Math.round(credits * getPlatformFeePercent(app) / 100);
+  return { platformFee, developerShare: credits - platformFee };
+};
+
+// A payment for, or refund of, a subscription to an app
+export interface SubscriptionPayment {
+  subscription: AppSubscription;
+  app: Pick<OAuthApp, 'id' | 'userId' | 'platformFeePercent'>;
+  // Plan being paid for, which differs from the subscription's during a plan change
+  planId: number;
+  credits: number;
+  description: string;
+  // Pass one when the same payment might be recorded twice, e.g. a renewal or a webhook
+  reference?: string | null;
+}
+
+// Where a subscription's money comes from: the subscriber's wallet, or the
+// payment provider for provider-billed subscriptions
+const payerOf = (subscription: AppSubscription, fromWallet: boolean): Omit<CreditPosting, 'amount'> =>
+  fromWallet ? { userId: subscription.userId, account: 'wallet' } : { userId: null, account: 'payments' };
+
+const recordSubscriptionTransaction = (
+  type: 'plan_payment' | 'refund',
+  payment: SubscriptionPayment,
+  payer: Omit<CreditPosting, 'amount'>
+) => {
+  const { subscription, app, planId, credits, description, reference = null } = payment;
+  const { platformFee, developerShare } = splitRevenue(credits, app);
+  // Refunds run the same postings in reverse
+  const sign = type === 'plan_payment' ? 1 : -1;
+  const postings: CreditPosting[] = [
+    { ...payer, amount: -sign * credits },
+    { userId: app.userId, account: 'earnings', amount: sign * developerShare },
+    { userId: null, account: 'revenue', amount: sign * platformFee }
+  ];
+  return storage.recordCreditTransaction(
+    { type, description, subscriptionId: subscription.id, appId: app.id, planId, reference },
+    postings.filter(posting => posting.amount !== 0)
+  );
+};
+
+// Credits bought through the payment provider. The reference (the provider's
+// checkout id) makes webhook retries a no-op.
+export const recordCreditPurchase = async (userId: number, credits: number, reference: string) =>
+  requireRecorded(await storage.recordCreditTransaction(
+    { type: 'purchase', description: `Purchased ${credits} credits`, reference },
+    [
+      { userId: null, account: 'payments', amount: -credits },
+      { userId, account: 'wallet', amount: credits }
+    ]
+  ), 'Credit purchase could not be recorded');
+
+export const grantPromotionalCredits = async (userId: number, credits: number, description: string) =>
+  requireRecorded(await storage.recordCreditTransaction(
+    { type: 'promotional_grant', description },
+    [
+      { userId: null, account: 'promotions', amount: -credits },
+      { userId, account: 'wallet', amount: credits }
+    ]
+  ), 'Credit grant could not be recorded');
+
+// Pay for a subscription from the subscriber's wallet
+export const chargeSubscription = async (payment: SubscriptionPayment) =>
+  requireRecorded(
+    await recordSubscriptionTransaction('plan_payment', payment, payerOf(payment.subscription, true)),
+    `This costs ${payment.credits} credits; top up your wallet to continue`
+  );
+
+// Record money the payment provider collected for a subscription, so the
+// developer earns their share
+export const recordProviderPayment = async (payment: SubscriptionPayment) =>
+  requireRecorded(
+    await recordSubscriptionTransaction('plan_payment', payment, payerOf(payment.subscription, false)),
+    'Subscription payment could not be recorded'
+  );
+
+// Give back part of a payment, e.g. unused time after a downgrade, to the
+// wallet or the payment provider it came from. The developer's earnings may go
+// negative and are made up by later earnings.
+export const refundSubscription = async (payment: SubscriptionPayment, toWallet: boolean) =>
+  requireRecorded(
+    await recordSubscriptionTransaction('refund', payment, payerOf(payment.subscription, toWallet)),
+    'Refund could not be recorded'
+  );
+
+// Move a developer's earnings out of the platform
+export const draftPayout = (userId: number, credits: number, description: string): CreditTransactionDraft => ({
+  transaction: { type: 'payout', description },
+  postings: [
+    { userId, account: 'earnings', amount: -credits },
+    { userId: null, account: 'payouts', amount: credits }
+  ]
+});
+
+// Return a payout that won't be made to the developer's earnings
+export const draftPayoutReversal = (
+  userId: number,
+  credits: number,
+  description: string,
+  reference: string
+): CreditTransactionDraft => ({
+  transaction: { type: 'payout', description, reference },
+  postings: [
+    { userId: null, account: 'payouts', amount: -credits },
+    { userId, account: 'earnings', amount: credits }
+  ]
+});
@@ -0,0 +1,1069 @@
+/**
+ * PostgreSQL storage implementation using Drizzle
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import {
+  and,
+  arrayContains,
+  asc,
+  count,
+  desc,
+  eq,
+  gt,
+  gte,
+  inArray,
+  isNull,
+  lt,
+  lte,
+  ne,
+  or,
+  sql,
+  SQL,
+  TransactionRollbackError
+} from 'drizzle-orm';
+import {
+  User,
+  InsertUser,
+  OAuthApp,
+  InsertOAuthApp,
+  AppCategory,
+  InsertAppCategory,
+  PricingPlan,
+  InsertPricingPlan,
+  AppSubscription,
+  InsertAppSubscription,
+  Coupon,
+  InsertCoupon,
+  CouponRedemption,
+  InsertCouponRedemption,
+  UsageRecord,
+  InsertUsageRecord,
+  Invoice,
+  InvoiceStatus,
+  InsertInvoice,
+  CreditAccount,
+  CreditAccountType,
+  CreditPosting,
+  CreditTransactionDraft,
+  CreditTransaction,
+  InsertCreditTransaction,
+  WalletTransaction,
+  EarningsReportRow,
+  PayoutRequest,
+  PayoutStatus,
+  InsertPayoutRequest,
+  AppReview,
+  InsertAppReview,
+  OAuthAuthorizationCode,
+  InsertOAuthAuthorizationCode,
+  OAuthToken,
+  InsertOAuthToken,
+  OAuthGrant,
+  InsertOAuthGrant,
+  SigningKey,
+  InsertSigningKey,
+  AppListingStats,
+  MarketplaceSearchResult
+} from '../shared/schema';
+import { MarketplaceSearchParams } from '../shared/validation';
+import type { IStorage } from './storage';
+import { SearchCursor, encodeSearchCursor } from './searchCursor';
+import { getCategorySubtreeIds } from '../shared/categoryTree';
+import { LIVE_SUBSCRIPTION_STATUSES, MANAGEABLE_SUBSCRIPTION_STATUSES } from '../shared/subscriptionLifecycle';
+import { OVERDRAFT_PROTECTED_ACCOUNTS } from '../shared/credits';
+import { INVOICE_TRANSITIONS } from '../shared/invoices';
+import { getStartingPrice, toMinorUnits } from '../shared/currency';
+import { alias } from 'drizzle-orm/pg-core';
+import { db, Database } from './db';
+import {
+  users,
+  appCategories,
+  oauthApps,
+  pricingPlans,
+  appSubscriptions,
+  appTrials,
+  coupons,
+  couponRedemptions,
+  usageRecords,
+  invoices,
+  creditAccounts,
+  creditTransactions,
+  creditEntries,
+  payoutRequests,
+  appReviews,
+  oauthAuthorizationCodes,
+  oauthTokens,
+  oauthGrants,
+  signingKeys
+} from './dbSchema';
+
+// Returns the single row of an update, or throws when nothing matched
+const requireRow = <T>(rows: T[], description: string): T => {
+  if (rows.length === 0) {
+    throw new Error(`${description} not found`);
+  }
+  return rows[0];
+};
+
+const creditAccountIs = (userId: number | null, type: CreditAccountType) => and(
+  userId === null ? isNull(creditAccounts.userId) : eq(creditAccounts.userId, userId),
+  eq(creditAccounts.type, type)
+);
+
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+// Record a credit transaction and apply its postings within tx, as
+// IStorage.recordCreditTransaction describes. Rolls tx back if a posting would
+// overdraw a protected account.
+const applyCreditTransaction = async (
+  tx: Transaction,
+  transaction: InsertCreditTransaction,
+  postings: CreditPosting[]
+): Promise<CreditTransaction> => {
+  if (postings.reduce((sum, posting) => sum + posting.amount, 0) !== 0) {
+    throw new Error('Credit postings must sum to zero');
+  }
+  // Lock accounts in a fixed order so concurrent transactions can't deadlock
+  const ordered = [...postings].sort((a, b) =>
+    (a.userId ?? 0) - (b.userId ?? 0) || a.account.localeCompare(b.account));
+
+  const [created] = await tx.insert(creditTransactions).values(transaction).onConflictDoNothing().returning();
+  if (!created) {
+    const [existing] = await tx.select().from(creditTransactions)
+      .where(eq(creditTransactions.reference, transaction.reference!));
+    return existing;
+  }
+
+  for (const posting of ordered) {
+    await tx.insert(creditAccounts).values({ userId: posting.userId, type: posting.account }).onConflictDoNothing();
+    const protect = transaction.type !== 'refund' && OVERDRAFT_PROTECTED_ACCOUNTS.includes(posting.account);
+    const [account] = await tx.update(creditAccounts)
+      .set({ balance: sql`${creditAccounts.balance} + ${posting.amount}` })
+      .where(and(
+        creditAccountIs(posting.userId, posting.account),
+        protect ? gte(sql`${creditAccounts.balance} + ${posting.amount}`, 0) : undefined
+      ))
+      .returning();
+    if (!account) {
+      tx.rollback();
+    }
+
+    await tx.insert(creditEntries).values({
+      transactionId: created.id,
+      accountId: account.id,
+      amount: posting.amount,
+      balanceAfter: account.balance
+    });
+    if (posting.account === 'wallet') {
+      await tx.update(users).set({ credits: account.balance }).where(eq(users.id, posting.userId!));
+    }
+  }
+  return created;
+};
+
+export class DatabaseStorage implements IStorage {
+  // Users
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const [created] = await db.insert(users).values(user).returning();
+    return created;
+  }
+
+  // OAuth apps
+
+  async getOAuthApp(id: number): Promise<OAuthApp | undefined> {
+    const [app] = await db.select().from(oauthApps).where(eq(oauthApps.id, id));
+    return app;
+  }
+
+  async getOAuthAppByClientId(clientId: string): Promise<OAuthApp | undefined> {
+    const [app] = await db.select().from(oauthApps).where(eq(oauthApps.clientId, clientId));
+    return app;
+  }
+
+  async getUserOAuthApps(userId: number): Promise<OAuthApp[]> {
+    return db.select().from(oauthApps)
+      .where(eq(oauthApps.userId, userId))
+      .orderBy(desc(oauthApps.createdAt));
+  }
+
+  async getPublishedOAuthApps(): Promise<OAuthApp[]> {
+    return db.select().from(oauthApps)
+      .where(and(eq(oauthApps.isPublished, true), eq(oauthApps.isListed, true)))
+      .orderBy(desc(oauthApps.createdAt));
+  }
+
+  async getTopRatedOAuthApps(limit: number, categoryId?: number): Promise<OAuthApp[]> {
+    const filters: SQL[] = [eq(oauthApps.isPublished, true), eq(oauthApps.isListed, true)];
+    if (categoryId !== undefined) {
+      filters.push(inArray(oauthApps.categoryId, await this.getCategorySubtreeIds(categoryId)));
+    }
+
+    const averageRating = sql`avg(${appReviews.rating})`;
+    const rows = await db.select({ app: oauthApps })
+      .from(oauthApps)
+      .leftJoin(appReviews, eq(appReviews.appId, oauthApps.id))
+      .where(and(...filters))
+      .groupBy(oauthApps.id)
+      .orderBy(sql`${averageRating} desc nulls last`, desc(count(appReviews.id)))
+      .limit(limit);
+    return rows.map(row => row.app);
+  }
+
+  async getRecentOAuthApps(limit: number): Promise<OAuthApp[]> {
+    return db.select().from(oauthApps)
+      .where(and(eq(oauthApps.isPublished, true), eq(oauthApps.isListed, true)))
+      .orderBy(sql`${oauthApps.publishedAt} desc nulls last`, desc(oauthApps.id))
+      .limit(limit);
+  }
+
+  async getAppListingStats(appIds: number[], currency: string): Promise<Map<number, AppListingStats>> {
+    const stats = new Map<number, AppListingStats>(appIds.map(id => [id, {
+      averageRating: null,
+      reviewCount: 0,
+      installCount: 0,
+      startingPrice: null,
+      startingPriceCurrency: null
+    }]));
+    if (appIds.length === 0) {
+      return stats;
+    }
+
+    const [ratings, installs, plans] = await Promise.all([
+      db.select({
+        appId: appReviews.appId,
+        averageRating: sql<number>`avg(${appReviews.rating})::float8`,
+        reviewCount: count()
+      })
+        .from(appReviews)
+        .where(inArray(appReviews.appId, appIds))
+        .groupBy(appReviews.appId),
+      db.select({ appId: oauthGrants.appId, installCount: count() })
+        .from(oauthGrants)
+        .where(inArray(oauthGrants.appId, appIds))
+        .groupBy(oauthGrants.appId),
+      // Which currency to show each app's starting price in depends on all its plans
+      db.select({
+        appId: pricingPlans.appId,
+        price: pricingPlans.price,
+        currency: pricingPlans.currency,
+        priceOverrides: pricingPlans.priceOverrides,
+        pricingModel: pricingPlans.pricingModel
+      })
+        .from(pricingPlans)
+        .where(and(
+          inArray(pricingPlans.appId, appIds),
+          eq(pricingPlans.isPublic, true),
+          isNull(pricingPlans.archivedAt)
+        ))
+    ]);
+
+    for (const { appId, ...rating } of ratings) {
+      Object.assign(stats.get(appId)!, rating);
+    }
+    for (const { appId, installCount } of installs) {
+      stats.get(appId)!.installCount = installCount;
+    }
+    for (const appId of appIds) {
+      const startingPrice = getStartingPrice(plans.filter(plan => plan.appId === appId), currency);
+      Object.assign(stats.get(appId)!, {
+        startingPrice: startingPrice?.price ?? null,
+        startingPriceCurrency: startingPrice?.currency ?? null
+      });
+    }
+    return stats;
+  }
+
+  async searchMarketplaceApps(
+    params: Omit<MarketplaceSearchParams, 'cursor'>,
+    after: SearchCursor | null
+  ): Promise<MarketplaceSearchResult<OAuthApp>> {
+    // search_vector is maintained by triggers (migrations/0001_marketplace_search.sql)
+    // and deliberately left out of the Drizzle table so it never reaches API responses
+    const searchVector = sql`"oauth_apps"."search_vector"`;
+    const query = params.q?.trim();
+    const tsQuery = sql`websearch_to_tsquery('english', ${query ?? ''})`;
+    const rank = sql<number>`ts_rank_cd(${searchVector}, ${tsQuery})`;
+
+    const filters: SQL[] = [eq(oauthApps.isPublished, true), eq(oauthApps.isListed, true)];
+    if (query) {
+      filters.push(sql`${searchVector} @@ ${tsQuery}`);
+    }
+    if (params.verificationStatus) {
+      filters.push(eq(oauthApps.verificationStatus, params.verificationStatus));
+    }
+    if (params.category !== undefined) {
+      filters.push(inArray(oauthApps.categoryId, await this.getCategorySubtreeIds(params.category)));
+    }
+    if (params.tag) {
+      filters.push(arrayContains(oauthApps.tags, [params.tag]));
+    }
+    if (params.minPrice !== undefined || params.maxPrice !== undefined) {
+      // Plans for sale (isPlanForSale)
+      const publicPlans = sql`select 1 from ${pricingPlans}
+        where ${pricingPlans.appId} = ${oauthApps.id} and ${pricingPlans.isPublic} and ${pricingPlans.archivedAt} is null`;
+      // The plan's price in the currency (getPlanPriceIn); null when it isn't sold in it
+      const price = sql`case
+        when ${pricingPlans.price} = 0 and ${pricingPlans.pricingModel} <> 'metered' then 0
+        when ${pricingPlans.currency} = ${params.currency} then ${pricingPlans.price}
+        else (${pricingPlans.priceOverrides} ->> ${params.currency})::integer
+      end`;
+      const priceBounds = [
+        ...(params.minPrice !== undefined ? [sql`${price} >= ${toMinorUnits(params.minPrice, params.currency)}`] : []),
+        ...(params.maxPrice !== undefined ? [sql`${price} <= ${toMinorUnits(params.maxPrice, params.currency)}`] : [])
+      ];
+      const inRange = sql`exists (${publicPlans} and ${sql.join(priceBounds, sql` and `)})`;
+      // Apps without plans for sale are free
+      filters.push(params.minPrice ? inRange : sql`(${inRange} or not exists (${publicPlans}))`);
+    }
+    if (params.minRating !== undefined) {
+      filters.push(sql`(select avg(${appReviews.rating}) from ${appReviews}
+        where ${appReviews.appId} = ${oauthApps.id}) >= ${params.minRating}`);
+    }
+
+    const [{ total }] = await db.select({ total: count() }).from(oauthApps).where(and(...filters));
+
+    const pageFilters = [...filters];
+    if (after) {
+      pageFilters.push(query
+        ? sql`(${rank}, ${oauthApps.id}) < (${after.rank}::real, ${after.id})`
+        : sql`${oauthApps.id} < ${after.id}`);
+    }
+
+    // Fetch one extra row to know whether there is a next page
+    const rows = await db.select({ app: oauthApps, rank })
+      .from(oauthApps)
+      .where(and(...pageFilters))
+      .orderBy(...(query ? [sql`${rank} desc`, desc(oauthApps.id)] : [desc(oauthApps.id)]))
+      .limit(params.limit + 1);
+
+    const page = rows.slice(0, params.limit);
+    const last = page[page.length - 1];
+    return {
+      apps: page.map(row => row.app),
+      total,
+      nextCursor: rows.length > params.limit
+        ? encodeSearchCursor({ rank: query ? Number(last.rank) : null, id: last.app.id })
+        : null
+    };
+  }
+
+  async createOAuthApp(app: InsertOAuthApp): Promise<OAuthApp> {
+    const [created] = await db.insert(oauthApps).values(app).returning();
+    return created;
+  }
+
+  async updateOAuthApp(id: number, updates: Partial<InsertOAuthApp>): Promise<OAuthApp> {
+    const rows = await db.update(oauthApps)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(oauthApps.id, id))
+      .returning();
+    return requireRow(rows, `OAuth app ${id}`);
+  }
+
+  async isOAuthAppInUse(id: number): Promise<boolean> {
+    const [subscription] = await db.select({ id: appSubscriptions.id }).from(appSubscriptions)
+      .where(eq(appSubscriptions.appId, id))
+      .limit(1);
+    return !!subscription;
+  }
+
+  async deleteOAuthApp(id: number): Promise<void> {
+    // Dependent rows are removed by ON DELETE CASCADE; subscriptions restrict it
+    await db.delete(oauthApps).where(eq(oauthApps.id, id));
+  }
+
+  // The category tree is small, so walk it in memory rather than with a recursive query
+  private async getCategorySubtreeIds(categoryId: number): Promise<number[]> {
+    return getCategorySubtreeIds(await this.getAppCategories(), categoryId);
+  }
+
+  // App categories
+
+  async getAppCategories(): Promise<AppCategory[]> {
+    return db.select().from(appCategories).orderBy(asc(appCategories.position), asc(appCategories.name));
+  }
+
+  async getAppCategory(id: number): Promise<AppCategory | undefined> {
+    const [category] = await db.select().from(appCategories).where(eq(appCategories.id, id));
+    return category;
+  }
+
+  async getAppCategoryBySlug(slug: string): Promise<AppCategory | undefined> {
+    const [category] = await db.select().from(appCategories).where(eq(appCategories.slug, slug));
+    return category;
+  }
+
+  async createAppCategory(category: InsertAppCategory): Promise<AppCategory> {
+    const [created] = await db.insert(appCategories).values(category).returning();
+    return created;
+  }
+
+  async updateAppCategory(id: number, updates: Partial<InsertAppCategory>): Promise<AppCategory> {
+    const rows = await db.update(appCategories).set(updates).where(eq(appCategories.id, id)).returning();
+    return requireRow(rows, `App category ${id}`);
+  }
+
+  async deleteAppCategory(id: number): Promise<void> {
+    // parent_id is ON DELETE RESTRICT and category_id is ON DELETE SET NULL
+    await db.delete(appCategories).where(eq(appCategories.id, id));
+  }
+
+  // Pricing plans
+
+  async getPricingPlan(id: number): Promise<PricingPlan | undefined> {
+    const [plan] = await db.select().from(pricingPlans).where(eq(pricingPlans.id, id));
+    return plan;
+  }
+
+  async getAppPricingPlans(appId: number): Promise<PricingPlan[]> {
+    return db.select().from(pricingPlans)
+      .where(eq(pricingPlans.appId, appId))
+      .orderBy(asc(pricingPlans.position), asc(pricingPlans.id));
+  }
+
+  async createPricingPlan(plan: InsertPricingPlan): Promise<PricingPlan> {
+    const [created] = await db.insert(pricingPlans).values({
+      position: sql`(select coalesce(max(${pricingPlans.position}) + 1, 0) from ${pricingPlans}
+        where ${pricingPlans.appId} = ${plan.appId})`,
+      ...plan
+    }).returning();
+    return created;
+  }
+
+  async updatePricingPlan(id: number, updates: Partial<InsertPricingPlan>): Promise<PricingPlan> {
+    const rows = await db.update(pricingPlans).set(updates).where(eq(pricingPlans.id, id)).returning();
+    return requireRow(rows, `Pricing plan ${id}`);
+  }
+
+  async reorderPricingPlans(appId: number, planIds: number[]): Promise<PricingPlan[]> {
+    await db.transaction(async (tx) => {
+      for (const [position, id] of planIds.entries()) {
+        await tx.update(pricingPlans).set({ position })
+          .where(and(eq(pricingPlans.id, id), eq(pricingPlans.appId, appId)));
+      }
+    });
+    return this.getAppPricingPlans(appId);
+  }
+
+  async isPricingPlanInUse(id: number): Promise<boolean> {
+    const [subscription] = await db.select({ id: appSubscriptions.id }).from(appSubscriptions)
+      .where(or(eq(appSubscriptions.planId, id), eq(appSubscriptions.migrationPlanId, id)))
+      .limit(1);
+    return !!subscription;
+  }
+
+  async deletePricingPlan(id: number): Promise<void> {
+    await db.delete(pricingPlans).where(eq(pricingPlans.id, id));
+  }
+
+  // Subscriptions
+
+  async getAppSubscription(id: number): Promise<AppSubscription | undefined> {
+    const [subscription] = await db.select().from(appSubscriptions).where(eq(appSubscriptions.id, id));
+    return subscription;
+  }
+
+  async getUserSubscriptions(userId: number): Promise<AppSubscription[]> {
+    return db.select().from(appSubscriptions)
+      .where(eq(appSubscriptions.userId, userId))
+      .orderBy(desc(appSubscriptions.startDate));
+  }
+
+  async getUserAppSubscription(userId: number, appId: number): Promise<AppSubscription | undefined> {
+    const [subscription] = await db.select().from(appSubscriptions)
+      .where(and(
+        eq(appSubscriptions.userId, userId),
+        eq(appSubscriptions.appId, appId),
+        inArray(appSubscriptions.status, [...LIVE_SUBSCRIPTION_STATUSES])
+      ));
+    return subscription;
+  }
+
+  async getAppSubscriptionByCheckoutId(paymentProvider: string, checkoutId: string): Promise<AppSubscription | undefined> {
+    const [subscription] = await db.select().from(appSubscriptions)
+      .where(and(
+        eq(appSubscriptions.paymentProvider, paymentProvider),
+        eq(appSubscriptions.providerCheckoutId, checkoutId)
+      ));
+    return subscription;
+  }
+
+  async getAppSubscriptionByProviderSubscriptionId(
+    paymentProvider: string,
+    providerSubscriptionId: string
+  ): Promise<AppSubscription | undefined> {
+    const [subscription] = await db.select().from(appSubscriptions)
+      .where(and(
+        eq(appSubscriptions.paymentProvider, paymentProvider),
+        eq(appSubscriptions.providerSubscriptionId, providerSubscriptionId)
+      ));
+    return subscription;
+  }
+
+  async createAppSubscription(subscription: InsertAppSubscription): Promise<AppSubscription> {
+    const [created] = await db.insert(appSubscriptions).values(subscription).returning();
+    return created;
+  }
+
+  async updateAppSubscription(id: number, updates: Partial<InsertAppSubscription>): Promise<AppSubscription> {
+    const rows = await db.update(appSubscriptions).set(updates).where(eq(appSubscriptions.id, id)).returning();
+    return requireRow(rows, `Subscription ${id}`);
+  }
+
+  async getLivePlanSubscriptions(planId: number): Promise<AppSubscription[]> {
+    return db.select().from(appSubscriptions)
+      .where(and(
+        eq(appSubscriptions.planId, planId),
+        inArray(appSubscriptions.status, [...LIVE_SUBSCRIPTION_STATUSES])
+      ));
+  }
+
+  async getLiveSubscriptionCurrencies(planId: number): Promise<string[]> {
+    const rows = await db.selectDistinct({ currency: appSubscriptions.currency }).from(appSubscriptions)
+      .where(and(
+        eq(appSubscriptions.planId, planId),
+        inArray(appSubscriptions.status, [...LIVE_SUBSCRIPTION_STATUSES])
+      ));
+    return rows.map(row => row.currency);
+  }
+
+  async getSubscriptionsDueForSettlement(now: Date): Promise<AppSubscription[]> {
+    return db.select().from(appSubscriptions)
+      .where(and(
+        inArray(appSubscriptions.status, [...MANAGEABLE_SUBSCRIPTION_STATUSES]),
+        or(
+          and(
+            lte(appSubscriptions.currentPeriodEnd, now),
+            or(isNull(appSubscriptions.providerSubscriptionId), eq(appSubscriptions.cancelAtPeriodEnd, true))
+          ),
+          lte(appSubscriptions.migratesAt, now)
+        )
+      ))
+      .orderBy(asc(appSubscriptions.currentPeriodEnd));
+  }
+
+  // Trials
+
+  async hasUsedTrial(userId: number, appId: number): Promise<boolean> {
+    const [trial] = await db.select({ id: appTrials.id }).from(appTrials)
+      .where(and(eq(appTrials.userId, userId), eq(appTrials.appId, appId)));
+    return !!trial;
+  }
+
+  async recordAppTrial(userId: number, appId: number): Promise<boolean> {
+    const rows = await db.insert(appTrials).values({ userId, appId })
+      .onConflictDoNothing()
+      .returning({ id: appTrials.id });
+    return rows.length > 0;
+  }
+
+  // Coupons
+
+  async getCoupon(id: number): Promise<Coupon | undefined> {
+    const [coupon] = await db.select().from(coupons).where(eq(coupons.id, id));
+    return coupon;
+  }
+
+  async getCouponByCode(appId: number, code: string): Promise<Coupon | undefined> {
+    const [coupon] = await db.select().from(coupons).where(and(eq(coupons.appId, appId), eq(coupons.code, code)));
+    return coupon;
+  }
+
+  async getAppCoupons(appId: number): Promise<Coupon[]> {
+    return db.select().from(coupons)
+      .where(eq(coupons.appId, appId))
+      .orderBy(desc(coupons.createdAt), desc(coupons.id));
+  }
+
+  async createCoupon(coupon: InsertCoupon): Promise<Coupon | undefined> {
+    const [created] = await db.insert(coupons).values(coupon).onConflictDoNothing().returning();
+    return created;
+  }
+
+  async updateCoupon(
+    id: number,
+    updates: Partial<Pick<Coupon, 'isActive' | 'maxRedemptions' | 'expiresAt'>>
+  ): Promise<Coupon> {
+    const rows = await db.update(coupons).set(updates).where(eq(coupons.id, id)).returning();
+    return requireRow(rows, `Coupon ${id}`);
+  }
+
+  async getUserCouponRedemption(couponId: number, userId: number): Promise<CouponRedemption | undefined> {
+    const [redemption] = await db.select().from(couponRedemptions)
+      .where(and(eq(couponRedemptions.couponId, couponId), eq(couponRedemptions.userId, userId)));
+    return redemption;
+  }
+
+  async redeemCoupon(redemption: InsertCouponRedemption): Promise<CouponRedemption | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [created] = await tx.insert(couponRedemptions).values(redemption).onConflictDoNothing().returning();
+        if (!created) {
+          return undefined;
+        }
+        // The row lock taken here makes concurrent redemptions queue for the last one left
+        const [counted] = await tx.update(coupons)
+          .set({ redemptionCount: sql`${coupons.redemptionCount} + 1` })
+          .where(and(
+            eq(coupons.id, redemption.couponId),
+            or(isNull(coupons.maxRedemptions), lt(coupons.redemptionCount, coupons.maxRedemptions))
+          ))
+          .returning({ id: coupons.id });
+        if (!counted) {
+          tx.rollback();
+        }
+        return created;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async releaseCouponRedemption(subscriptionId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [released] = await tx.delete(couponRedemptions)
+        .where(eq(couponRedemptions.subscriptionId, subscriptionId))
+        .returning();
+      if (released) {
+        await tx.update(coupons)
+          .set({ redemptionCount: sql`${coupons.redemptionCount} - 1` })
+          .where(eq(coupons.id, released.couponId));
+      }
+    });
+  }
+
+  async getCouponRedemptions(couponId: number): Promise<CouponRedemption[]> {
+    return db.select().from(couponRedemptions)
+      .where(eq(couponRedemptions.couponId, couponId))
+      .orderBy(desc(couponRedemptions.redeemedAt), desc(couponRedemptions.id));
+  }
+
+  // Usage records
+
+  async createUsageRecord(record: InsertUsageRecord): Promise<UsageRecord | undefined> {
+    const [created] = await db.insert(usageRecords).values(record).onConflictDoNothing().returning();
+    return created;
+  }
+
+  async getUsageRecordByIdempotencyKey(appId: number, idempotencyKey: string): Promise<UsageRecord | undefined> {
+    const [record] = await db.select().from(usageRecords)
+      .where(and(eq(usageRecords.appId, appId), eq(usageRecords.idempotencyKey, idempotencyKey)));
+    return record;
+  }
+
+  async getUsageTotal(subscriptionId: number, from: Date, to: Date): Promise<number> {
+    const [{ total }] = await db.select({ total: sql<number>`coalesce(sum(${usageRecords.quantity}), 0)::int` })
+      .from(usageRecords)
+      .where(and(
+        eq(usageRecords.subscriptionId, subscriptionId),
+        gte(usageRecords.occurredAt, from),
+        lt(usageRecords.occurredAt, to)
+      ));
+    return total;
+  }
+
+  // Invoices
+
+  async getInvoice(id: number): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
+    return invoice;
+  }
+
+  async getInvoiceByReference(reference: string): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.reference, reference));
+    return invoice;
+  }
+
+  async getUserInvoices(userId: number, status?: InvoiceStatus): Promise<Invoice[]> {
+    return db.select().from(invoices)
+      .where(and(
+        eq(invoices.userId, userId),
+        status ? eq(invoices.status, status) : ne(invoices.status, 'draft')
+      ))
+      .orderBy(desc(invoices.createdAt), desc(invoices.id));
+  }
+
+  async getAppInvoices(appIds: number[], status?: InvoiceStatus): Promise<Invoice[]> {
+    if (appIds.length === 0) {
+      return [];
+    }
+    return db.select().from(invoices)
+      .where(and(
+        inArray(invoices.appId, appIds),
+        status ? eq(invoices.status, status) : ne(invoices.status, 'draft')
+      ))
+      .orderBy(desc(invoices.createdAt), desc(invoices.id));
+  }
+
+  async getUnpaidInvoices(subscriptionId: number): Promise<Invoice[]> {
+    return db.select().from(invoices)
+      .where(and(eq(invoices.subscriptionId, subscriptionId), inArray(invoices.status, ['draft', 'open'])))
+      .orderBy(asc(invoices.id));
+  }
+
+  async createInvoice(invoice: InsertInvoice): Promise<Invoice | undefined> {
+    const [created] = await db.insert(invoices).values(invoice).onConflictDoNothing().returning();
+    return created;
+  }
+
+  async updateInvoice(id: number, updates: Partial<InsertInvoice>): Promise<Invoice> {
+    const rows = await db.update(invoices).set(updates).where(eq(invoices.id, id)).returning();
+    return requireRow(rows, `Invoice ${id}`);
+  }
+
+  async transitionInvoice(
+    id: number,
+    status: InvoiceStatus,
+    updates: Partial<InsertInvoice> = {}
+  ): Promise<Invoice | undefined> {
+    const from = (Object.keys(INVOICE_TRANSITIONS) as InvoiceStatus[])
+      .filter(current => INVOICE_TRANSITIONS[current].includes(status));
+    if (from.length === 0) {
+      return undefined;
+    }
+    const now = new Date();
+    const [updated] = await db.update(invoices)
+      .set({
+        ...updates,
+        status,
+        // Only drawn for a row that is actually finalized, so drafts don't use
+        // up numbers; same format as formatInvoiceNumber
+        ...(status === 'open' ? {
+          number: sql`'INV-' || lpad(nextval('invoice_number_seq')::text, 6, '0')`,
+          finalizedAt: now
+        } : {}),
+        ...(status === 'paid' ? { paidAt: now } : {}),
+        ...(status === 'void' ? { voidedAt: now } : {})
+      })
+      .where(and(eq(invoices.id, id), inArray(invoices.status, from)))
+      .returning();
+    return updated;
+  }
+
+  // Credits ledger
+
+  async getCreditAccount(userId: number | null, type: CreditAccountType): Promise<CreditAccount | undefined> {
+    const [account] = await db.select().from(creditAccounts).where(creditAccountIs(userId, type));
+    return account;
+  }
+
+  async recordCreditTransaction(
+    transaction: InsertCreditTransaction,
+    postings: CreditPosting[]
+  ): Promise<CreditTransaction | undefined> {
+    try {
+      return await db.transaction(tx => applyCreditTransaction(tx, transaction, postings));
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async getWalletTransactions(userId: number, limit: number, before?: number): Promise<WalletTransaction[]> {
+    const wallet = await this.getCreditAccount(userId, 'wallet');
+    if (!wallet) {
+      return [];
+    }
+
+    const rows = await db.select({
+      transaction: creditTransactions,
+      amount: creditEntries.amount,
+      balanceAfter: creditEntries.balanceAfter
+    })
+      .from(creditEntries)
+      .innerJoin(creditTransactions, eq(creditTransactions.id, creditEntries.transactionId))
+      .where(and(
+        eq(creditEntries.accountId, wallet.id),
+        before !== undefined ? lt(creditEntries.transactionId, before) : undefined
+      ))
+      .orderBy(desc(creditEntries.transactionId))
+      .limit(limit);
+    return rows.map(({ transaction, amount, balanceAfter }) => ({ ...transaction, amount, balanceAfter }));
+  }
+
+  async getEarningsReport(userId: number): Promise<EarningsReportRow[]> {
+    const [earnings, revenue] = await Promise.all([
+      this.getCreditAccount(userId, 'earnings'),
+      this.getCreditAccount(null, 'revenue')
+    ]);
+    if (!earnings) {
+      return [];
+    }
+
+    // The platform's fee is the revenue entry of the same transaction
+    const fees = alias(creditEntries, 'fees');
+    const month = sql<string>`to_char(${creditTransactions.createdAt} at time zone 'UTC', 'YYYY-MM')`;
+    const rows = await db.select({
+      appId: creditTransactions.appId,
+      planId: creditTransactions.planId,
+      month,
+      netAmount: sql<number>`sum(${creditEntries.amount})::int`,
+      platformFee: sql<number>`coalesce(sum(${fees.amount}), 0)::int`,
+      paymentCount: sql<number>`(count(*) filter (where ${creditTransactions.type} = 'plan_payment'))::int`
+    })
+      .from(creditEntries)
+      .innerJoin(creditTransactions, eq(creditTransactions.id, creditEntries.transactionId))
+      .leftJoin(fees, and(
+        eq(fees.transactionId, creditTransactions.id),
+        revenue ? eq(fees.accountId, revenue.id) : sql`false`
+      ))
+      .where(and(
+        eq(creditEntries.accountId, earnings.id),
+        inArray(creditTransactions.type, ['plan_payment', 'refund'])
+      ))
+      .groupBy(creditTransactions.appId, creditTransactions.planId, month)
+      .orderBy(desc(month), asc(creditTransactions.appId), asc(creditTransactions.planId));
+    return rows.map(row => ({ ...row, grossAmount: row.netAmount + row.platformFee }));
+  }
+
+  // Payout requests
+
+  async getPayoutRequest(id: number): Promise<PayoutRequest | undefined> {
+    const [request] = await db.select().from(payoutRequests).where(eq(payoutRequests.id, id));
+    return request;
+  }
+
+  async getUserPayoutRequests(userId: number): Promise<PayoutRequest[]> {
+    return db.select().from(payoutRequests)
+      .where(eq(payoutRequests.userId, userId))
+      .orderBy(desc(payoutRequests.requestedAt), desc(payoutRequests.id));
+  }
+
+  async getPayoutRequests(status?: PayoutStatus): Promise<PayoutRequest[]> {
+    return db.select().from(payoutRequests)
+      .where(status ? eq(payoutRequests.status, status) : undefined)
+      .orderBy(desc(payoutRequests.requestedAt), desc(payoutRequests.id));
+  }
+
+  async createPayoutRequest(
+    request: Omit<InsertPayoutRequest, 'transactionId'>,
+    payout: CreditTransactionDraft
+  ): Promise<PayoutRequest | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const transaction = await applyCreditTransaction(tx, payout.transaction, payout.postings);
+        const [created] = await tx.insert(payoutRequests).values({ ...request, transactionId: transaction.id }).returning();
+        return created;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async processPayoutRequest(
+    id: number,
+    status: Exclude<PayoutStatus, 'pending'>,
+    note: string | null,
+    reversal?: CreditTransactionDraft
+  ): Promise<PayoutRequest | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [processed] = await tx.update(payoutRequests)
+          .set({ status, note, processedAt: new Date() })
+          .where(and(eq(payoutRequests.id, id), eq(payoutRequests.status, 'pending')))
+          .returning();
+        if (processed && reversal) {
+          await applyCreditTransaction(tx, reversal.transaction, reversal.postings);
+        }
+        return processed;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  // Reviews
+
+  async getAppReview(id: number): Promise<AppReview | undefined> {
+    const [review] = await db.select().from(appReviews).where(eq(appReviews.id, id));
+    return review;
+  }
+
+  async getAppReviews(appId: number): Promise<AppReview[]> {
+    return db.select().from(appReviews)
+      .where(eq(appReviews.appId, appId))
+      .orderBy(desc(appReviews.createdAt));
+  }
+
+  async getUserAppReview(userId: number, appId: number): Promise<AppReview | undefined> {
+    const [review] = await db.select().from(appReviews)
+      .where(and(eq(appReviews.userId, userId), eq(appReviews.appId, appId)));
+    return review;
+  }
+
+  async createAppReview(review: InsertAppReview): Promise<AppReview> {
+    const [created] = await db.insert(appReviews).values(review).returning();
+    return created;
+  }
+
+  async updateAppReview(id: number, updates: Partial<Pick<AppReview, 'rating' | 'reviewText'>>): Promise<AppReview> {
+    const rows = await db.update(appReviews).set(updates).where(eq(appReviews.id, id)).returning();
+    return requireRow(rows, `Review ${id}`);
+  }
+
+  async deleteAppReview(id: number): Promise<void> {
+    await db.delete(appReviews).where(eq(appReviews.id, id));
+  }
+
+  // Authorization codes
+
+  async createAuthorizationCode(code: InsertOAuthAuthorizationCode): Promise<OAuthAuthorizationCode> {
+    const [created] = await db.insert(oauthAuthorizationCodes).values(code).returning();
+    return created;
+  }
+
+  async getAuthorizationCodeByHash(codeHash: string): Promise<OAuthAuthorizationCode | undefined> {
+    const [code] = await db.select().from(oauthAuthorizationCodes)
+      .where(eq(oauthAuthorizationCodes.codeHash, codeHash));
+    return code;
+  }
+
+  async consumeAuthorizationCode(codeHash: string): Promise<OAuthAuthorizationCode | undefined> {
+    // The usedAt check in the WHERE clause makes concurrent redemptions race-free
+    const [code] = await db.update(oauthAuthorizationCodes)
+      .set({ usedAt: new Date() })
+      .where(and(eq(oauthAuthorizationCodes.codeHash, codeHash), isNull(oauthAuthorizationCodes.usedAt)))
+      .returning();
+    return code;
+  }
+
+  // Tokens
+
+  async createOAuthToken(token: InsertOAuthToken): Promise<OAuthToken> {
+    const [created] = await db.insert(oauthTokens).values(token).returning();
+    return created;
+  }
+
+  async getOAuthTokenByAccessTokenHash(accessTokenHash: string): Promise<OAuthToken | undefined> {
+    const [token] = await db.select().from(oauthTokens).where(eq(oauthTokens.accessTokenHash, accessTokenHash));
+    return token;
+  }
+
+  async getOAuthTokenByRefreshTokenHash(refreshTokenHash: string): Promise<OAuthToken | undefined> {
+    const [token] = await db.select().from(oauthTokens).where(eq(oauthTokens.refreshTokenHash, refreshTokenHash));
+    return token;
+  }
+
+  async revokeOAuthToken(id: number): Promise<OAuthToken | undefined> {
+    // The revokedAt check in the WHERE clause makes concurrent refreshes race-free
+    const [token] = await db.update(oauthTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(oauthTokens.id, id), isNull(oauthTokens.revokedAt)))
+      .returning();
+    return token;
+  }
+
+  async revokeOAuthTokensByAuthorizationCode(authorizationCodeId: number): Promise<void> {
+    await db.update(oauthTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(oauthTokens.authorizationCodeId, authorizationCodeId), isNull(oauthTokens.revokedAt)));
+  }
+
+  async countActiveOAuthTokens(userId: number, appId: number): Promise<number> {
+    const now = new Date();
+    const [result] = await db.select({ value: count() }).from(oauthTokens)
+      .where(and(
+        eq(oauthTokens.userId, userId),
+        eq(oauthTokens.appId, appId),
+        isNull(oauthTokens.revokedAt),
+        or(gt(oauthTokens.accessTokenExpiresAt, now), gt(oauthTokens.refreshTokenExpiresAt, now))
+      ));
+    return result.value;
+  }
+
+  // Grants
+
+  async upsertOAuthGrant(grant: InsertOAuthGrant): Promise<OAuthGrant> {
+    const [upserted] = await db.insert(oauthGrants)
+      .values(grant)
+      .onConflictDoUpdate({
+        target: [oauthGrants.userId, oauthGrants.appId],
+        set: {
+          scopes: sql`array(select distinct unnest(${oauthGrants.scopes} || excluded.scopes) order by 1)`,
+          lastAuthorizedAt: new Date()
+        }
+      })
+      .returning();
+    return upserted;
+  }
+
+  async getUserOAuthGrants(userId: number): Promise<OAuthGrant[]> {
+    return db.select().from(oauthGrants)
+      .where(eq(oauthGrants.userId, userId))
+      .orderBy(desc(oauthGrants.lastAuthorizedAt));
+  }
+
+  async revokeOAuthGrant(userId: number, appId: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const deleted = await tx.delete(oauthGrants)
+        .where(and(eq(oauthGrants.userId, userId), eq(oauthGrants.appId, appId)))
+        .returning();
+      if (deleted.length === 0) {
+        return false;
+      }
+
+      const now = new Date();
+      await tx.update(oauthTokens)
+        .set({ revokedAt: now })
+        .where(and(eq(oauthTokens.userId, userId), eq(oauthTokens.appId, appId), isNull(oauthTokens.revokedAt)));
+      // Codes issued but not yet redeemed must not mint new tokens
+      await tx.update(oauthAuthorizationCodes)
+        .set({ usedAt: now })
+        .where(and(
+          eq(oauthAuthorizationCodes.userId, userId),
+          eq(oauthAuthorizationCodes.appId, appId),
+          isNull(oauthAuthorizationCodes.usedAt)
+        ));
+      return true;
+    });
+  }
+
+  // Signing keys
+
+  async getSigningKeys(): Promise<SigningKey[]> {
+    return db.select().from(signingKeys).orderBy(desc(signingKeys.createdAt));
+  }
+
+  async getActiveSigningKey(): Promise<SigningKey | undefined> {
+    const [key] = await db.select().from(signingKeys).where(eq(signingKeys.status, 'active'));
+    return key;
+  }
+
+  async rotateSigningKey(key: InsertSigningKey, publishRetiredUntil: Date): Promise<SigningKey> {
+    return db.transaction(async (tx) => {
+      await tx.update(signingKeys)
+        .set({ status: 'retired', retiredAt: new Date(), publishUntil: publishRetiredUntil })
+        .where(eq(signingKeys.status, 'active'));
+      const [created] = await tx.insert(signingKeys).values({ ...key, status: 'active' }).returning();
+      return created;
+    });
+  }
+
+  async deleteExpiredSigningKeys(now: Date): Promise<void> {
+    await db.delete(signingKeys)
+      .where(and(eq(signingKeys.status, 'retired'), lte(signingKeys.publishUntil, now)));
+  }
+}
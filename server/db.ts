@@ -0,0 +1,15 @@
+/**
+ * PostgreSQL connection and Drizzle client
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { Pool } from 'pg';
+import { drizzle } from 'drizzle-orm/node-postgres';
+import * as schema from './dbSchema';
+
+// Connections are opened lazily, so importing this without DATABASE_URL is safe
+export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+export const db = drizzle(pool, { schema });
+
+export type Database = typeof db;
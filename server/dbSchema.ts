@@ -0,0 +1,379 @@
+/**
+ * Drizzle table definitions for the models in shared/schema.ts
+ * Keep in sync with the SQL files in /migrations
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { sql } from 'drizzle-orm';
+import {
+  AnyPgColumn,
+  boolean,
+  doublePrecision,
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  serial,
+  text,
+  timestamp,
+  uniqueIndex
+} from 'drizzle-orm/pg-core';
+import {
+  CouponDiscountType,
+  CouponDuration,
+  CreditAccountType,
+  CreditTransactionType,
+  InvoiceLine,
+  InvoiceStatus,
+  PayoutStatus,
+  PricingModel,
+  SigningAlgorithm,
+  SubscriptionStatus,
+  UsageTier
+} from '../shared/schema';
+
+const emptyTextArray = sql`'{}'::text[]`;
+const emptyIntegerArray = sql`'{}'::integer[]`;
+
+export const users = pgTable('users', {
+  id: serial('id').primaryKey(),
+  username: text('username').notNull().unique(),
+  name: text('name'),
+  email: text('email').notNull().unique(),
+  password: text('password'),
+  // Mirrors the wallet account's balance; only the ledger writes it
+  credits: integer('credits').notNull().default(0),
+  githubId: text('github_id').unique(),
+  githubUsername: text('github_username'),
+  avatarUrl: text('avatar_url'),
+  isAdmin: boolean('is_admin').notNull().default(false)
+});
+
+export const appCategories = pgTable('app_categories', {
+  id: serial('id').primaryKey(),
+  // Children must be moved or deleted before their parent; apps just lose the category
+  parentId: integer('parent_id').references((): AnyPgColumn => appCategories.id, { onDelete: 'restrict' }),
+  name: text('name').notNull(),
+  slug: text('slug').notNull().unique(),
+  description: text('description'),
+  position: integer('position').notNull().default(0)
+}, (table) => ({
+  parentIdx: index('app_categories_parent_id_idx').on(table.parentId)
+}));
+
+// search_vector (migration 0001) is trigger-maintained and intentionally not mapped
+export const oauthApps = pgTable('oauth_apps', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  description: text('description').notNull(),
+  clientId: text('client_id').unique(),
+  clientSecretHash: text('client_secret_hash'),
+  previousClientSecretHash: text('previous_client_secret_hash'),
+  previousClientSecretExpiresAt: timestamp('previous_client_secret_expires_at', { withTimezone: true }),
+  homepageUrl: text('homepage_url').notNull(),
+  redirectUris: text('redirect_uris').array().notNull().default(emptyTextArray),
+  isPublished: boolean('is_published').notNull().default(false),
+  verificationStatus: text('verification_status').notNull().default('pending'),
+  logoUrl: text('logo_url'),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  isListed: boolean('is_listed').notNull().default(true),
+  isPublicClient: boolean('is_public_client').notNull().default(false),
+  requiredScopes: text('required_scopes').array().notNull().default(emptyTextArray),
+  optionalScopes: text('optional_scopes').array().notNull().default(emptyTextArray),
+  publishedAt: timestamp('published_at', { withTimezone: true }),
+  categoryId: integer('category_id').references(() => appCategories.id, { onDelete: 'set null' }),
+  tags: text('tags').array().notNull().default(emptyTextArray),
+  platformFeePercent: doublePrecision('platform_fee_percent')
+}, (table) => ({
+  userIdx: index('oauth_apps_user_id_idx').on(table.userId),
+  publishedIdx: index('oauth_apps_published_idx').on(table.isPublished, table.isListed),
+  publishedAtIdx: index('oauth_apps_published_at_idx').on(table.publishedAt),
+  categoryIdx: index('oauth_apps_category_id_idx').on(table.categoryId),
+  tagsIdx: index('oauth_apps_tags_idx').using('gin', table.tags)
+}));
+
+export const pricingPlans = pgTable('pricing_plans', {
+  id: serial('id').primaryKey(),
+  appId: integer('app_id').notNull().references(() => oauthApps.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  // In minor units of currency
+  price: integer('price').notNull(),
+  currency: text('currency').notNull().default('USD'),
+  priceOverrides: jsonb('price_overrides').$type<Record<string, number>>().notNull().default({}),
+  billingInterval: text('billing_interval').notNull(),
+  features: text('features').array().notNull().default(emptyTextArray),
+  isPublic: boolean('is_public').notNull().default(true),
+  position: integer('position').notNull().default(0),
+  archivedAt: timestamp('archived_at', { withTimezone: true }),
+  pricingModel: text('pricing_model').$type<PricingModel>().notNull().default('flat'),
+  usageUnit: text('usage_unit'),
+  usageTiers: jsonb('usage_tiers').$type<UsageTier[]>().notNull().default([]),
+  trialDays: integer('trial_days').notNull().default(0),
+  introPrice: integer('intro_price'),
+  introPeriods: integer('intro_periods')
+}, (table) => ({
+  appIdx: index('pricing_plans_app_id_idx').on(table.appId)
+}));
+
+export const appTrials = pgTable('app_trials', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  appId: integer('app_id').notNull().references(() => oauthApps.id, { onDelete: 'cascade' }),
+  startedAt: timestamp('started_at', { withTimezone: true }).notNull().defaultNow()
+}, (table) => ({
+  userAppUnique: uniqueIndex('app_trials_user_id_app_id_key').on(table.userId, table.appId)
+}));
+
+export const coupons = pgTable('coupons', {
+  id: serial('id').primaryKey(),
+  appId: integer('app_id').notNull().references(() => oauthApps.id, { onDelete: 'cascade' }),
+  code: text('code').notNull(),
+  discountType: text('discount_type').$type<CouponDiscountType>().notNull(),
+  // Percent, or minor units of currency for fixed discounts
+  discountValue: doublePrecision('discount_value').notNull(),
+  currency: text('currency'),
+  duration: text('duration').$type<CouponDuration>().notNull(),
+  durationPeriods: integer('duration_periods'),
+  maxRedemptions: integer('max_redemptions'),
+  redemptionCount: integer('redemption_count').notNull().default(0),
+  expiresAt: timestamp('expires_at', { withTimezone: true }),
+  planIds: integer('plan_ids').array().notNull().default(emptyIntegerArray),
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+}, (table) => ({
+  appCodeUnique: uniqueIndex('coupons_app_id_code_key').on(table.appId, table.code)
+}));
+
+export const appSubscriptions = pgTable('app_subscriptions', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  appId: integer('app_id').notNull().references(() => oauthApps.id, { onDelete: 'restrict' }),
+  planId: integer('plan_id').notNull().references(() => pricingPlans.id, { onDelete: 'restrict' }),
+  status: text('status').$type<SubscriptionStatus>().notNull(),
+  startDate: timestamp('start_date', { withTimezone: true }).notNull().defaultNow(),
+  endDate: timestamp('end_date', { withTimezone: true }),
+  currentPeriodStart: timestamp('current_period_start', { withTimezone: true }),
+  currentPeriodEnd: timestamp('current_period_end', { withTimezone: true }),
+  cancelAtPeriodEnd: boolean('cancel_at_period_end').notNull().default(false),
+  paymentProvider: text('payment_provider'),
+  currency: text('currency').notNull().default('USD'),
+  billingCountry: text('billing_country'),
+  billingRegion: text('billing_region'),
+  providerCheckoutId: text('provider_checkout_id'),
+  providerSubscriptionId: text('provider_subscription_id'),
+  trialEnd: timestamp('trial_end', { withTimezone: true }),
+  introPrice: integer('intro_price'),
+  introEndsAt: timestamp('intro_ends_at', { withTimezone: true }),
+  seats: integer('seats').notNull().default(1),
+  usageBilledUntil: timestamp('usage_billed_until', { withTimezone: true }),
+  couponId: integer('coupon_id').references(() => coupons.id, { onDelete: 'set null' }),
+  discountType: text('discount_type').$type<CouponDiscountType>(),
+  discountValue: doublePrecision('discount_value'),
+  discountEndsAt: timestamp('discount_ends_at', { withTimezone: true }),
+  migrationPlanId: integer('migration_plan_id').references(() => pricingPlans.id, { onDelete: 'restrict' }),
+  migratesAt: timestamp('migrates_at', { withTimezone: true })
+}, (table) => ({
+  userIdx: index('app_subscriptions_user_id_idx').on(table.userId),
+  appIdx: index('app_subscriptions_app_id_idx').on(table.appId),
+  planIdx: index('app_subscriptions_plan_id_idx').on(table.planId),
+  checkoutUnique: uniqueIndex('app_subscriptions_provider_checkout_key')
+    .on(table.paymentProvider, table.providerCheckoutId),
+  providerSubscriptionIdx: index('app_subscriptions_provider_subscription_idx')
+    .on(table.paymentProvider, table.providerSubscriptionId),
+  // At most one live subscription per user and app (LIVE_SUBSCRIPTION_STATUSES)
+  liveUnique: uniqueIndex('app_subscriptions_single_live_subscription')
+    .on(table.userId, table.appId)
+    .where(sql`${table.status} in ('pending', 'trialing', 'active', 'past_due')`),
+  periodEndIdx: index('app_subscriptions_current_period_end_idx').on(table.currentPeriodEnd)
+}));
+
+export const couponRedemptions = pgTable('coupon_redemptions', {
+  id: serial('id').primaryKey(),
+  couponId: integer('coupon_id').notNull().references(() => coupons.id, { onDelete: 'cascade' }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  subscriptionId: integer('subscription_id').notNull().references(() => appSubscriptions.id, { onDelete: 'cascade' }),
+  // Not a foreign key: the plan may be deleted after the subscription moves off it
+  planId: integer('plan_id').notNull(),
+  redeemedAt: timestamp('redeemed_at', { withTimezone: true }).notNull().defaultNow()
+}, (table) => ({
+  couponUserUnique: uniqueIndex('coupon_redemptions_coupon_id_user_id_key').on(table.couponId, table.userId),
+  subscriptionUnique: uniqueIndex('coupon_redemptions_subscription_id_key').on(table.subscriptionId)
+}));
+
+export const usageRecords = pgTable('usage_records', {
+  id: serial('id').primaryKey(),
+  subscriptionId: integer('subscription_id').notNull().references(() => appSubscriptions.id, { onDelete: 'cascade' }),
+  appId: integer('app_id').notNull().references(() => oauthApps.id, { onDelete: 'cascade' }),
+  quantity: integer('quantity').notNull(),
+  occurredAt: timestamp('occurred_at', { withTimezone: true }).notNull(),
+  idempotencyKey: text('idempotency_key'),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+}, (table) => ({
+  subscriptionIdx: index('usage_records_subscription_id_idx').on(table.subscriptionId, table.occurredAt),
+  idempotencyUnique: uniqueIndex('usage_records_app_id_idempotency_key_key').on(table.appId, table.idempotencyKey)
+}));
+
+export const invoices = pgTable('invoices', {
+  id: serial('id').primaryKey(),
+  number: text('number').unique(),
+  // Invoices are financial records, so they outlive what they bill for
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'restrict' }),
+  subscriptionId: integer('subscription_id').references(() => appSubscriptions.id, { onDelete: 'set null' }),
+  appId: integer('app_id').references(() => oauthApps.id, { onDelete: 'set null' }),
+  planId: integer('plan_id').references(() => pricingPlans.id, { onDelete: 'set null' }),
+  appName: text('app_name').notNull(),
+  planName: text('plan_name').notNull(),
+  status: text('status').$type<InvoiceStatus>().notNull().default('draft'),
+  periodStart: timestamp('period_start', { withTimezone: true }).notNull(),
+  periodEnd: timestamp('period_end', { withTimezone: true }).notNull(),
+  lines: jsonb('lines').$type<InvoiceLine[]>().notNull().default([]),
+  // In minor units of currency, as are the lines' amounts
+  total: integer('total').notNull(),
+  tax: integer('tax').notNull(),
+  creditsApplied: integer('credits_applied').notNull(),
+  amountDue: integer('amount_due').notNull(),
+  currency: text('currency').notNull().default('USD'),
+  paymentMethod: text('payment_method'),
+  reference: text('reference').unique(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  finalizedAt: timestamp('finalized_at', { withTimezone: true }),
+  paidAt: timestamp('paid_at', { withTimezone: true }),
+  voidedAt: timestamp('voided_at', { withTimezone: true })
+}, (table) => ({
+  userIdx: index('invoices_user_id_idx').on(table.userId, table.createdAt),
+  appIdx: index('invoices_app_id_idx').on(table.appId, table.createdAt),
+  subscriptionIdx: index('invoices_subscription_id_idx').on(table.subscriptionId, table.status)
+}));
+
+export const creditAccounts = pgTable('credit_accounts', {
+  id: serial('id').primaryKey(),
+  // Accounts are never deleted; removing one would unbalance the ledger
+  userId: integer('user_id').references(() => users.id, { onDelete: 'restrict' }),
+  type: text('type').$type<CreditAccountType>().notNull(),
+  balance: integer('balance').notNull().default(0),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+}, (table) => ({
+  userTypeUnique: uniqueIndex('credit_accounts_user_id_type_key')
+    .on(table.userId, table.type)
+    .where(sql`${table.userId} is not null`),
+  platformTypeUnique: uniqueIndex('credit_accounts_platform_type_key')
+    .on(table.type)
+    .where(sql`${table.userId} is null`)
+}));
+
+export const creditTransactions = pgTable('credit_transactions', {
+  id: serial('id').primaryKey(),
+  type: text('type').$type<CreditTransactionType>().notNull(),
+  description: text('description').notNull(),
+  subscriptionId: integer('subscription_id').references(() => appSubscriptions.id, { onDelete: 'set null' }),
+  appId: integer('app_id').references(() => oauthApps.id, { onDelete: 'set null' }),
+  planId: integer('plan_id').references(() => pricingPlans.id, { onDelete: 'set null' }),
+  reference: text('reference').unique(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+}, (table) => ({
+  subscriptionIdx: index('credit_transactions_subscription_id_idx').on(table.subscriptionId),
+  appIdx: index('credit_transactions_app_id_idx').on(table.appId, table.createdAt)
+}));
+
+export const creditEntries = pgTable('credit_entries', {
+  id: serial('id').primaryKey(),
+  transactionId: integer('transaction_id').notNull().references(() => creditTransactions.id, { onDelete: 'restrict' }),
+  accountId: integer('account_id').notNull().references(() => creditAccounts.id, { onDelete: 'restrict' }),
+  amount: integer('amount').notNull(),
+  balanceAfter: integer('balance_after').notNull()
+}, (table) => ({
+  transactionIdx: index('credit_entries_transaction_id_idx').on(table.transactionId),
+  accountIdx: index('credit_entries_account_id_idx').on(table.accountId, table.transactionId)
+}));
+
+export const payoutRequests = pgTable('payout_requests', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'restrict' }),
+  amount: integer('amount').notNull(),
+  status: text('status').$type<PayoutStatus>().notNull().default('pending'),
+  transactionId: integer('transaction_id').notNull().references(() => creditTransactions.id, { onDelete: 'restrict' }),
+  note: text('note'),
+  requestedAt: timestamp('requested_at', { withTimezone: true }).notNull().defaultNow(),
+  processedAt: timestamp('processed_at', { withTimezone: true })
+}, (table) => ({
+  userIdx: index('payout_requests_user_id_idx').on(table.userId, table.requestedAt),
+  statusIdx: index('payout_requests_status_idx').on(table.status, table.requestedAt)
+}));
+
+export const appReviews = pgTable('app_reviews', {
+  id: serial('id').primaryKey(),
+  appId: integer('app_id').notNull().references(() => oauthApps.id, { onDelete: 'cascade' }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  rating: integer('rating').notNull(),
+  reviewText: text('review_text'),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+}, (table) => ({
+  // One review per user per app
+  userAppUnique: uniqueIndex('app_reviews_app_id_user_id_key').on(table.appId, table.userId)
+}));
+
+export const oauthAuthorizationCodes = pgTable('oauth_authorization_codes', {
+  id: serial('id').primaryKey(),
+  codeHash: text('code_hash').notNull().unique(),
+  appId: integer('app_id').notNull().references(() => oauthApps.id, { onDelete: 'cascade' }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  redirectUri: text('redirect_uri'),
+  codeChallenge: text('code_challenge'),
+  codeChallengeMethod: text('code_challenge_method'),
+  scopes: text('scopes').array().notNull().default(emptyTextArray),
+  nonce: text('nonce'),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  usedAt: timestamp('used_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+}, (table) => ({
+  userAppIdx: index('oauth_authorization_codes_user_app_idx').on(table.userId, table.appId)
+}));
+
+export const oauthTokens = pgTable('oauth_tokens', {
+  id: serial('id').primaryKey(),
+  appId: integer('app_id').notNull().references(() => oauthApps.id, { onDelete: 'cascade' }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  authorizationCodeId: integer('authorization_code_id')
+    .references(() => oauthAuthorizationCodes.id, { onDelete: 'set null' }),
+  scopes: text('scopes').array().notNull().default(emptyTextArray),
+  accessTokenHash: text('access_token_hash').notNull().unique(),
+  refreshTokenHash: text('refresh_token_hash').unique(),
+  accessTokenExpiresAt: timestamp('access_token_expires_at', { withTimezone: true }).notNull(),
+  refreshTokenExpiresAt: timestamp('refresh_token_expires_at', { withTimezone: true }),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+}, (table) => ({
+  userAppIdx: index('oauth_tokens_user_app_idx').on(table.userId, table.appId),
+  authorizationCodeIdx: index('oauth_tokens_authorization_code_id_idx').on(table.authorizationCodeId)
+}));
+
+export const oauthGrants = pgTable('oauth_grants', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  appId: integer('app_id').notNull().references(() => oauthApps.id, { onDelete: 'cascade' }),
+  scopes: text('scopes').array().notNull().default(emptyTextArray),
+  firstAuthorizedAt: timestamp('first_authorized_at', { withTimezone: true }).notNull().defaultNow(),
+  lastAuthorizedAt: timestamp('last_authorized_at', { withTimezone: true }).notNull().defaultNow()
+}, (table) => ({
+  userAppUnique: uniqueIndex('oauth_grants_user_id_app_id_key').on(table.userId, table.appId),
+  appIdx: index('oauth_grants_app_id_idx').on(table.appId)
+}));
+
+export const signingKeys = pgTable('signing_keys', {
+  id: serial('id').primaryKey(),
+  kid: text('kid').notNull().unique(),
+  algorithm: text('algorithm').$type<SigningAlgorithm>().notNull(),
+  status: text('status').$type<'active' | 'retired'>().notNull(),
+  publicJwk: jsonb('public_jwk').$type<Record<string, string>>().notNull(),
+  privateKeyPem: text('private_key_pem').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  retiredAt: timestamp('retired_at', { withTimezone: true }),
+  publishUntil: timestamp('publish_until', { withTimezone: true })
+}, (table) => ({
+  // At most one active key at a time
+  activeUnique: uniqueIndex('signing_keys_single_active_key')
+    .on(table.status)
+    .where(sql`${table.status} = 'active'`)
+}));
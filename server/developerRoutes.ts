@@ -0,0 +1,119 @@
+/**
+ * Developer Routes: subscription earnings, payout requests and invoices for the developer's apps
+ * Mounted at /api/developer
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { Router, Request, Response } from 'express';
+import { storage } from './storage';
+import { parseBody, sendValidationError } from './validation';
+import { getPlatformFeePercent, InsufficientCreditsError } from './creditsLedger';
+import { requestPayout, toPayoutCsv } from './payouts';
+import { withCustomers } from './invoices';
+import { DeveloperEarnings } from '../shared/schema';
+import { invoiceListSchema, requestPayoutSchema, validate } from '../shared/validation';
+
+const router = Router();
+
+// Middleware to check authentication
+const requireAuth = (req: Request, res: Response, next: Function) => {
+  if (!req.isAuthenticated() || !req.user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+  next();
+};
+
+// Revenue by app, plan and month, with what's available to pay out
+router.get('/earnings', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user.id;
+    const [account, rows, apps, payouts] = await Promise.all([
+      storage.getCreditAccount(userId, 'earnings'),
+      storage.getEarningsReport(userId),
+      storage.getUserOAuthApps(userId),
+      storage.getUserPayoutRequests(userId)
+    ]);
+    const plans = (await Promise.all(apps.map(app => storage.getAppPricingPlans(app.id)))).flat();
+
+    const earnings: DeveloperEarnings = {
+      availableBalance: account?.balance ?? 0,
+      pendingPayouts: payouts
+        .filter(payout => payout.status === 'pending')
+        .reduce((sum, payout) => sum + payout.amount, 0),
+      apps: apps.map(app => ({ id: app.id, name: app.name, platformFeePercent: getPlatformFeePercent(app) })),
+      plans: plans.map(plan => ({ id: plan.id, appId: plan.appId, name: plan.name })),
+      rows
+    };
+    res.status(200).json(earnings);
+  } catch (error) {
+    console.error('Error fetching earnings:', error);
+    res.status(500).json({ message: 'Failed to fetch earnings' });
+  }
+});
+
+// The developer's payout requests, newest first
+router.get('/payouts', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const payouts = await storage.getUserPayoutRequests(req.user.id);
+    res.status(200).json(payouts);
+  } catch (error) {
+    console.error('Error fetching payouts:', error);
+    res.status(500).json({ message: 'Failed to fetch payouts' });
+  }
+});
+
+// Ask for part of the available earnings to be paid out
+router.post('/payouts', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const body = parseBody(requestPayoutSchema, req, res);
+    if (!body) return;
+
+    const payout = await requestPayout(req.user.id, body.amount);
+    res.status(201).json(payout);
+  } catch (error) {
+    if (error instanceof InsufficientCreditsError) {
+      return sendValidationError(res, { amount: 'Amount exceeds your available earnings' });
+    }
+    console.error('Error requesting payout:', error);
+    res.status(500).json({ message: 'Failed to request payout' });
+  }
+});
+
+// The developer's payout requests as a CSV download
+router.get('/payouts/export.csv', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const payouts = await storage.getUserPayoutRequests(req.user.id);
+    res.status(200)
+      .type('text/csv')
+      .attachment('payouts.csv')
+      .send(toPayoutCsv(payouts, new Map([[req.user.id, req.user]])));
+  } catch (error) {
+    console.error('Error exporting payouts:', error);
+    res.status(500).json({ message: 'Failed to export payouts' });
+  }
+});
+
+// Invoices for subscriptions to the developer's apps, newest first, with who
+// they were billed to. Filter by one of their apps or by status.
+router.get('/invoices', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const result = validate(invoiceListSchema, req.query);
+    if (!result.success) {
+      return sendValidationError(res, result.errors);
+    }
+
+    const { appId, status } = result.data;
+    const appIds = (await storage.getUserOAuthApps(req.user.id)).map(app => app.id);
+    if (appId !== undefined && !appIds.includes(appId)) {
+      return sendValidationError(res, { appId: 'Choose one of your apps' });
+    }
+
+    const invoices = await storage.getAppInvoices(appId !== undefined ? [appId] : appIds, status);
+    res.status(200).json(await withCustomers(invoices));
+  } catch (error) {
+    console.error('Error fetching app invoices:', error);
+    res.status(500).json({ message: 'Failed to fetch invoices' });
+  }
+});
+
+export default router;
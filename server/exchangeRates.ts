@@ -0,0 +1,25 @@
+/**
+ * Exchange rates for settling charges in other currencies as credits
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { CREDITS_CURRENCY, priceToCredits } from '../shared/credits';
+import { toMajorUnits } from '../shared/currency';
+
+// What one unit of each currency is worth in the credits currency, e.g.
+// EXCHANGE_RATES='{"EUR":1.08,"GBP":1.27}'. Plans can only be bought in
+// currencies with a rate.
+const EXCHANGE_RATES: Record<string, number> = {
+  ...JSON.parse(process.env.EXCHANGE_RATES || '{}'),
+  [CREDITS_CURRENCY]: 1
+};
+
+export const canSettleIn = (currency: string): boolean => EXCHANGE_RATES[currency] > 0;
+
+// Credits for an amount charged in a currency's minor units, to record in the ledger
+export const amountToCredits = (amount: number, currency: string): number => {
+  if (!canSettleIn(currency)) {
+    throw new Error(`No exchange rate for ${currency}`);
+  }
+  return priceToCredits(toMajorUnits(amount, currency) * EXCHANGE_RATES[currency]);
+};
@@ -0,0 +1,143 @@
+/**
+ * Local fake payment provider for development and offline tests
+ * Checkout pages are served by paymentRoutes.ts; webhooks are HMAC-signed JSON
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { OAuthApp, PricingPlan } from '../shared/schema';
+import {
+  CheckoutRequest,
+  CheckoutSession,
+  CreditPurchaseRequest,
+  PaymentEvent,
+  PaymentProvider,
+  WebhookSignatureError
+} from './paymentProvider';
+
+export const FAKE_SIGNATURE_HEADER = 'x-fake-payment-signature';
+
+export interface FakeCheckoutSession extends CheckoutSession {
+  request: CheckoutRequest | CreditPurchaseRequest;
+  status: 'open' | 'complete' | 'expired';
+}
+
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+  private sessions = new Map<string, FakeCheckoutSession>();
+
+  constructor(private webhookSecret: string) {}
+
+  async createCheckoutSession(request: CheckoutRequest): Promise<CheckoutSession> {
+    return this.openSession(request);
+  }
+
+  async createCreditPurchaseSession(request: CreditPurchaseRequest): Promise<CheckoutSession> {
+    return this.openSession(request);
+  }
+
+  private openSession(request: CheckoutRequest | CreditPurchaseRequest): CheckoutSession {
+    const id = `fake_cs_${randomBytes(12).toString('hex')}`;
+    const session: FakeCheckoutSession = { id, url: `/api/payments/fake/checkout/${id}`, request, status: 'open' };
+    this.sessions.set(id, session);
+    return { id, url: session.url };
+  }
+
+  async expireCheckoutSession(checkoutId: string): Promise<void> {
+    const session = this.sessions.get(checkoutId);
+    if (session?.status === 'complete') {
+      throw new Error(`Checkout session ${checkoutId} is already complete`);
+    }
+    if (session) {
+      session.status = 'expired';
+    }
+  }
+
+  getCheckoutSession(checkoutId: string): FakeCheckoutSession | undefined {
+    return this.sessions.get(checkoutId);
+  }
+
+  // The fake provider keeps no billing state of its own, so subscription
+  // changes only need to succeed; local records stay authoritative
+
+  async scheduleIntroductoryPricing(
+    providerSubscriptionId: string,
+    app: Pick<OAuthApp, 'id' | 'name'>,
+    plan: PricingPlan,
+    currency: string
+  ): Promise<void> {}
+
+  async changeSubscriptionPlan(
+    providerSubscriptionId: string,
+    app: Pick<OAuthApp, 'id' | 'name'>,
+    plan: PricingPlan,
+    quantity: number,
+    currency: string
+  ): Promise<void> {}
+
+  async chargeUsage(
+    providerSubscriptionId: string,
+    amount: number,
+    currency: string,
+    description: string,
+    reference: string
+  ): Promise<void> {}
+
+  async cancelSubscription(providerSubscriptionId: string, atPeriodEnd: boolean): Promise<void> {}
+
+  async resumeSubscription(providerSubscriptionId: string): Promise<void> {}
+
+  // Simulate the customer paying on the hosted page. Returns the webhook the
+  // provider would send, or null if the session can no longer be paid.
+  payCheckoutSession(checkoutId: string): PaymentEvent | null {
+    const session = this.sessions.get(checkoutId);
+    if (!session || session.status !== 'open') {
+      return null;
+    }
+    session.status = 'complete';
+    if ('credits' in session.request) {
+      return { type: 'credits.purchased', checkoutId, userId: session.request.userId, credits: session.request.credits };
+    }
+    return {
+      type: 'checkout.completed',
+      checkoutId,
+      providerSubscriptionId: `fake_sub_${randomBytes(12).toString('hex')}`
+    };
+  }
+
+  // Signature for a webhook body, for tests that post webhooks directly
+  sign(rawBody: Buffer | string): string {
+    return createHmac('sha256', this.webhookSecret).update(rawBody).digest('hex');
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent | null {
+    const signature = Buffer.from(String(headers[FAKE_SIGNATURE_HEADER] ?? ''), 'hex');
+    const expected = Buffer.from(this.sign(rawBody), 'hex');
+    if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+      throw new WebhookSignatureError();
+    }
+
+    // The payload is the PaymentEvent itself
+    const event = JSON.parse(rawBody.toString('utf8'));
+    switch (event.type) {
+      case 'checkout.completed':
+        return { type: event.type, checkoutId: event.checkoutId, providerSubscriptionId: event.providerSubscriptionId ?? null };
+      case 'checkout.expired':
+        return { type: event.type, checkoutId: event.checkoutId };
+      case 'credits.purchased':
+        return { type: event.type, checkoutId: event.checkoutId, userId: Number(event.userId), credits: Number(event.credits) };
+      case 'subscription.updated':
+        return {
+          type: event.type,
+          providerSubscriptionId: event.providerSubscriptionId,
+          status: event.status,
+          currentPeriodStart: new Date(event.currentPeriodStart),
+          currentPeriodEnd: new Date(event.currentPeriodEnd),
+          cancelAtPeriodEnd: Boolean(event.cancelAtPeriodEnd)
+        };
+      default:
+        return null;
+    }
+  }
+}
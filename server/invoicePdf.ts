@@ -0,0 +1,146 @@
+/**
+ * Invoice PDF: renders an invoice as a single-page PDF without a PDF library
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { InvoiceDetails } from '../shared/schema';
+import { INVOICE_STATUS_LABELS } from '../shared/invoices';
+import { toMajorUnits } from '../shared/currency';
+
+// A4 in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+
+// The standard fonts every PDF reader has; amounts use the monospaced one so
+// they can be right-aligned without font metrics
+const FONTS = { regular: 'F1', bold: 'F2', mono: 'F3' } as const;
+const COURIER_CHAR_WIDTH = 0.6;
+
+const MAX_DESCRIPTION_LENGTH = 64;
+
+type Font = keyof typeof FONTS;
+
+const formatDay = (date: Date | null) => date ? new Date(date).toISOString().slice(0, 10) : '-';
+
+// Printable ASCII reads the same in every font encoding; anything else becomes '?'
+const escapeText = (text: string) =>
+  text
+    .replace(/[^\x20-\x7e]/g, '?')
+    .replace(/[\\()]/g, match => `\\${match}`);
+
+// Currency symbols aren't printable ASCII, so amounts carry the currency code:
+// 1000 -> "EUR 10.00", -250 -> "-USD 2.50"
+const formatAmount = (amount: number, currency: string) =>
+  `${amount < 0 ? '-' : ''}${currency} ${toMajorUnits(Math.abs(amount), currency).toFixed(2)}`;
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 3)}...` : text;
+
+class PageContent {
+  private operations: string[] = [];
+
+  text(x: number, y: number, text: string, font: Font = 'regular', size = 10) {
+    this.operations.push(`BT /${FONTS[font]} ${size} Tf ${x} ${y} Td (${escapeText(text)}) Tj ET`);
+  }
+
+  // Right-aligned at x, in the monospaced font
+  amount(x: number, y: number, text: string, size = 10) {
+    this.text(x - text.length * size * COURIER_CHAR_WIDTH, y, text, 'mono', size);
+  }
+
+  rule(y: number) {
+    this.operations.push(`${MARGIN} ${y} m ${PAGE_WIDTH - MARGIN} ${y} l 0.5 w S`);
+  }
+
+  toString() {
+    return this.operations.join('\n');
+  }
+}
+
+// Number the objects and build the cross-reference table from their byte offsets
+const buildPdf = (objects: string[]): Buffer => {
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = Buffer.byteLength(pdf);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = Buffer.byteLength(pdf);
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+};
+
+export const renderInvoicePdf = (invoice: InvoiceDetails): Buffer => {
+  const page = new PageContent();
+  const right = PAGE_WIDTH - MARGIN;
+  let y = PAGE_HEIGHT - MARGIN - 20;
+
+  page.text(MARGIN, y, 'Invoice', 'bold', 20);
+  page.text(right - 160, y, invoice.number ?? 'Draft', 'bold', 12);
+  y -= 30;
+
+  const details: [string, string][] = [
+    ['Status', INVOICE_STATUS_LABELS[invoice.status]],
+    ['Issued', formatDay(invoice.finalizedAt)],
+    ['Billing period', `${formatDay(invoice.periodStart)} to ${formatDay(invoice.periodEnd)}`],
+    ['Currency', invoice.currency],
+    ...(invoice.paidAt ? [['Paid', formatDay(invoice.paidAt)] as [string, string]] : []),
+    ...(invoice.voidedAt ? [['Voided', formatDay(invoice.voidedAt)] as [string, string]] : [])
+  ];
+  const billTo = [invoice.customer.name || invoice.customer.username, invoice.customer.email];
+
+  page.text(MARGIN, y, 'Bill to', 'bold');
+  details.forEach(([label, value], index) => {
+    page.text(right - 240, y - index * 14, label, 'bold');
+    page.text(right - 150, y - index * 14, value);
+  });
+  billTo.forEach((line, index) => page.text(MARGIN, y - (index + 1) * 14, line));
+  y -= Math.max(details.length, billTo.length + 1) * 14 + 20;
+
+  page.text(MARGIN, y, `${invoice.appName} - ${invoice.planName}`, 'bold', 12);
+  y -= 24;
+
+  page.text(MARGIN, y, 'Description', 'bold');
+  page.text(right - 140, y, 'Qty', 'bold');
+  page.text(right - 45, y, 'Amount', 'bold');
+  y -= 8;
+  page.rule(y);
+  y -= 16;
+  for (const line of invoice.lines) {
+    page.text(MARGIN, y, truncate(line.description, MAX_DESCRIPTION_LENGTH));
+    page.amount(right - 120, y, line.quantity.toLocaleString('en-US'));
+    page.amount(right, y, formatAmount(line.amount, invoice.currency));
+    y -= 16;
+  }
+  page.rule(y + 8);
+  y -= 12;
+
+  const totals: [string, number][] = [
+    ['Total', invoice.total],
+    ...(invoice.tax ? [['Tax included', invoice.tax] as [string, number]] : []),
+    ...(invoice.creditsApplied ? [['Credits applied', -invoice.creditsApplied] as [string, number]] : [])
+  ];
+  for (const [label, amount] of totals) {
+    page.text(right - 240, y, label);
+    page.amount(right, y, formatAmount(amount, invoice.currency));
+    y -= 16;
+  }
+  // What was left to pay after credits, charged to the payment method
+  page.text(right - 240, y, invoice.status === 'paid' ? 'Amount charged' : 'Amount due', 'bold', 12);
+  page.amount(right, y, formatAmount(invoice.status === 'void' ? 0 : invoice.amountDue, invoice.currency), 12);
+
+  const content = page.toString();
+  return buildPdf([
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Contents 4 0 R ` +
+      '/Resources << /Font << /F1 5 0 R /F2 6 0 R /F3 7 0 R >> >> >>',
+    `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>'
+  ]);
+};
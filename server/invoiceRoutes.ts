@@ -0,0 +1,100 @@
+/**
+ * Invoice Routes: a user's billing history, with PDF and JSON downloads
+ * Mounted at /api/invoices
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { Router, Request, Response } from 'express';
+import { storage } from './storage';
+import { sendValidationError } from './validation';
+import { withCustomers } from './invoices';
+import { renderInvoicePdf } from './invoicePdf';
+import { InvoiceDetails } from '../shared/schema';
+import { invoiceListSchema, validate } from '../shared/validation';
+
+const router = Router();
+
+// Middleware to check authentication
+const requireAuth = (req: Request, res: Response, next: Function) => {
+  if (!req.isAuthenticated() || !req.user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+  next();
+};
+
+// Load an invoice billed to the authenticated user or for one of their apps,
+// or send a 404. Drafts aren't shown to anyone.
+const getVisibleInvoice = async (req: Request, res: Response): Promise<InvoiceDetails | null> => {
+  const invoiceId = parseInt(req.params.id);
+  const invoice = Number.isNaN(invoiceId) ? undefined : await storage.getInvoice(invoiceId);
+  const app = invoice?.appId ? await storage.getOAuthApp(invoice.appId) : undefined;
+  if (!invoice || invoice.status === 'draft' || (invoice.userId !== req.user.id && app?.userId !== req.user.id)) {
+    res.status(404).json({ message: 'Invoice not found' });
+    return null;
+  }
+  const [details] = await withCustomers([invoice]);
+  return details;
+};
+
+// Drafts voided before they were finalized never got a number
+const getFileName = (invoice: InvoiceDetails) => invoice.number ?? `invoice-${invoice.id}`;
+
+// The user's invoices, newest first, optionally only those with a status
+router.get('/', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const result = validate(invoiceListSchema, req.query);
+    if (!result.success) {
+      return sendValidationError(res, result.errors);
+    }
+
+    const invoices = await storage.getUserInvoices(req.user.id, result.data.status);
+    res.status(200).json(invoices);
+  } catch (error) {
+    console.error('Error fetching invoices:', error);
+    res.status(500).json({ message: 'Failed to fetch invoices' });
+  }
+});
+
+router.get('/:id', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const invoice = await getVisibleInvoice(req, res);
+    if (!invoice) return;
+
+    res.status(200).json(invoice);
+  } catch (error) {
+    console.error('Error fetching invoice:', error);
+    res.status(500).json({ message: 'Failed to fetch invoice' });
+  }
+});
+
+router.get('/:id/invoice.pdf', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const invoice = await getVisibleInvoice(req, res);
+    if (!invoice) return;
+
+    res.status(200)
+      .type('application/pdf')
+      .attachment(`${getFileName(invoice)}.pdf`)
+      .send(renderInvoicePdf(invoice));
+  } catch (error) {
+    console.error('Error rendering invoice PDF:', error);
+    res.status(500).json({ message: 'Failed to render invoice' });
+  }
+});
+
+router.get('/:id/invoice.json', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const invoice = await getVisibleInvoice(req, res);
+    if (!invoice) return;
+
+    res.status(200)
+      .type('application/json')
+      .attachment(`${getFileName(invoice)}.json`)
+      .send(JSON.stringify(invoice, null, 2));
+  } catch (error) {
+    console.error('Error exporting invoice:', error);
+    res.status(500).json({ message: 'Failed to export invoice' });
+  }
+});
+
+export default router;
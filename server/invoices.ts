@@ -0,0 +1,192 @@
+/**
+ * Invoices: one for every subscription charge, opened before the money moves
+ * and marked paid once it has, or voided when it never will
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { storage } from './storage';
+import {
+  AppSubscription,
+  Invoice,
+  InvoiceDetails,
+  InvoiceLine,
+  OAuthApp,
+  PricingPlan,
+  ProrationPreview,
+  UsageInvoice,
+  User
+} from '../shared/schema';
+import { getInvoiceTotals } from '../shared/invoices';
+import { describeUsageTiers } from '../shared/planOffers';
+import { getBilledSeats } from '../shared/planPricing';
+import { amountToCredits } from './exchangeRates';
+import { taxCalculator } from './taxCalculator';
+
+export interface InvoiceRequest {
+  subscription: AppSubscription;
+  app: Pick<OAuthApp, 'id' | 'name'>;
+  plan: Pick<PricingPlan, 'id' | 'name'>;
+  periodStart: Date;
+  periodEnd: Date;
+  // Plan, proration and usage lines; tax and credits applied are added here
+  lines: InvoiceLine[];
+  // The charge's ledger reference, when it has one
+  reference?: string | null;
+}
+
+const formatDay = (date: Date) => date.toISOString().slice(0, 10);
+
+// The plan's name, with the seat count on per-seat plans
+const describePlan = (plan: Pick<PricingPlan, 'name' | 'pricingModel'>, seats: number) =>
+  plan.pricingModel === 'per_seat' ? `${plan.name} (${seats} ${seats === 1 ? 'seat' : 'seats'})` : plan.name;
+
+// A billing period's price for all of the subscription's seats
+export const getPlanLine = (
+  app: Pick<OAuthApp, 'name'>,
+  plan: Pick<PricingPlan, 'name' | 'pricingModel'>,
+  seats: number,
+  amount: number
+): InvoiceLine => ({
+  type: 'plan',
+  description: `${app.name} (${describePlan(plan, seats)})`,
+  quantity: getBilledSeats(plan, seats),
+  amount
+});
+
+// A coupon's discount off the plan line, e.g. "20% off"
+export const getDiscountLine = (description: string, amount: number): InvoiceLine => ({
+  type: 'discount',
+  description: `Discount (${description})`,
+  quantity: 1,
+  amount: -amount
+});
+
+// Credit for the unused time on the old plan or seat count and the charge for
+// the rest of the period on the new one; lines for nothing are left out
+export const getProrationLines = (
+  proration: ProrationPreview,
+  from: { plan: Pick<PricingPlan, 'name' | 'pricingModel'>; seats: number },
+  to: { plan: Pick<PricingPlan, 'name' | 'pricingModel'>; seats: number }
+): InvoiceLine[] => [
+  {
+    type: 'proration' as const,
+    description: `Unused time on ${describePlan(from.plan, from.seats)}`,
+    quantity: 1,
+    amount: -proration.currentPlanCredit
+  },
+  {
+    type: 'proration' as const,
+    description: `${describePlan(to.plan, to.seats)} until ${formatDay(proration.periodEnd)}`,
+    quantity: 1,
+    amount: proration.newPlanCharge
+  }
+].filter(line => line.amount !== 0);
+
+// One line per usage tier the period reached
+export const getUsageLines = (
+  plan: Pick<PricingPlan, 'currency' | 'usageUnit' | 'usageTiers'>,
+  usage: UsageInvoice
+): InvoiceLine[] => {
+  // Usage fills the tiers in order, so its lines line up with the plan's tiers
+  const tierDescriptions = describeUsageTiers(plan);
+  return usage.lines.map((line, index) => ({
+    type: 'usage',
+    description: tierDescriptions[index],
+    quantity: line.quantity,
+    amount: line.amount
+  }));
+};
+
+// The tax included in the charges at the subscriber's billing address, as a
+// line of its own
+const withTax = async (
+  lines: InvoiceLine[],
+  subscription: Pick<AppSubscription, 'billingCountry' | 'billingRegion'>
+): Promise<InvoiceLine[]> => {
+  const charges = lines.filter(line => line.type !== 'tax' && line.type !== 'credits_applied');
+  const { total } = getInvoiceTotals(charges);
+  if (!subscription.billingCountry || total === 0) {
+    return charges;
+  }
+  const rate = await taxCalculator.getTaxRate({ country: subscription.billingCountry, region: subscription.billingRegion });
+  if (!rate) {
+    return charges;
+  }
+  const tax = Math.round(total - total / (1 + rate.percent / 100));
+  return [...charges, { type: 'tax', description: `${rate.label} (${rate.percent}%, included)`, quantity: 1, amount: tax }];
+};
+
+// Open an invoice for a charge about to be made: it is created as a draft and
+// finalized, which gives it its number. A charge retried with the same
+// reference gets the invoice from the first attempt, brought up to date if it
+// hasn't been paid yet.
+export const openInvoice = async (request: InvoiceRequest): Promise<Invoice> => {
+  const { subscription, app, plan, periodStart, periodEnd, reference = null } = request;
+  const lines = await withTax(request.lines, subscription);
+  const values = {
+    subscriptionId: subscription.id,
+    appId: app.id,
+    planId: plan.id,
+    appName: app.name,
+    planName: plan.name,
+    periodStart,
+    periodEnd,
+    lines,
+    ...getInvoiceTotals(lines),
+    currency: subscription.currency,
+    paymentMethod: subscription.paymentProvider
+  };
+
+  let invoice = await storage.createInvoice({ ...values, userId: subscription.userId, reference });
+  if (!invoice) {
+    const existing = (await storage.getInvoiceByReference(reference!))!;
+    if (existing.status !== 'draft' && existing.status !== 'open') {
+      return existing;
+    }
+    invoice = await storage.updateInvoice(existing.id, values);
+  }
+  if (invoice.status !== 'draft') {
+    return invoice;
+  }
+  return (await storage.transitionInvoice(invoice.id, 'open')) ?? (await storage.getInvoice(invoice.id))!;
+};
+
+// Mark an open invoice paid. Credits taken from the wallet are shown as
+// applied, leaving nothing due.
+export const payInvoice = async (invoice: Invoice, paidWithCredits: boolean): Promise<Invoice> => {
+  const lines = invoice.lines.filter(line => line.type !== 'credits_applied');
+  const { total } = getInvoiceTotals(lines);
+  if (paidWithCredits && total > 0) {
+    lines.push({
+      type: 'credits_applied',
+      description: `Paid with ${amountToCredits(total, invoice.currency).toLocaleString()} credits`,
+      quantity: 1,
+      amount: -total
+    });
+  }
+  const paid = await storage.transitionInvoice(invoice.id, 'paid', { lines, ...getInvoiceTotals(lines) });
+  return paid ?? (await storage.getInvoice(invoice.id))!;
+};
+
+// Invoice a charge that has already been made
+export const recordPaidInvoice = async (request: InvoiceRequest, paidWithCredits: boolean): Promise<Invoice> =>
+  payInvoice(await openInvoice(request), paidWithCredits);
+
+// Write off whatever the subscription still owes, e.g. when it ends
+export const voidUnpaidInvoices = async (subscriptionId: number): Promise<void> => {
+  for (const invoice of await storage.getUnpaidInvoices(subscriptionId)) {
+    await storage.transitionInvoice(invoice.id, 'void');
+  }
+};
+
+// Add who each invoice was billed to
+export const withCustomers = async (invoices: Invoice[]): Promise<InvoiceDetails[]> => {
+  const userIds = Array.from(new Set(invoices.map(invoice => invoice.userId)));
+  const users = await Promise.all(userIds.map(id => storage.getUser(id)));
+  const usersById = new Map(users.filter((user): user is User => !!user).map(user => [user.id, user]));
+  // Users with invoices can't be deleted
+  return invoices.map(invoice => {
+    const { username, name, email } = usersById.get(invoice.userId)!;
+    return { ...invoice, customer: { username, name, email } };
+  });
+};
@@ -0,0 +1,109 @@
+/**
+ * Signing Key Store: generation, rotation and JWKS publication
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { createHash, createPrivateKey, generateKeyPairSync, KeyObject } from 'crypto';
+import { storage } from './storage';
+import { SigningAlgorithm, SigningKey } from '../shared/schema';
+import { ID_TOKEN_TTL } from './oauthTokens';
+
+// Retired keys stay in the JWKS for as long as the longest-lived token they can have signed
+const MAX_SIGNED_TOKEN_TTL = ID_TOKEN_TTL;
+
+// Scheduled rotation interval, overridable with SIGNING_KEY_ROTATION_DAYS
+const ROTATION_INTERVAL_MS = Number(process.env.SIGNING_KEY_ROTATION_DAYS || 90) * 24 * 60 * 60 * 1000;
+const DEFAULT_ALGORITHM: SigningAlgorithm = process.env.SIGNING_KEY_ALGORITHM === 'ES256' ? 'ES256' : 'RS256';
+
+// Active key cache; other instances pick up a rotation within this window
+const CACHE_TTL_MS = 60 * 1000;
+
+export interface ActiveSigningKey {
+  kid: string;
+  algorithm: SigningAlgorithm;
+  privateKey: KeyObject;
+}
+
+let cachedKey: { key: ActiveSigningKey; loadedAt: number } | null = null;
+
+// JWK thumbprint (RFC 7638) used as the key id
+const computeThumbprint = (jwk: Record<string, string>): string => {
+  const members = jwk.kty === 'EC'
+    ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }
+    : { e: jwk.e, kty: jwk.kty, n: jwk.n };
+  return createHash('sha256').update(JSON.stringify(members)).digest('base64url');
+};
+
+// Generate a new key pair for the given algorithm
+const generateKeyMaterial = (algorithm: SigningAlgorithm) => {
+  const { publicKey, privateKey } = algorithm === 'ES256'
+    ? generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    : generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  const publicJwk = publicKey.export({ format: 'jwk' }) as Record<string, string>;
+  return {
+    kid: computeThumbprint(publicJwk),
+    algorithm,
+    publicJwk,
+    privateKeyPem: privateKey.export({ format: 'pem', type: 'pkcs8' }).toString()
+  };
+};
+
+const toActiveKey = (key: SigningKey): ActiveSigningKey => ({
+  kid: key.kid,
+  algorithm: key.algorithm,
+  privateKey: createPrivateKey(key.privateKeyPem)
+});
+
+// Generate a new active key and retire the current one
+export const rotateSigningKey = async (algorithm: SigningAlgorithm = DEFAULT_ALGORITHM): Promise<SigningKey> => {
+  // Other instances may keep signing with the old key until their cache expires
+  const publishRetiredUntil = new Date(Date.now() + MAX_SIGNED_TOKEN_TTL * 1000 + CACHE_TTL_MS);
+  const key = await storage.rotateSigningKey(generateKeyMaterial(algorithm), publishRetiredUntil);
+  cachedKey = { key: toActiveKey(key), loadedAt: Date.now() };
+  return key;
+};
+
+// The key new tokens are signed with, created on first use
+export const getActiveSigningKey = async (): Promise<ActiveSigningKey> => {
+  if (cachedKey && Date.now() - cachedKey.loadedAt < CACHE_TTL_MS) {
+    return cachedKey.key;
+  }
+
+  const key = await storage.getActiveSigningKey() ?? await rotateSigningKey();
+  cachedKey = { key: toActiveKey(key), loadedAt: Date.now() };
+  return cachedKey.key;
+};
+
+// Keys published in the JWKS: the active key plus retired keys whose tokens may still be valid
+export const getPublishedKeys = async (): Promise<SigningKey[]> => {
+  const now = Date.now();
+  const keys = await storage.getSigningKeys();
+  return keys.filter(key =>
+    key.status === 'active' || (key.publishUntil !== null && key.publishUntil.getTime() > now)
+  );
+};
+
+// Rotate when the active key is older than the rotation interval, and drop
+// retired keys that no longer need to be published
+export const runScheduledRotation = async (): Promise<void> => {
+  const active = await storage.getActiveSigningKey();
+  if (!active || Date.now() - active.createdAt.getTime() >= ROTATION_INTERVAL_MS) {
+    await rotateSigningKey(active?.algorithm ?? DEFAULT_ALGORITHM);
+  }
+  await storage.deleteExpiredSigningKeys(new Date());
+};
+
+// Check the rotation schedule periodically
+export const startKeyRotationSchedule = (checkIntervalMs = 60 * 60 * 1000) => {
+  const check = () => {
+    runScheduledRotation().catch(error => {
+      console.error('Error during scheduled key rotation:', error);
+    });
+  };
+
+  check();
+  const timer = setInterval(check, checkIntervalMs);
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,1042 @@
+/**
+ * In-memory storage implementation for development and route tests
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import {
+  User,
+  InsertUser,
+  OAuthApp,
+  InsertOAuthApp,
+  AppCategory,
+  InsertAppCategory,
+  PricingPlan,
+  InsertPricingPlan,
+  AppSubscription,
+  InsertAppSubscription,
+  AppTrial,
+  Coupon,
+  InsertCoupon,
+  CouponRedemption,
+  InsertCouponRedemption,
+  UsageRecord,
+  InsertUsageRecord,
+  Invoice,
+  InvoiceStatus,
+  InsertInvoice,
+  CreditAccount,
+  CreditAccountType,
+  CreditEntry,
+  CreditPosting,
+  CreditTransactionDraft,
+  CreditTransaction,
+  InsertCreditTransaction,
+  WalletTransaction,
+  EarningsReportRow,
+  PayoutRequest,
+  PayoutStatus,
+  InsertPayoutRequest,
+  AppReview,
+  InsertAppReview,
+  OAuthAuthorizationCode,
+  InsertOAuthAuthorizationCode,
+  OAuthToken,
+  InsertOAuthToken,
+  OAuthGrant,
+  InsertOAuthGrant,
+  SigningKey,
+  InsertSigningKey,
+  AppListingStats,
+  MarketplaceSearchResult
+} from '../shared/schema';
+import { MarketplaceSearchParams } from '../shared/validation';
+import type { IStorage } from './storage';
+import { SearchCursor, encodeSearchCursor } from './searchCursor';
+import { getCategorySubtreeIds } from '../shared/categoryTree';
+import { isLiveSubscription, MANAGEABLE_SUBSCRIPTION_STATUSES } from '../shared/subscriptionLifecycle';
+import { OVERDRAFT_PROTECTED_ACCOUNTS } from '../shared/credits';
+import { canTransitionInvoice, formatInvoiceNumber } from '../shared/invoices';
+import { getPlanPriceIn, getStartingPrice, toMinorUnits } from '../shared/currency';
+import { isPlanForSale } from '../shared/planPricing';
+
+// Drop undefined values, as Drizzle does, so they don't override defaults
+const defined = <T extends object>(values: T): T =>
+  Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as T;
+
+// Auto-incrementing table keyed by id
+class Table<T extends { id: number }> {
+  private rows = new Map<number, T>();
+  private nextId = 1;
+
+  insert(values: Omit<T, 'id'>): T {
+    const row = { ...values, id: this.nextId++ } as T;
+    this.rows.set(row.id, row);
+    return { ...row };
+  }
+
+  get(id: number): T | undefined {
+    const row = this.rows.get(id);
+    return row && { ...row };
+  }
+
+  find(predicate: (row: T) => boolean): T | undefined {
+    const row = Array.from(this.rows.values()).find(predicate);
+    return row && { ...row };
+  }
+
+  filter(predicate: (row: T) => boolean): T[] {
+    return Array.from(this.rows.values()).filter(predicate).map(row => ({ ...row }));
+  }
+
+  update(id: number, updates: Partial<T>, description: string): T {
+    const row = this.rows.get(id);
+    if (!row) {
+      throw new Error(`${description} not found`);
+    }
+    const updated = { ...row, ...defined(updates), id };
+    this.rows.set(id, updated);
+    return { ...updated };
+  }
+
+  delete(predicate: (row: T) => boolean): number {
+    let deleted = 0;
+    for (const [id, row] of Array.from(this.rows.entries())) {
+      if (predicate(row)) {
+        this.rows.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+}
+
+// Approximates the weighted tsvector ranking: name 1.0, description and tags 0.4, features 0.2
+const SEARCH_WEIGHTS = { name: 1, description: 0.4, features: 0.2 };
+
+const tokenize = (text: string): string[] => text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+
+const byNewest = <T>(key: keyof T) => (a: T, b: T) =>
+  (b[key] as unknown as Date).getTime() - (a[key] as unknown as Date).getTime();
+
+export class MemStorage implements IStorage {
+  private users = new Table<User>();
+  private appCategories = new Table<AppCategory>();
+  private oauthApps = new Table<OAuthApp>();
+  private pricingPlans = new Table<PricingPlan>();
+  private appSubscriptions = new Table<AppSubscription>();
+  private appTrials = new Table<AppTrial>();
+  private coupons = new Table<Coupon>();
+  private couponRedemptions = new Table<CouponRedemption>();
+  private usageRecords = new Table<UsageRecord>();
+  private invoices = new Table<Invoice>();
+  private invoiceSequence = 0;
+  private creditAccounts = new Table<CreditAccount>();
+  private creditTransactions = new Table<CreditTransaction>();
+  private creditEntries = new Table<CreditEntry>();
+  private payoutRequests = new Table<PayoutRequest>();
+  private appReviews = new Table<AppReview>();
+  private authorizationCodes = new Table<OAuthAuthorizationCode>();
+  private oauthTokens = new Table<OAuthToken>();
+  private oauthGrants = new Table<OAuthGrant>();
+  private signingKeys = new Table<SigningKey>();
+
+  // Users
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return this.users.find(user => user.username === username);
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    if (this.users.find(existing => existing.username === user.username || existing.email === user.email)) {
+      throw new Error('Username or email already exists');
+    }
+    return this.users.insert({
+      name: null,
+      password: null,
+      credits: 0,
+      githubId: null,
+      githubUsername: null,
+      avatarUrl: null,
+      isAdmin: false,
+      ...defined(user)
+    });
+  }
+
+  // OAuth apps
+
+  async getOAuthApp(id: number): Promise<OAuthApp | undefined> {
+    return this.oauthApps.get(id);
+  }
+
+  async getOAuthAppByClientId(clientId: string): Promise<OAuthApp | undefined> {
+    return this.oauthApps.find(app => app.clientId === clientId);
+  }
+
+  async getUserOAuthApps(userId: number): Promise<OAuthApp[]> {
+    return this.oauthApps.filter(app => app.userId === userId).sort(byNewest('createdAt'));
+  }
+
+  async getPublishedOAuthApps(): Promise<OAuthApp[]> {
+    return this.oauthApps.filter(app => app.isPublished && app.isListed).sort(byNewest('createdAt'));
+  }
+
+  async getTopRatedOAuthApps(limit: number, categoryId?: number): Promise<OAuthApp[]> {
+    const ratings = new Map<number, { total: number; count: number }>();
+    for (const review of this.appReviews.filter(() => true)) {
+      const rating = ratings.get(review.appId) ?? { total: 0, count: 0 };
+      rating.total += review.rating;
+      rating.count++;
+      ratings.set(review.appId, rating);
+    }
+
+    // Unrated apps sort last, ties go to the app with more reviews
+    const score = (app: OAuthApp) => {
+      const rating = ratings.get(app.id);
+      return rating ? { average: rating.total / rating.count, count: rating.count } : { average: -1, count: 0 };
+    };
+
+    const inCategory = await this.categoryFilter(categoryId);
+    return (await this.getPublishedOAuthApps())
+      .filter(inCategory)
+      .sort((a, b) => score(b).average - score(a).average || score(b).count - score(a).count)
+      .slice(0, limit);
+  }
+
+  async getRecentOAuthApps(limit: number): Promise<OAuthApp[]> {
+    const publishedAt = (app: OAuthApp) => app.publishedAt?.getTime() ?? -Infinity;
+    return (await this.getPublishedOAuthApps())
+      .sort((a, b) => publishedAt(b) - publishedAt(a) || b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async getAppListingStats(appIds: number[], currency: string): Promise<Map<number, AppListingStats>> {
+    return new Map(appIds.map(appId => {
+      const ratings = this.appReviews.filter(review => review.appId === appId).map(review => review.rating);
+      const startingPrice = getStartingPrice(
+        this.pricingPlans.filter(plan => plan.appId === appId && isPlanForSale(plan)),
+        currency
+      );
+      return [appId, {
+        averageRating: ratings.length > 0 ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : null,
+        reviewCount: ratings.length,
+        installCount: this.oauthGrants.filter(grant => grant.appId === appId).length,
+        startingPrice: startingPrice?.price ?? null,
+        startingPriceCurrency: startingPrice?.currency ?? null
+      }];
+    }));
+  }
+
+  async searchMarketplaceApps(
+    params: Omit<MarketplaceSearchParams, 'cursor'>,
+    after: SearchCursor | null
+  ): Promise<MarketplaceSearchResult<OAuthApp>> {
+    const terms = tokenize(params.q ?? '');
+
+    // Every term must match somewhere; rank sums the weights of the fields it matched
+    const rankApp = (app: OAuthApp): number | null => {
+      const features = this.pricingPlans
+        .filter(plan => plan.appId === app.id && isPlanForSale(plan))
+        .flatMap(plan => plan.features);
+      const fields = {
+        name: new Set(tokenize(app.name)),
+        description: new Set(tokenize(`${app.description} ${app.tags.join(' ')}`)),
+        features: new Set(tokenize(features.join(' ')))
+      };
+
+      let rank = 0;
+      for (const term of terms) {
+        const matched = (Object.keys(fields) as (keyof typeof fields)[]).filter(field => fields[field].has(term));
+        if (matched.length === 0) return null;
+        rank += matched.reduce((sum, field) => sum + SEARCH_WEIGHTS[field], 0);
+      }
+      return rank;
+    };
+
+    const minPrice = params.minPrice === undefined ? undefined : toMinorUnits(params.minPrice, params.currency);
+    const maxPrice = params.maxPrice === undefined ? undefined : toMinorUnits(params.maxPrice, params.currency);
+    const matchesPrice = (app: OAuthApp) => {
+      const plans = this.pricingPlans.filter(plan => plan.appId === app.id && isPlanForSale(plan));
+      // Apps without plans for sale are free
+      const prices = plans.length > 0 ? plans.map(plan => getPlanPriceIn(plan, params.currency)) : [0];
+      return prices.some(price =>
+        price !== null &&
+        (minPrice === undefined || price >= minPrice) &&
+        (maxPrice === undefined || price <= maxPrice)
+      );
+    };
+
+    const matchesRating = (app: OAuthApp) => {
+      const ratings = this.appReviews.filter(review => review.appId === app.id).map(review => review.rating);
+      return ratings.length > 0 && ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length >= params.minRating!;
+    };
+
+    const inCategory = await this.categoryFilter(params.category);
+    const matches = this.oauthApps
+      .filter(app =>
+        app.isPublished &&
+        app.isListed &&
+        (!params.verificationStatus || app.verificationStatus === params.verificationStatus) &&
+        inCategory(app) &&
+        (!params.tag || app.tags.includes(params.tag)) &&
+        (params.minPrice === undefined && params.maxPrice === undefined || matchesPrice(app)) &&
+        (params.minRating === undefined || matchesRating(app))
+      )
+      .map(app => ({ app, rank: terms.length > 0 ? rankApp(app) : 0 }))
+      .filter((match): match is { app: OAuthApp; rank: number } => match.rank !== null)
+      .sort((a, b) => b.rank - a.rank || b.app.id - a.app.id);
+
+    const useRank = terms.length > 0;
+    const remaining = after
+      ? matches.filter(({ app, rank }) => useRank
+        ? rank < after.rank! || (rank === after.rank && app.id < after.id)
+        : app.id < after.id)
+      : matches;
+
+    const page = remaining.slice(0, params.limit);
+    const last = page[page.length - 1];
+    return {
+      apps: page.map(match => match.app),
+      total: matches.length,
+      nextCursor: remaining.length > params.limit
+        ? encodeSearchCursor({ rank: useRank ? last.rank : null, id: last.app.id })
+        : null
+    };
+  }
+
+  async createOAuthApp(app: InsertOAuthApp): Promise<OAuthApp> {
+    if (app.clientId && this.oauthApps.find(existing => existing.clientId === app.clientId)) {
+      throw new Error('Client ID already exists');
+    }
+    const now = new Date();
+    return this.oauthApps.insert({
+      clientId: null,
+      clientSecretHash: null,
+      previousClientSecretHash: null,
+      previousClientSecretExpiresAt: null,
+      isPublished: false,
+      verificationStatus: 'pending',
+      logoUrl: null,
+      isListed: true,
+      isPublicClient: false,
+      requiredScopes: [],
+      optionalScopes: [],
+      publishedAt: null,
+      categoryId: null,
+      tags: [],
+      platformFeePercent: null,
+      ...defined(app),
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  async updateOAuthApp(id: number, updates: Partial<InsertOAuthApp>): Promise<OAuthApp> {
+    return this.oauthApps.update(id, { ...updates, updatedAt: new Date() }, `OAuth app ${id}`);
+  }
+
+  async isOAuthAppInUse(id: number): Promise<boolean> {
+    return !!this.appSubscriptions.find(subscription => subscription.appId === id);
+  }
+
+  async deleteOAuthApp(id: number): Promise<void> {
+    // Mirrors ON DELETE RESTRICT on app_subscriptions.app_id
+    if (await this.isOAuthAppInUse(id)) {
+      throw new Error(`OAuth app ${id} has subscriptions`);
+    }
+    // Ledger history and invoices stay, detached from the app
+    for (const transaction of this.creditTransactions.filter(t => t.appId === id)) {
+      this.creditTransactions.update(transaction.id, { subscriptionId: null, appId: null, planId: null }, 'Credit transaction');
+    }
+    for (const invoice of this.invoices.filter(i => i.appId === id)) {
+      this.invoices.update(invoice.id, { subscriptionId: null, appId: null, planId: null }, 'Invoice');
+    }
+    this.coupons.delete(coupon => coupon.appId === id);
+    this.appTrials.delete(trial => trial.appId === id);
+    this.pricingPlans.delete(plan => plan.appId === id);
+    this.appReviews.delete(review => review.appId === id);
+    this.oauthTokens.delete(token => token.appId === id);
+    this.authorizationCodes.delete(code => code.appId === id);
+    this.oauthGrants.delete(grant => grant.appId === id);
+    this.oauthApps.delete(app => app.id === id);
+  }
+
+  // Matches apps in the category or its subcategories; everything when no category is given
+  private async categoryFilter(categoryId: number | undefined): Promise<(app: OAuthApp) => boolean> {
+    if (categoryId === undefined) {
+      return () => true;
+    }
+    const ids = new Set(getCategorySubtreeIds(await this.getAppCategories(), categoryId));
+    return app => app.categoryId !== null && ids.has(app.categoryId);
+  }
+
+  // App categories
+
+  async getAppCategories(): Promise<AppCategory[]> {
+    return this.appCategories.filter(() => true)
+      .sort((a, b) => a.position - b.position || a.name.localeCompare(b.name));
+  }
+
+  async getAppCategory(id: number): Promise<AppCategory | undefined> {
+    return this.appCategories.get(id);
+  }
+
+  async getAppCategoryBySlug(slug: string): Promise<AppCategory | undefined> {
+    return this.appCategories.find(category => category.slug === slug);
+  }
+
+  async createAppCategory(category: InsertAppCategory): Promise<AppCategory> {
+    if (this.appCategories.find(existing => existing.slug === category.slug)) {
+      throw new Error('Category slug already exists');
+    }
+    return this.appCategories.insert({
+      parentId: null,
+      description: null,
+      position: 0,
+      ...defined(category)
+    });
+  }
+
+  async updateAppCategory(id: number, updates: Partial<InsertAppCategory>): Promise<AppCategory> {
+    if (updates.slug && this.appCategories.find(existing => existing.slug === updates.slug && existing.id !== id)) {
+      throw new Error('Category slug already exists');
+    }
+    return this.appCategories.update(id, updates, `App category ${id}`);
+  }
+
+  async deleteAppCategory(id: number): Promise<void> {
+    if (this.appCategories.find(category => category.parentId === id)) {
+      throw new Error(`App category ${id} has subcategories`);
+    }
+    for (const app of this.oauthApps.filter(app => app.categoryId === id)) {
+      this.oauthApps.update(app.id, { categoryId: null }, `OAuth app ${app.id}`);
+    }
+    this.appCategories.delete(category => category.id === id);
+  }
+
+  // Pricing plans
+
+  async getPricingPlan(id: number): Promise<PricingPlan | undefined> {
+    return this.pricingPlans.get(id);
+  }
+
+  async getAppPricingPlans(appId: number): Promise<PricingPlan[]> {
+    return this.pricingPlans.filter(plan => plan.appId === appId).sort((a, b) => a.position - b.position || a.id - b.id);
+  }
+
+  async createPricingPlan(plan: InsertPricingPlan): Promise<PricingPlan> {
+    const positions = this.pricingPlans.filter(other => other.appId === plan.appId).map(other => other.position);
+    return this.pricingPlans.insert({
+      currency: 'USD',
+      priceOverrides: {},
+      features: [],
+      isPublic: true,
+      position: positions.length > 0 ? Math.max(...positions) + 1 : 0,
+      archivedAt: null,
+      pricingModel: 'flat',
+      usageUnit: null,
+      usageTiers: [],
+      trialDays: 0,
+      introPrice: null,
+      introPeriods: null,
+      ...defined(plan)
+    });
+  }
+
+  async updatePricingPlan(id: number, updates: Partial<InsertPricingPlan>): Promise<PricingPlan> {
+    return this.pricingPlans.update(id, updates, `Pricing plan ${id}`);
+  }
+
+  async reorderPricingPlans(appId: number, planIds: number[]): Promise<PricingPlan[]> {
+    planIds.forEach((id, position) => this.pricingPlans.update(id, { position }, `Pricing plan ${id}`));
+    return this.getAppPricingPlans(appId);
+  }
+
+  async isPricingPlanInUse(id: number): Promise<boolean> {
+    return !!this.appSubscriptions.find(subscription => subscription.planId === id || subscription.migrationPlanId === id);
+  }
+
+  async deletePricingPlan(id: number): Promise<void> {
+    // Mirrors ON DELETE RESTRICT on app_subscriptions.plan_id and migration_plan_id
+    if (await this.isPricingPlanInUse(id)) {
+      throw new Error(`Pricing plan ${id} has subscriptions`);
+    }
+    this.pricingPlans.delete(plan => plan.id === id);
+  }
+
+  // Subscriptions
+
+  async getAppSubscription(id: number): Promise<AppSubscription | undefined> {
+    return this.appSubscriptions.get(id);
+  }
+
+  async getUserSubscriptions(userId: number): Promise<AppSubscription[]> {
+    return this.appSubscriptions.filter(subscription => subscription.userId === userId).sort(byNewest('startDate'));
+  }
+
+  async getUserAppSubscription(userId: number, appId: number): Promise<AppSubscription | undefined> {
+    return this.appSubscriptions.find(subscription =>
+      subscription.userId === userId && subscription.appId === appId && isLiveSubscription(subscription.status));
+  }
+
+  async getAppSubscriptionByCheckoutId(paymentProvider: string, checkoutId: string): Promise<AppSubscription | undefined> {
+    return this.appSubscriptions.find(subscription =>
+      subscription.paymentProvider === paymentProvider && subscription.providerCheckoutId === checkoutId);
+  }
+
+  async getAppSubscriptionByProviderSubscriptionId(
+    paymentProvider: string,
+    providerSubscriptionId: string
+  ): Promise<AppSubscription | undefined> {
+    return this.appSubscriptions.find(subscription =>
+      subscription.paymentProvider === paymentProvider &&
+      subscription.providerSubscriptionId === providerSubscriptionId);
+  }
+
+  async createAppSubscription(subscription: InsertAppSubscription): Promise<AppSubscription> {
+    const { userId, appId, status } = subscription;
+    if (isLiveSubscription(status) && await this.getUserAppSubscription(userId, appId)) {
+      throw new Error('User already has a subscription to this app');
+    }
+    return this.appSubscriptions.insert({
+      startDate: new Date(),
+      endDate: null,
+      currentPeriodStart: null,
+      currentPeriodEnd: null,
+      cancelAtPeriodEnd: false,
+      paymentProvider: null,
+      currency: 'USD',
+      billingCountry: null,
+      billingRegion: null,
+      providerCheckoutId: null,
+      providerSubscriptionId: null,
+      trialEnd: null,
+      introPrice: null,
+      introEndsAt: null,
+      seats: 1,
+      usageBilledUntil: null,
+      couponId: null,
+      discountType: null,
+      discountValue: null,
+      discountEndsAt: null,
+      migrationPlanId: null,
+      migratesAt: null,
+      ...defined(subscription)
+    });
+  }
+
+  async updateAppSubscription(id: number, updates: Partial<InsertAppSubscription>): Promise<AppSubscription> {
+    return this.appSubscriptions.update(id, updates, `Subscription ${id}`);
+  }
+
+  async getLivePlanSubscriptions(planId: number): Promise<AppSubscription[]> {
+    return this.appSubscriptions.filter(subscription =>
+      subscription.planId === planId && isLiveSubscription(subscription.status));
+  }
+
+  async getLiveSubscriptionCurrencies(planId: number): Promise<string[]> {
+    const currencies = this.appSubscriptions
+      .filter(subscription => subscription.planId === planId && isLiveSubscription(subscription.status))
+      .map(subscription => subscription.currency);
+    return Array.from(new Set(currencies));
+  }
+
+  async getSubscriptionsDueForSettlement(now: Date): Promise<AppSubscription[]> {
+    return this.appSubscriptions
+      .filter(subscription => {
+        const periodDue = subscription.currentPeriodEnd !== null && subscription.currentPeriodEnd <= now &&
+          (subscription.providerSubscriptionId === null || subscription.cancelAtPeriodEnd);
+        const migrationDue = subscription.migratesAt !== null && subscription.migratesAt <= now;
+        return MANAGEABLE_SUBSCRIPTION_STATUSES.includes(subscription.status) && (periodDue || migrationDue);
+      })
+      .sort((a, b) => (a.currentPeriodEnd?.getTime() ?? Infinity) - (b.currentPeriodEnd?.getTime() ?? Infinity));
+  }
+
+  // Trials
+
+  async hasUsedTrial(userId: number, appId: number): Promise<boolean> {
+    return !!this.appTrials.find(trial => trial.userId === userId && trial.appId === appId);
+  }
+
+  async recordAppTrial(userId: number, appId: number): Promise<boolean> {
+    if (await this.hasUsedTrial(userId, appId)) {
+      return false;
+    }
+    this.appTrials.insert({ userId, appId, startedAt: new Date() });
+    return true;
+  }
+
+  // Coupons
+
+  async getCoupon(id: number): Promise<Coupon | undefined> {
+    return this.coupons.get(id);
+  }
+
+  async getCouponByCode(appId: number, code: string): Promise<Coupon | undefined> {
+    return this.coupons.find(coupon => coupon.appId === appId && coupon.code === code);
+  }
+
+  async getAppCoupons(appId: number): Promise<Coupon[]> {
+    return this.coupons
+      .filter(coupon => coupon.appId === appId)
+      .sort((a, b) => byNewest<Coupon>('createdAt')(a, b) || b.id - a.id);
+  }
+
+  async createCoupon(coupon: InsertCoupon): Promise<Coupon | undefined> {
+    if (await this.getCouponByCode(coupon.appId, coupon.code)) {
+      return undefined;
+    }
+    return this.coupons.insert({
+      currency: null,
+      durationPeriods: null,
+      maxRedemptions: null,
+      expiresAt: null,
+      planIds: [],
+      isActive: true,
+      ...defined(coupon),
+      redemptionCount: 0,
+      createdAt: new Date()
+    });
+  }
+
+  async updateCoupon(
+    id: number,
+    updates: Partial<Pick<Coupon, 'isActive' | 'maxRedemptions' | 'expiresAt'>>
+  ): Promise<Coupon> {
+    return this.coupons.update(id, updates, `Coupon ${id}`);
+  }
+
+  async getUserCouponRedemption(couponId: number, userId: number): Promise<CouponRedemption | undefined> {
+    return this.couponRedemptions.find(redemption => redemption.couponId === couponId && redemption.userId === userId);
+  }
+
+  async redeemCoupon(redemption: InsertCouponRedemption): Promise<CouponRedemption | undefined> {
+    const coupon = this.coupons.get(redemption.couponId);
+    if (
+      !coupon ||
+      (coupon.maxRedemptions !== null && coupon.redemptionCount >= coupon.maxRedemptions) ||
+      await this.getUserCouponRedemption(redemption.couponId, redemption.userId) ||
+      this.couponRedemptions.find(existing => existing.subscriptionId === redemption.subscriptionId)
+    ) {
+      return undefined;
+    }
+    this.coupons.update(coupon.id, { redemptionCount: coupon.redemptionCount + 1 }, `Coupon ${coupon.id}`);
+    return this.couponRedemptions.insert({ ...redemption, redeemedAt: new Date() });
+  }
+
+  async releaseCouponRedemption(subscriptionId: number): Promise<void> {
+    const redemption = this.couponRedemptions.find(existing => existing.subscriptionId === subscriptionId);
+    const coupon = redemption && this.coupons.get(redemption.couponId);
+    if (!redemption || !coupon) return;
+    this.couponRedemptions.delete(existing => existing.id === redemption.id);
+    this.coupons.update(coupon.id, { redemptionCount: coupon.redemptionCount - 1 }, `Coupon ${coupon.id}`);
+  }
+
+  async getCouponRedemptions(couponId: number): Promise<CouponRedemption[]> {
+    return this.couponRedemptions
+      .filter(redemption => redemption.couponId === couponId)
+      .sort((a, b) => byNewest<CouponRedemption>('redeemedAt')(a, b) || b.id - a.id);
+  }
+
+  // Usage records
+
+  async createUsageRecord(record: InsertUsageRecord): Promise<UsageRecord | undefined> {
+    if (record.idempotencyKey && await this.getUsageRecordByIdempotencyKey(record.appId, record.idempotencyKey)) {
+      return undefined;
+    }
+    return this.usageRecords.insert({ idempotencyKey: null, ...defined(record), createdAt: new Date() });
+  }
+
+  async getUsageRecordByIdempotencyKey(appId: number, idempotencyKey: string): Promise<UsageRecord | undefined> {
+    return this.usageRecords.find(record => record.appId === appId && record.idempotencyKey === idempotencyKey);
+  }
+
+  async getUsageTotal(subscriptionId: number, from: Date, to: Date): Promise<number> {
+    return this.usageRecords
+      .filter(record => record.subscriptionId === subscriptionId && record.occurredAt >= from && record.occurredAt < to)
+      .reduce((total, record) => total + record.quantity, 0);
+  }
+
+  // Invoices
+
+  async getInvoice(id: number): Promise<Invoice | undefined> {
+    return this.invoices.get(id);
+  }
+
+  async getInvoiceByReference(reference: string): Promise<Invoice | undefined> {
+    return this.invoices.find(invoice => invoice.reference === reference);
+  }
+
+  async getUserInvoices(userId: number, status?: InvoiceStatus): Promise<Invoice[]> {
+    return this.invoices
+      .filter(invoice => invoice.userId === userId && (status ? invoice.status === status : invoice.status !== 'draft'))
+      .sort((a, b) => byNewest<Invoice>('createdAt')(a, b) || b.id - a.id);
+  }
+
+  async getAppInvoices(appIds: number[], status?: InvoiceStatus): Promise<Invoice[]> {
+    const ids = new Set(appIds);
+    return this.invoices
+      .filter(invoice => invoice.appId !== null && ids.has(invoice.appId) &&
+        (status ? invoice.status === status : invoice.status !== 'draft'))
+      .sort((a, b) => byNewest<Invoice>('createdAt')(a, b) || b.id - a.id);
+  }
+
+  async getUnpaidInvoices(subscriptionId: number): Promise<Invoice[]> {
+    return this.invoices
+      .filter(invoice => invoice.subscriptionId === subscriptionId &&
+        (invoice.status === 'draft' || invoice.status === 'open'))
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createInvoice(invoice: InsertInvoice): Promise<Invoice | undefined> {
+    if (invoice.reference && await this.getInvoiceByReference(invoice.reference)) {
+      return undefined;
+    }
+    return this.invoices.insert({
+      status: 'draft',
+      paymentMethod: null,
+      reference: null,
+      ...defined(invoice),
+      number: null,
+      createdAt: new Date(),
+      finalizedAt: null,
+      paidAt: null,
+      voidedAt: null
+    });
+  }
+
+  async updateInvoice(id: number, updates: Partial<InsertInvoice>): Promise<Invoice> {
+    return this.invoices.update(id, updates, `Invoice ${id}`);
+  }
+
+  async transitionInvoice(
+    id: number,
+    status: InvoiceStatus,
+    updates: Partial<InsertInvoice> = {}
+  ): Promise<Invoice | undefined> {
+    const invoice = this.invoices.get(id);
+    if (!invoice || !canTransitionInvoice(invoice.status, status)) {
+      return undefined;
+    }
+    const now = new Date();
+    return this.invoices.update(id, {
+      ...updates,
+      status,
+      ...(status === 'open' ? { number: formatInvoiceNumber(++this.invoiceSequence), finalizedAt: now } : {}),
+      ...(status === 'paid' ? { paidAt: now } : {}),
+      ...(status === 'void' ? { voidedAt: now } : {})
+    }, `Invoice ${id}`);
+  }
+
+  // Credits ledger
+
+  async getCreditAccount(userId: number | null, type: CreditAccountType): Promise<CreditAccount | undefined> {
+    return this.creditAccounts.find(account => account.userId === userId && account.type === type);
+  }
+
+  async recordCreditTransaction(
+    transaction: InsertCreditTransaction,
+    postings: CreditPosting[]
+  ): Promise<CreditTransaction | undefined> {
+    if (postings.reduce((sum, posting) => sum + posting.amount, 0) !== 0) {
+      throw new Error('Credit postings must sum to zero');
+    }
+    const existing = transaction.reference
+      ? this.creditTransactions.find(t => t.reference === transaction.reference)
+      : undefined;
+    if (existing) {
+      return existing;
+    }
+
+    // Check every posting before applying any, so a rejected transaction changes nothing
+    const balances = new Map<number, number>();
+    const accounts = postings.map(posting => {
+      const account = this.creditAccounts.find(a => a.userId === posting.userId && a.type === posting.account)
+        ?? this.creditAccounts.insert({ userId: posting.userId, type: posting.account, balance: 0, createdAt: new Date() });
+      const balance = (balances.get(account.id) ?? account.balance) + posting.amount;
+      balances.set(account.id, balance);
+      const protect = transaction.type !== 'refund' && OVERDRAFT_PROTECTED_ACCOUNTS.includes(posting.account);
+      return { account, overdrawn: protect && balance < 0 };
+    });
+    if (accounts.some(({ overdrawn }) => overdrawn)) {
+      return undefined;
+    }
+
+    const created = this.creditTransactions.insert({
+      subscriptionId: null,
+      appId: null,
+      planId: null,
+      reference: null,
+      ...defined(transaction),
+      createdAt: new Date()
+    });
+    postings.forEach((posting, i) => {
+      const current = this.creditAccounts.get(accounts[i].account.id)!;
+      const account = this.creditAccounts.update(current.id, { balance: current.balance + posting.amount }, 'Credit account');
+      this.creditEntries.insert({
+        transactionId: created.id,
+        accountId: account.id,
+        amount: posting.amount,
+        balanceAfter: account.balance
+      });
+      if (posting.account === 'wallet') {
+        this.users.update(posting.userId!, { credits: account.balance }, 'User');
+      }
+    });
+    return created;
+  }
+
+  async getWalletTransactions(userId: number, limit: number, before?: number): Promise<WalletTransaction[]> {
+    const wallet = await this.getCreditAccount(userId, 'wallet');
+    if (!wallet) {
+      return [];
+    }
+    return this.creditEntries
+      .filter(entry => entry.accountId === wallet.id && (before === undefined || entry.transactionId < before))
+      .sort((a, b) => b.transactionId - a.transactionId)
+      .slice(0, limit)
+      .map(entry => ({
+        ...this.creditTransactions.get(entry.transactionId)!,
+        amount: entry.amount,
+        balanceAfter: entry.balanceAfter
+      }));
+  }
+
+  async getEarningsReport(userId: number): Promise<EarningsReportRow[]> {
+    const [earnings, revenue] = await Promise.all([
+      this.getCreditAccount(userId, 'earnings'),
+      this.getCreditAccount(null, 'revenue')
+    ]);
+    if (!earnings) {
+      return [];
+    }
+
+    const rows = new Map<string, EarningsReportRow>();
+    for (const entry of this.creditEntries.filter(e => e.accountId === earnings.id)) {
+      const transaction = this.creditTransactions.get(entry.transactionId)!;
+      if (transaction.type !== 'plan_payment' && transaction.type !== 'refund') {
+        continue;
+      }
+      const fee = this.creditEntries.find(e => e.transactionId === transaction.id && e.accountId === revenue?.id);
+      const month = transaction.createdAt.toISOString().slice(0, 7);
+      const key = `${transaction.appId}:${transaction.planId}:${month}`;
+      const row = rows.get(key) ?? {
+        appId: transaction.appId,
+        planId: transaction.planId,
+        month,
+        grossAmount: 0,
+        platformFee: 0,
+        netAmount: 0,
+        paymentCount: 0
+      };
+      row.netAmount += entry.amount;
+      row.platformFee += fee?.amount ?? 0;
+      row.grossAmount = row.netAmount + row.platformFee;
+      row.paymentCount += transaction.type === 'plan_payment' ? 1 : 0;
+      rows.set(key, row);
+    }
+    return Array.from(rows.values()).sort((a, b) =>
+      b.month.localeCompare(a.month) || (a.appId ?? 0) - (b.appId ?? 0) || (a.planId ?? 0) - (b.planId ?? 0));
+  }
+
+  // Payout requests
+
+  async getPayoutRequest(id: number): Promise<PayoutRequest | undefined> {
+    return this.payoutRequests.get(id);
+  }
+
+  async getUserPayoutRequests(userId: number): Promise<PayoutRequest[]> {
+    return this.payoutRequests.filter(request => request.userId === userId)
+      .sort((a, b) => byNewest<PayoutRequest>('requestedAt')(a, b) || b.id - a.id);
+  }
+
+  async getPayoutRequests(status?: PayoutStatus): Promise<PayoutRequest[]> {
+    return this.payoutRequests.filter(request => !status || request.status === status)
+      .sort((a, b) => byNewest<PayoutRequest>('requestedAt')(a, b) || b.id - a.id);
+  }
+
+  async createPayoutRequest(
+    request: Omit<InsertPayoutRequest, 'transactionId'>,
+    payout: CreditTransactionDraft
+  ): Promise<PayoutRequest | undefined> {
+    const transaction = await this.recordCreditTransaction(payout.transaction, payout.postings);
+    if (!transaction) {
+      return undefined;
+    }
+    return this.payoutRequests.insert({
+      ...request,
+      transactionId: transaction.id,
+      status: 'pending',
+      note: null,
+      requestedAt: new Date(),
+      processedAt: null
+    });
+  }
+
+  async processPayoutRequest(
+    id: number,
+    status: Exclude<PayoutStatus, 'pending'>,
+    note: string | null,
+    reversal?: CreditTransactionDraft
+  ): Promise<PayoutRequest | undefined> {
+    if (this.payoutRequests.get(id)?.status !== 'pending') {
+      return undefined;
+    }
+    if (reversal && !await this.recordCreditTransaction(reversal.transaction, reversal.postings)) {
+      return undefined;
+    }
+    return this.payoutRequests.update(id, { status, note, processedAt: new Date() }, `Payout request ${id}`);
+  }
+
+  // Reviews
+
+  async getAppReview(id: number): Promise<AppReview | undefined> {
+    return this.appReviews.get(id);
+  }
+
+  async getAppReviews(appId: number): Promise<AppReview[]> {
+    return this.appReviews.filter(review => review.appId === appId).sort(byNewest('createdAt'));
+  }
+
+  async getUserAppReview(userId: number, appId: number): Promise<AppReview | undefined> {
+    return this.appReviews.find(review => review.userId === userId && review.appId === appId);
+  }
+
+  async createAppReview(review: InsertAppReview): Promise<AppReview> {
+    // Mirrors the one-review-per-user-per-app unique index
+    if (await this.getUserAppReview(review.userId, review.appId)) {
+      throw new Error('User has already reviewed this app');
+    }
+    return this.appReviews.insert({ reviewText: null, ...defined(review), createdAt: new Date() });
+  }
+
+  async updateAppReview(id: number, updates: Partial<Pick<AppReview, 'rating' | 'reviewText'>>): Promise<AppReview> {
+    return this.appReviews.update(id, updates, `Review ${id}`);
+  }
+
+  async deleteAppReview(id: number): Promise<void> {
+    this.appReviews.delete(review => review.id === id);
+  }
+
+  // Authorization codes
+
+  async createAuthorizationCode(code: InsertOAuthAuthorizationCode): Promise<OAuthAuthorizationCode> {
+    return this.authorizationCodes.insert({ ...code, usedAt: null, createdAt: new Date() });
+  }
+
+  async getAuthorizationCodeByHash(codeHash: string): Promise<OAuthAuthorizationCode | undefined> {
+    return this.authorizationCodes.find(code => code.codeHash === codeHash);
+  }
+
+  async consumeAuthorizationCode(codeHash: string): Promise<OAuthAuthorizationCode | undefined> {
+    const code = this.authorizationCodes.find(code => code.codeHash === codeHash && code.usedAt === null);
+    if (!code) {
+      return undefined;
+    }
+    return this.authorizationCodes.update(code.id, { usedAt: new Date() }, 'Authorization code');
+  }
+
+  // Tokens
+
+  async createOAuthToken(token: InsertOAuthToken): Promise<OAuthToken> {
+    return this.oauthTokens.insert({ ...token, revokedAt: null, createdAt: new Date() });
+  }
+
+  async getOAuthTokenByAccessTokenHash(accessTokenHash: string): Promise<OAuthToken | undefined> {
+    return this.oauthTokens.find(token => token.accessTokenHash === accessTokenHash);
+  }
+
+  async getOAuthTokenByRefreshTokenHash(refreshTokenHash: string): Promise<OAuthToken | undefined> {
+    return this.oauthTokens.find(token => token.refreshTokenHash === refreshTokenHash);
+  }
+
+  async revokeOAuthToken(id: number): Promise<OAuthToken | undefined> {
+    const token = this.oauthTokens.find(token => token.id === id && token.revokedAt === null);
+    if (!token) {
+      return undefined;
+    }
+    return this.oauthTokens.update(token.id, { revokedAt: new Date() }, 'Token');
+  }
+
+  async revokeOAuthTokensByAuthorizationCode(authorizationCodeId: number): Promise<void> {
+    this.revokeTokens(token => token.authorizationCodeId === authorizationCodeId);
+  }
+
+  async countActiveOAuthTokens(userId: number, appId: number): Promise<number> {
+    const now = Date.now();
+    return this.oauthTokens.filter(token =>
+      token.userId === userId &&
+      token.appId === appId &&
+      token.revokedAt === null &&
+      (token.accessTokenExpiresAt.getTime() > now ||
+        (token.refreshTokenExpiresAt !== null && token.refreshTokenExpiresAt.getTime() > now))
+    ).length;
+  }
+
+  private revokeTokens(predicate: (token: OAuthToken) => boolean) {
+    const now = new Date();
+    for (const token of this.oauthTokens.filter(token => token.revokedAt === null && predicate(token))) {
+      this.oauthTokens.update(token.id, { revokedAt: now }, 'Token');
+    }
+  }
+
+  // Grants
+
+  async upsertOAuthGrant(grant: InsertOAuthGrant): Promise<OAuthGrant> {
+    const now = new Date();
+    const existing = this.oauthGrants.find(g => g.userId === grant.userId && g.appId === grant.appId);
+    if (!existing) {
+      return this.oauthGrants.insert({ ...grant, firstAuthorizedAt: now, lastAuthorizedAt: now });
+    }
+    const scopes = Array.from(new Set([...existing.scopes, ...grant.scopes])).sort();
+    return this.oauthGrants.update(existing.id, { scopes, lastAuthorizedAt: now }, 'Grant');
+  }
+
+  async getUserOAuthGrants(userId: number): Promise<OAuthGrant[]> {
+    return this.oauthGrants.filter(grant => grant.userId === userId).sort(byNewest('lastAuthorizedAt'));
+  }
+
+  async revokeOAuthGrant(userId: number, appId: number): Promise<boolean> {
+    const deleted = this.oauthGrants.delete(grant => grant.userId === userId && grant.appId === appId);
+    if (deleted === 0) {
+      return false;
+    }
+
+    this.revokeTokens(token => token.userId === userId && token.appId === appId);
+    const now = new Date();
+    const unusedCodes = this.authorizationCodes.filter(code =>
+      code.userId === userId && code.appId === appId && code.usedAt === null
+    );
+    for (const code of unusedCodes) {
+      this.authorizationCodes.update(code.id, { usedAt: now }, 'Authorization code');
+    }
+    return true;
+  }
+
+  // Signing keys
+
+  async getSigningKeys(): Promise<SigningKey[]> {
+    return this.signingKeys.filter(() => true).sort(byNewest('createdAt'));
+  }
+
+  async getActiveSigningKey(): Promise<SigningKey | undefined> {
+    return this.signingKeys.find(key => key.status === 'active');
+  }
+
+  async rotateSigningKey(key: InsertSigningKey, publishRetiredUntil: Date): Promise<SigningKey> {
+    const now = new Date();
+    for (const active of this.signingKeys.filter(k => k.status === 'active')) {
+      this.signingKeys.update(active.id, { status: 'retired', retiredAt: now, publishUntil: publishRetiredUntil }, 'Signing key');
+    }
+    return this.signingKeys.insert({ ...key, status: 'active', createdAt: now, retiredAt: null, publishUntil: null });
+  }
+
+  async deleteExpiredSigningKeys(now: Date): Promise<void> {
+    this.signingKeys.delete(key =>
+      key.status === 'retired' && key.publishUntil !== null && key.publishUntil.getTime() <= now.getTime()
+    );
+  }
+}
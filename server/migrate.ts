@@ -0,0 +1,59 @@
+/**
+ * Versioned SQL migrations
+ * Applies migrations/NNNN_name.sql files in order and records them in schema_migrations
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { Pool } from 'pg';
+
+const MIGRATIONS_DIR = process.env.MIGRATIONS_DIR || path.resolve(process.cwd(), 'migrations');
+
+// Arbitrary key for the advisory lock that serializes concurrent runs
+const MIGRATION_LOCK_ID = 72410;
+
+// Apply pending migrations, each in its own transaction. Returns the applied versions.
+export const runMigrations = async (pool: Pool): Promise<string[]> => {
+  const client = await pool.connect();
+  const applied: string[] = [];
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version text PRIMARY KEY,
+        applied_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+
+    const { rows } = await client.query<{ version: string }>('SELECT version FROM schema_migrations');
+    const done = new Set(rows.map(row => row.version));
+
+    const files = (await readdir(MIGRATIONS_DIR))
+      .filter(file => /^\d{4}_[\w-]+\.sql$/.test(file))
+      .sort();
+
+    for (const file of files) {
+      const version = file.replace(/\.sql$/, '');
+      if (done.has(version)) continue;
+
+      const sql = await readFile(path.join(MIGRATIONS_DIR, file), 'utf8');
+      try {
+        await client.query('BEGIN');
+        await client.query(sql);
+        await client.query('INSERT INTO schema_migrations (version) VALUES ($1)', [version]);
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw new Error(`Migration ${version} failed: ${(error as Error).message}`);
+      }
+      applied.push(version);
+    }
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]).catch(() => {});
+    client.release();
+  }
+
+  return applied;
+};
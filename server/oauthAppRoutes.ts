@@ -5,9 +5,81 @@
 
 import { Router, Request, Response } from 'express';
 import { storage } from './storage';
+import { validateAppScopes } from './oauthScopes';
+import { validateRedirectUris } from './redirectUris';
+import { generateToken, hashClientSecret } from './oauthTokens';
+import { parseBody, sendValidationError } from './validation';
+import { decodeSearchCursor } from './searchCursor';
+import { cancelPlanMigration, schedulePlanMigration } from './subscriptionLifecycle';
+import {
+  AppReview,
+  Coupon,
+  CouponRedemptionDetails,
+  MarketplaceListing,
+  OAuthApp,
+  PricingPlan,
+  SafeOAuthApp
+} from '../shared/schema';
+import {
+  insertOAuthAppSchema,
+  updateOAuthAppSchema,
+  getPlanErrors,
+  insertPricingPlanSchema,
+  updatePricingPlanSchema,
+  reorderPricingPlansSchema,
+  planMigrationSchema,
+  getCouponErrors,
+  insertCouponSchema,
+  updateCouponSchema,
+  insertAppReviewSchema,
+  updateAppReviewSchema,
+  marketplaceSearchSchema,
+  marketplaceCurrencySchema,
+  MAX_SEARCH_PAGE_SIZE,
+  UpdatePricingPlanInput,
+  validate
+} from '../shared/validation';
+import { getPlanCurrencies } from '../shared/currency';
+import { isFreePlan, isPlanForSale } from '../shared/planPricing';
 
 const router = Router();
 
+// Grace window during which a rotated-out client secret keeps working
+const DEFAULT_SECRET_GRACE_HOURS = 24;
+const MAX_SECRET_GRACE_HOURS = 7 * 24;
+
+// What subscribers are billed by. Renewals read them from the plan, so they
+// can't change once anyone has subscribed.
+const BILLED_PLAN_FIELDS = ['price', 'priceOverrides', 'billingInterval', 'usageTiers', 'introPrice', 'introPeriods'] as const;
+
+// Overrides are compared by currency, whatever order they come in
+const toComparable = (value: unknown) =>
+  value && typeof value === 'object' && !Array.isArray(value)
+    ? JSON.stringify(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+    : JSON.stringify(value ?? null);
+
+const changesBilling = (plan: PricingPlan, updates: UpdatePricingPlanInput): boolean =>
+  BILLED_PLAN_FIELDS.some(field => updates[field] !== undefined && toComparable(updates[field]) !== toComparable(plan[field]));
+
+// Strip secret hashes before sending an app to the client
+const toSafeOAuthApp = ({ clientSecretHash, previousClientSecretHash, ...app }: OAuthApp): SafeOAuthApp => ({
+  ...app,
+  hasClientSecret: clientSecretHash !== null
+});
+
+// Attach rating, install and price aggregates to apps shown in the marketplace,
+// with prices in the currency where their plans are sold in it
+const toMarketplaceListings = async (apps: OAuthApp[], currency: string): Promise<MarketplaceListing[]> => {
+  const stats = await storage.getAppListingStats(apps.map(app => app.id), currency);
+  return apps.map(app => ({ ...toSafeOAuthApp(app), ...stats.get(app.id)! }));
+};
+
+// Parse an optional `limit` query parameter for the marketplace feeds
+const parseFeedLimit = (value: unknown, fallback = 10) => {
+  const limit = parseInt(value as string);
+  return Number.isNaN(limit) ? fallback : Math.min(Math.max(limit, 1), MAX_SEARCH_PAGE_SIZE);
+};
+
 // Middleware to check authentication
 const requireAuth = (req: Request, res: Response, next: Function) => {
   if (!req.isAuthenticated() || !req.user) {
@@ -16,12 +88,111 @@ const requireAuth = (req: Request, res: Response, next: Function) => {
   next();
 };
 
+// Load an app owned by the authenticated user, or send the appropriate error
+const getOwnedApp = async (req: Request, res: Response): Promise<OAuthApp | null> => {
+  const appId = parseInt(req.params.id);
+  if (isNaN(appId)) {
+    res.status(400).json({ message: 'Invalid app ID' });
+    return null;
+  }
+  
+  const app = await storage.getOAuthApp(appId);
+  if (!app) {
+    res.status(404).json({ message: 'OAuth app not found' });
+    return null;
+  }
+  if (app.userId !== req.user.id) {
+    res.status(403).json({ message: 'You do not own this OAuth app' });
+    return null;
+  }
+  return app;
+};
+
+// Load an app the requester may see: published apps, or any app they own
+const getVisibleApp = async (req: Request, res: Response): Promise<OAuthApp | null> => {
+  const appId = parseInt(req.params.id);
+  if (isNaN(appId)) {
+    res.status(400).json({ message: 'Invalid app ID' });
+    return null;
+  }
+  
+  const app = await storage.getOAuthApp(appId);
+  const isOwner = req.isAuthenticated() && req.user?.id === app?.userId;
+  if (!app || (!app.isPublished && !isOwner)) {
+    res.status(404).json({ message: 'OAuth app not found' });
+    return null;
+  }
+  return app;
+};
+
+// Load a pricing plan whose app is owned by the authenticated user
+const getOwnedPlan = async (req: Request, res: Response): Promise<PricingPlan | null> => {
+  const planId = parseInt(req.params.planId);
+  if (isNaN(planId)) {
+    res.status(400).json({ message: 'Invalid plan ID' });
+    return null;
+  }
+  
+  const plan = await storage.getPricingPlan(planId);
+  const app = plan && await storage.getOAuthApp(plan.appId);
+  if (!plan || !app) {
+    res.status(404).json({ message: 'Pricing plan not found' });
+    return null;
+  }
+  if (app.userId !== req.user.id) {
+    res.status(403).json({ message: 'You do not own this OAuth app' });
+    return null;
+  }
+  return plan;
+};
+
+// Load a coupon whose app is owned by the authenticated user
+const getOwnedCoupon = async (req: Request, res: Response): Promise<Coupon | null> => {
+  const couponId = parseInt(req.params.couponId);
+  if (isNaN(couponId)) {
+    res.status(400).json({ message: 'Invalid coupon ID' });
+    return null;
+  }
+  
+  const coupon = await storage.getCoupon(couponId);
+  const app = coupon && await storage.getOAuthApp(coupon.appId);
+  if (!coupon || !app) {
+    res.status(404).json({ message: 'Coupon not found' });
+    return null;
+  }
+  if (app.userId !== req.user.id) {
+    res.status(403).json({ message: 'You do not own this OAuth app' });
+    return null;
+  }
+  return coupon;
+};
+
+// Load a review written by the authenticated user
+const getOwnReview = async (req: Request, res: Response): Promise<AppReview | null> => {
+  const reviewId = parseInt(req.params.reviewId);
+  if (isNaN(reviewId)) {
+    res.status(400).json({ message: 'Invalid review ID' });
+    return null;
+  }
+  
+  const review = await storage.getAppReview(reviewId);
+  if (!review) {
+    res.status(404).json({ message: 'Review not found' });
+    return null;
+  }
+  if (review.userId !== req.user.id) {
+    res.status(403).json({ message: 'You can only change your own reviews' });
+    return null;
+  }
+  return review;
+};
+
 // Get all OAuth Apps for the authenticated user
 router.get('/', requireAuth, async (req: Request, res: Response) => {
   try {
     const userId = req.user.id;
     const apps = await storage.getUserOAuthApps(userId);
-    res.status(200).json(apps);
+    res.status(200).json(apps.map(toSafeOAuthApp));
   } catch (error) {
     console.error('Error fetching OAuth apps:', error);
     res.status(500).json({ message: 'Failed to fetch OAuth apps' });
@@ -32,22 +203,56 @@ router.get('/', requireAuth, async (req: Request, res: Response) => {
 router.post('/', requireAuth, async (req: Request, res: Response) => {
   try {
     const userId = req.user.id;
-    const { name, description, homepageUrl, callbackUrl, logoUrl } = req.body;
+    const body = parseBody(insertOAuthAppSchema, req, res);
+    if (!body) return;
     
-    if (!name || !description || !homepageUrl || !callbackUrl) {
-      return res.status(400).json({ message: 'Required fields missing' });
+    const {
+      name,
+      description,
+      homepageUrl,
+      redirectUris,
+      logoUrl,
+      isPublicClient,
+      requiredScopes,
+      optionalScopes,
+      categoryId,
+      tags
+    } = body;
+    
+    const redirectUriError = validateRedirectUris(redirectUris);
+    if (redirectUriError) {
+      return sendValidationError(res, { redirectUris: redirectUriError });
     }
     
+    const scopeError = validateAppScopes(requiredScopes, optionalScopes);
+    if (scopeError) {
+      return sendValidationError(res, { requiredScopes: scopeError });
+    }
+    
+    if (categoryId && !(await storage.getAppCategory(categoryId))) {
+      return sendValidationError(res, { categoryId: 'Category does not exist' });
+    }
+    
+    // Confidential clients get a secret that is returned in this response only
+    const clientSecret = isPublicClient ? null : generateToken();
+    
     const app = await storage.createOAuthApp({
       userId,
+      clientId: generateToken(16),
+      clientSecretHash: clientSecret ? await hashClientSecret(clientSecret) : null,
       name,
       description,
       homepageUrl,
-      callbackUrl,
-      logoUrl
+      redirectUris,
+      logoUrl: logoUrl || null,
+      isPublicClient,
+      requiredScopes,
+      optionalScopes,
+      categoryId: categoryId ?? null,
+      tags
     });
     
-    res.status(201).json(app);
+    res.status(201).json({ ...toSafeOAuthApp(app), clientSecret });
   } catch (error) {
     console.error('Error creating OAuth app:', error);
     res.status(500).json({ message: 'Failed to create OAuth app' });
@@ -57,24 +262,631 @@ router.post('/', requireAuth, async (req: Request, res: Response) => {
 // Get marketplace listings
 router.get('/marketplace/list', async (req: Request, res: Response) => {
   try {
+    const result = validate(marketplaceCurrencySchema, req.query);
+    if (!result.success) {
+      return sendValidationError(res, result.errors);
+    }
+    
     const apps = await storage.getPublishedOAuthApps();
-    res.status(200).json(apps);
+    res.status(200).json(await toMarketplaceListings(apps, result.data.currency));
   } catch (error) {
     console.error('Error fetching marketplace:', error);
     res.status(500).json({ message: 'Failed to fetch marketplace' });
   }
 });
 
-// Get top rated OAuth Apps
+// Get the category tree as a flat list; clients nest it by parentId
+router.get('/marketplace/categories', async (req: Request, res: Response) => {
+  try {
+    const categories = await storage.getAppCategories();
+    res.status(200).json(categories);
+  } catch (error) {
+    console.error('Error fetching categories:', error);
+    res.status(500).json({ message: 'Failed to fetch categories' });
+  }
+});
+
+// Get top rated OAuth Apps, optionally within a category and its subcategories
 router.get('/marketplace/top-rated', async (req: Request, res: Response) => {
   try {
-    const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
-    const apps = await storage.getTopRatedOAuthApps(limit);
-    res.status(200).json(apps);
+    const categoryId = req.query.category ? parseInt(req.query.category as string) : undefined;
+    if (categoryId !== undefined && !(categoryId > 0)) {
+      return sendValidationError(res, { category: 'Category is invalid' });
+    }
+    const result = validate(marketplaceCurrencySchema, req.query);
+    if (!result.success) {
+      return sendValidationError(res, result.errors);
+    }
+    
+    const apps = await storage.getTopRatedOAuthApps(parseFeedLimit(req.query.limit), categoryId);
+    res.status(200).json(await toMarketplaceListings(apps, result.data.currency));
   } catch (error) {
     console.error('Error fetching top-rated apps:', error);
     res.status(500).json({ message: 'Failed to fetch top-rated apps' });
   }
 });
 
+// Get the most recently published OAuth Apps
+router.get('/marketplace/recent', async (req: Request, res: Response) => {
+  try {
+    const result = validate(marketplaceCurrencySchema, req.query);
+    if (!result.success) {
+      return sendValidationError(res, result.errors);
+    }
+    
+    const apps = await storage.getRecentOAuthApps(parseFeedLimit(req.query.limit));
+    res.status(200).json(await toMarketplaceListings(apps, result.data.currency));
+  } catch (error) {
+    console.error('Error fetching recent apps:', error);
+    res.status(500).json({ message: 'Failed to fetch recent apps' });
+  }
+});
+
+// Search the marketplace. Results are relevance-ranked when `q` is given and
+// newest first otherwise; pass `nextCursor` back as `cursor` for the next page.
+router.get('/marketplace/search', async (req: Request, res: Response) => {
+  try {
+    const result = validate(marketplaceSearchSchema, req.query);
+    if (!result.success) {
+      return sendValidationError(res, result.errors);
+    }
+    
+    const { cursor, ...params } = result.data;
+    const after = cursor ? decodeSearchCursor(cursor) : null;
+    // A cursor only makes sense for the ordering it was issued for
+    if (cursor && (!after || (after.rank === null) !== !params.q)) {
+      return sendValidationError(res, { cursor: 'Invalid or expired cursor' });
+    }
+    
+    const page = await storage.searchMarketplaceApps(params, after);
+    res.status(200).json({ ...page, apps: await toMarketplaceListings(page.apps, params.currency) });
+  } catch (error) {
+    console.error('Error searching marketplace:', error);
+    res.status(500).json({ message: 'Failed to search marketplace' });
+  }
+});
+
+// Rotate the client secret. The new secret is shown once; the previous one
+// stays valid for a grace window so deployed integrations can be updated.
+router.post('/:id/credentials', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const app = await getOwnedApp(req, res);
+    if (!app) return;
+    
+    if (app.isPublicClient) {
+      return res.status(400).json({ message: 'Public clients do not use a client secret' });
+    }
+    
+    const gracePeriodHours = req.body.gracePeriodHours ?? DEFAULT_SECRET_GRACE_HOURS;
+    if (typeof gracePeriodHours !== 'number' || gracePeriodHours < 0 || gracePeriodHours > MAX_SECRET_GRACE_HOURS) {
+      return res.status(400).json({ message: `gracePeriodHours must be between 0 and ${MAX_SECRET_GRACE_HOURS}` });
+    }
+    
+    const clientSecret = generateToken();
+    const keepPrevious = app.clientSecretHash !== null && gracePeriodHours > 0;
+    
+    const updatedApp = await storage.updateOAuthApp(app.id, {
+      clientId: app.clientId ?? generateToken(16),
+      clientSecretHash: await hashClientSecret(clientSecret),
+      previousClientSecretHash: keepPrevious ? app.clientSecretHash : null,
+      previousClientSecretExpiresAt: keepPrevious
+        ? new Date(Date.now() + gracePeriodHours * 60 * 60 * 1000)
+        : null
+    });
+    
+    res.status(200).json({ ...toSafeOAuthApp(updatedApp), clientSecret });
+  } catch (error) {
+    console.error('Error regenerating credentials:', error);
+    res.status(500).json({ message: 'Failed to regenerate credentials' });
+  }
+});
+
+// Publish an app to the marketplace
+router.post('/:id/publish', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const app = await getOwnedApp(req, res);
+    if (!app) return;
+    
+    // Keep the original publish time so republishing doesn't bump the app to the top of the recent feed
+    const updatedApp = await storage.updateOAuthApp(app.id, {
+      isPublished: true,
+      publishedAt: app.publishedAt ?? new Date()
+    });
+    res.status(200).json(toSafeOAuthApp(updatedApp));
+  } catch (error) {
+    console.error('Error publishing OAuth app:', error);
+    res.status(500).json({ message: 'Failed to publish OAuth app' });
+  }
+});
+
+// Remove an app from the marketplace
+router.post('/:id/unpublish', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const app = await getOwnedApp(req, res);
+    if (!app) return;
+    
+    const updatedApp = await storage.updateOAuthApp(app.id, { isPublished: false });
+    res.status(200).json(toSafeOAuthApp(updatedApp));
+  } catch (error) {
+    console.error('Error unpublishing OAuth app:', error);
+    res.status(500).json({ message: 'Failed to unpublish OAuth app' });
+  }
+});
+
+// Get a single OAuth App. Unpublished apps are only visible to their owner.
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const app = await getVisibleApp(req, res);
+    if (!app) return;
+    
+    res.status(200).json(toSafeOAuthApp(app));
+  } catch (error) {
+    console.error('Error fetching OAuth app:', error);
+    res.status(500).json({ message: 'Failed to fetch OAuth app' });
+  }
+});
+
+// Update an OAuth App
+router.patch('/:id', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const app = await getOwnedApp(req, res);
+    if (!app) return;
+    
+    const body = parseBody(updateOAuthAppSchema, req, res);
+    if (!body) return;
+    
+    // Fields left undefined are not changed by storage
+    const updates: Partial<OAuthApp> = {
+      name: body.name,
+      description: body.description,
+      homepageUrl: body.homepageUrl,
+      isListed: body.isListed,
+      tags: body.tags
+    };
+    
+    if (body.categoryId !== undefined) {
+      if (body.categoryId !== null && !(await storage.getAppCategory(body.categoryId))) {
+        return sendValidationError(res, { categoryId: 'Category does not exist' });
+      }
+      updates.categoryId = body.categoryId;
+    }
+    
+    if (body.logoUrl !== undefined) {
+      updates.logoUrl = body.logoUrl || null;
+    }
+    
+    if (body.redirectUris !== undefined) {
+      const redirectUriError = validateRedirectUris(body.redirectUris);
+      if (redirectUriError) {
+        return sendValidationError(res, { redirectUris: redirectUriError });
+      }
+      updates.redirectUris = body.redirectUris;
+    }
+    
+    if (body.requiredScopes !== undefined || body.optionalScopes !== undefined) {
+      const requiredScopes = body.requiredScopes ?? app.requiredScopes;
+      const optionalScopes = body.optionalScopes ?? app.optionalScopes;
+      const scopeError = validateAppScopes(requiredScopes, optionalScopes);
+      if (scopeError) {
+        return sendValidationError(res, { requiredScopes: scopeError });
+      }
+      updates.requiredScopes = requiredScopes;
+      updates.optionalScopes = optionalScopes;
+    }
+    
+    // Switching to a public client discards any secrets; switching back
+    // requires generating a new secret from the credentials endpoint
+    if (body.isPublicClient !== undefined && body.isPublicClient !== app.isPublicClient) {
+      updates.isPublicClient = body.isPublicClient;
+      if (updates.isPublicClient) {
+        updates.clientSecretHash = null;
+        updates.previousClientSecretHash = null;
+        updates.previousClientSecretExpiresAt = null;
+      }
+    }
+    
+    const updatedApp = await storage.updateOAuthApp(app.id, updates);
+    res.status(200).json(toSafeOAuthApp(updatedApp));
+  } catch (error) {
+    console.error('Error updating OAuth app:', error);
+    res.status(500).json({ message: 'Failed to update OAuth app' });
+  }
+});
+
+// Delete an OAuth App nobody has subscribed to, along with its grants and tokens;
+// apps with subscribers are unpublished instead
+router.delete('/:id', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const app = await getOwnedApp(req, res);
+    if (!app) return;
+    
+    if (await storage.isOAuthAppInUse(app.id)) {
+      return res.status(409).json({ message: 'This app has subscribers; unpublish it instead' });
+    }
+    
+    await storage.deleteOAuthApp(app.id);
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting OAuth app:', error);
+    res.status(500).json({ message: 'Failed to delete OAuth app' });
+  }
+});
+
+// Get an app's pricing plans in the developer's order. Private and archived
+// plans are only listed for the owner.
+router.get('/:id/pricing-plans', async (req: Request, res: Response) => {
+  try {
+    const app = await getVisibleApp(req, res);
+    if (!app) return;
+    
+    const isOwner = req.isAuthenticated() && req.user?.id === app.userId;
+    const plans = await storage.getAppPricingPlans(app.id);
+    res.status(200).json(isOwner ? plans : plans.filter(isPlanForSale));
+  } catch (error) {
+    console.error('Error fetching pricing plans:', error);
+    res.status(500).json({ message: 'Failed to fetch pricing plans' });
+  }
+});
+
+// Create a pricing plan
+router.post('/:id/pricing-plans', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const app = await getOwnedApp(req, res);
+    if (!app) return;
+    
+    const body = parseBody(insertPricingPlanSchema, req, res);
+    if (!body) return;
+    
+    const planErrors = getPlanErrors(body);
+    if (Object.keys(planErrors).length > 0) {
+      return sendValidationError(res, planErrors);
+    }
+    
+    const plan = await storage.createPricingPlan({ ...body, appId: app.id });
+    res.status(201).json(plan);
+  } catch (error) {
+    console.error('Error creating pricing plan:', error);
+    res.status(500).json({ message: 'Failed to create pricing plan' });
+  }
+});
+
+// Set the order an app's plans are listed in
+router.put('/:id/pricing-plans/order', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const app = await getOwnedApp(req, res);
+    if (!app) return;
+    
+    const body = parseBody(reorderPricingPlansSchema, req, res);
+    if (!body) return;
+    
+    const planIds = new Set((await storage.getAppPricingPlans(app.id)).map(plan => plan.id));
+    if (body.planIds.length !== planIds.size || !body.planIds.every(planId => planIds.has(planId))) {
+      return sendValidationError(res, { planIds: 'List each of the app\'s plans once' });
+    }
+    
+    res.status(200).json(await storage.reorderPricingPlans(app.id, body.planIds));
+  } catch (error) {
+    console.error('Error reordering pricing plans:', error);
+    res.status(500).json({ message: 'Failed to reorder pricing plans' });
+  }
+});
+
+// Update a pricing plan
+router.put('/pricing-plans/:planId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const plan = await getOwnedPlan(req, res);
+    if (!plan) return;
+    
+    // Its subscribers keep the plan as it was when it was archived
+    if (plan.archivedAt) {
+      return res.status(409).json({ message: 'Archived plans can\'t be changed; restore the plan first' });
+    }
+    
+    const body = parseBody(updatePricingPlanSchema, req, res);
+    if (!body) return;
+    
+    const planErrors = getPlanErrors({ ...plan, ...body });
+    if (Object.keys(planErrors).length > 0) {
+      return sendValidationError(res, planErrors);
+    }
+    // Subscribers keep the price they signed up for; new prices go on a new plan they can be moved to
+    if (changesBilling(plan, body) && await storage.isPricingPlanInUse(plan.id)) {
+      return res.status(409).json({
+        message: 'This plan has subscribers, so its prices can\'t change; add a new plan, archive this one and move its subscribers'
+      });
+    }
+    
+    const updatedPlan = await storage.updatePricingPlan(plan.id, body);
+    res.status(200).json(updatedPlan);
+  } catch (error) {
+    console.error('Error updating pricing plan:', error);
+    res.status(500).json({ message: 'Failed to update pricing plan' });
+  }
+});
+
+// Stop selling a plan. Its subscribers stay on it at the same price until they
+// leave or are moved to another plan.
+router.post('/pricing-plans/:planId/archive', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const plan = await getOwnedPlan(req, res);
+    if (!plan) return;
+    
+    const archivedPlan = plan.archivedAt ? plan : await storage.updatePricingPlan(plan.id, { archivedAt: new Date() });
+    res.status(200).json(archivedPlan);
+  } catch (error) {
+    console.error('Error archiving pricing plan:', error);
+    res.status(500).json({ message: 'Failed to archive pricing plan' });
+  }
+});
+
+// Put an archived plan back on sale
+router.post('/pricing-plans/:planId/restore', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const plan = await getOwnedPlan(req, res);
+    if (!plan) return;
+    
+    const restoredPlan = plan.archivedAt ? await storage.updatePricingPlan(plan.id, { archivedAt: null }) : plan;
+    res.status(200).json(restoredPlan);
+  } catch (error) {
+    console.error('Error restoring pricing plan:', error);
+    res.status(500).json({ message: 'Failed to restore pricing plan' });
+  }
+});
+
+// Move a plan's subscribers to another plan of the app at the start of their
+// first billing period after the notice, prorated like a plan change they made
+router.post('/pricing-plans/:planId/migration', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const plan = await getOwnedPlan(req, res);
+    if (!plan) return;
+    
+    const body = parseBody(planMigrationSchema, req, res);
+    if (!body) return;
+    
+    const targetPlan = await storage.getPricingPlan(body.targetPlanId);
+    if (!targetPlan || targetPlan.appId !== plan.appId || targetPlan.id === plan.id) {
+      return sendValidationError(res, { targetPlanId: 'Choose another plan of this app' });
+    }
+    if (targetPlan.archivedAt) {
+      return sendValidationError(res, { targetPlanId: 'Choose a plan that isn\'t archived' });
+    }
+    // Subscribers of a free plan have no payment on file, and everyone keeps the currency they pay in
+    if (isFreePlan(plan) && !isFreePlan(targetPlan)) {
+      return sendValidationError(res, { targetPlanId: 'Subscribers of a free plan can only be moved to another free plan' });
+    }
+    if (!isFreePlan(targetPlan)) {
+      const currencies = getPlanCurrencies(targetPlan);
+      const missing = (await storage.getLiveSubscriptionCurrencies(plan.id))
+        .filter(currency => !currencies.includes(currency));
+      if (missing.length > 0) {
+        return sendValidationError(res, {
+          targetPlanId: `Subscribers pay in ${missing.join(', ')}, which ${targetPlan.name} is not sold in`
+        });
+      }
+    }
+    
+    const subscriptions = await schedulePlanMigration(plan, targetPlan, body.noticeDays);
+    res.status(200).json({ scheduled: subscriptions.length });
+  } catch (error) {
+    console.error('Error scheduling plan migration:', error);
+    res.status(500).json({ message: 'Failed to schedule plan migration' });
+  }
+});
+
+// Call off moving a plan's subscribers to another plan
+router.delete('/pricing-plans/:planId/migration', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const plan = await getOwnedPlan(req, res);
+    if (!plan) return;
+    
+    const subscriptions = await cancelPlanMigration(plan);
+    res.status(200).json({ canceled: subscriptions.length });
+  } catch (error) {
+    console.error('Error canceling plan migration:', error);
+    res.status(500).json({ message: 'Failed to cancel plan migration' });
+  }
+});
+
+// Delete a pricing plan nobody has subscribed to; plans with subscribers are archived instead
+router.delete('/pricing-plans/:planId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const plan = await getOwnedPlan(req, res);
+    if (!plan) return;
+    
+    if (await storage.isPricingPlanInUse(plan.id)) {
+      return res.status(409).json({ message: 'This plan has subscribers; archive it instead' });
+    }
+    
+    await storage.deletePricingPlan(plan.id);
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting pricing plan:', error);
+    res.status(500).json({ message: 'Failed to delete pricing plan' });
+  }
+});
+
+// Get an app's coupons, newest first. Only the owner sees them.
+router.get('/:id/coupons', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const app = await getOwnedApp(req, res);
+    if (!app) return;
+    
+    res.status(200).json(await storage.getAppCoupons(app.id));
+  } catch (error) {
+    console.error('Error fetching coupons:', error);
+    res.status(500).json({ message: 'Failed to fetch coupons' });
+  }
+});
+
+// Create a coupon, optionally restricted to some of the app's plans
+router.post('/:id/coupons', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const app = await getOwnedApp(req, res);
+    if (!app) return;
+    
+    const body = parseBody(insertCouponSchema, req, res);
+    if (!body) return;
+    
+    const couponErrors = getCouponErrors(body);
+    if (Object.keys(couponErrors).length > 0) {
+      return sendValidationError(res, couponErrors);
+    }
+    const planIds = new Set((await storage.getAppPricingPlans(app.id)).map(plan => plan.id));
+    if (!body.planIds.every(planId => planIds.has(planId))) {
+      return sendValidationError(res, { planIds: 'Choose plans of this app' });
+    }
+    
+    const coupon = await storage.createCoupon({ ...body, planIds: [...new Set(body.planIds)], appId: app.id });
+    if (!coupon) {
+      return sendValidationError(res, { code: 'This app already has a coupon with this code' });
+    }
+    res.status(201).json(coupon);
+  } catch (error) {
+    console.error('Error creating coupon:', error);
+    res.status(500).json({ message: 'Failed to create coupon' });
+  }
+});
+
+// Activate or deactivate a coupon, or change its limits. Codes already
+// redeemed keep their discount.
+router.patch('/coupons/:couponId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const coupon = await getOwnedCoupon(req, res);
+    if (!coupon) return;
+    
+    const body = parseBody(updateCouponSchema, req, res);
+    if (!body) return;
+    
+    if (body.maxRedemptions != null && body.maxRedemptions < coupon.redemptionCount) {
+      return sendValidationError(res, {
+        maxRedemptions: `This code has already been redeemed ${coupon.redemptionCount} times`
+      });
+    }
+    
+    const updatedCoupon = await storage.updateCoupon(coupon.id, body);
+    res.status(200).json(updatedCoupon);
+  } catch (error) {
+    console.error('Error updating coupon:', error);
+    res.status(500).json({ message: 'Failed to update coupon' });
+  }
+});
+
+// Who redeemed a coupon, newest first, with where their subscription stands now
+router.get('/coupons/:couponId/redemptions', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const coupon = await getOwnedCoupon(req, res);
+    if (!coupon) return;
+    
+    const redemptions = await storage.getCouponRedemptions(coupon.id);
+    const details = await Promise.all(redemptions.map(async (redemption): Promise<CouponRedemptionDetails | null> => {
+      const [user, subscription] = await Promise.all([
+        storage.getUser(redemption.userId),
+        storage.getAppSubscription(redemption.subscriptionId)
+      ]);
+      if (!user || !subscription) return null;
+      return {
+        ...redemption,
+        customer: { username: user.username, name: user.name, email: user.email },
+        subscriptionStatus: subscription.status
+      };
+    }));
+    res.status(200).json(details.filter((redemption): redemption is CouponRedemptionDetails => redemption !== null));
+  } catch (error) {
+    console.error('Error fetching coupon redemptions:', error);
+    res.status(500).json({ message: 'Failed to fetch coupon redemptions' });
+  }
+});
+
+// Get an app's reviews
+router.get('/:id/reviews', async (req: Request, res: Response) => {
+  try {
+    const app = await getVisibleApp(req, res);
+    if (!app) return;
+    
+    const reviews = await storage.getAppReviews(app.id);
+    res.status(200).json(reviews);
+  } catch (error) {
+    console.error('Error fetching reviews:', error);
+    res.status(500).json({ message: 'Failed to fetch reviews' });
+  }
+});
+
+// Get the authenticated user's review of an app, or null
+router.get('/:id/reviews/user', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const app = await getVisibleApp(req, res);
+    if (!app) return;
+    
+    const review = await storage.getUserAppReview(req.user.id, app.id);
+    res.status(200).json(review ?? null);
+  } catch (error) {
+    console.error('Error fetching user review:', error);
+    res.status(500).json({ message: 'Failed to fetch review' });
+  }
+});
+
+// Review an app. Each user can review an app once and not their own apps.
+router.post('/:id/reviews', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const app = await getVisibleApp(req, res);
+    if (!app) return;
+    
+    if (app.userId === req.user.id) {
+      return res.status(403).json({ message: 'You cannot review your own app' });
+    }
+    
+    const body = parseBody(insertAppReviewSchema, req, res);
+    if (!body) return;
+    
+    if (await storage.getUserAppReview(req.user.id, app.id)) {
+      return res.status(409).json({ message: 'You have already reviewed this app' });
+    }
+    
+    const review = await storage.createAppReview({
+      appId: app.id,
+      userId: req.user.id,
+      rating: body.rating,
+      reviewText: body.reviewText || null
+    });
+    res.status(201).json(review);
+  } catch (error) {
+    console.error('Error creating review:', error);
+    res.status(500).json({ message: 'Failed to submit review' });
+  }
+});
+
+// Update the authenticated user's review
+router.put('/reviews/:reviewId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const review = await getOwnReview(req, res);
+    if (!review) return;
+    
+    const body = parseBody(updateAppReviewSchema, req, res);
+    if (!body) return;
+    
+    const updatedReview = await storage.updateAppReview(review.id, {
+      rating: body.rating,
+      reviewText: body.reviewText === undefined ? undefined : body.reviewText || null
+    });
+    res.status(200).json(updatedReview);
+  } catch (error) {
+    console.error('Error updating review:', error);
+    res.status(500).json({ message: 'Failed to update review' });
+  }
+});
+
+// Delete the authenticated user's review
+router.delete('/reviews/:reviewId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const review = await getOwnReview(req, res);
+    if (!review) return;
+    
+    await storage.deleteAppReview(review.id);
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting review:', error);
+    res.status(500).json({ message: 'Failed to delete review' });
+  }
+});
+
 export default router;
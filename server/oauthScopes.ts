@@ -0,0 +1,86 @@
+/**
+ * OAuth Scope Registry
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { OAuthScope } from '../shared/schema';
+
+// Every scope an OAuth app may request from marketplace users
+export const OAUTH_SCOPES: OAuthScope[] = [
+  {
+    name: 'openid',
+    description: 'Sign you in and confirm your identity',
+    sensitivity: 'low'
+  },
+  {
+    name: 'profile',
+    description: 'Read your public profile (username, name and avatar)',
+    sensitivity: 'low'
+  },
+  {
+    name: 'email',
+    description: 'Read your email address',
+    sensitivity: 'medium'
+  },
+  {
+    name: 'apps:read',
+    description: 'View the OAuth apps you have registered',
+    sensitivity: 'low'
+  },
+  {
+    name: 'apps:write',
+    description: 'Create, update and delete your OAuth apps',
+    sensitivity: 'high'
+  },
+  {
+    name: 'subscriptions:read',
+    description: 'View your app subscriptions and plans',
+    sensitivity: 'medium'
+  },
+  {
+    name: 'reviews:write',
+    description: 'Post and edit app reviews on your behalf',
+    sensitivity: 'medium'
+  },
+  {
+    name: 'credits:read',
+    description: 'View your credits balance',
+    sensitivity: 'medium'
+  }
+];
+
+const scopesByName = new Map(OAUTH_SCOPES.map(scope => [scope.name, scope]));
+
+export const getScope = (name: string): OAuthScope | undefined => {
+  return scopesByName.get(name);
+};
+
+export const isKnownScope = (name: string): boolean => {
+  return scopesByName.has(name);
+};
+
+// Split a space-delimited scope parameter (RFC 6749 section 3.3)
+export const parseScopeParam = (scope: unknown): string[] => {
+  if (typeof scope !== 'string') {
+    return [];
+  }
+  return Array.from(new Set(scope.split(' ').filter(Boolean)));
+};
+
+// Validate the scopes a developer declares for an app. Returns an error message or null.
+export const validateAppScopes = (requiredScopes: unknown, optionalScopes: unknown): string | null => {
+  if (!Array.isArray(requiredScopes) || !Array.isArray(optionalScopes)) {
+    return 'requiredScopes and optionalScopes must be arrays';
+  }
+
+  for (const scope of [...requiredScopes, ...optionalScopes]) {
+    if (typeof scope !== 'string' || !isKnownScope(scope)) {
+      return `Unknown scope: ${scope}`;
+    }
+  }
+
+  if (requiredScopes.some(scope => optionalScopes.includes(scope))) {
+    return 'A scope cannot be both required and optional';
+  }
+  return null;
+};
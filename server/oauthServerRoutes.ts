@@ -0,0 +1,587 @@
+/**
+ * OAuth 2.0 / OpenID Connect Authorization Server Routes (authorization-code
+ * grant, userinfo, token introspection and revocation)
+ * Mounted at /oauth
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import express, { Router, Request, Response } from 'express';
+import { storage } from './storage';
+import { OAuthApp, OAuthToken } from '../shared/schema';
+import {
+  ACCESS_TOKEN_TTL,
+  AUTHORIZATION_CODE_TTL,
+  REFRESH_TOKEN_TTL,
+  expiresIn,
+  generateToken,
+  hashToken,
+  isValidCodeVerifier,
+  verifyCodeChallenge
+} from './oauthTokens';
+import { authenticateClient } from './clientAuth';
+import { OAUTH_SCOPES, getScope, parseScopeParam } from './oauthScopes';
+import { buildUserClaims, createIdToken, getIssuer } from './oidc';
+
+const router = Router();
+
+// OAuth clients post form-encoded bodies to the token endpoint
+router.use(express.urlencoded({ extended: false }));
+router.use(express.json());
+
+// Client-side routes used during the authorization flow
+const LOGIN_PATH = '/auth';
+const CONSENT_PATH = '/oauth/consent';
+
+// Middleware to check authentication
+const requireAuth = (req: Request, res: Response, next: Function) => {
+  if (!req.isAuthenticated() || !req.user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+  next();
+};
+
+// Send an RFC 6749 error response
+const sendOAuthError = (res: Response, status: number, error: string, description?: string) => {
+  res.set({ 'Cache-Control': 'no-store', 'Pragma': 'no-cache' });
+  res.status(status).json({
+    error,
+    ...(description ? { error_description: description } : {})
+  });
+};
+
+// Build a redirect back to the client with the given query parameters
+const buildRedirectUrl = (redirectUri: string, params: Record<string, string | undefined>) => {
+  const url = new URL(redirectUri);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      url.searchParams.set(key, value);
+    }
+  }
+  return url.toString();
+};
+
+interface AuthorizationRequest {
+  app: OAuthApp;
+  redirectUri: string;
+  explicitRedirectUri: string | null;
+  responseType: string;
+  codeChallenge: string | null;
+  codeChallengeMethod: string | null;
+  scopes: string[];
+  nonce: string | null;
+  state?: string;
+}
+
+type AuthorizationRequestResult =
+  | { ok: true; request: AuthorizationRequest }
+  | { ok: false; error: string; description: string; redirectUri?: string; state?: string };
+
+// Validate the parameters of an authorization request. Errors about the client
+// or redirect URI must never be redirected; everything else is sent back to the client.
+const validateAuthorizationRequest = async (params: Record<string, any>): Promise<AuthorizationRequestResult> => {
+  const clientId = typeof params.client_id === 'string' ? params.client_id : '';
+  const requestedRedirectUri = typeof params.redirect_uri === 'string' ? params.redirect_uri : null;
+  const responseType = typeof params.response_type === 'string' ? params.response_type : '';
+  const state = typeof params.state === 'string' ? params.state : undefined;
+  const codeChallenge = typeof params.code_challenge === 'string' ? params.code_challenge : null;
+  const codeChallengeMethod = typeof params.code_challenge_method === 'string' ? params.code_challenge_method : null;
+  const nonce = typeof params.nonce === 'string' ? params.nonce : null;
+
+  if (!clientId) {
+    return { ok: false, error: 'invalid_request', description: 'client_id is required' };
+  }
+
+  const app = await storage.getOAuthAppByClientId(clientId);
+  if (!app) {
+    return { ok: false, error: 'invalid_client', description: 'Unknown client_id' };
+  }
+
+  // Redirect URIs are compared exactly, with no normalization. It may only be
+  // omitted when the app has a single registered URI.
+  if (requestedRedirectUri === null && app.redirectUris.length !== 1) {
+    return { ok: false, error: 'invalid_request', description: 'redirect_uri is required' };
+  }
+  if (requestedRedirectUri !== null && !app.redirectUris.includes(requestedRedirectUri)) {
+    return { ok: false, error: 'invalid_request', description: 'redirect_uri does not match any registered redirect URI' };
+  }
+  const redirectUri = requestedRedirectUri ?? app.redirectUris[0];
+
+  // Required scopes are always requested; anything else must be declared by the app
+  const declaredScopes = [...app.requiredScopes, ...app.optionalScopes];
+  const requestedScopes = parseScopeParam(params.scope);
+  const undeclared = requestedScopes.filter(scope => !declaredScopes.includes(scope));
+  if (undeclared.length > 0) {
+    return {
+      ok: false,
+      error: 'invalid_scope',
+      description: `Scopes not registered for this app: ${undeclared.join(' ')}`,
+      redirectUri,
+      state
+    };
+  }
+  const scopes = declaredScopes.filter(
+    scope => app.requiredScopes.includes(scope) || requestedScopes.includes(scope)
+  );
+
+  if (responseType !== 'code') {
+    return {
+      ok: false,
+      error: 'unsupported_response_type',
+      description: 'Only the "code" response type is supported',
+      redirectUri,
+      state
+    };
+  }
+
+  // Only S256 is accepted; "plain" offers no protection against code interception
+  if (codeChallenge !== null && codeChallengeMethod !== 'S256') {
+    return {
+      ok: false,
+      error: 'invalid_request',
+      description: 'code_challenge_method must be S256',
+      redirectUri,
+      state
+    };
+  }
+
+  // Public clients cannot keep a secret, so PKCE is mandatory for them
+  if (app.isPublicClient && codeChallenge === null) {
+    return {
+      ok: false,
+      error: 'invalid_request',
+      description: 'Public clients must use PKCE with code_challenge_method S256',
+      redirectUri,
+      state
+    };
+  }
+
+  return {
+    ok: true,
+    request: {
+      app,
+      redirectUri,
+      explicitRedirectUri: requestedRedirectUri,
+      responseType,
+      codeChallenge,
+      codeChallengeMethod,
+      scopes,
+      nonce,
+      state
+    }
+  };
+};
+
+// Find a token by its access or refresh value, checking the hinted type first
+const findToken = async (value: string, hint?: string): Promise<OAuthToken | undefined> => {
+  const tokenHash = hashToken(value);
+  const lookups = hint === 'refresh_token'
+    ? [storage.getOAuthTokenByRefreshTokenHash, storage.getOAuthTokenByAccessTokenHash]
+    : [storage.getOAuthTokenByAccessTokenHash, storage.getOAuthTokenByRefreshTokenHash];
+
+  for (const lookup of lookups) {
+    const token = await lookup.call(storage, tokenHash);
+    if (token) {
+      return token;
+    }
+  }
+  return undefined;
+};
+
+// Issue a new access/refresh token pair and build the token response.
+// An ID token is included whenever the grant carries the openid scope.
+const issueTokens = async (
+  req: Request,
+  app: OAuthApp,
+  userId: number,
+  authorizationCodeId: number | null,
+  scopes: string[],
+  nonce: string | null = null
+) => {
+  const accessToken = generateToken();
+  const refreshToken = generateToken();
+
+  await storage.createOAuthToken({
+    appId: app.id,
+    userId,
+    authorizationCodeId,
+    scopes,
+    accessTokenHash: hashToken(accessToken),
+    refreshTokenHash: hashToken(refreshToken),
+    accessTokenExpiresAt: expiresIn(ACCESS_TOKEN_TTL),
+    refreshTokenExpiresAt: expiresIn(REFRESH_TOKEN_TTL)
+  });
+
+  const response: Record<string, unknown> = {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: ACCESS_TOKEN_TTL,
+    refresh_token: refreshToken,
+    scope: scopes.join(' ')
+  };
+
+  if (scopes.includes('openid')) {
+    const user = await storage.getUser(userId);
+    if (user) {
+      response.id_token = await createIdToken({
+        issuer: getIssuer(req),
+        clientId: app.clientId!,
+        user,
+        scopes,
+        accessToken,
+        nonce
+      });
+    }
+  }
+
+  return response;
+};
+
+// Middleware to authenticate a bearer access token
+const requireBearerToken = async (req: Request, res: Response, next: Function) => {
+  try {
+    const authHeader = req.headers.authorization;
+    const value = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : req.body?.access_token;
+
+    if (!value) {
+      res.set('WWW-Authenticate', 'Bearer realm="oauth"');
+      return res.status(401).end();
+    }
+
+    const token = await storage.getOAuthTokenByAccessTokenHash(hashToken(value));
+    if (!token || token.revokedAt || token.accessTokenExpiresAt.getTime() < Date.now()) {
+      res.set('WWW-Authenticate', 'Bearer realm="oauth", error="invalid_token"');
+      return res.status(401).json({ error: 'invalid_token' });
+    }
+
+    res.locals.oauthToken = token;
+    next();
+  } catch (error) {
+    console.error('Error authenticating bearer token:', error);
+    res.status(500).json({ error: 'server_error' });
+  }
+};
+
+// Scope catalog
+router.get('/scopes', async (req: Request, res: Response) => {
+  res.status(200).json(OAUTH_SCOPES);
+});
+
+// Authorization endpoint: validate the request, then hand off to the consent screen
+router.get('/authorize', async (req: Request, res: Response) => {
+  try {
+    const result = await validateAuthorizationRequest(req.query);
+
+    if (!result.ok) {
+      if (result.redirectUri) {
+        return res.redirect(buildRedirectUrl(result.redirectUri, {
+          error: result.error,
+          error_description: result.description,
+          state: result.state
+        }));
+      }
+      return res.status(400).json({ error: result.error, error_description: result.description });
+    }
+
+    if (!req.isAuthenticated() || !req.user) {
+      return res.redirect(`${LOGIN_PATH}?returnTo=${encodeURIComponent(req.originalUrl)}`);
+    }
+
+    const query = req.originalUrl.slice(req.originalUrl.indexOf('?'));
+    res.redirect(`${CONSENT_PATH}${query}`);
+  } catch (error) {
+    console.error('Error handling authorization request:', error);
+    res.status(500).json({ error: 'server_error' });
+  }
+});
+
+// Details of a pending authorization request, for the consent screen
+router.get('/authorize/details', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const result = await validateAuthorizationRequest(req.query);
+    if (!result.ok) {
+      return res.status(400).json({ error: result.error, error_description: result.description });
+    }
+
+    const { app, redirectUri, scopes } = result.request;
+    res.status(200).json({
+      app: {
+        id: app.id,
+        name: app.name,
+        description: app.description,
+        homepageUrl: app.homepageUrl,
+        logoUrl: app.logoUrl,
+        verificationStatus: app.verificationStatus
+      },
+      redirectUri,
+      scopes: scopes.map(name => ({
+        ...getScope(name),
+        required: app.requiredScopes.includes(name)
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching authorization details:', error);
+    res.status(500).json({ message: 'Failed to fetch authorization details' });
+  }
+});
+
+// Consent decision: issue a single-use authorization code or deny access
+router.post('/authorize', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const result = await validateAuthorizationRequest(req.body);
+
+    if (!result.ok) {
+      if (result.redirectUri) {
+        return res.status(200).json({
+          redirectUrl: buildRedirectUrl(result.redirectUri, {
+            error: result.error,
+            error_description: result.description,
+            state: result.state
+          })
+        });
+      }
+      return res.status(400).json({ error: result.error, error_description: result.description });
+    }
+
+    const { app, redirectUri, explicitRedirectUri, codeChallenge, codeChallengeMethod, scopes, nonce, state } = result.request;
+
+    if (req.body.approved !== true) {
+      return res.status(200).json({
+        redirectUrl: buildRedirectUrl(redirectUri, {
+          error: 'access_denied',
+          error_description: 'The user denied the authorization request',
+          state
+        })
+      });
+    }
+
+    // Users may decline optional scopes, never required ones
+    const selectedScopes: unknown[] = Array.isArray(req.body.grantedScopes) ? req.body.grantedScopes : [];
+    const grantedScopes = scopes.filter(
+      scope => app.requiredScopes.includes(scope) || selectedScopes.includes(scope)
+    );
+
+    // Record the grant so the user can review and revoke it later
+    await storage.upsertOAuthGrant({
+      userId: req.user.id,
+      appId: app.id,
+      scopes: grantedScopes
+    });
+
+    const code = generateToken();
+    await storage.createAuthorizationCode({
+      codeHash: hashToken(code),
+      appId: app.id,
+      userId: req.user.id,
+      redirectUri: explicitRedirectUri,
+      codeChallenge,
+      codeChallengeMethod,
+      scopes: grantedScopes,
+      nonce,
+      expiresAt: expiresIn(AUTHORIZATION_CODE_TTL)
+    });
+
+    res.status(200).json({
+      redirectUrl: buildRedirectUrl(redirectUri, { code, state })
+    });
+  } catch (error) {
+    console.error('Error processing authorization decision:', error);
+    res.status(500).json({ message: 'Failed to process authorization' });
+  }
+});
+
+// Token endpoint
+router.post('/token', async (req: Request, res: Response) => {
+  try {
+    const app = await authenticateClient(req);
+    if (!app) {
+      res.set('WWW-Authenticate', 'Basic realm="oauth"');
+      return sendOAuthError(res, 401, 'invalid_client', 'Client authentication failed');
+    }
+
+    const grantType = req.body.grant_type;
+
+    if (grantType === 'authorization_code') {
+      const { code, redirect_uri: redirectUri, code_verifier: codeVerifier } = req.body;
+      if (!code) {
+        return sendOAuthError(res, 400, 'invalid_request', 'code is required');
+      }
+
+      const codeHash = hashToken(code);
+      const authCode = await storage.consumeAuthorizationCode(codeHash);
+
+      if (!authCode) {
+        // A replayed code revokes every token previously issued from it
+        const usedCode = await storage.getAuthorizationCodeByHash(codeHash);
+        if (usedCode?.usedAt) {
+          await storage.revokeOAuthTokensByAuthorizationCode(usedCode.id);
+        }
+        return sendOAuthError(res, 400, 'invalid_grant', 'Authorization code is invalid or has already been used');
+      }
+
+      if (authCode.appId !== app.id) {
+        return sendOAuthError(res, 400, 'invalid_grant', 'Authorization code was issued to another client');
+      }
+      if (authCode.expiresAt.getTime() < Date.now()) {
+        return sendOAuthError(res, 400, 'invalid_grant', 'Authorization code has expired');
+      }
+      if (authCode.redirectUri !== null && authCode.redirectUri !== redirectUri) {
+        return sendOAuthError(res, 400, 'invalid_grant', 'redirect_uri does not match the authorization request');
+      }
+      if (authCode.codeChallenge !== null) {
+        if (typeof codeVerifier !== 'string' || !isValidCodeVerifier(codeVerifier)) {
+          return sendOAuthError(res, 400, 'invalid_request', 'A valid code_verifier is required');
+        }
+        if (!verifyCodeChallenge(codeVerifier, authCode.codeChallenge)) {
+          return sendOAuthError(res, 400, 'invalid_grant', 'code_verifier does not match the code challenge');
+        }
+      } else if (codeVerifier !== undefined) {
+        return sendOAuthError(res, 400, 'invalid_grant', 'code_verifier sent without a code challenge');
+      }
+
+      const tokens = await issueTokens(req, app, authCode.userId, authCode.id, authCode.scopes, authCode.nonce);
+      res.set({ 'Cache-Control': 'no-store', 'Pragma': 'no-cache' });
+      return res.status(200).json(tokens);
+    }
+
+    if (grantType === 'refresh_token') {
+      const { refresh_token: refreshToken } = req.body;
+      if (!refreshToken) {
+        return sendOAuthError(res, 400, 'invalid_request', 'refresh_token is required');
+      }
+
+      const token = await storage.getOAuthTokenByRefreshTokenHash(hashToken(refreshToken));
+      if (
+        !token ||
+        token.appId !== app.id ||
+        token.revokedAt ||
+        !token.refreshTokenExpiresAt ||
+        token.refreshTokenExpiresAt.getTime() < Date.now()
+      ) {
+        return sendOAuthError(res, 400, 'invalid_grant', 'Refresh token is invalid or expired');
+      }
+
+      // A refresh may narrow, but never widen, the original grant
+      let scopes = token.scopes;
+      if (req.body.scope !== undefined) {
+        const requestedScopes = parseScopeParam(req.body.scope);
+        if (requestedScopes.some(scope => !token.scopes.includes(scope))) {
+          return sendOAuthError(res, 400, 'invalid_scope', 'Requested scope exceeds the original grant');
+        }
+        scopes = requestedScopes;
+      }
+
+      // Refresh tokens are rotated on every use; of concurrent refreshes only
+      // the one that revokes the token gets new ones
+      if (!await storage.revokeOAuthToken(token.id)) {
+        return sendOAuthError(res, 400, 'invalid_grant', 'Refresh token is invalid or expired');
+      }
+      const tokens = await issueTokens(req, app, token.userId, token.authorizationCodeId, scopes);
+      res.set({ 'Cache-Control': 'no-store', 'Pragma': 'no-cache' });
+      return res.status(200).json(tokens);
+    }
+
+    sendOAuthError(res, 400, 'unsupported_grant_type');
+  } catch (error) {
+    console.error('Error issuing tokens:', error);
+    sendOAuthError(res, 500, 'server_error');
+  }
+});
+
+// UserInfo endpoint (OIDC Core 5.3)
+const handleUserInfo = async (req: Request, res: Response) => {
+  try {
+    const token: OAuthToken = res.locals.oauthToken;
+    if (!token.scopes.includes('openid')) {
+      res.set('WWW-Authenticate', 'Bearer realm="oauth", error="insufficient_scope", scope="openid"');
+      return res.status(403).json({ error: 'insufficient_scope' });
+    }
+
+    const user = await storage.getUser(token.userId);
+    if (!user) {
+      res.set('WWW-Authenticate', 'Bearer realm="oauth", error="invalid_token"');
+      return res.status(401).json({ error: 'invalid_token' });
+    }
+
+    res.set({ 'Cache-Control': 'no-store', 'Pragma': 'no-cache' });
+    res.status(200).json(buildUserClaims(user, token.scopes));
+  } catch (error) {
+    console.error('Error fetching userinfo:', error);
+    res.status(500).json({ error: 'server_error' });
+  }
+};
+
+router.get('/userinfo', requireBearerToken, handleUserInfo);
+router.post('/userinfo', requireBearerToken, handleUserInfo);
+
+// Token introspection endpoint (RFC 7662)
+router.post('/introspect', async (req: Request, res: Response) => {
+  try {
+    const app = await authenticateClient(req);
+    if (!app || app.isPublicClient) {
+      res.set('WWW-Authenticate', 'Basic realm="oauth"');
+      return sendOAuthError(res, 401, 'invalid_client', 'Client authentication failed');
+    }
+
+    const { token: value, token_type_hint: hint } = req.body;
+    if (!value) {
+      return sendOAuthError(res, 400, 'invalid_request', 'token is required');
+    }
+
+    res.set({ 'Cache-Control': 'no-store', 'Pragma': 'no-cache' });
+
+    // Clients may only introspect tokens issued to themselves
+    const token = await findToken(value, hint);
+    if (!token || token.appId !== app.id || token.revokedAt) {
+      return res.status(200).json({ active: false });
+    }
+
+    const isAccessToken = token.accessTokenHash === hashToken(value);
+    const expiresAt = isAccessToken ? token.accessTokenExpiresAt : token.refreshTokenExpiresAt;
+    if (!expiresAt || expiresAt.getTime() < Date.now()) {
+      return res.status(200).json({ active: false });
+    }
+
+    res.status(200).json({
+      active: true,
+      scope: token.scopes.join(' '),
+      client_id: app.clientId,
+      sub: String(token.userId),
+      exp: Math.floor(expiresAt.getTime() / 1000),
+      iat: Math.floor(token.createdAt.getTime() / 1000),
+      ...(isAccessToken ? { token_type: 'Bearer' } : {})
+    });
+  } catch (error) {
+    console.error('Error introspecting token:', error);
+    sendOAuthError(res, 500, 'server_error');
+  }
+});
+
+// Token revocation endpoint (RFC 7009)
+router.post('/revoke', async (req: Request, res: Response) => {
+  try {
+    const app = await authenticateClient(req);
+    if (!app) {
+      res.set('WWW-Authenticate', 'Basic realm="oauth"');
+      return sendOAuthError(res, 401, 'invalid_client', 'Client authentication failed');
+    }
+
+    const { token: value, token_type_hint: hint } = req.body;
+    if (!value) {
+      return sendOAuthError(res, 400, 'invalid_request', 'token is required');
+    }
+
+    // Access and refresh tokens are revoked together. Unknown tokens and tokens
+    // belonging to other clients are ignored, as the RFC requires a 200 either way.
+    const token = await findToken(value, hint);
+    if (token && token.appId === app.id && !token.revokedAt) {
+      await storage.revokeOAuthToken(token.id);
+    }
+
+    res.status(200).end();
+  } catch (error) {
+    console.error('Error revoking token:', error);
+    sendOAuthError(res, 500, 'server_error');
+  }
+});
+
+export default router;
@@ -0,0 +1,69 @@
+/**
+ * OAuth token helpers for the authorization server
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// Lifetimes in seconds
+export const AUTHORIZATION_CODE_TTL = 60;
+export const ACCESS_TOKEN_TTL = 60 * 60;
+export const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60;
+export const ID_TOKEN_TTL = 60 * 60;
+
+// Generate an opaque, URL-safe random token
+export const generateToken = (bytes = 32): string => {
+  return randomBytes(bytes).toString('base64url');
+};
+
+// Tokens and codes are only ever persisted as SHA-256 hashes
+export const hashToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
+
+// Constant-time string comparison for secrets
+export const safeEqual = (a: string, b: string): boolean => {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  if (bufA.length !== bufB.length) {
+    return false;
+  }
+  return timingSafeEqual(bufA, bufB);
+};
+
+// Client secrets are stored as salted scrypt hashes: scrypt$<salt>$<hash>
+export const hashClientSecret = async (secret: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const derived = await scryptAsync(secret, salt, 32);
+  return `scrypt$${salt.toString('base64url')}$${derived.toString('base64url')}`;
+};
+
+export const verifyClientSecret = async (secret: string, storedHash: string): Promise<boolean> => {
+  const [scheme, salt, hash] = storedHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+  const derived = await scryptAsync(secret, Buffer.from(salt, 'base64url'), 32);
+  return safeEqual(derived.toString('base64url'), hash);
+};
+
+// PKCE code verifiers must be 43-128 unreserved characters (RFC 7636 section 4.1)
+const CODE_VERIFIER_PATTERN = /^[A-Za-z0-9\-._~]{43,128}$/;
+
+export const isValidCodeVerifier = (verifier: string): boolean => {
+  return CODE_VERIFIER_PATTERN.test(verifier);
+};
+
+// Check a PKCE code verifier against an S256 code challenge
+export const verifyCodeChallenge = (verifier: string, challenge: string): boolean => {
+  const computed = createHash('sha256').update(verifier).digest('base64url');
+  return safeEqual(computed, challenge);
+};
+
+// Compute an expiry date `seconds` from now
+export const expiresIn = (seconds: number): Date => {
+  return new Date(Date.now() + seconds * 1000);
+};
@@ -0,0 +1,88 @@
+/**
+ * OpenID Connect helpers: ID token signing, JWKS and claims mapping
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { Request } from 'express';
+import { createHash, sign } from 'crypto';
+import { User } from '../shared/schema';
+import { getActiveSigningKey, getPublishedKeys } from './keyStore';
+import { ID_TOKEN_TTL } from './oauthTokens';
+
+const encodeSegment = (value: object): string => {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+};
+
+// Sign a JWT with the active platform signing key
+export const signJwt = async (payload: Record<string, unknown>): Promise<string> => {
+  const key = await getActiveSigningKey();
+  const signingInput = `${encodeSegment({ alg: key.algorithm, typ: 'JWT', kid: key.kid })}.${encodeSegment(payload)}`;
+  // JWS expects raw R || S signatures for ECDSA rather than DER
+  const signature = key.algorithm === 'ES256'
+    ? sign('sha256', Buffer.from(signingInput), { key: key.privateKey, dsaEncoding: 'ieee-p1363' })
+    : sign('sha256', Buffer.from(signingInput), key.privateKey);
+  return `${signingInput}.${signature.toString('base64url')}`;
+};
+
+// Public keys for verifying ID tokens, including recently retired keys
+export const getJwks = async () => {
+  const keys = await getPublishedKeys();
+  return {
+    keys: keys.map(key => ({
+      ...key.publicJwk,
+      kid: key.kid,
+      alg: key.algorithm,
+      use: 'sig'
+    }))
+  };
+};
+
+// Issuer identifier: OAUTH_ISSUER when configured, otherwise the request origin
+export const getIssuer = (req: Request): string => {
+  return process.env.OAUTH_ISSUER || `${req.protocol}://${req.get('host')}`;
+};
+
+// at_hash: left half of the SHA-256 digest of the access token (OIDC Core 3.1.3.6)
+export const computeAtHash = (accessToken: string): string => {
+  const digest = createHash('sha256').update(accessToken).digest();
+  return digest.subarray(0, digest.length / 2).toString('base64url');
+};
+
+// Standard claims released for each granted scope
+export const buildUserClaims = (user: User, scopes: string[]): Record<string, unknown> => {
+  const claims: Record<string, unknown> = { sub: String(user.id) };
+
+  if (scopes.includes('profile')) {
+    claims.name = user.name;
+    claims.preferred_username = user.username;
+    claims.picture = user.avatarUrl;
+    claims.github_username = user.githubUsername;
+  }
+
+  if (scopes.includes('email')) {
+    claims.email = user.email;
+  }
+
+  return claims;
+};
+
+// Build and sign an ID token for the code and refresh flows
+export const createIdToken = (options: {
+  issuer: string;
+  clientId: string;
+  user: User;
+  scopes: string[];
+  accessToken: string;
+  nonce?: string | null;
+}): Promise<string> => {
+  const now = Math.floor(Date.now() / 1000);
+  return signJwt({
+    ...buildUserClaims(options.user, options.scopes),
+    iss: options.issuer,
+    aud: options.clientId,
+    iat: now,
+    exp: now + ID_TOKEN_TTL,
+    at_hash: computeAtHash(options.accessToken),
+    ...(options.nonce ? { nonce: options.nonce } : {})
+  });
+};
@@ -0,0 +1,52 @@
+/**
+ * OpenID Connect Discovery Routes
+ * Mounted at the site root
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { Router, Request, Response } from 'express';
+import { OAUTH_SCOPES } from './oauthScopes';
+import { getIssuer, getJwks } from './oidc';
+
+const router = Router();
+
+// Provider metadata (OpenID Connect Discovery 1.0)
+router.get('/.well-known/openid-configuration', (req: Request, res: Response) => {
+  const issuer = getIssuer(req);
+
+  res.status(200).json({
+    issuer,
+    authorization_endpoint: `${issuer}/oauth/authorize`,
+    token_endpoint: `${issuer}/oauth/token`,
+    userinfo_endpoint: `${issuer}/oauth/userinfo`,
+    jwks_uri: `${issuer}/.well-known/jwks.json`,
+    introspection_endpoint: `${issuer}/oauth/introspect`,
+    revocation_endpoint: `${issuer}/oauth/revoke`,
+    scopes_supported: OAUTH_SCOPES.map(scope => scope.name),
+    response_types_supported: ['code'],
+    grant_types_supported: ['authorization_code', 'refresh_token'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256', 'ES256'],
+    token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+    code_challenge_methods_supported: ['S256'],
+    claims_supported: [
+      'sub', 'iss', 'aud', 'exp', 'iat', 'nonce', 'at_hash',
+      'name', 'preferred_username', 'picture', 'github_username', 'email'
+    ]
+  });
+});
+
+// Public signing keys
+router.get('/.well-known/jwks.json', async (req: Request, res: Response) => {
+  try {
+    const jwks = await getJwks();
+    // Short cache so clients notice rotations well before retired keys are dropped
+    res.set('Cache-Control', 'public, max-age=300');
+    res.status(200).json(jwks);
+  } catch (error) {
+    console.error('Error fetching JWKS:', error);
+    res.status(500).json({ message: 'Failed to fetch signing keys' });
+  }
+});
+
+export default router;
@@ -0,0 +1,117 @@
+/**
+ * Payment provider interface for subscription checkout and billing
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { IncomingHttpHeaders } from 'http';
+import { Coupon, OAuthApp, PricingPlan, SubscriptionStatus } from '../shared/schema';
+import { StripePaymentProvider } from './stripePaymentProvider';
+import { FakePaymentProvider } from './fakePaymentProvider';
+
+export interface CheckoutRequest {
+  // Our subscription id; providers echo it back so sessions can be traced
+  reference: string;
+  app: Pick<OAuthApp, 'id' | 'name'>;
+  // Billed at its introductory price, if it has one, from the start
+  plan: PricingPlan;
+  // One of the plan's currencies, billed at its price in it
+  currency: string;
+  // How many of the plan's price to bill: the seat count on per-seat plans, otherwise 1
+  quantity: number;
+  // Free days before the first charge; 0 when the user isn't getting a trial
+  trialDays: number;
+  // Discount off the plan's price the subscriber redeemed, if any
+  coupon: Coupon | null;
+  customerEmail: string;
+  // Where the provider sends the user after paying or giving up
+  successUrl: string;
+  cancelUrl: string;
+}
+
+// One-time payment for wallet credits
+export interface CreditPurchaseRequest {
+  // Echoed back in the credits.purchased event
+  userId: number;
+  credits: number;
+  customerEmail: string;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  id: string;
+  // Hosted payment page to redirect the user to
+  url: string;
+}
+
+// Provider webhooks, reduced to the events that change a subscription or a wallet
+export type PaymentEvent =
+  | { type: 'checkout.completed'; checkoutId: string; providerSubscriptionId: string | null }
+  | { type: 'credits.purchased'; checkoutId: string; userId: number; credits: number }
+  | { type: 'checkout.expired'; checkoutId: string }
+  // Renewals, failed payments, scheduled and immediate cancellations
+  | {
+    type: 'subscription.updated';
+    providerSubscriptionId: string;
+    status: SubscriptionStatus;
+    currentPeriodStart: Date;
+    currentPeriodEnd: Date;
+    cancelAtPeriodEnd: boolean;
+  };
+
+// Thrown by parseWebhook when the payload is not signed by the provider
+export class WebhookSignatureError extends Error {
+  constructor(message = 'Invalid webhook signature') {
+    super(message);
+    this.name = 'WebhookSignatureError';
+  }
+}
+
+export interface PaymentProvider {
+  // Stored on subscriptions and used in the webhook URL (/api/payments/webhooks/:name)
+  readonly name: string;
+  createCheckoutSession(request: CheckoutRequest): Promise<CheckoutSession>;
+  createCreditPurchaseSession(request: CreditPurchaseRequest): Promise<CheckoutSession>;
+  // Abandon a session so it can no longer be paid; throws if it was already completed
+  expireCheckoutSession(checkoutId: string): Promise<void>;
+  // Switch a subscription started at the plan's introductory price to the
+  // regular price once its introductory periods are over. Must be safe to repeat.
+  scheduleIntroductoryPricing(
+    providerSubscriptionId: string,
+    app: Pick<OAuthApp, 'id' | 'name'>,
+    plan: PricingPlan,
+    currency: string
+  ): Promise<void>;
+  // Move a subscription to another paid plan or seat count, charging or crediting
+  // the prorated difference now. Ends any introductory pricing.
+  changeSubscriptionPlan(
+    providerSubscriptionId: string,
+    app: Pick<OAuthApp, 'id' | 'name'>,
+    plan: PricingPlan,
+    quantity: number,
+    currency: string
+  ): Promise<void>;
+  // Collect a metered subscription's usage charge for a finished billing period
+  // now, on an invoice of its own. The amount is in minor units of the currency.
+  // Must be safe to repeat with the same reference.
+  chargeUsage(
+    providerSubscriptionId: string,
+    amount: number,
+    currency: string,
+    description: string,
+    reference: string
+  ): Promise<void>;
+  // Stop billing now, or let the current period run out
+  cancelSubscription(providerSubscriptionId: string, atPeriodEnd: boolean): Promise<void>;
+  // Undo a cancellation scheduled for the end of the period
+  resumeSubscription(providerSubscriptionId: string): Promise<void>;
+  // Verify the signature against the raw body and translate the payload.
+  // Returns null for events we don't act on.
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent | null;
+}
+
+// Stripe when STRIPE_SECRET_KEY is configured, otherwise a local fake provider
+// so checkout can be exercised offline
+export const paymentProvider: PaymentProvider = process.env.STRIPE_SECRET_KEY
+  ? new StripePaymentProvider(process.env.STRIPE_SECRET_KEY, process.env.STRIPE_WEBHOOK_SECRET ?? '')
+  : new FakePaymentProvider(process.env.FAKE_PAYMENT_WEBHOOK_SECRET ?? 'fake-payment-webhook-secret');
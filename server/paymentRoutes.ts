@@ -0,0 +1,107 @@
+/**
+ * Payment Routes: provider webhooks and the fake provider's checkout page
+ * Mounted at /api/payments, ahead of the JSON body parser so webhook
+ * signatures can be checked against the raw body
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import express, { Router, Request, Response } from 'express';
+import { paymentProvider, WebhookSignatureError } from './paymentProvider';
+import { FakePaymentProvider } from './fakePaymentProvider';
+import { applyPaymentEvent } from './subscriptionCheckout';
+import { creditsToPrice } from '../shared/credits';
+import { describePlanOffers } from '../shared/planOffers';
+import { describeCoupon } from '../shared/coupons';
+
+const router = Router();
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// Receive a webhook from the configured provider
+router.post('/webhooks/:provider', express.raw({ type: '*/*' }), async (req: Request, res: Response) => {
+  if (req.params.provider !== paymentProvider.name) {
+    return res.status(404).json({ message: 'Unknown payment provider' });
+  }
+
+  try {
+    const event = paymentProvider.parseWebhook(req.body, req.headers);
+    if (event) {
+      await applyPaymentEvent(event);
+    }
+    res.status(200).json({ received: true });
+  } catch (error) {
+    if (error instanceof WebhookSignatureError) {
+      return res.status(400).json({ message: error.message });
+    }
+    // A 500 makes the provider retry later
+    console.error('Error handling payment webhook:', error);
+    res.status(500).json({ message: 'Failed to handle payment webhook' });
+  }
+});
+
+// The fake provider's hosted checkout page. Only available when it is the configured provider.
+const getFakeCheckoutSession = (req: Request, res: Response) => {
+  const session = paymentProvider instanceof FakePaymentProvider
+    ? paymentProvider.getCheckoutSession(req.params.id)
+    : undefined;
+  if (!session) {
+    res.status(404).json({ message: 'Checkout session not found' });
+    return null;
+  }
+  return session;
+};
+
+router.get('/fake/checkout/:id', (req: Request, res: Response) => {
+  const session = getFakeCheckoutSession(req, res);
+  if (!session) return;
+
+  const { request } = session;
+  const [title, amount] = 'credits' in request
+    ? ['Marketplace credits', `${request.credits} credits: $${creditsToPrice(request.credits).toFixed(2)}`]
+    : [
+      `${request.app.name}: ${request.plan.name}`,
+      `${request.quantity > 1 ? `${request.quantity} seats, ` : ''}${describePlanOffers(request.plan, request.trialDays > 0, request.currency)}` +
+        (request.coupon ? `; ${request.coupon.code}: ${describeCoupon(request.coupon)}` : '')
+    ];
+  const action = `/api/payments/fake/checkout/${encodeURIComponent(session.id)}`;
+  res.status(200).type('html').send(`<!doctype html>
+<html>
+  <head><title>Fake checkout</title></head>
+  <body>
+    <h1>${escapeHtml(title)}</h1>
+    <p>${escapeHtml(amount)}</p>
+    ${session.status === 'open' ? `
+    <form method="post" action="${action}/pay"><button type="submit">Pay</button></form>
+    <form method="post" action="${action}/cancel"><button type="submit">Cancel</button></form>` : `
+    <p>This checkout session is ${session.status}.</p>`}
+  </body>
+</html>`);
+});
+
+// Simulate a successful payment: deliver the webhook, then return to the app like the real provider would
+router.post('/fake/checkout/:id/pay', async (req: Request, res: Response) => {
+  try {
+    const session = getFakeCheckoutSession(req, res);
+    if (!session) return;
+
+    const event = (paymentProvider as FakePaymentProvider).payCheckoutSession(session.id);
+    if (!event) {
+      return res.status(409).json({ message: `Checkout session is ${session.status}` });
+    }
+    await applyPaymentEvent(event);
+    res.redirect(303, session.request.successUrl);
+  } catch (error) {
+    console.error('Error completing fake checkout:', error);
+    res.status(500).json({ message: 'Failed to complete checkout' });
+  }
+});
+
+// Leaving the page doesn't end the session; it expires later or when a new checkout replaces it
+router.post('/fake/checkout/:id/cancel', (req: Request, res: Response) => {
+  const session = getFakeCheckoutSession(req, res);
+  if (!session) return;
+  res.redirect(303, session.request.cancelUrl);
+});
+
+export default router;
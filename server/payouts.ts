@@ -0,0 +1,76 @@
+/**
+ * Developer payouts: requests against earnings, admin processing and CSV export
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { storage } from './storage';
+import { draftPayout, draftPayoutReversal, InsufficientCreditsError } from './creditsLedger';
+import { PayoutRequest, User } from '../shared/schema';
+import { creditsToPrice } from '../shared/credits';
+
+// Take the amount out of the developer's earnings and queue it for an admin to pay.
+// Throws InsufficientCreditsError when the earnings don't cover it.
+export const requestPayout = async (userId: number, amount: number): Promise<PayoutRequest> => {
+  const request = await storage.createPayoutRequest(
+    { userId, amount },
+    draftPayout(userId, amount, `Payout of ${amount} credits`)
+  );
+  if (!request) {
+    throw new InsufficientCreditsError('Not enough earnings for this payout');
+  }
+  return request;
+};
+
+// The money has been sent. Returns undefined if the request was already processed.
+export const completePayout = (request: PayoutRequest, note: string | null) =>
+  storage.processPayoutRequest(request.id, 'paid', note);
+
+// Refuse the request and return the amount to the developer's earnings.
+// Returns undefined if the request was already processed. Throws
+// InsufficientCreditsError, leaving the request pending, when the amount
+// can't be returned.
+export const rejectPayout = async (request: PayoutRequest, note: string): Promise<PayoutRequest | undefined> => {
+  const rejected = await storage.processPayoutRequest(request.id, 'rejected', note, draftPayoutReversal(
+    request.userId,
+    request.amount,
+    `Payout request ${request.id} rejected`,
+    `payout-request:${request.id}:rejected`
+  ));
+  if (!rejected && (await storage.getPayoutRequest(request.id))?.status === 'pending') {
+    throw new InsufficientCreditsError('The payout could not be returned to the developer\'s earnings');
+  }
+  return rejected;
+};
+
+// Quote fields that need it, and keep spreadsheets from evaluating user-supplied text as formulas
+const csvField = (value: string | number | null): string => {
+  let text = value === null ? '' : String(value);
+  if (/^[=+\-@]/.test(text) && typeof value === 'string') {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS = [
+  'id', 'user_id', 'username', 'email', 'amount_credits', 'amount_usd',
+  'status', 'requested_at', 'processed_at', 'note'
+];
+
+export const toPayoutCsv = (requests: PayoutRequest[], users: Map<number, User>): string => {
+  const rows = requests.map(request => {
+    const user = users.get(request.userId);
+    return [
+      request.id,
+      request.userId,
+      user?.username ?? null,
+      user?.email ?? null,
+      request.amount,
+      creditsToPrice(request.amount).toFixed(2),
+      request.status,
+      request.requestedAt.toISOString(),
+      request.processedAt?.toISOString() ?? null,
+      request.note
+    ].map(csvField).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
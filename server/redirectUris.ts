@@ -0,0 +1,61 @@
+/**
+ * Redirect URI registration rules for OAuth apps
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+export const MAX_REDIRECT_URIS = 10;
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+// Validate a single redirect URI. Returns an error message or null.
+export const validateRedirectUri = (uri: string): string | null => {
+  if (uri.includes('#')) {
+    return `Redirect URI must not contain a fragment: ${uri}`;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return `Redirect URI is not an absolute URL: ${uri}`;
+  }
+
+  if (url.hostname.includes('*')) {
+    return `Redirect URI host must not contain wildcards: ${uri}`;
+  }
+  if (url.username || url.password) {
+    return `Redirect URI must not contain credentials: ${uri}`;
+  }
+
+  const isLoopback = LOOPBACK_HOSTS.includes(url.hostname);
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && isLoopback)) {
+    return `Redirect URI must use HTTPS unless it points to a loopback address: ${uri}`;
+  }
+
+  return null;
+};
+
+// Validate the full list registered for an app. Returns an error message or null.
+export const validateRedirectUris = (uris: unknown): string | null => {
+  if (!Array.isArray(uris) || uris.length === 0) {
+    return 'At least one redirect URI is required';
+  }
+  if (uris.length > MAX_REDIRECT_URIS) {
+    return `No more than ${MAX_REDIRECT_URIS} redirect URIs may be registered`;
+  }
+
+  for (const uri of uris) {
+    if (typeof uri !== 'string') {
+      return 'Redirect URIs must be strings';
+    }
+    const error = validateRedirectUri(uri);
+    if (error) {
+      return error;
+    }
+  }
+
+  if (new Set(uris).size !== uris.length) {
+    return 'Redirect URIs must be unique';
+  }
+  return null;
+};
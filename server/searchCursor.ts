@@ -0,0 +1,29 @@
+/**
+ * Opaque cursors for keyset pagination of marketplace search results
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+// Position of the last app on a page. Text searches are ordered by
+// (rank desc, id desc); browsing without a query by id desc, so rank is null.
+export interface SearchCursor {
+  rank: number | null;
+  id: number;
+}
+
+export const encodeSearchCursor = (cursor: SearchCursor): string => {
+  return Buffer.from(JSON.stringify([cursor.rank, cursor.id])).toString('base64url');
+};
+
+// Returns null for malformed cursors
+export const decodeSearchCursor = (value: string): SearchCursor | null => {
+  try {
+    const decoded = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (!Array.isArray(decoded) || decoded.length !== 2) return null;
+
+    const [rank, id] = decoded;
+    if (!Number.isInteger(id) || (rank !== null && !Number.isFinite(rank))) return null;
+    return { rank, id };
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,273 @@
+/**
+ * Storage interface for the OAuth App Marketplace
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import {
+  User,
+  InsertUser,
+  OAuthApp,
+  InsertOAuthApp,
+  AppCategory,
+  InsertAppCategory,
+  PricingPlan,
+  InsertPricingPlan,
+  AppSubscription,
+  InsertAppSubscription,
+  Coupon,
+  InsertCoupon,
+  CouponRedemption,
+  InsertCouponRedemption,
+  UsageRecord,
+  InsertUsageRecord,
+  Invoice,
+  InvoiceStatus,
+  InsertInvoice,
+  CreditAccount,
+  CreditAccountType,
+  CreditPosting,
+  CreditTransactionDraft,
+  CreditTransaction,
+  InsertCreditTransaction,
+  WalletTransaction,
+  EarningsReportRow,
+  PayoutRequest,
+  PayoutStatus,
+  InsertPayoutRequest,
+  AppReview,
+  InsertAppReview,
+  OAuthAuthorizationCode,
+  InsertOAuthAuthorizationCode,
+  OAuthToken,
+  InsertOAuthToken,
+  OAuthGrant,
+  InsertOAuthGrant,
+  SigningKey,
+  InsertSigningKey,
+  AppListingStats,
+  MarketplaceSearchResult
+} from '../shared/schema';
+import { MarketplaceSearchParams } from '../shared/validation';
+import { SearchCursor } from './searchCursor';
+import { DatabaseStorage } from './databaseStorage';
+import { MemStorage } from './memStorage';
+
+export interface IStorage {
+  // Users
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+
+  // OAuth apps
+  getOAuthApp(id: number): Promise<OAuthApp | undefined>;
+  getOAuthAppByClientId(clientId: string): Promise<OAuthApp | undefined>;
+  getUserOAuthApps(userId: number): Promise<OAuthApp[]>;
+  // Published apps that are listed in the marketplace
+  getPublishedOAuthApps(): Promise<OAuthApp[]>;
+  // Optionally restricted to a category and its subcategories
+  getTopRatedOAuthApps(limit: number, categoryId?: number): Promise<OAuthApp[]>;
+  // Most recently published marketplace apps
+  getRecentOAuthApps(limit: number): Promise<OAuthApp[]>;
+  // Ratings, installs and starting price, with an entry for every requested app.
+  // Prices are in the currency when the app's public plans are sold in it (getStartingPrice).
+  getAppListingStats(appIds: number[], currency: string): Promise<Map<number, AppListingStats>>;
+  // Full-text search over name, description and public plan features, returning
+  // the page after `after` together with the total number of matches. The
+  // price filter only matches plans sold in params.currency.
+  searchMarketplaceApps(
+    params: Omit<MarketplaceSearchParams, 'cursor'>,
+    after: SearchCursor | null
+  ): Promise<MarketplaceSearchResult<OAuthApp>>;
+  createOAuthApp(app: InsertOAuthApp): Promise<OAuthApp>;
+  // Throws if the app does not exist
+  updateOAuthApp(id: number, updates: Partial<InsertOAuthApp>): Promise<OAuthApp>;
+  // Whether any subscription, even an ended one, is to the app
+  isOAuthAppInUse(id: number): Promise<boolean>;
+  // Also removes the app's plans, coupons, reviews, codes, tokens and grants; invoices
+  // are kept. Throws if the app is in use (isOAuthAppInUse).
+  deleteOAuthApp(id: number): Promise<void>;
+
+  // App categories
+  // Ordered by position, then name
+  getAppCategories(): Promise<AppCategory[]>;
+  getAppCategory(id: number): Promise<AppCategory | undefined>;
+  getAppCategoryBySlug(slug: string): Promise<AppCategory | undefined>;
+  createAppCategory(category: InsertAppCategory): Promise<AppCategory>;
+  updateAppCategory(id: number, updates: Partial<InsertAppCategory>): Promise<AppCategory>;
+  // Throws if the category has subcategories; its apps become uncategorized
+  deleteAppCategory(id: number): Promise<void>;
+
+  // Pricing plans
+  getPricingPlan(id: number): Promise<PricingPlan | undefined>;
+  // In the developer's order, archived plans included
+  getAppPricingPlans(appId: number): Promise<PricingPlan[]>;
+  // Listed after the app's other plans unless given a position
+  createPricingPlan(plan: InsertPricingPlan): Promise<PricingPlan>;
+  updatePricingPlan(id: number, updates: Partial<InsertPricingPlan>): Promise<PricingPlan>;
+  // planIds must be all of the app's plans; each takes its index as position.
+  // Returns the plans in their new order.
+  reorderPricingPlans(appId: number, planIds: number[]): Promise<PricingPlan[]>;
+  // Whether any subscription, even an ended one, is on the plan or moving to it
+  isPricingPlanInUse(id: number): Promise<boolean>;
+  // Throws if the plan is in use (isPricingPlanInUse)
+  deletePricingPlan(id: number): Promise<void>;
+
+  // Subscriptions
+  getAppSubscription(id: number): Promise<AppSubscription | undefined>;
+  getUserSubscriptions(userId: number): Promise<AppSubscription[]>;
+  // The user's live subscription to the app (see LIVE_SUBSCRIPTION_STATUSES), if any
+  getUserAppSubscription(userId: number, appId: number): Promise<AppSubscription | undefined>;
+  getAppSubscriptionByCheckoutId(paymentProvider: string, checkoutId: string): Promise<AppSubscription | undefined>;
+  getAppSubscriptionByProviderSubscriptionId(
+    paymentProvider: string,
+    providerSubscriptionId: string
+  ): Promise<AppSubscription | undefined>;
+  createAppSubscription(subscription: InsertAppSubscription): Promise<AppSubscription>;
+  updateAppSubscription(id: number, updates: Partial<InsertAppSubscription>): Promise<AppSubscription>;
+  // The plan's live subscriptions (see LIVE_SUBSCRIPTION_STATUSES)
+  getLivePlanSubscriptions(planId: number): Promise<AppSubscription[]>;
+  // Currencies the plan's live subscriptions are billed in
+  getLiveSubscriptionCurrencies(planId: number): Promise<string[]>;
+  // Trialing, active and past due subscriptions whose period has ended by now and
+  // that we bill ourselves or that cancel at its end, or whose move to another
+  // plan is due, soonest period end first (see settleSubscription)
+  getSubscriptionsDueForSettlement(now: Date): Promise<AppSubscription[]>;
+
+  // Trials
+  hasUsedTrial(userId: number, appId: number): Promise<boolean>;
+  // Records the user's trial of the app; false if they have already had one
+  recordAppTrial(userId: number, appId: number): Promise<boolean>;
+
+  // Coupons
+  getCoupon(id: number): Promise<Coupon | undefined>;
+  // The code must already be normalized (normalizeCouponCode)
+  getCouponByCode(appId: number, code: string): Promise<Coupon | undefined>;
+  // Newest first
+  getAppCoupons(appId: number): Promise<Coupon[]>;
+  // Undefined, creating nothing, if the app already has a coupon with the code
+  createCoupon(coupon: InsertCoupon): Promise<Coupon | undefined>;
+  // Throws if the coupon does not exist
+  updateCoupon(id: number, updates: Partial<Pick<Coupon, 'isActive' | 'maxRedemptions' | 'expiresAt'>>): Promise<Coupon>;
+  // The user's redemption of the coupon, if they have used it
+  getUserCouponRedemption(couponId: number, userId: number): Promise<CouponRedemption | undefined>;
+  // Records the redemption and counts it against the coupon in a single step.
+  // Undefined, recording nothing, if the coupon has reached maxRedemptions or
+  // the user has already redeemed it.
+  redeemCoupon(redemption: InsertCouponRedemption): Promise<CouponRedemption | undefined>;
+  // Undoes the subscription's redemption, if it has one, so the code can be used again
+  releaseCouponRedemption(subscriptionId: number): Promise<void>;
+  // Newest first
+  getCouponRedemptions(couponId: number): Promise<CouponRedemption[]>;
+
+  // Usage records
+  // Undefined, recording nothing, if the app has already used the idempotency key
+  createUsageRecord(record: InsertUsageRecord): Promise<UsageRecord | undefined>;
+  getUsageRecordByIdempotencyKey(appId: number, idempotencyKey: string): Promise<UsageRecord | undefined>;
+  // Total quantity of the subscription's usage that occurred from `from` up to, not including, `to`
+  getUsageTotal(subscriptionId: number, from: Date, to: Date): Promise<number>;
+
+  // Invoices
+  getInvoice(id: number): Promise<Invoice | undefined>;
+  getInvoiceByReference(reference: string): Promise<Invoice | undefined>;
+  // Newest first, leaving out drafts, optionally only those in one status
+  getUserInvoices(userId: number, status?: InvoiceStatus): Promise<Invoice[]>;
+  // Invoices for any of the apps, newest first, leaving out drafts
+  getAppInvoices(appIds: number[], status?: InvoiceStatus): Promise<Invoice[]>;
+  // The subscription's draft and open invoices
+  getUnpaidInvoices(subscriptionId: number): Promise<Invoice[]>;
+  // Creates a draft. Undefined, creating nothing, if the reference was already used.
+  createInvoice(invoice: InsertInvoice): Promise<Invoice | undefined>;
+  // Throws if the invoice does not exist
+  updateInvoice(id: number, updates: Partial<InsertInvoice>): Promise<Invoice>;
+  // Moves the invoice to the status, stamping finalizedAt, paidAt or voidedAt and
+  // numbering it when it is finalized, and returns it; undefined, changing nothing,
+  // if INVOICE_TRANSITIONS doesn't allow the change from its current status
+  transitionInvoice(id: number, status: InvoiceStatus, updates?: Partial<InsertInvoice>): Promise<Invoice | undefined>;
+
+  // Credits ledger
+  // The user's account of this type, or the platform account when userId is null;
+  // undefined until the account is first used
+  getCreditAccount(userId: number | null, type: CreditAccountType): Promise<CreditAccount | undefined>;
+  // Records a transaction and applies its postings, which must sum to zero, to
+  // account balances and to User.credits in a single step. Returns undefined,
+  // changing nothing, if a posting would overdraw an OVERDRAFT_PROTECTED_ACCOUNTS
+  // account (refunds may). A reference that was already recorded returns the
+  // earlier transaction instead.
+  recordCreditTransaction(
+    transaction: InsertCreditTransaction,
+    postings: CreditPosting[]
+  ): Promise<CreditTransaction | undefined>;
+  // Newest first, optionally only transactions older than `before`
+  getWalletTransactions(userId: number, limit: number, before?: number): Promise<WalletTransaction[]>;
+  // Plan payments and refunds in the developer's earnings account, totalled
+  // by app, plan and month, newest month first
+  getEarningsReport(userId: number): Promise<EarningsReportRow[]>;
+
+  // Payout requests
+  getPayoutRequest(id: number): Promise<PayoutRequest | undefined>;
+  // Newest first
+  getUserPayoutRequests(userId: number): Promise<PayoutRequest[]>;
+  // Newest first, optionally only those in one status
+  getPayoutRequests(status?: PayoutStatus): Promise<PayoutRequest[]>;
+  // Records the payout's transaction, as recordCreditTransaction, and the request
+  // for it in a single step. Returns undefined, changing nothing, if the payout
+  // would overdraw the developer's earnings.
+  createPayoutRequest(
+    request: Omit<InsertPayoutRequest, 'transactionId'>,
+    payout: CreditTransactionDraft
+  ): Promise<PayoutRequest | undefined>;
+  // Marks a pending request paid or rejected and returns it, or undefined if it
+  // was no longer pending. A reversal is recorded in the same step; if it would
+  // overdraw an account, as recordCreditTransaction, this returns undefined
+  // and changes nothing.
+  processPayoutRequest(
+    id: number,
+    status: Exclude<PayoutStatus, 'pending'>,
+    note: string | null,
+    reversal?: CreditTransactionDraft
+  ): Promise<PayoutRequest | undefined>;
+
+  // Reviews
+  getAppReview(id: number): Promise<AppReview | undefined>;
+  getAppReviews(appId: number): Promise<AppReview[]>;
+  getUserAppReview(userId: number, appId: number): Promise<AppReview | undefined>;
+  createAppReview(review: InsertAppReview): Promise<AppReview>;
+  updateAppReview(id: number, updates: Partial<Pick<AppReview, 'rating' | 'reviewText'>>): Promise<AppReview>;
+  deleteAppReview(id: number): Promise<void>;
+
+  // Authorization codes
+  createAuthorizationCode(code: InsertOAuthAuthorizationCode): Promise<OAuthAuthorizationCode>;
+  getAuthorizationCodeByHash(codeHash: string): Promise<OAuthAuthorizationCode | undefined>;
+  // Marks the code used and returns it, or undefined if it was already used
+  consumeAuthorizationCode(codeHash: string): Promise<OAuthAuthorizationCode | undefined>;
+
+  // Tokens
+  createOAuthToken(token: InsertOAuthToken): Promise<OAuthToken>;
+  getOAuthTokenByAccessTokenHash(accessTokenHash: string): Promise<OAuthToken | undefined>;
+  getOAuthTokenByRefreshTokenHash(refreshTokenHash: string): Promise<OAuthToken | undefined>;
+  // Revokes the token and returns it, or undefined if it was already revoked
+  revokeOAuthToken(id: number): Promise<OAuthToken | undefined>;
+  revokeOAuthTokensByAuthorizationCode(authorizationCodeId: number): Promise<void>;
+  // Unrevoked tokens whose access or refresh token has not expired
+  countActiveOAuthTokens(userId: number, appId: number): Promise<number>;
+
+  // Grants
+  // Creates the grant or adds scopes to an existing one
+  upsertOAuthGrant(grant: InsertOAuthGrant): Promise<OAuthGrant>;
+  getUserOAuthGrants(userId: number): Promise<OAuthGrant[]>;
+  // Deletes the grant and revokes its tokens and unused codes; false if there was no grant
+  revokeOAuthGrant(userId: number, appId: number): Promise<boolean>;
+
+  // Signing keys
+  getSigningKeys(): Promise<SigningKey[]>;
+  getActiveSigningKey(): Promise<SigningKey | undefined>;
+  // Stores a new active key and retires the current one in a single step
+  rotateSigningKey(key: InsertSigningKey, publishRetiredUntil: Date): Promise<SigningKey>;
+  deleteExpiredSigningKeys(now: Date): Promise<void>;
+}
+
+// PostgreSQL when DATABASE_URL is configured, otherwise an in-memory store
+// for local development and route tests
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage()
+  : new MemStorage();
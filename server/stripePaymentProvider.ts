@@ -0,0 +1,293 @@
+/**
+ * Stripe Checkout implementation of the payment provider interface
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { IncomingHttpHeaders } from 'http';
+import Stripe from 'stripe';
+import { Coupon, OAuthApp, PricingPlan, SubscriptionStatus } from '../shared/schema';
+import { CREDITS_PER_DOLLAR } from '../shared/credits';
+import { getPlanPrices } from '../shared/currency';
+import {
+  CheckoutRequest,
+  CheckoutSession,
+  CreditPurchaseRequest,
+  PaymentEvent,
+  PaymentProvider,
+  WebhookSignatureError
+} from './paymentProvider';
+
+// The API version the calls below are written against, that of stripe-node 22.
+// Subscription schedule phases are sized with `duration` from this version on.
+const STRIPE_API_VERSION = '2026-08-26.dahlia';
+
+const STRIPE_INTERVALS: Record<string, Stripe.Price.Recurring.Interval> = {
+  monthly: 'month',
+  yearly: 'year'
+};
+
+// Stripe statuses we track; incomplete and paused subscriptions are left alone
+const SUBSCRIPTION_STATUSES: Partial<Record<Stripe.Subscription.Status, SubscriptionStatus>> = {
+  trialing: 'trialing',
+  active: 'active',
+  past_due: 'past_due',
+  unpaid: 'past_due',
+  canceled: 'canceled',
+  incomplete_expired: 'expired'
+};
+
+// The subscription id on a session is expanded or a bare id depending on the request
+const getSubscriptionId = (session: Stripe.Checkout.Session): string | null =>
+  typeof session.subscription === 'string' ? session.subscription : session.subscription?.id ?? null;
+
+const getId = (value: string | { id: string }): string => typeof value === 'string' ? value : value.id;
+
+// The plan's prices in the subscription's currency, in minor units as Stripe expects.
+// Callers only bill plans in currencies they are sold in.
+const getStripePrices = (plan: PricingPlan, currency: string) => getPlanPrices(plan, currency)!;
+
+// A single-use Stripe coupon mirroring ours. Stripe counts repeating discounts
+// in months rather than billing periods.
+const toStripeCoupon = (coupon: Coupon, plan: PricingPlan): Stripe.CouponCreateParams => ({
+  ...(coupon.discountType === 'percent'
+    ? { percent_off: coupon.discountValue }
+    : { amount_off: coupon.discountValue, currency: coupon.currency!.toLowerCase() }),
+  duration: coupon.duration,
+  duration_in_months: coupon.duration === 'repeating' && coupon.durationPeriods
+    ? coupon.durationPeriods * (plan.billingInterval === 'yearly' ? 12 : 1)
+    : undefined,
+  max_redemptions: 1,
+  name: coupon.code
+});
+
+// Credit purchases are one-time payments tagged through metadata
+const toCompletedEvent = (session: Stripe.Checkout.Session): PaymentEvent =>
+  session.metadata?.purpose === 'credits'
+    ? {
+      type: 'credits.purchased',
+      checkoutId: session.id,
+      userId: Number(session.metadata.userId),
+      credits: Number(session.metadata.credits)
+    }
+    : { type: 'checkout.completed', checkoutId: session.id, providerSubscriptionId: getSubscriptionId(session) };
+
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe';
+  private stripe: Stripe;
+
+  constructor(secretKey: string, private webhookSecret: string) {
+    this.stripe = new Stripe(secretKey, { apiVersion: STRIPE_API_VERSION });
+  }
+
+  async createCheckoutSession(request: CheckoutRequest): Promise<CheckoutSession> {
+    // Plans are priced inline so they don't have to be mirrored as Stripe products.
+    // Introductory prices are billed from the start; scheduleIntroductoryPricing
+    // moves the subscription to the regular price afterwards.
+    const discounts = request.coupon
+      ? [{ coupon: (await this.stripe.coupons.create(toStripeCoupon(request.coupon, request.plan))).id }]
+      : undefined;
+    const prices = getStripePrices(request.plan, request.currency);
+    const session = await this.stripe.checkout.sessions.create({
+      mode: 'subscription',
+      line_items: [{
+        quantity: request.quantity,
+        price_data: {
+          currency: request.currency.toLowerCase(),
+          unit_amount: prices.introPrice ?? prices.price,
+          recurring: { interval: STRIPE_INTERVALS[request.plan.billingInterval] },
+          product_data: { name: `${request.app.name} (${request.plan.name})` }
+        }
+      }],
+      subscription_data: request.trialDays > 0 ? { trial_period_days: request.trialDays } : undefined,
+      discounts,
+      customer_email: request.customerEmail,
+      client_reference_id: request.reference,
+      metadata: { appId: String(request.app.id), planId: String(request.plan.id) },
+      success_url: request.successUrl,
+      cancel_url: request.cancelUrl
+    });
+    return { id: session.id, url: session.url! };
+  }
+
+  async createCreditPurchaseSession(request: CreditPurchaseRequest): Promise<CheckoutSession> {
+    const session = await this.stripe.checkout.sessions.create({
+      mode: 'payment',
+      line_items: [{
+        quantity: request.credits,
+        price_data: {
+          currency: 'usd',
+          unit_amount: 100 / CREDITS_PER_DOLLAR,
+          product_data: { name: 'Marketplace credits' }
+        }
+      }],
+      customer_email: request.customerEmail,
+      client_reference_id: String(request.userId),
+      metadata: { purpose: 'credits', userId: String(request.userId), credits: String(request.credits) },
+      success_url: request.successUrl,
+      cancel_url: request.cancelUrl
+    });
+    return { id: session.id, url: session.url! };
+  }
+
+  async expireCheckoutSession(checkoutId: string): Promise<void> {
+    const session = await this.stripe.checkout.sessions.retrieve(checkoutId);
+    if (session.status === 'complete') {
+      throw new Error(`Checkout session ${checkoutId} is already complete`);
+    }
+    if (session.status === 'open') {
+      await this.stripe.checkout.sessions.expire(checkoutId);
+    }
+  }
+
+  async scheduleIntroductoryPricing(
+    providerSubscriptionId: string,
+    app: Pick<OAuthApp, 'id' | 'name'>,
+    plan: PricingPlan,
+    currency: string
+  ): Promise<void> {
+    if (plan.introPeriods === null) return;
+
+    const subscription = await this.stripe.subscriptions.retrieve(providerSubscriptionId);
+    const schedule = subscription.schedule
+      ? await this.stripe.subscriptionSchedules.retrieve(getId(subscription.schedule))
+      : await this.stripe.subscriptionSchedules.create({ from_subscription: providerSubscriptionId });
+    // Already scheduled by an earlier delivery of the webhook
+    if (schedule.phases.length > 1) return;
+
+    const [current] = schedule.phases;
+    const [item] = subscription.items.data;
+    const introItems = current.items.map(phaseItem => ({ price: getId(phaseItem.price), quantity: phaseItem.quantity }));
+    const interval = STRIPE_INTERVALS[plan.billingInterval];
+    const introDuration = { interval, interval_count: plan.introPeriods };
+    // A trial is a phase of its own, so the introductory periods are counted after it
+    const introPhases: Stripe.SubscriptionScheduleUpdateParams.Phase[] = subscription.status === 'trialing'
+      ? [
+        { items: introItems, start_date: current.start_date, end_date: current.end_date, trial: true },
+        { items: introItems, duration: introDuration }
+      ]
+      : [{ items: introItems, start_date: current.start_date, duration: introDuration }];
+
+    await this.stripe.subscriptionSchedules.update(schedule.id, {
+      // After the regular-price phase the subscription carries on by itself at that price
+      end_behavior: 'release',
+      phases: [
+        ...introPhases,
+        {
+          items: [{
+            quantity: item.quantity,
+            price_data: {
+              currency: currency.toLowerCase(),
+              unit_amount: getStripePrices(plan, currency).price,
+              recurring: { interval },
+              product: getId(item.price.product)
+            }
+          }],
+          duration: { interval, interval_count: 1 }
+        }
+      ],
+      metadata: { appId: String(app.id), planId: String(plan.id) }
+    });
+  }
+
+  async changeSubscriptionPlan(
+    providerSubscriptionId: string,
+    app: Pick<OAuthApp, 'id' | 'name'>,
+    plan: PricingPlan,
+    quantity: number,
+    currency: string
+  ): Promise<void> {
+    const subscription = await this.stripe.subscriptions.retrieve(providerSubscriptionId);
+    // Otherwise the introductory schedule would later replace the new plan's price
+    if (subscription.schedule) {
+      await this.stripe.subscriptionSchedules.release(getId(subscription.schedule));
+    }
+    const [item] = subscription.items.data;
+    await this.stripe.subscriptions.update(providerSubscriptionId, {
+      items: [{
+        id: item.id,
+        quantity,
+        price_data: {
+          currency: currency.toLowerCase(),
+          unit_amount: getStripePrices(plan, currency).price,
+          recurring: { interval: STRIPE_INTERVALS[plan.billingInterval] },
+          product: getId(item.price.product)
+        }
+      }],
+      // Invoice the difference immediately so it matches the preview we showed
+      proration_behavior: 'always_invoice',
+      metadata: { appId: String(app.id), planId: String(plan.id) }
+    });
+  }
+
+  async chargeUsage(
+    providerSubscriptionId: string,
+    amount: number,
+    currency: string,
+    description: string,
+    reference: string
+  ): Promise<void> {
+    const subscription = await this.stripe.subscriptions.retrieve(providerSubscriptionId);
+    const customer = getId(subscription.customer);
+    // Stripe's idempotency keys make a retried call return the first result
+    await this.stripe.invoiceItems.create(
+      { customer, amount, currency: currency.toLowerCase(), description },
+      { idempotencyKey: `${reference}:item` }
+    );
+    // Invoiced on its own so the usage is collected now rather than with the next renewal
+    await this.stripe.invoices.create(
+      { customer, description, pending_invoice_items_behavior: 'include', auto_advance: true },
+      { idempotencyKey: `${reference}:invoice` }
+    );
+  }
+
+  async cancelSubscription(providerSubscriptionId: string, atPeriodEnd: boolean): Promise<void> {
+    if (atPeriodEnd) {
+      await this.stripe.subscriptions.update(providerSubscriptionId, { cancel_at_period_end: true });
+    } else {
+      await this.stripe.subscriptions.cancel(providerSubscriptionId);
+    }
+  }
+
+  async resumeSubscription(providerSubscriptionId: string): Promise<void> {
+    await this.stripe.subscriptions.update(providerSubscriptionId, { cancel_at_period_end: false });
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent | null {
+    let event: Stripe.Event;
+    try {
+      event = this.stripe.webhooks.constructEvent(rawBody, headers['stripe-signature'] ?? '', this.webhookSecret);
+    } catch {
+      throw new WebhookSignatureError();
+    }
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+        // Delayed payment methods complete the session before the money arrives;
+        // those are confirmed by async_payment_succeeded instead
+        if (event.data.object.payment_status === 'unpaid') return null;
+        return toCompletedEvent(event.data.object);
+      case 'checkout.session.async_payment_succeeded':
+        return toCompletedEvent(event.data.object);
+      case 'checkout.session.expired':
+      case 'checkout.session.async_payment_failed':
+        return { type: 'checkout.expired', checkoutId: event.data.object.id };
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted': {
+        const subscription = event.data.object;
+        const status = SUBSCRIPTION_STATUSES[subscription.status];
+        const [item] = subscription.items.data;
+        if (!status || !item) return null;
+        return {
+          type: 'subscription.updated',
+          providerSubscriptionId: subscription.id,
+          status,
+          currentPeriodStart: new Date(item.current_period_start * 1000),
+          currentPeriodEnd: new Date(item.current_period_end * 1000),
+          cancelAtPeriodEnd: subscription.cancel_at_period_end
+        };
+      }
+      default:
+        return null;
+    }
+  }
+}
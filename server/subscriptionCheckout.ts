@@ -0,0 +1,382 @@
+/**
+ * Subscription checkout: starts provider checkout sessions and applies their webhooks
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { storage } from './storage';
+import { paymentProvider, PaymentEvent } from './paymentProvider';
+import {
+  addBillingInterval,
+  billUsageUntil,
+  getCouponDiscount,
+  getIntroOffer,
+  getPeriodLines,
+  getPeriodPrice,
+  getRenewalReference,
+  getTrialEnd,
+  transitionSubscription
+} from './subscriptionLifecycle';
+import { chargeSubscription, recordCreditPurchase, recordProviderPayment } from './creditsLedger';
+import { InvoiceRequest, openInvoice, recordPaidInvoice, voidUnpaidInvoices } from './invoices';
+import { redeemCoupon } from './coupons';
+import { amountToCredits } from './exchangeRates';
+import { AppSubscription, Coupon, OAuthApp, PricingPlan, User } from '../shared/schema';
+import { canTransition } from '../shared/subscriptionLifecycle';
+import { CREDITS_PAYMENT_METHOD } from '../shared/credits';
+import { getInvoiceTotals } from '../shared/invoices';
+import { getBilledSeats, isFreePlan } from '../shared/planPricing';
+
+// The currency a subscription is billed in, one of its plan's, and the billing
+// address its tax is worked out from
+export type BillingDetails = Pick<AppSubscription, 'currency' | 'billingCountry' | 'billingRegion'>;
+
+export interface CheckoutResult {
+  subscription: AppSubscription;
+  // Provider payment page; null when the plan is free and the subscription is already active
+  checkoutUrl: string | null;
+}
+
+// Paid plans with a trial offer one to users who haven't tried the app before
+export const isTrialAvailable = async (userId: number, plan: PricingPlan): Promise<boolean> =>
+  !isFreePlan(plan) && plan.trialDays > 0 && !(await storage.hasUsedTrial(userId, plan.appId));
+
+// What subscribing to the plan costs now: nothing during a trial, otherwise
+// the first period for all seats, at the introductory price if there is one
+// and less the coupon's discount. In minor units of the currency.
+export const getAmountDueAtCheckout = async (
+  userId: number,
+  plan: PricingPlan,
+  seats = 1,
+  coupon: Coupon | null = null,
+  currency = plan.currency
+): Promise<number> => {
+  if (await isTrialAvailable(userId, plan)) {
+    return 0;
+  }
+  const now = new Date();
+  const offers = { ...getIntroOffer(plan, now, currency), ...getCouponDiscount(coupon, plan, now) };
+  return getPeriodPrice({ ...offers, seats, currency }, plan, now);
+};
+
+// Create a subscription to the plan, billed as the billing details say. Paid plans stay pending until the provider
+// confirms payment through its webhook, unless they are paid from the wallet.
+// A trial, when the user is eligible for one, starts once checkout completes.
+// Seats only count on per-seat plans. The coupon, checked by
+// findRedeemableCoupon, is redeemed for the new subscription. Throws
+// InsufficientCreditsError when the wallet can't cover the first period and
+// CouponError when the coupon ran out meanwhile.
+export const startCheckout = async (
+  user: User,
+  app: OAuthApp,
+  plan: PricingPlan,
+  baseUrl: string,
+  billing: BillingDetails,
+  payWithCredits = false,
+  requestedSeats = 1,
+  coupon: Coupon | null = null
+): Promise<CheckoutResult> => {
+  const seats = getBilledSeats(plan, requestedSeats);
+  if (isFreePlan(plan)) {
+    const now = new Date();
+    const subscription = await storage.createAppSubscription({
+      userId: user.id,
+      appId: app.id,
+      planId: plan.id,
+      seats,
+      ...billing,
+      status: 'active',
+      startDate: now,
+      currentPeriodStart: now,
+      currentPeriodEnd: addBillingInterval(now, plan.billingInterval)
+    });
+    return { subscription, checkoutUrl: null };
+  }
+
+  const withTrial = await isTrialAvailable(user.id, plan);
+  if (payWithCredits) {
+    return { subscription: await startCreditsSubscription(user, app, plan, seats, billing, withTrial, coupon), checkoutUrl: null };
+  }
+
+  // The trial end is provisional until checkout completes; it marks that a trial was offered
+  const now = new Date();
+  let subscription = await storage.createAppSubscription({
+    userId: user.id,
+    appId: app.id,
+    planId: plan.id,
+    seats,
+    ...billing,
+    status: 'pending',
+    startDate: now,
+    paymentProvider: paymentProvider.name,
+    trialEnd: withTrial ? getTrialEnd(plan, now) : null
+  });
+
+  try {
+    if (coupon) {
+      subscription = await redeemCoupon(coupon, subscription);
+    }
+    const session = await paymentProvider.createCheckoutSession({
+      reference: String(subscription.id),
+      app,
+      plan,
+      currency: billing.currency,
+      quantity: seats,
+      trialDays: withTrial ? plan.trialDays : 0,
+      coupon,
+      customerEmail: user.email,
+      successUrl: `${baseUrl}/oauth-apps/${app.id}?checkout=success`,
+      cancelUrl: `${baseUrl}/oauth-apps/${app.id}?checkout=cancelled`
+    });
+    const updatedSubscription = await storage.updateAppSubscription(subscription.id, { providerCheckoutId: session.id });
+    return { subscription: updatedSubscription, checkoutUrl: session.url };
+  } catch (error) {
+    // Don't leave a pending subscription, or the coupon it redeemed, blocking the next attempt
+    await transitionSubscription(subscription, 'expired', { endDate: new Date() });
+    throw error;
+  }
+};
+
+// Start a trial, or charge the first period to the wallet and activate the subscription
+const startCreditsSubscription = async (
+  user: User,
+  app: OAuthApp,
+  plan: PricingPlan,
+  seats: number,
+  billing: BillingDetails,
+  withTrial: boolean,
+  coupon: Coupon | null
+): Promise<AppSubscription> => {
+  const { currency } = billing;
+  let subscription = await storage.createAppSubscription({
+    userId: user.id,
+    appId: app.id,
+    planId: plan.id,
+    seats,
+    ...billing,
+    status: 'pending',
+    paymentProvider: CREDITS_PAYMENT_METHOD
+  });
+
+  const now = new Date();
+  if (coupon) {
+    try {
+      subscription = await redeemCoupon(coupon, subscription);
+    } catch (error) {
+      await transitionSubscription(subscription, 'expired', { endDate: now });
+      throw error;
+    }
+  }
+  if (withTrial && await storage.recordAppTrial(user.id, app.id)) {
+    // The wallet is first charged when the trial ends (settleDueSubscriptions)
+    const trialEnd = getTrialEnd(plan, now);
+    return transitionSubscription(subscription, 'trialing', {
+      startDate: now,
+      currentPeriodStart: now,
+      currentPeriodEnd: trialEnd,
+      trialEnd,
+      ...getIntroOffer(plan, trialEnd, currency),
+      ...getCouponDiscount(coupon, plan, trialEnd)
+    });
+  }
+
+  const offers = { ...getIntroOffer(plan, now, currency), ...getCouponDiscount(coupon, plan, now) };
+  const periodEnd = addBillingInterval(now, plan.billingInterval);
+  // Metered plans without a base price have nothing to charge until usage comes in
+  const price = getPeriodPrice({ ...offers, seats, currency }, plan, now);
+  const credits = amountToCredits(price, currency);
+  try {
+    if (credits > 0) {
+      await chargeSubscription({
+        subscription,
+        app,
+        planId: plan.id,
+        credits,
+        description: `${app.name} (${plan.name})`,
+        reference: getRenewalReference(subscription, now)
+      });
+    }
+  } catch (error) {
+    await transitionSubscription(subscription, 'expired', { endDate: now });
+    throw error;
+  }
+  if (credits > 0) {
+    await recordPaidInvoice({
+      subscription,
+      app,
+      plan,
+      periodStart: now,
+      periodEnd,
+      lines: getPeriodLines({ ...offers, seats, currency }, app, plan, now),
+      reference: getRenewalReference(subscription, now)
+    }, true);
+  }
+  return transitionSubscription(subscription, 'active', {
+    startDate: now,
+    currentPeriodStart: now,
+    currentPeriodEnd: periodEnd,
+    ...offers
+  });
+};
+
+// Give up on a pending checkout so the user can start another one. Returns
+// false if the provider has already taken payment for it.
+export const abandonCheckout = async (subscription: AppSubscription): Promise<boolean> => {
+  if (subscription.providerCheckoutId && subscription.paymentProvider === paymentProvider.name) {
+    try {
+      await paymentProvider.expireCheckoutSession(subscription.providerCheckoutId);
+    } catch (error) {
+      console.error('Error expiring checkout session:', error);
+      return false;
+    }
+  }
+  await transitionSubscription(subscription, 'expired', { endDate: new Date() });
+  return true;
+};
+
+// The invoice for what the provider bills for the current period, with the
+// app and plan it was for; null when the period costs nothing
+const getPeriodInvoice = async (
+  subscription: AppSubscription,
+  reference: string
+): Promise<(InvoiceRequest & { app: OAuthApp; plan: PricingPlan }) | null> => {
+  const [app, plan] = await Promise.all([
+    storage.getOAuthApp(subscription.appId),
+    storage.getPricingPlan(subscription.planId)
+  ]);
+  const { currentPeriodStart: periodStart, currentPeriodEnd: periodEnd } = subscription;
+  if (!app || !plan || !periodStart || !periodEnd) return null;
+  if (getPeriodPrice(subscription, plan, periodStart) === 0) return null;
+
+  return {
+    subscription,
+    app,
+    plan,
+    periodStart,
+    periodEnd,
+    lines: getPeriodLines(subscription, app, plan, periodStart),
+    reference
+  };
+};
+
+// Record what the provider collected for the current period, so the developer
+// earns their share, and mark its invoice paid. The reference keeps retried
+// webhooks from recording it twice.
+const recordPeriodPayment = async (subscription: AppSubscription, reference: string) => {
+  const invoice = await getPeriodInvoice(subscription, reference);
+  if (!invoice) return;
+
+  const { app, plan } = invoice;
+  await recordProviderPayment({
+    subscription,
+    app,
+    planId: plan.id,
+    credits: amountToCredits(getInvoiceTotals(invoice.lines).total, subscription.currency),
+    description: `${app.name} (${plan.name})`,
+    reference
+  });
+  await recordPaidInvoice(invoice, false);
+};
+
+// Apply a verified provider event. Providers retry webhooks and may deliver
+// them out of order, so events that don't fit the subscription's current
+// state are ignored. Returns the updated subscription, or null when no subscription changed.
+export const applyPaymentEvent = async (event: PaymentEvent): Promise<AppSubscription | null> => {
+  if (event.type === 'credits.purchased') {
+    await recordCreditPurchase(event.userId, event.credits, `${paymentProvider.name}:${event.checkoutId}`);
+    return null;
+  }
+
+  if (event.type === 'subscription.updated') {
+    const subscription = await storage.getAppSubscriptionByProviderSubscriptionId(
+      paymentProvider.name,
+      event.providerSubscriptionId
+    );
+    const ended = event.status === 'canceled' || event.status === 'expired';
+    // Ended subscriptions stay as they are, e.g. when we canceled them ourselves
+    if (!subscription || (ended && event.status === subscription.status)) return null;
+    if (event.status !== subscription.status && !canTransition(subscription.status, event.status)) {
+      console.warn(`Ignoring ${subscription.status} -> ${event.status} for subscription ${subscription.id}`);
+      return null;
+    }
+
+    // Usage is billed once its period closes, before the subscription moves on.
+    // A failure here fails the webhook, so the provider retries it.
+    const periodClosed = !!subscription.currentPeriodStart &&
+      event.currentPeriodStart.getTime() > subscription.currentPeriodStart.getTime();
+    if (ended) {
+      const now = new Date();
+      await billUsageUntil(subscription, subscription.currentPeriodEnd && subscription.currentPeriodEnd < now
+        ? subscription.currentPeriodEnd
+        : now);
+    } else if (periodClosed) {
+      await billUsageUntil(subscription, event.currentPeriodStart);
+    }
+
+    // Becoming active for a new period, or again after a failed payment, means the provider was paid
+    const paid = event.status === 'active' && (
+      subscription.status !== 'active' ||
+      !subscription.currentPeriodStart ||
+      event.currentPeriodStart.getTime() > subscription.currentPeriodStart.getTime()
+    );
+    const updatedSubscription = await storage.updateAppSubscription(subscription.id, {
+      status: event.status,
+      currentPeriodStart: event.currentPeriodStart,
+      currentPeriodEnd: event.currentPeriodEnd,
+      cancelAtPeriodEnd: event.cancelAtPeriodEnd,
+      endDate: ended ? new Date() : event.cancelAtPeriodEnd ? event.currentPeriodEnd : null,
+      // The provider's trial period is authoritative
+      ...(event.status === 'trialing' ? { trialEnd: event.currentPeriodEnd } : {})
+    });
+    // A failed payment leaves the period's invoice open until the provider collects it
+    const reference = `${paymentProvider.name}:${event.providerSubscriptionId}:${event.currentPeriodStart.toISOString()}`;
+    if (paid) {
+      await recordPeriodPayment(updatedSubscription, reference);
+    } else if (event.status === 'past_due' && subscription.status !== 'past_due') {
+      const invoice = await getPeriodInvoice(updatedSubscription, reference);
+      if (invoice) {
+        await openInvoice(invoice);
+      }
+    } else if (ended) {
+      await voidUnpaidInvoices(subscription.id);
+    }
+    return updatedSubscription;
+  }
+
+  const subscription = await storage.getAppSubscriptionByCheckoutId(paymentProvider.name, event.checkoutId);
+  if (!subscription || subscription.status !== 'pending') return null;
+
+  if (event.type === 'checkout.completed') {
+    const [app, plan, coupon] = await Promise.all([
+      storage.getOAuthApp(subscription.appId),
+      storage.getPricingPlan(subscription.planId),
+      subscription.couponId !== null ? storage.getCoupon(subscription.couponId) : undefined
+    ]);
+    if (app && plan && plan.introPrice !== null && event.providerSubscriptionId) {
+      // Before the status change, so a failure here is retried with the webhook
+      await paymentProvider.scheduleIntroductoryPricing(event.providerSubscriptionId, app, plan, subscription.currency);
+    }
+
+    const now = new Date();
+    const updates = { startDate: now, currentPeriodStart: now, providerSubscriptionId: event.providerSubscriptionId };
+    if (subscription.trialEnd) {
+      // The trial offered at checkout runs from now, and is the user's one trial of the app
+      const trialEnd = new Date(now.getTime() + subscription.trialEnd.getTime() - subscription.startDate.getTime());
+      await storage.recordAppTrial(subscription.userId, subscription.appId);
+      return transitionSubscription(subscription, 'trialing', {
+        ...updates,
+        currentPeriodEnd: trialEnd,
+        trialEnd,
+        ...(plan ? { ...getIntroOffer(plan, trialEnd, subscription.currency), ...getCouponDiscount(coupon, plan, trialEnd) } : {})
+      });
+    }
+
+    const activatedSubscription = await transitionSubscription(subscription, 'active', {
+      ...updates,
+      currentPeriodEnd: plan ? addBillingInterval(now, plan.billingInterval) : null,
+      ...(plan ? { ...getIntroOffer(plan, now, subscription.currency), ...getCouponDiscount(coupon, plan, now) } : {})
+    });
+    await recordPeriodPayment(activatedSubscription, `${paymentProvider.name}:${event.checkoutId}`);
+    return activatedSubscription;
+  }
+  return transitionSubscription(subscription, 'expired', { endDate: new Date() });
+};
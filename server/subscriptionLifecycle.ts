@@ -0,0 +1,678 @@
+/**
+ * Subscription lifecycle: plan and seat changes with proration, moving subscribers
+ * between plans, cancellation and resumption, and settling due subscriptions
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { storage } from './storage';
+import { paymentProvider } from './paymentProvider';
+import {
+  chargeSubscription,
+  InsufficientCreditsError,
+  recordProviderPayment,
+  refundSubscription,
+  SubscriptionPayment
+} from './creditsLedger';
+import { billPeriodUsage } from './usageBilling';
+import { amountToCredits } from './exchangeRates';
+import {
+  getDiscountLine,
+  getPlanLine,
+  getProrationLines,
+  openInvoice,
+  payInvoice,
+  recordPaidInvoice,
+  voidUnpaidInvoices
+} from './invoices';
+import {
+  AppSubscription,
+  Coupon,
+  InsertAppSubscription,
+  InvoiceLine,
+  OAuthApp,
+  PricingPlan,
+  ProrationPreview,
+  SubscriptionStatus
+} from '../shared/schema';
+import { canTransition, MANAGEABLE_SUBSCRIPTION_STATUSES } from '../shared/subscriptionLifecycle';
+import { isPaidWithCredits } from '../shared/credits';
+import { getBilledSeats, isFreePlan } from '../shared/planPricing';
+import { applyDiscount, describeDiscount } from '../shared/coupons';
+import { getPlanPrices } from '../shared/currency';
+
+// Thrown when an operation isn't allowed in the subscription's current state
+export class SubscriptionStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubscriptionStateError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Providers start billing periods a little before we record them, so a period
+// gets an introductory price or discount if it starts at least this long
+// before the offer ends
+const OFFER_PERIOD_MARGIN_MS = DAY_MS;
+
+// What decides the price of a subscription's billing period
+type PeriodPricing = Pick<AppSubscription,
+  'currency' | 'introPrice' | 'introEndsAt' | 'seats' | 'discountType' | 'discountValue' | 'discountEndsAt'>;
+
+const startsBefore = (periodStart: Date, offerEnd: Date) =>
+  periodStart.getTime() <= offerEnd.getTime() - OFFER_PERIOD_MARGIN_MS;
+
+// Same day next month or year, clamped to the end of shorter months (Jan 31 -> Feb 28)
+export const addBillingInterval = (date: Date, billingInterval: string): Date => {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + (billingInterval === 'yearly' ? 12 : 1));
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+};
+
+export const getTrialEnd = (plan: PricingPlan, start: Date): Date =>
+  new Date(start.getTime() + plan.trialDays * DAY_MS);
+
+// The plan's prices in a subscription's currency. Free plans cost nothing in
+// any currency; paid plans must be sold in it.
+export const requirePlanPrices = (plan: PricingPlan, currency: string) => {
+  const prices = isFreePlan(plan) ? { price: 0, introPrice: null } : getPlanPrices(plan, currency);
+  if (!prices) {
+    throw new SubscriptionStateError(`${plan.name} is not sold in ${currency}`);
+  }
+  return prices;
+};
+
+// The plan's introductory offer in the subscription's currency, locked in for
+// a subscription whose first paid period starts on firstPaymentDate
+export const getIntroOffer = (
+  plan: PricingPlan,
+  firstPaymentDate: Date,
+  currency = plan.currency
+): Pick<AppSubscription, 'introPrice' | 'introEndsAt'> => {
+  const { introPrice } = requirePlanPrices(plan, currency);
+  if (introPrice === null || !plan.introPeriods) {
+    return { introPrice: null, introEndsAt: null };
+  }
+  let introEndsAt = firstPaymentDate;
+  for (let period = 0; period < plan.introPeriods; period++) {
+    introEndsAt = addBillingInterval(introEndsAt, plan.billingInterval);
+  }
+  return { introPrice, introEndsAt };
+};
+
+// A coupon's discount, locked in for a subscription whose first paid period
+// starts on firstPaymentDate. No coupon means no discount.
+export const getCouponDiscount = (
+  coupon: Coupon | null | undefined,
+  plan: PricingPlan,
+  firstPaymentDate: Date
+): Pick<AppSubscription, 'discountType' | 'discountValue' | 'discountEndsAt'> => {
+  if (!coupon) {
+    return { discountType: null, discountValue: null, discountEndsAt: null };
+  }
+  const periods = coupon.duration === 'once' ? 1 : coupon.durationPeriods;
+  let discountEndsAt: Date | null = null;
+  if (coupon.duration !== 'forever' && periods) {
+    discountEndsAt = firstPaymentDate;
+    for (let period = 0; period < periods; period++) {
+      discountEndsAt = addBillingInterval(discountEndsAt, plan.billingInterval);
+    }
+  }
+  return { discountType: coupon.discountType, discountValue: coupon.discountValue, discountEndsAt };
+};
+
+// The period's price for all seats before any coupon discount, in minor units
+// of the subscription's currency: the introductory price while it lasts, then the plan's
+const getListPrice = (subscription: PeriodPricing, plan: PricingPlan, periodStart: Date): number => {
+  const price = subscription.introPrice !== null && subscription.introEndsAt &&
+    startsBefore(periodStart, subscription.introEndsAt)
+    ? subscription.introPrice
+    : requirePlanPrices(plan, subscription.currency).price;
+  return price * getBilledSeats(plan, subscription.seats);
+};
+
+// The subscription's coupon discount, if it covers the period starting on periodStart
+const getActiveDiscount = (subscription: PeriodPricing, periodStart: Date) => {
+  const { discountType, discountValue, discountEndsAt } = subscription;
+  if (discountType === null || discountValue === null) {
+    return null;
+  }
+  return !discountEndsAt || startsBefore(periodStart, discountEndsAt) ? { discountType, discountValue } : null;
+};
+
+// What the subscriber pays up front for the billing period starting on
+// periodStart, for all their seats, in minor units of the subscription's
+// currency. Usage on metered plans is billed afterwards.
+export const getPeriodPrice = (subscription: PeriodPricing, plan: PricingPlan, periodStart: Date): number => {
+  const price = getListPrice(subscription, plan, periodStart);
+  const discount = getActiveDiscount(subscription, periodStart);
+  return discount ? applyDiscount(price, discount) : price;
+};
+
+// The invoice lines for the period's price: the plan, less any coupon discount
+export const getPeriodLines = (
+  subscription: PeriodPricing,
+  app: Pick<OAuthApp, 'name'>,
+  plan: PricingPlan,
+  periodStart: Date
+): InvoiceLine[] => {
+  const price = getListPrice(subscription, plan, periodStart);
+  const discount = getActiveDiscount(subscription, periodStart);
+  const planLine = getPlanLine(app, plan, subscription.seats, price);
+  return discount && applyDiscount(price, discount) < price
+    ? [planLine, getDiscountLine(describeDiscount(discount, subscription.currency), price - applyDiscount(price, discount))]
+    : [planLine];
+};
+
+// Ledger reference for the charge due on a date, so a period is never paid for twice
+export const getRenewalReference = (subscription: AppSubscription, dueDate: Date): string =>
+  `subscription:${subscription.id}:${dueDate.toISOString()}`;
+
+// Change status, enforcing the state machine in shared/subscriptionLifecycle.ts.
+// A subscription that ends no longer owes its unpaid invoices, and a checkout
+// that never completes gives back the coupon it redeemed.
+export const transitionSubscription = async (
+  subscription: AppSubscription,
+  status: SubscriptionStatus,
+  updates: Partial<InsertAppSubscription> = {}
+): Promise<AppSubscription> => {
+  if (!canTransition(subscription.status, status)) {
+    throw new SubscriptionStateError(`A ${subscription.status} subscription cannot become ${status}`);
+  }
+  const updated = await storage.updateAppSubscription(subscription.id, { ...updates, status });
+  if (status === 'canceled' || status === 'expired') {
+    await voidUnpaidInvoices(subscription.id);
+  }
+  if (subscription.status === 'pending' && status === 'expired') {
+    await storage.releaseCouponRedemption(subscription.id);
+  }
+  return updated;
+};
+
+const requireManageable = (subscription: AppSubscription) => {
+  if (!MANAGEABLE_SUBSCRIPTION_STATUSES.includes(subscription.status)) {
+    throw new SubscriptionStateError(`This subscription is ${subscription.status}`);
+  }
+};
+
+// Credit for the unused part of the current period against the cost of the new
+// plan or seat count. Same-interval switches keep the period; switching
+// interval starts a new one now.
+export const computeProration = (
+  subscription: AppSubscription,
+  currentPlan: PricingPlan,
+  newPlan: PricingPlan,
+  now = new Date(),
+  newSeats = subscription.seats
+): ProrationPreview => {
+  const periodStart = subscription.currentPeriodStart ?? now;
+  const periodEnd = subscription.currentPeriodEnd ?? addBillingInterval(periodStart, currentPlan.billingInterval);
+
+  // Nothing has been paid during a trial, and the trial carries over to the new plan
+  if (subscription.status === 'trialing') {
+    return { currentPlanCredit: 0, newPlanCharge: 0, amountDue: 0, periodStart, periodEnd };
+  }
+
+  const periodLength = periodEnd.getTime() - periodStart.getTime();
+  const remaining = Math.min(Math.max(periodEnd.getTime() - now.getTime(), 0), periodLength);
+  const unusedFraction = periodLength > 0 ? remaining / periodLength : 0;
+  const currentPlanCredit = Math.round(getPeriodPrice(subscription, currentPlan, periodStart) * unusedFraction);
+  // Changes end the introductory price but keep the coupon discount
+  const afterChange = { ...subscription, introPrice: null, introEndsAt: null, seats: newSeats };
+
+  if (newPlan.billingInterval === currentPlan.billingInterval) {
+    const newPlanCharge = Math.round(getPeriodPrice(afterChange, newPlan, periodStart) * unusedFraction);
+    return {
+      currentPlanCredit,
+      newPlanCharge,
+      amountDue: newPlanCharge - currentPlanCredit,
+      periodStart,
+      periodEnd
+    };
+  }
+
+  const newPlanPrice = getPeriodPrice(afterChange, newPlan, now);
+  return {
+    currentPlanCredit,
+    newPlanCharge: newPlanPrice,
+    amountDue: newPlanPrice - currentPlanCredit,
+    periodStart: now,
+    periodEnd: addBillingInterval(now, newPlan.billingInterval)
+  };
+};
+
+// Record the prorated difference of a plan or seat change, and invoice it: a
+// charge when the user owes more, a refund when the unused time is worth more
+// than the new plan or seats
+const recordProration = async (
+  subscription: AppSubscription,
+  app: OAuthApp,
+  currentPlan: PricingPlan,
+  newPlan: PricingPlan,
+  newSeats: number,
+  proration: ProrationPreview,
+  fromWallet: boolean,
+  description = `${app.name}: switch to ${newPlan.name}`
+) => {
+  const credits = amountToCredits(proration.amountDue, subscription.currency);
+  const payment: Omit<SubscriptionPayment, 'credits' | 'description'> = { subscription, app, planId: newPlan.id };
+  if (credits > 0 && fromWallet) {
+    await chargeSubscription({ ...payment, credits, description });
+  } else if (credits > 0) {
+    await recordProviderPayment({ ...payment, credits, description });
+  } else if (credits < 0) {
+    await refundSubscription(
+      { ...payment, planId: currentPlan.id, credits: -credits, description: `${app.name}: unused time on ${currentPlan.name}` },
+      fromWallet
+    );
+  } else {
+    return;
+  }
+
+  await recordPaidInvoice({
+    subscription,
+    app,
+    plan: newPlan,
+    periodStart: proration.periodStart,
+    periodEnd: proration.periodEnd,
+    lines: getProrationLines(
+      proration,
+      { plan: currentPlan, seats: subscription.seats },
+      { plan: newPlan, seats: newSeats }
+    )
+  }, fromWallet);
+};
+
+// Switch to another plan of the same app, effective immediately
+export const changeSubscriptionPlan = async (
+  subscription: AppSubscription,
+  app: OAuthApp,
+  currentPlan: PricingPlan,
+  newPlan: PricingPlan,
+  now = new Date()
+): Promise<{ subscription: AppSubscription; proration: ProrationPreview }> => {
+  if (subscription.status !== 'active' && subscription.status !== 'trialing') {
+    throw new SubscriptionStateError('Only active or trialing subscriptions can change plans');
+  }
+  if (newPlan.id === currentPlan.id) {
+    throw new SubscriptionStateError('The subscription is already on this plan');
+  }
+  // Free subscriptions have nothing on file to charge
+  if (!subscription.providerSubscriptionId && !isPaidWithCredits(subscription) && !isFreePlan(newPlan)) {
+    throw new SubscriptionStateError('Switching from a free plan to a paid plan requires checkout');
+  }
+  // The subscription keeps the currency it was bought in
+  requirePlanPrices(newPlan, subscription.currency);
+
+  // Seats carry over between per-seat plans
+  const seats = getBilledSeats(newPlan, subscription.seats);
+  const proration = computeProration(subscription, currentPlan, newPlan, now, seats);
+  const updates: Partial<InsertAppSubscription> = {
+    planId: newPlan.id,
+    seats,
+    currentPeriodStart: proration.periodStart,
+    currentPeriodEnd: proration.periodEnd,
+    // An introductory price only applies to the plan it was offered with
+    introPrice: null,
+    introEndsAt: null,
+    // Any move the developer scheduled is settled by this one
+    migrationPlanId: null,
+    migratesAt: null
+  };
+  // Usage so far is billed at the old plan's prices, and marked billed straight
+  // away so it can't be billed again if the switch fails. Usage during a trial is free.
+  if (currentPlan.pricingModel === 'metered' && subscription.status !== 'trialing' && subscription.currentPeriodStart) {
+    await billPeriodUsage(subscription, app, currentPlan, subscription.currentPeriodStart, now);
+    await storage.updateAppSubscription(subscription.id, { usageBilledUntil: now });
+  }
+  // Free plans have nothing to try out, so a trial ends and the free plan starts now
+  if (subscription.status === 'trialing' && isFreePlan(newPlan)) {
+    updates.status = 'active';
+    updates.currentPeriodStart = now;
+    updates.currentPeriodEnd = addBillingInterval(now, newPlan.billingInterval);
+  }
+
+  if (subscription.providerSubscriptionId && isFreePlan(newPlan)) {
+    // Stop provider billing and carry on as a local free subscription. Detaching
+    // the provider id keeps its cancellation webhook from ending this subscription.
+    await paymentProvider.cancelSubscription(subscription.providerSubscriptionId, false);
+    updates.providerSubscriptionId = null;
+  } else if (subscription.providerSubscriptionId) {
+    await paymentProvider.changeSubscriptionPlan(subscription.providerSubscriptionId, app, newPlan, seats, subscription.currency);
+    await recordProration(subscription, app, currentPlan, newPlan, seats, proration, false);
+  } else if (isPaidWithCredits(subscription)) {
+    // Throws InsufficientCreditsError before the plan changes
+    await recordProration(subscription, app, currentPlan, newPlan, seats, proration, true);
+  }
+
+  const updatedSubscription = await storage.updateAppSubscription(subscription.id, updates);
+  return { subscription: updatedSubscription, proration };
+};
+
+// When a subscription moved off its plan with this much notice switches: the
+// start of its first billing period after the notice runs out
+export const getMigrationDate = (
+  subscription: AppSubscription,
+  plan: PricingPlan,
+  noticeDays: number,
+  now = new Date()
+): Date => {
+  const noticeEnd = new Date(now.getTime() + noticeDays * DAY_MS);
+  let date = subscription.currentPeriodEnd ?? noticeEnd;
+  while (date < noticeEnd) {
+    date = addBillingInterval(date, plan.billingInterval);
+  }
+  return date;
+};
+
+// Move the plan's subscribers to another plan of the same app once the notice
+// runs out, replacing any move already scheduled. Checkouts still pending are
+// left alone. Returns the subscriptions scheduled to move.
+export const schedulePlanMigration = async (
+  plan: PricingPlan,
+  targetPlan: PricingPlan,
+  noticeDays: number,
+  now = new Date()
+): Promise<AppSubscription[]> => {
+  const subscriptions = (await storage.getLivePlanSubscriptions(plan.id))
+    .filter(subscription => MANAGEABLE_SUBSCRIPTION_STATUSES.includes(subscription.status));
+  return Promise.all(subscriptions.map(subscription => storage.updateAppSubscription(subscription.id, {
+    migrationPlanId: targetPlan.id,
+    migratesAt: getMigrationDate(subscription, plan, noticeDays, now)
+  })));
+};
+
+// Call off the moves scheduled for the plan's subscribers that haven't happened yet
+export const cancelPlanMigration = async (plan: PricingPlan): Promise<AppSubscription[]> => {
+  const subscriptions = (await storage.getLivePlanSubscriptions(plan.id))
+    .filter(subscription => subscription.migrationPlanId !== null);
+  return Promise.all(subscriptions.map(subscription => storage.updateAppSubscription(subscription.id, {
+    migrationPlanId: null,
+    migratesAt: null
+  })));
+};
+
+// Switch a subscription its developer moved to another plan once the date
+// comes, prorated like any plan change. One that can't switch yet, e.g. while
+// past due or short of credits, is tried again on the next settlement run.
+const applyPlanMigration = async (
+  subscription: AppSubscription,
+  plan: PricingPlan,
+  now: Date
+): Promise<AppSubscription> => {
+  const { migrationPlanId, migratesAt } = subscription;
+  if (migrationPlanId === null || !migratesAt || migratesAt > now) {
+    return subscription;
+  }
+  if (subscription.status !== 'active' && subscription.status !== 'trialing') {
+    return subscription;
+  }
+  const [app, newPlan] = await Promise.all([
+    storage.getOAuthApp(plan.appId),
+    storage.getPricingPlan(migrationPlanId)
+  ]);
+  if (!app || !newPlan) {
+    return subscription;
+  }
+  try {
+    return (await changeSubscriptionPlan(subscription, app, plan, newPlan, now)).subscription;
+  } catch (error) {
+    if (!(error instanceof SubscriptionStateError) && !(error instanceof InsufficientCreditsError)) {
+      throw error;
+    }
+    console.warn(`Subscription ${subscription.id} could not move to plan ${newPlan.id}: ${error.message}`);
+    return subscription;
+  }
+};
+
+// Change how many seats a per-seat subscription pays for, effective immediately.
+// Like a plan change, this ends any introductory price.
+export const changeSubscriptionSeats = async (
+  subscription: AppSubscription,
+  app: OAuthApp,
+  plan: PricingPlan,
+  seats: number,
+  now = new Date()
+): Promise<{ subscription: AppSubscription; proration: ProrationPreview }> => {
+  if (subscription.status !== 'active' && subscription.status !== 'trialing') {
+    throw new SubscriptionStateError('Only active or trialing subscriptions can change seats');
+  }
+  if (plan.pricingModel !== 'per_seat') {
+    throw new SubscriptionStateError('This plan is not priced per seat');
+  }
+  if (seats === subscription.seats) {
+    throw new SubscriptionStateError(`The subscription already has ${seats} seats`);
+  }
+
+  const proration = computeProration(subscription, plan, plan, now, seats);
+  const description = `${app.name}: ${subscription.seats} to ${seats} seats on ${plan.name}`;
+  if (subscription.providerSubscriptionId) {
+    await paymentProvider.changeSubscriptionPlan(subscription.providerSubscriptionId, app, plan, seats, subscription.currency);
+    await recordProration(subscription, app, plan, plan, seats, proration, false, description);
+  } else if (isPaidWithCredits(subscription)) {
+    // Throws InsufficientCreditsError before anything changes
+    await recordProration(subscription, app, plan, plan, seats, proration, true, description);
+  }
+
+  const updatedSubscription = await storage.updateAppSubscription(subscription.id, {
+    seats,
+    introPrice: null,
+    introEndsAt: null
+  });
+  return { subscription: updatedSubscription, proration };
+};
+
+// Bill a metered subscription's usage in its current period up to endDate,
+// e.g. when it ends. Usage during a trial is free. Usage the wallet can't
+// cover is logged rather than holding up the cancellation.
+export const billUsageUntil = async (subscription: AppSubscription, endDate: Date) => {
+  if (subscription.status === 'trialing' || !subscription.currentPeriodStart) return;
+  const plan = await storage.getPricingPlan(subscription.planId);
+  const app = plan && await storage.getOAuthApp(plan.appId);
+  if (!app || !plan) return;
+  try {
+    await billPeriodUsage(subscription, app, plan, subscription.currentPeriodStart, endDate);
+  } catch (error) {
+    if (!(error instanceof InsufficientCreditsError)) {
+      throw error;
+    }
+    console.warn(`Usage of subscription ${subscription.id} could not be charged: ${error.message}`);
+  }
+};
+
+// Cancel now, or at the end of the period the user has already paid for
+export const cancelSubscription = async (
+  subscription: AppSubscription,
+  atPeriodEnd: boolean,
+  now = new Date()
+): Promise<AppSubscription> => {
+  requireManageable(subscription);
+
+  if (atPeriodEnd) {
+    if (subscription.status === 'past_due') {
+      throw new SubscriptionStateError('A past due subscription can only be canceled immediately');
+    }
+    if (subscription.cancelAtPeriodEnd) {
+      return subscription;
+    }
+    if (subscription.providerSubscriptionId) {
+      await paymentProvider.cancelSubscription(subscription.providerSubscriptionId, true);
+    }
+    return storage.updateAppSubscription(subscription.id, {
+      cancelAtPeriodEnd: true,
+      endDate: subscription.currentPeriodEnd
+    });
+  }
+
+  await billUsageUntil(subscription, now);
+  if (subscription.providerSubscriptionId) {
+    await paymentProvider.cancelSubscription(subscription.providerSubscriptionId, false);
+  }
+  return transitionSubscription(subscription, 'canceled', { cancelAtPeriodEnd: false, endDate: now });
+};
+
+// Undo a cancellation scheduled for the end of the period
+export const resumeSubscription = async (subscription: AppSubscription, now = new Date()): Promise<AppSubscription> => {
+  requireManageable(subscription);
+  if (!subscription.cancelAtPeriodEnd) {
+    throw new SubscriptionStateError('The subscription is not scheduled to cancel');
+  }
+  if (subscription.currentPeriodEnd && subscription.currentPeriodEnd <= now) {
+    throw new SubscriptionStateError('The billing period has already ended');
+  }
+
+  if (subscription.providerSubscriptionId) {
+    await paymentProvider.resumeSubscription(subscription.providerSubscriptionId);
+  }
+  return storage.updateAppSubscription(subscription.id, { cancelAtPeriodEnd: false, endDate: null });
+};
+
+// Bring a subscription up to date: scheduled cancellations take effect, free
+// subscriptions renew and credit-paid ones are charged, including usage on
+// metered plans, and then a move to another plan whose date has come happens.
+// Provider-billed subscriptions are renewed by the provider's webhooks.
+// The subscription may end up on another plan than the one passed in.
+export const settleSubscription = async (
+  subscription: AppSubscription,
+  plan: PricingPlan,
+  now = new Date()
+): Promise<AppSubscription> =>
+  applyPlanMigration(await settlePeriod(subscription, plan, now), plan, now);
+
+// Settle every subscription whose period has ended or whose move to another
+// plan is due: ended trials are charged, renewals are paid, scheduled
+// cancellations take effect and migrations happen even for users who never
+// come back. One that fails is logged and retried on the next run.
+export const settleDueSubscriptions = async (now = new Date()): Promise<void> => {
+  for (const subscription of await storage.getSubscriptionsDueForSettlement(now)) {
+    try {
+      const plan = await storage.getPricingPlan(subscription.planId);
+      if (plan) {
+        await settleSubscription(subscription, plan, now);
+      }
+    } catch (error) {
+      console.error(`Error settling subscription ${subscription.id}:`, error);
+    }
+  }
+};
+
+// Settle due subscriptions periodically
+export const startSettlementSchedule = (checkIntervalMs = 5 * 60 * 1000) => {
+  const check = () => {
+    settleDueSubscriptions().catch(error => {
+      console.error('Error during scheduled subscription settlement:', error);
+    });
+  };
+
+  check();
+  const timer = setInterval(check, checkIntervalMs);
+  timer.unref();
+  return timer;
+};
+
+// The renewal part of settleSubscription, once the subscription's period has ended
+const settlePeriod = async (
+  subscription: AppSubscription,
+  plan: PricingPlan,
+  now: Date
+): Promise<AppSubscription> => {
+  const periodEnd = subscription.currentPeriodEnd;
+  if (!MANAGEABLE_SUBSCRIPTION_STATUSES.includes(subscription.status) || !periodEnd || periodEnd > now) {
+    return subscription;
+  }
+
+  if (subscription.cancelAtPeriodEnd) {
+    await billUsageUntil(subscription, periodEnd);
+    return transitionSubscription(subscription, 'canceled', { endDate: periodEnd });
+  }
+  if (subscription.providerSubscriptionId) {
+    return subscription;
+  }
+  if (isPaidWithCredits(subscription) && !isFreePlan(plan)) {
+    return renewWithCredits(subscription, plan, now);
+  }
+
+  let periodStart = periodEnd;
+  let nextPeriodEnd = addBillingInterval(periodStart, plan.billingInterval);
+  while (nextPeriodEnd <= now) {
+    periodStart = nextPeriodEnd;
+    nextPeriodEnd = addBillingInterval(periodStart, plan.billingInterval);
+  }
+  return storage.updateAppSubscription(subscription.id, {
+    currentPeriodStart: periodStart,
+    currentPeriodEnd: nextPeriodEnd
+  });
+};
+
+// Charge the wallet for each period due since the last payment, after the
+// usage of the period that just ended. Each period's invoice is opened first.
+// When the wallet runs dry the subscription goes past due with the invoice
+// open; once the user tops up, the overdue charges are retried and a fresh
+// period starts from then.
+const renewWithCredits = async (
+  subscription: AppSubscription,
+  plan: PricingPlan,
+  now: Date
+): Promise<AppSubscription> => {
+  const app = await storage.getOAuthApp(plan.appId);
+  if (!app) {
+    return subscription;
+  }
+
+  let current = subscription;
+  let dueDate = subscription.currentPeriodEnd!;
+  while (dueDate <= now) {
+    const periodStart = current.status === 'past_due' ? now : dueDate;
+    const periodEnd = addBillingInterval(periodStart, plan.billingInterval);
+    const price = getPeriodPrice(current, plan, periodStart);
+    const credits = amountToCredits(price, current.currency);
+    const reference = getRenewalReference(current, dueDate);
+    try {
+      // A retry after the wallet ran dry reuses the invoice, moved to the new period
+      const invoice = credits > 0
+        ? await openInvoice({
+          subscription: current,
+          app,
+          plan,
+          periodStart,
+          periodEnd,
+          lines: getPeriodLines(current, app, plan, periodStart),
+          reference
+        })
+        : null;
+      // Usage during a trial is free
+      if (current.status !== 'trialing' && current.currentPeriodStart) {
+        await billPeriodUsage(current, app, plan, current.currentPeriodStart, dueDate);
+      }
+      if (invoice) {
+        await chargeSubscription({
+          subscription: current,
+          app,
+          planId: plan.id,
+          credits,
+          description: current.status === 'trialing'
+            ? `${app.name} (${plan.name}) after trial`
+            : `${app.name} (${plan.name}) renewal`,
+          reference
+        });
+        await payInvoice(invoice, true);
+      }
+    } catch (error) {
+      if (!(error instanceof InsufficientCreditsError)) {
+        throw error;
+      }
+      return current.status === 'past_due' ? current : transitionSubscription(current, 'past_due');
+    }
+
+    const updates = { currentPeriodStart: periodStart, currentPeriodEnd: periodEnd };
+    current = current.status === 'active'
+      ? await storage.updateAppSubscription(current.id, updates)
+      : await transitionSubscription(current, 'active', updates);
+    dueDate = periodEnd;
+  }
+  return current;
+};
@@ -0,0 +1,426 @@
+/**
+ * Subscription Routes: checkout, plan and seat changes, usage and cancellation
+ * Mounted at /api/subscriptions
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { Router, Request, Response } from 'express';
+import { storage } from './storage';
+import { parseBody, sendValidationError } from './validation';
+import { abandonCheckout, BillingDetails, getAmountDueAtCheckout, startCheckout } from './subscriptionCheckout';
+import {
+  cancelSubscription,
+  changeSubscriptionPlan,
+  changeSubscriptionSeats,
+  computeProration,
+  resumeSubscription,
+  settleSubscription,
+  SubscriptionStateError,
+  transitionSubscription
+} from './subscriptionLifecycle';
+import { InsufficientCreditsError } from './creditsLedger';
+import { CouponError, findRedeemableCoupon } from './coupons';
+import { computeUsageInvoice } from './usageBilling';
+import { amountToCredits, canSettleIn } from './exchangeRates';
+import { AppSubscription, CouponPreview, OAuthApp, PricingPlan, SubscriptionDetails } from '../shared/schema';
+import { CREDITS_CURRENCY } from '../shared/credits';
+import { isFreePlan, isPlanForSale } from '../shared/planPricing';
+import { describeCoupon } from '../shared/coupons';
+import { getPlanCurrencies } from '../shared/currency';
+import {
+  cancelSubscriptionSchema,
+  changeSubscriptionPlanSchema,
+  changeSubscriptionSeatsSchema,
+  couponPreviewSchema,
+  FieldErrors,
+  insertAppSubscriptionSchema,
+  validate
+} from '../shared/validation';
+
+const router = Router();
+
+// Middleware to check authentication
+const requireAuth = (req: Request, res: Response, next: Function) => {
+  if (!req.isAuthenticated() || !req.user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+  next();
+};
+
+// Base URL the payment provider returns the user to: APP_URL when configured, otherwise the request origin
+const getAppBaseUrl = (req: Request): string => {
+  return process.env.APP_URL || `${req.protocol}://${req.get('host')}`;
+};
+
+// Load a subscription owned by the authenticated user, or send a 404. Reading
+// never bills; due subscriptions are settled by settleDueSubscriptions.
+const getOwnSubscription = async (req: Request, res: Response): Promise<AppSubscription | null> => {
+  const subscriptionId = parseInt(req.params.id);
+  const subscription = Number.isNaN(subscriptionId) ? undefined : await storage.getAppSubscription(subscriptionId);
+  if (!subscription || subscription.userId !== req.user.id) {
+    res.status(404).json({ message: 'Subscription not found' });
+    return null;
+  }
+  return subscription;
+};
+
+// As getOwnSubscription, settled up to now first so a change applies to the
+// current period even if the scheduled settlement hasn't caught up yet
+const getOwnSettledSubscription = async (req: Request, res: Response): Promise<AppSubscription | null> => {
+  const subscription = await getOwnSubscription(req, res);
+  const plan = subscription && await storage.getPricingPlan(subscription.planId);
+  return subscription && plan ? settleSubscription(subscription, plan) : subscription;
+};
+
+// Load the subscription's app and current plan, or send a 404 if either is gone
+const getSubscribedPlan = async (
+  subscription: AppSubscription,
+  res: Response
+): Promise<{ app: OAuthApp; plan: PricingPlan } | null> => {
+  const [app, plan] = await Promise.all([
+    storage.getOAuthApp(subscription.appId),
+    storage.getPricingPlan(subscription.planId)
+  ]);
+  if (!app) {
+    res.status(404).json({ message: 'OAuth app not found' });
+    return null;
+  }
+  if (!plan) {
+    res.status(404).json({ message: 'Pricing plan not found' });
+    return null;
+  }
+  return { app, plan };
+};
+
+// Load the plan a subscription would switch to: another plan of the same app that is for sale
+const getTargetPlan = async (subscription: AppSubscription, planId: number, res: Response) => {
+  const plan = await storage.getPricingPlan(planId);
+  if (!plan || plan.appId !== subscription.appId || !isPlanForSale(plan)) {
+    sendValidationError(res, { planId: 'Choose another plan of the same app' });
+    return null;
+  }
+  return plan;
+};
+
+// Why a paid plan can't be bought in the currency, or null if it can
+const getCurrencyError = (plan: PricingPlan, currency: string): string | null => {
+  if (!getPlanCurrencies(plan).includes(currency)) {
+    return `This plan is not sold in ${currency}`;
+  }
+  return canSettleIn(currency) ? null : `Payments in ${currency} are not accepted yet`;
+};
+
+// Attach the app, the plan and any plan the developer is moving it to for display
+const toSubscriptionDetails = async (subscription: AppSubscription): Promise<SubscriptionDetails | null> => {
+  const [app, plan, migrationPlan] = await Promise.all([
+    storage.getOAuthApp(subscription.appId),
+    storage.getPricingPlan(subscription.planId),
+    subscription.migrationPlanId === null ? null : storage.getPricingPlan(subscription.migrationPlanId)
+  ]);
+  if (!app || !plan) {
+    return null;
+  }
+  return {
+    ...subscription,
+    app: { id: app.id, name: app.name, logoUrl: app.logoUrl },
+    plan,
+    migrationPlan: migrationPlan ?? null
+  };
+};
+
+// Send state machine violations as 409s, short wallets as 402s, unusable
+// coupon codes as field errors, anything else as a 500
+const sendLifecycleError = (res: Response, error: unknown, action: string) => {
+  if (error instanceof SubscriptionStateError) {
+    return res.status(409).json({ message: error.message });
+  }
+  if (error instanceof InsufficientCreditsError) {
+    return res.status(402).json({ message: error.message });
+  }
+  if (error instanceof CouponError) {
+    return sendValidationError(res, { couponCode: error.message });
+  }
+  console.error(`Error trying to ${action}:`, error);
+  res.status(500).json({ message: `Failed to ${action}` });
+};
+
+// List the user's subscriptions with their app and plan, newest first
+router.get('/', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const subscriptions = await storage.getUserSubscriptions(req.user.id);
+    const details = await Promise.all(subscriptions.map(toSubscriptionDetails));
+    res.status(200).json(details.filter((subscription): subscription is SubscriptionDetails => subscription !== null));
+  } catch (error) {
+    console.error('Error fetching subscriptions:', error);
+    res.status(500).json({ message: 'Failed to fetch subscriptions' });
+  }
+});
+
+// Whether the user has already had their one trial of an app
+router.get('/trials/:appId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const appId = parseInt(req.params.appId);
+    if (Number.isNaN(appId)) {
+      return res.status(404).json({ message: 'OAuth app not found' });
+    }
+    res.status(200).json({ trialUsed: await storage.hasUsedTrial(req.user.id, appId) });
+  } catch (error) {
+    console.error('Error fetching trial status:', error);
+    res.status(500).json({ message: 'Failed to fetch trial status' });
+  }
+});
+
+// Check a coupon code against a plan before checkout, with what the user would pay now
+router.get('/coupons/preview', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const result = validate(couponPreviewSchema, req.query);
+    if (!result.success) {
+      return sendValidationError(res, result.errors);
+    }
+    const { appId, planId, seats, couponCode } = result.data;
+
+    const app = await storage.getOAuthApp(appId);
+    const plan = await storage.getPricingPlan(planId);
+    if (!app || !app.isPublished || !plan || plan.appId !== app.id || !isPlanForSale(plan)) {
+      return res.status(404).json({ message: 'Pricing plan not found' });
+    }
+    const currency = result.data.currency ?? plan.currency;
+    const currencyError = isFreePlan(plan) ? null : getCurrencyError(plan, currency);
+    if (currencyError) {
+      return sendValidationError(res, { currency: currencyError });
+    }
+
+    const coupon = await findRedeemableCoupon(req.user.id, plan, couponCode, currency);
+    const preview: CouponPreview = {
+      code: coupon.code,
+      description: describeCoupon(coupon),
+      amountDue: await getAmountDueAtCheckout(req.user.id, plan, seats, coupon, currency),
+      currency
+    };
+    res.status(200).json(preview);
+  } catch (error) {
+    sendLifecycleError(res, error, 'check coupon code');
+  }
+});
+
+// Start checkout for a plan. Responds with the pending subscription and the
+// provider's payment page, or an active subscription for free plans.
+router.post('/checkout', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const body = parseBody(insertAppSubscriptionSchema, req, res);
+    if (!body) return;
+
+    const app = await storage.getOAuthApp(body.appId);
+    if (!app || !app.isPublished) {
+      return res.status(404).json({ message: 'OAuth app not found' });
+    }
+
+    const plan = await storage.getPricingPlan(body.planId);
+    if (!plan || plan.appId !== app.id || !isPlanForSale(plan)) {
+      return res.status(404).json({ message: 'Pricing plan not found' });
+    }
+    // Free plans cost nothing in any currency, and aren't taxed
+    const billing: BillingDetails = isFreePlan(plan)
+      ? { currency: plan.currency, billingCountry: null, billingRegion: null }
+      : {
+        currency: body.currency ?? plan.currency,
+        billingCountry: body.billingCountry ?? null,
+        billingRegion: body.billingRegion ?? null
+      };
+    if (!isFreePlan(plan)) {
+      const errors: FieldErrors = {};
+      const currencyError = getCurrencyError(plan, billing.currency);
+      if (currencyError) {
+        errors.currency = currencyError;
+      } else if (body.payWithCredits && billing.currency !== CREDITS_CURRENCY) {
+        errors.payWithCredits = `Credits can only pay for plans billed in ${CREDITS_CURRENCY}`;
+      }
+      if (!billing.billingCountry) {
+        errors.billingCountry = 'Country is required for paid plans';
+      }
+      if (Object.keys(errors).length > 0) {
+        return sendValidationError(res, errors);
+      }
+    }
+    // Checked up front, like the wallet, so a bad code doesn't cost the user their free plan below
+    const coupon = body.couponCode
+      ? await findRedeemableCoupon(req.user.id, plan, body.couponCode, billing.currency)
+      : null;
+    const creditsDue = body.payWithCredits
+      ? amountToCredits(await getAmountDueAtCheckout(req.user.id, plan, body.seats, coupon, billing.currency), billing.currency)
+      : 0;
+    if (req.user.credits < creditsDue) {
+      return res.status(402).json({ message: `This plan costs ${creditsDue} credits; top up your wallet to continue` });
+    }
+
+    // A new checkout replaces one the user walked away from. Moving from a free
+    // plan to a paid one also goes through checkout, replacing the free subscription.
+    const existing = await storage.getUserAppSubscription(req.user.id, app.id);
+    if (existing?.status === 'pending' && !(await abandonCheckout(existing))) {
+      return res.status(409).json({ message: 'Your previous checkout for this app is already being processed' });
+    }
+    if (existing && existing.status !== 'pending') {
+      const existingPlan = await storage.getPricingPlan(existing.planId);
+      if (existing.providerSubscriptionId || !existingPlan || !isFreePlan(existingPlan) || isFreePlan(plan)) {
+        return res.status(409).json({ message: 'You are already subscribed to this app; change plans from your subscriptions' });
+      }
+      await transitionSubscription(existing, 'canceled', { endDate: new Date() });
+    }
+
+    const result = await startCheckout(
+      req.user,
+      app,
+      plan,
+      getAppBaseUrl(req),
+      billing,
+      body.payWithCredits,
+      body.seats,
+      coupon
+    );
+    res.status(201).json(result);
+  } catch (error) {
+    sendLifecycleError(res, error, 'start checkout');
+  }
+});
+
+// Preview the prorated cost of switching to another plan
+router.get('/:id/proration', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const subscription = await getOwnSubscription(req, res);
+    if (!subscription) return;
+
+    const result = validate(changeSubscriptionPlanSchema, req.query);
+    if (!result.success) {
+      return sendValidationError(res, result.errors);
+    }
+
+    const current = await getSubscribedPlan(subscription, res);
+    if (!current) return;
+    const newPlan = await getTargetPlan(subscription, result.data.planId, res);
+    if (!newPlan) return;
+
+    res.status(200).json(computeProration(subscription, current.plan, newPlan));
+  } catch (error) {
+    sendLifecycleError(res, error, 'preview plan change');
+  }
+});
+
+// Switch to another plan of the same app, charging or crediting the prorated difference
+router.post('/:id/change-plan', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const subscription = await getOwnSettledSubscription(req, res);
+    if (!subscription) return;
+
+    const body = parseBody(changeSubscriptionPlanSchema, req, res);
+    if (!body) return;
+
+    const current = await getSubscribedPlan(subscription, res);
+    if (!current) return;
+    const newPlan = await getTargetPlan(subscription, body.planId, res);
+    if (!newPlan) return;
+
+    const result = await changeSubscriptionPlan(subscription, current.app, current.plan, newPlan);
+    res.status(200).json(result);
+  } catch (error) {
+    sendLifecycleError(res, error, 'change plan');
+  }
+});
+
+// Preview the prorated cost of changing the number of seats
+router.get('/:id/seats/proration', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const subscription = await getOwnSubscription(req, res);
+    if (!subscription) return;
+
+    const result = validate(changeSubscriptionSeatsSchema, req.query);
+    if (!result.success) {
+      return sendValidationError(res, result.errors);
+    }
+
+    const plan = await storage.getPricingPlan(subscription.planId);
+    if (!plan || plan.pricingModel !== 'per_seat') {
+      return res.status(409).json({ message: 'This plan is not priced per seat' });
+    }
+    res.status(200).json(computeProration(subscription, plan, plan, new Date(), result.data.seats));
+  } catch (error) {
+    sendLifecycleError(res, error, 'preview seat change');
+  }
+});
+
+// Add or remove seats on a per-seat plan, charging or crediting the prorated difference
+router.post('/:id/seats', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const subscription = await getOwnSettledSubscription(req, res);
+    if (!subscription) return;
+
+    const body = parseBody(changeSubscriptionSeatsSchema, req, res);
+    if (!body) return;
+
+    const current = await getSubscribedPlan(subscription, res);
+    if (!current) return;
+
+    const result = await changeSubscriptionSeats(subscription, current.app, current.plan, body.seats);
+    res.status(200).json(result);
+  } catch (error) {
+    sendLifecycleError(res, error, 'change seats');
+  }
+});
+
+// Usage reported so far in the current period of a metered subscription, priced
+// as it would be billed when the period ends
+router.get('/:id/usage', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const subscription = await getOwnSubscription(req, res);
+    if (!subscription) return;
+
+    const plan = await storage.getPricingPlan(subscription.planId);
+    if (!plan || plan.pricingModel !== 'metered') {
+      return res.status(409).json({ message: 'This subscription is not on a metered plan' });
+    }
+    if (!subscription.currentPeriodStart || !subscription.currentPeriodEnd) {
+      return res.status(409).json({ message: 'This subscription has not started' });
+    }
+
+    const invoice = await computeUsageInvoice(
+      subscription,
+      plan,
+      subscription.currentPeriodStart,
+      subscription.currentPeriodEnd
+    );
+    res.status(200).json(invoice);
+  } catch (error) {
+    console.error('Error fetching usage:', error);
+    res.status(500).json({ message: 'Failed to fetch usage' });
+  }
+});
+
+// Cancel at the end of the current period (default) or immediately
+router.post('/:id/cancel', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const subscription = await getOwnSettledSubscription(req, res);
+    if (!subscription) return;
+
+    const body = parseBody(cancelSubscriptionSchema, req, res);
+    if (!body) return;
+
+    const updatedSubscription = await cancelSubscription(subscription, body.atPeriodEnd);
+    res.status(200).json(updatedSubscription);
+  } catch (error) {
+    sendLifecycleError(res, error, 'cancel subscription');
+  }
+});
+
+// Keep a subscription that was scheduled to cancel at the end of the period
+router.post('/:id/resume', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const subscription = await getOwnSettledSubscription(req, res);
+    if (!subscription) return;
+
+    const updatedSubscription = await resumeSubscription(subscription);
+    res.status(200).json(updatedSubscription);
+  } catch (error) {
+    sendLifecycleError(res, error, 'resume subscription');
+  }
+});
+
+export default router;
@@ -0,0 +1,38 @@
+/**
+ * Tax calculation for subscription charges by the buyer's location
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+export interface TaxLocation {
+  // ISO 3166-1 alpha-2, e.g. "DE"
+  country: string;
+  // State or province code within the country, e.g. "CA"
+  region: string | null;
+}
+
+export interface TaxRate {
+  percent: number;
+  // Shown on invoices, e.g. "VAT"
+  label: string;
+}
+
+export interface TaxCalculator {
+  // The rate included in prices charged to buyers at the location; null when
+  // none is charged there
+  getTaxRate(location: TaxLocation): Promise<TaxRate | null>;
+}
+
+// Rates from a fixed table keyed by country ("DE") or country and region
+// ("US-CA"). A region's rate replaces its country's.
+export class StaticTaxCalculator implements TaxCalculator {
+  constructor(private readonly rates: Record<string, TaxRate>) {}
+
+  async getTaxRate({ country, region }: TaxLocation): Promise<TaxRate | null> {
+    const rate = (region ? this.rates[`${country}-${region}`] : undefined) ?? this.rates[country];
+    return rate && rate.percent > 0 ? rate : null;
+  }
+}
+
+// From TAX_RATES, e.g. '{"DE":{"percent":19,"label":"VAT"},"US-CA":{"percent":7.25,"label":"Sales tax"}}'.
+// Without it no tax is charged.
+export const taxCalculator: TaxCalculator = new StaticTaxCalculator(JSON.parse(process.env.TAX_RATES || '{}'));
@@ -0,0 +1,91 @@
+/**
+ * Usage billing for metered plans: pricing the usage apps report and charging
+ * it once each billing period is over
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { storage } from './storage';
+import { paymentProvider } from './paymentProvider';
+import { chargeSubscription, recordProviderPayment } from './creditsLedger';
+import { getUsageLines, recordPaidInvoice } from './invoices';
+import { AppSubscription, OAuthApp, PricingPlan, UsageInvoice } from '../shared/schema';
+import { priceUsage } from '../shared/planPricing';
+import { isPaidWithCredits } from '../shared/credits';
+import { amountToCredits } from './exchangeRates';
+
+// Where usage that hasn't been billed yet starts: the period start, or later
+// if a plan change already billed part of the period
+export const getUnbilledUsageStart = (subscription: AppSubscription, periodStart: Date): Date =>
+  subscription.usageBilledUntil && subscription.usageBilledUntil > periodStart
+    ? subscription.usageBilledUntil
+    : periodStart;
+
+// Price the subscription's usage from periodStart up to periodEnd through the plan's tiers
+export const computeUsageInvoice = async (
+  subscription: AppSubscription,
+  plan: PricingPlan,
+  periodStart: Date,
+  periodEnd: Date
+): Promise<UsageInvoice> => {
+  const start = getUnbilledUsageStart(subscription, periodStart);
+  const quantity = start < periodEnd ? await storage.getUsageTotal(subscription.id, start, periodEnd) : 0;
+  const { lines, amount } = priceUsage(plan.usageTiers, quantity);
+  return {
+    subscriptionId: subscription.id,
+    periodStart: start,
+    periodEnd,
+    usageUnit: plan.usageUnit,
+    quantity,
+    lines,
+    amount
+  };
+};
+
+// Charge a metered subscription for its usage in a finished period: from the
+// wallet for subscriptions paid with credits, otherwise through the payment
+// provider, and invoice it. The reference keeps a period from being billed
+// twice. Throws InsufficientCreditsError when the wallet can't cover it.
+export const billPeriodUsage = async (
+  subscription: AppSubscription,
+  app: OAuthApp,
+  plan: PricingPlan,
+  periodStart: Date,
+  periodEnd: Date
+): Promise<UsageInvoice | null> => {
+  if (plan.pricingModel !== 'metered') {
+    return null;
+  }
+
+  const usage = await computeUsageInvoice(subscription, plan, periodStart, periodEnd);
+  const credits = amountToCredits(usage.amount, subscription.currency);
+  const paidWithCredits = isPaidWithCredits(subscription);
+  if (credits === 0 || (!paidWithCredits && !subscription.providerSubscriptionId)) {
+    return usage;
+  }
+
+  const description = `${app.name} (${plan.name}): ${usage.quantity.toLocaleString()} × ${plan.usageUnit}`;
+  const reference = `usage:${subscription.id}:${periodEnd.toISOString()}`;
+  const payment = { subscription, app, planId: plan.id, credits, description, reference };
+  if (paidWithCredits) {
+    await chargeSubscription(payment);
+  } else {
+    await paymentProvider.chargeUsage(
+      subscription.providerSubscriptionId!,
+      usage.amount,
+      subscription.currency,
+      description,
+      reference
+    );
+    await recordProviderPayment(payment);
+  }
+  await recordPaidInvoice({
+    subscription,
+    app,
+    plan,
+    periodStart: usage.periodStart,
+    periodEnd,
+    lines: getUsageLines(plan, usage),
+    reference
+  }, paidWithCredits);
+  return usage;
+};
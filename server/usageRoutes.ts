@@ -0,0 +1,128 @@
+/**
+ * Usage Routes: apps on metered plans report their subscribers' usage
+ * Mounted at /api/usage; authenticated with the app's client credentials
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { Router, Request, Response } from 'express';
+import { storage } from './storage';
+import { parseBody, sendValidationError } from './validation';
+import { authenticateClient } from './clientAuth';
+import { computeUsageInvoice, getUnbilledUsageStart } from './usageBilling';
+import { AppSubscription, OAuthApp, PricingPlan } from '../shared/schema';
+import { reportUsageSchema, usageSummarySchema, validate } from '../shared/validation';
+
+const router = Router();
+
+// Reports may be stamped slightly ahead of our clock
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// Only confidential clients can report usage; a public client's id is no secret
+const getAuthenticatedApp = async (req: Request, res: Response): Promise<OAuthApp | null> => {
+  const app = await authenticateClient(req);
+  if (!app || app.isPublicClient) {
+    res.set('WWW-Authenticate', 'Basic realm="oauth"');
+    res.status(401).json({ message: 'Client authentication failed' });
+    return null;
+  }
+  return app;
+};
+
+// The user's active or trialing subscription to the app on a metered plan, or
+// send a 404. Usage is kept by when it occurred, so a period that has ended but
+// isn't settled yet still bills only its own usage.
+const getMeteredSubscription = async (
+  app: OAuthApp,
+  userId: number,
+  res: Response
+): Promise<{ subscription: AppSubscription; plan: PricingPlan } | null> => {
+  const subscription = await storage.getUserAppSubscription(userId, app.id);
+  const plan = subscription && await storage.getPricingPlan(subscription.planId);
+  if (
+    !subscription || !plan || plan.pricingModel !== 'metered' ||
+    (subscription.status !== 'active' && subscription.status !== 'trialing')
+  ) {
+    res.status(404).json({ message: 'The user has no active subscription to a metered plan of this app' });
+    return null;
+  }
+  return { subscription, plan };
+};
+
+// Record usage for a subscriber. Reports carrying an idempotency key the app
+// has already used return the original record with a 200.
+router.post('/records', async (req: Request, res: Response) => {
+  try {
+    const app = await getAuthenticatedApp(req, res);
+    if (!app) return;
+
+    const body = parseBody(reportUsageSchema, req, res);
+    if (!body) return;
+
+    if (body.idempotencyKey) {
+      const existing = await storage.getUsageRecordByIdempotencyKey(app.id, body.idempotencyKey);
+      if (existing) {
+        return res.status(200).json(existing);
+      }
+    }
+
+    const metered = await getMeteredSubscription(app, body.userId, res);
+    if (!metered) return;
+    const { subscription } = metered;
+
+    // Usage can only be added to the period that hasn't been billed yet
+    const now = new Date();
+    const occurredAt = body.occurredAt ?? now;
+    if (occurredAt.getTime() > now.getTime() + MAX_CLOCK_SKEW_MS) {
+      return sendValidationError(res, { occurredAt: 'Usage cannot be reported ahead of time' });
+    }
+    if (occurredAt < getUnbilledUsageStart(subscription, subscription.currentPeriodStart!)) {
+      return sendValidationError(res, { occurredAt: 'Usage from a billed period can no longer be reported' });
+    }
+
+    const record = await storage.createUsageRecord({
+      subscriptionId: subscription.id,
+      appId: app.id,
+      quantity: body.quantity,
+      occurredAt,
+      idempotencyKey: body.idempotencyKey ?? null
+    });
+    if (!record) {
+      // A concurrent report with the same key got there first
+      return res.status(200).json(await storage.getUsageRecordByIdempotencyKey(app.id, body.idempotencyKey!));
+    }
+    res.status(201).json(record);
+  } catch (error) {
+    console.error('Error recording usage:', error);
+    res.status(500).json({ message: 'Failed to record usage' });
+  }
+});
+
+// A subscriber's usage so far in the current period and what it will cost
+router.get('/summary', async (req: Request, res: Response) => {
+  try {
+    const app = await getAuthenticatedApp(req, res);
+    if (!app) return;
+
+    const result = validate(usageSummarySchema, req.query);
+    if (!result.success) {
+      return sendValidationError(res, result.errors);
+    }
+
+    const metered = await getMeteredSubscription(app, result.data.userId, res);
+    if (!metered) return;
+    const { subscription, plan } = metered;
+
+    const invoice = await computeUsageInvoice(
+      subscription,
+      plan,
+      subscription.currentPeriodStart!,
+      subscription.currentPeriodEnd!
+    );
+    res.status(200).json(invoice);
+  } catch (error) {
+    console.error('Error fetching usage summary:', error);
+    res.status(500).json({ message: 'Failed to fetch usage summary' });
+  }
+});
+
+export default router;
@@ -0,0 +1,24 @@
+/**
+ * Request body validation against the shared schemas
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { FieldErrors, validate } from '../shared/validation';
+
+// Send a 400 with per-field errors. `message` repeats the first error for
+// clients that only display a single string.
+export const sendValidationError = (res: Response, errors: FieldErrors) => {
+  res.status(400).json({ message: Object.values(errors)[0] ?? 'Invalid request', errors });
+};
+
+// Parse the request body, or send the validation errors and return null
+export const parseBody = <T extends z.ZodTypeAny>(schema: T, req: Request, res: Response): z.output<T> | null => {
+  const result = validate(schema, req.body);
+  if (!result.success) {
+    sendValidationError(res, result.errors);
+    return null;
+  }
+  return result.data;
+};
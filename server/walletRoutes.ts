@@ -0,0 +1,79 @@
+/**
+ * Wallet Routes: a user's credits balance, history and purchases
+ * Mounted at /api/wallet
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { Router, Request, Response } from 'express';
+import { storage } from './storage';
+import { parseBody, sendValidationError } from './validation';
+import { paymentProvider } from './paymentProvider';
+import { purchaseCreditsSchema, validate, walletTransactionsSchema } from '../shared/validation';
+
+const router = Router();
+
+// Middleware to check authentication
+const requireAuth = (req: Request, res: Response, next: Function) => {
+  if (!req.isAuthenticated() || !req.user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+  next();
+};
+
+// Base URL the payment provider returns the user to: APP_URL when configured, otherwise the request origin
+const getAppBaseUrl = (req: Request): string => {
+  return process.env.APP_URL || `${req.protocol}://${req.get('host')}`;
+};
+
+// Current balance
+router.get('/', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = await storage.getUser(req.user.id);
+    res.status(200).json({ balance: user?.credits ?? 0 });
+  } catch (error) {
+    console.error('Error fetching wallet:', error);
+    res.status(500).json({ message: 'Failed to fetch wallet' });
+  }
+});
+
+// Transactions that moved credits in or out of the wallet, newest first.
+// Pass the last id as `before` to fetch the next page.
+router.get('/transactions', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const result = validate(walletTransactionsSchema, req.query);
+    if (!result.success) {
+      return sendValidationError(res, result.errors);
+    }
+
+    const { before, limit } = result.data;
+    const transactions = await storage.getWalletTransactions(req.user.id, limit, before);
+    res.status(200).json(transactions);
+  } catch (error) {
+    console.error('Error fetching wallet transactions:', error);
+    res.status(500).json({ message: 'Failed to fetch wallet transactions' });
+  }
+});
+
+// Buy credits on the payment provider's page. The wallet is credited when the
+// provider's webhook confirms payment.
+router.post('/purchase', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const body = parseBody(purchaseCreditsSchema, req, res);
+    if (!body) return;
+
+    const baseUrl = getAppBaseUrl(req);
+    const session = await paymentProvider.createCreditPurchaseSession({
+      userId: req.user.id,
+      credits: body.credits,
+      customerEmail: req.user.email,
+      successUrl: `${baseUrl}/wallet?purchase=success`,
+      cancelUrl: `${baseUrl}/wallet?purchase=cancelled`
+    });
+    res.status(201).json({ checkoutUrl: session.url });
+  } catch (error) {
+    console.error('Error starting credit purchase:', error);
+    res.status(500).json({ message: 'Failed to start credit purchase' });
+  }
+});
+
+export default router;
@@ -0,0 +1,34 @@
+/**
+ * Helpers for walking the app category tree
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { AppCategory } from './schema';
+
+// The category and all of its descendants
+export const getCategorySubtreeIds = (categories: AppCategory[], rootId: number): number[] => {
+  const ids = [rootId];
+  // Breadth-first; `ids` grows while we iterate
+  for (let i = 0; i < ids.length; i++) {
+    for (const category of categories) {
+      if (category.parentId === ids[i]) {
+        ids.push(category.id);
+      }
+    }
+  }
+  return ids;
+};
+
+// Moving a category under itself or one of its descendants would detach that branch from the tree
+export const wouldCreateCycle = (categories: AppCategory[], categoryId: number, parentId: number): boolean =>
+  getCategorySubtreeIds(categories, categoryId).includes(parentId);
+
+// Depth-first listing for pickers and navigation: each parent followed by its
+// children, siblings in the order given (storage returns them by position)
+export const flattenCategoryTree = (categories: AppCategory[]): { category: AppCategory; depth: number }[] => {
+  const visit = (parentId: number | null, depth: number): { category: AppCategory; depth: number }[] =>
+    categories
+      .filter(category => category.parentId === parentId)
+      .flatMap(category => [{ category, depth }, ...visit(category.id, depth + 1)]);
+  return visit(null, 0);
+};
@@ -0,0 +1,46 @@
+/**
+ * Coupon discounts and their wording, shared by billing, the checkout preview
+ * and the coupon pages
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { Coupon, CouponDuration } from './schema';
+import { DEFAULT_CURRENCY, formatMinorUnits } from './currency';
+
+type CouponDiscount = Pick<Coupon, 'discountType' | 'discountValue'>;
+
+export const COUPON_DURATION_LABELS: Record<CouponDuration, string> = {
+  once: 'Once',
+  repeating: 'Repeating',
+  forever: 'Forever'
+};
+
+// Codes are matched case-insensitively: " launch20" -> "LAUNCH20"
+export const normalizeCouponCode = (code: string): string => code.trim().toUpperCase();
+
+// Price after the discount, both in minor units; a fixed amount never takes it below zero
+export const applyDiscount = (price: number, discount: CouponDiscount): number =>
+  discount.discountType === 'percent'
+    ? Math.round(price * (1 - discount.discountValue / 100))
+    : Math.max(price - discount.discountValue, 0);
+
+// e.g. "20% off", "$5.00 off". Fixed discounts are in the given currency.
+export const describeDiscount = (discount: CouponDiscount, currency: string): string =>
+  discount.discountType === 'percent'
+    ? `${discount.discountValue}% off`
+    : `${formatMinorUnits(discount.discountValue, currency)} off`;
+
+// e.g. "20% off the first payment", "$5.00 off for the first 3 billing periods", "20% off forever"
+export const describeCoupon = (
+  coupon: CouponDiscount & Pick<Coupon, 'currency' | 'duration' | 'durationPeriods'>
+): string => {
+  const discount = describeDiscount(coupon, coupon.currency ?? DEFAULT_CURRENCY);
+  if (coupon.duration === 'once') {
+    return `${discount} the first payment`;
+  }
+  if (coupon.duration === 'forever') {
+    return `${discount} forever`;
+  }
+  const periods = coupon.durationPeriods === 1 ? 'billing period' : `${coupon.durationPeriods} billing periods`;
+  return `${discount} for the first ${periods}`;
+};
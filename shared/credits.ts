@@ -0,0 +1,25 @@
+/**
+ * Credit amounts shared by the API and the wallet page
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { AppSubscription, CreditAccountType } from './schema';
+
+// One credit is worth one cent
+export const CREDITS_PER_DOLLAR = 100;
+
+// Credits pay only for subscriptions billed in this currency
+export const CREDITS_CURRENCY = 'USD';
+
+// AppSubscription.paymentProvider for subscriptions paid from the wallet
+export const CREDITS_PAYMENT_METHOD = 'credits';
+
+// Accounts that may never be overdrawn, except by refunds (see IStorage.recordCreditTransaction)
+export const OVERDRAFT_PROTECTED_ACCOUNTS: readonly CreditAccountType[] = ['wallet', 'earnings'];
+
+export const priceToCredits = (price: number): number => Math.round(price * CREDITS_PER_DOLLAR);
+
+export const creditsToPrice = (credits: number): number => credits / CREDITS_PER_DOLLAR;
+
+export const isPaidWithCredits = (subscription: Pick<AppSubscription, 'paymentProvider'>): boolean =>
+  subscription.paymentProvider === CREDITS_PAYMENT_METHOD;
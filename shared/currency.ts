@@ -0,0 +1,144 @@
+/**
+ * Currencies plans can be priced in: minor units, plan prices per currency and
+ * formatting for the buyer's locale
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { PricingPlan } from './schema';
+import { isFreePlan } from './planPricing';
+
+// ISO 4217 codes we accept, with how many decimal places their minor unit has.
+// Billing rounds to cents, so zero-decimal currencies such as JPY aren't offered.
+export const CURRENCY_EXPONENTS = {
+  USD: 2,
+  EUR: 2,
+  GBP: 2,
+  CAD: 2,
+  AUD: 2,
+  CHF: 2,
+  SEK: 2,
+  INR: 2,
+  BRL: 2
+} as const;
+
+export type CurrencyCode = keyof typeof CURRENCY_EXPONENTS;
+
+export const CURRENCIES = Object.keys(CURRENCY_EXPONENTS) as CurrencyCode[];
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+// The currency the buyer's country usually pays in, for the currencies above
+const COUNTRY_CURRENCIES: Record<string, CurrencyCode> = {
+  US: 'USD',
+  GB: 'GBP',
+  CA: 'CAD',
+  AU: 'AUD',
+  CH: 'CHF',
+  SE: 'SEK',
+  IN: 'INR',
+  BR: 'BRL',
+  AT: 'EUR', BE: 'EUR', CY: 'EUR', DE: 'EUR', EE: 'EUR', ES: 'EUR', FI: 'EUR', FR: 'EUR', GR: 'EUR', HR: 'EUR',
+  IE: 'EUR', IT: 'EUR', LT: 'EUR', LU: 'EUR', LV: 'EUR', MT: 'EUR', NL: 'EUR', PT: 'EUR', SI: 'EUR', SK: 'EUR'
+};
+
+export const isCurrency = (code: string): code is CurrencyCode => code in CURRENCY_EXPONENTS;
+
+const getExponent = (currency: string) => isCurrency(currency) ? CURRENCY_EXPONENTS[currency] : 2;
+
+// 1999 USD cents -> 19.99
+export const toMajorUnits = (amount: number, currency: string): number => amount / 10 ** getExponent(currency);
+
+// 19.99 -> 1999 USD cents, rounded to a whole minor unit
+export const toMinorUnits = (amount: number, currency: string): number =>
+  Math.round(amount * 10 ** getExponent(currency));
+
+// The country of a locale such as "de-DE", or null for a bare language like "de"
+export const getLocaleCountry = (locale: string): string | null => {
+  const country = locale.split(/[-_]/)[1];
+  return country && /^[A-Za-z]{2}$/.test(country) ? country.toUpperCase() : null;
+};
+
+// The currency for a locale such as "de-DE", or null when its country isn't one we know
+export const getLocaleCurrency = (locale: string): CurrencyCode | null => {
+  const country = getLocaleCountry(locale);
+  return country ? COUNTRY_CURRENCIES[country] ?? null : null;
+};
+
+// Currencies the plan can be bought in: its own, then its overrides
+export const getPlanCurrencies = (plan: Pick<PricingPlan, 'currency' | 'priceOverrides'>): string[] =>
+  [plan.currency, ...Object.keys(plan.priceOverrides)];
+
+// The plan's price and introductory price in a currency, in its minor units;
+// null when the plan isn't sold in it. Introductory prices keep their ratio to
+// the regular price in override currencies.
+export const getPlanPrices = (
+  plan: Pick<PricingPlan, 'price' | 'introPrice' | 'currency' | 'priceOverrides'>,
+  currency: string
+): { price: number; introPrice: number | null } | null => {
+  if (currency === plan.currency) {
+    return { price: plan.price, introPrice: plan.introPrice };
+  }
+  const price = plan.priceOverrides[currency];
+  if (price === undefined) {
+    return null;
+  }
+  const introPrice = plan.introPrice === null || plan.price === 0
+    ? null
+    : Math.max(Math.round(price * plan.introPrice / plan.price), 1);
+  return { price, introPrice };
+};
+
+// The plan's regular price in a currency's minor units, null when it isn't
+// sold in it. Free plans are free in every currency.
+export const getPlanPriceIn = (
+  plan: Pick<PricingPlan, 'price' | 'currency' | 'priceOverrides' | 'pricingModel'>,
+  currency: string
+): number | null => {
+  if (isFreePlan(plan)) {
+    return 0;
+  }
+  return currency === plan.currency ? plan.price : plan.priceOverrides[currency] ?? null;
+};
+
+// The cheapest of the plans in the preferred currency when any of them is
+// sold in it, otherwise in the currency most of them are priced in; null
+// without plans
+export const getStartingPrice = (
+  plans: Pick<PricingPlan, 'price' | 'currency' | 'priceOverrides' | 'pricingModel'>[],
+  preferred: string
+): { price: number; currency: string } | null => {
+  if (plans.length === 0) {
+    return null;
+  }
+  const paidPlans = plans.filter(plan => !isFreePlan(plan));
+  let currency = preferred;
+  if (paidPlans.length > 0 && !paidPlans.some(plan => getPlanPriceIn(plan, preferred) !== null)) {
+    const counts = new Map<string, number>();
+    paidPlans.forEach(plan => counts.set(plan.currency, (counts.get(plan.currency) ?? 0) + 1));
+    currency = Array.from(counts).sort(([, a], [, b]) => b - a)[0][0];
+  }
+  const prices = plans
+    .map(plan => getPlanPriceIn(plan, currency))
+    .filter((price): price is number => price !== null);
+  return { price: Math.min(...prices), currency };
+};
+
+// The currency to show a plan in: the buyer's when the plan is sold in it,
+// otherwise the plan's own
+export const getDisplayCurrency = (
+  plan: Pick<PricingPlan, 'currency' | 'priceOverrides'>,
+  preferred: string | null
+): string => preferred && getPlanCurrencies(plan).includes(preferred) ? preferred : plan.currency;
+
+// An amount in major units for the buyer's locale, e.g. "$19.99", "19,99 €"
+export const formatMoney = (amount: number, currency: string, locale?: string): string =>
+  new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: getExponent(currency),
+    maximumFractionDigits: getExponent(currency)
+  }).format(amount);
+
+// An amount in minor units, as formatMoney
+export const formatMinorUnits = (amount: number, currency: string, locale?: string): string =>
+  formatMoney(toMajorUnits(amount, currency), currency, locale);
@@ -0,0 +1,42 @@
+/**
+ * Invoice states and totals shared by the API, the PDF renderer and the billing pages
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { Invoice, InvoiceLine, InvoiceStatus } from './schema';
+import { formatMinorUnits } from './currency';
+
+// Statuses an invoice may move to from each status. paid and void are final.
+export const INVOICE_TRANSITIONS: Record<InvoiceStatus, readonly InvoiceStatus[]> = {
+  // Finalizing numbers the invoice
+  draft: ['open', 'void'],
+  open: ['paid', 'void'],
+  paid: [],
+  void: []
+};
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: 'Draft',
+  open: 'Open',
+  paid: 'Paid',
+  void: 'Void'
+};
+
+export const canTransitionInvoice = (from: InvoiceStatus, to: InvoiceStatus): boolean =>
+  INVOICE_TRANSITIONS[from].includes(to);
+
+// Format an invoice number from its place in the sequence: 42 -> "INV-000042"
+export const formatInvoiceNumber = (sequence: number): string => `INV-${String(sequence).padStart(6, '0')}`;
+
+// Add up the lines. Tax is already part of the charges, and credits applied
+// reduce what's left to pay.
+export const getInvoiceTotals = (lines: InvoiceLine[]): Pick<Invoice, 'total' | 'tax' | 'creditsApplied' | 'amountDue'> => {
+  const sum = (types: InvoiceLine['type'][]) =>
+    lines.filter(line => types.includes(line.type)).reduce((total, line) => total + line.amount, 0);
+  const total = sum(['plan', 'discount', 'proration', 'usage']);
+  const creditsApplied = -sum(['credits_applied']);
+  return { total, tax: sum(['tax']), creditsApplied, amountDue: total - creditsApplied };
+};
+
+// An amount in minor units, e.g. "$10.00", "-$2.50", "12,00 €"
+export const formatInvoiceAmount = (amount: number, currency: string): string => formatMinorUnits(amount, currency);
@@ -0,0 +1,64 @@
+/**
+ * Wording for plan prices, usage tiers, trials and introductory prices, shared
+ * by the pricing cards, the subscriptions page and the fake checkout page
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { PricingPlan } from './schema';
+import { formatMinorUnits, getPlanPrices, toMajorUnits } from './currency';
+
+type PlanPrice = Pick<PricingPlan, 'price' | 'currency' | 'billingInterval' | 'pricingModel'>;
+type PlanOffers = PlanPrice & Pick<PricingPlan, 'priceOverrides' | 'trialDays' | 'introPrice' | 'introPeriods'>;
+
+const intervalUnit = (plan: Pick<PricingPlan, 'billingInterval'>) =>
+  plan.billingInterval === 'monthly' ? 'month' : 'year';
+
+// e.g. "$10.00/month", or "$10.00/seat/month" on per-seat plans. The price is
+// in minor units of the currency, the plan's own unless given.
+export const formatPlanPrice = (plan: PlanPrice, price = plan.price, currency = plan.currency) =>
+  `${formatMinorUnits(price, currency)}/${plan.pricingModel === 'per_seat' ? 'seat/' : ''}${intervalUnit(plan)}`;
+
+// A price in minor units that can be a fraction of one: 0.2 -> "$0.002", 150 -> "$1.50"
+export const formatUnitPrice = (price: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency, minimumFractionDigits: 2, maximumFractionDigits: 4 })
+    .format(toMajorUnits(price, currency));
+
+// One line per tier, e.g. "First 1,000: $0.002 per API call", "Over 1,000: $0.001 per API call + $5.00"
+export const describeUsageTiers = (plan: Pick<PricingPlan, 'currency' | 'usageUnit' | 'usageTiers'>): string[] =>
+  plan.usageTiers.map((tier, index) => {
+    const previousUpTo = index > 0 ? plan.usageTiers[index - 1].upTo ?? 0 : 0;
+    const range = tier.upTo === null
+      ? (index === 0 ? 'Each' : `Over ${previousUpTo.toLocaleString()}`)
+      : `${index === 0 ? 'First' : 'Next'} ${(tier.upTo - previousUpTo).toLocaleString()}`;
+    const flatFee = tier.flatFee > 0 ? ` + ${formatUnitPrice(tier.flatFee, plan.currency)}` : '';
+    return `${range}: ${formatUnitPrice(tier.unitPrice, plan.currency)} per ${plan.usageUnit ?? 'unit'}${flatFee}`;
+  });
+
+// e.g. "14-day free trial"; null when the plan has no trial
+export const describeTrial = (plan: Pick<PricingPlan, 'trialDays'>): string | null =>
+  plan.trialDays > 0 ? `${plan.trialDays}-day free trial` : null;
+
+// e.g. "$5.00/month for the first 3 months"; null when the plan has no
+// introductory price. In one of the currencies the plan is sold in, its own by default.
+export const describeIntroOffer = (plan: PlanOffers, currency = plan.currency): string | null => {
+  const introPrice = getPlanPrices(plan, currency)?.introPrice ?? null;
+  if (introPrice === null || plan.introPeriods === null) {
+    return null;
+  }
+  const periods = plan.introPeriods === 1 ? intervalUnit(plan) : `${plan.introPeriods} ${intervalUnit(plan)}s`;
+  return `${formatPlanPrice(plan, introPrice, currency)} for the first ${periods}`;
+};
+
+// The whole offer in one line, e.g. "14-day free trial, then $5.00/month for
+// the first 3 months, then $10.00/month". Leave the trial out for users who
+// have already had one.
+export const describePlanOffers = (plan: PlanOffers, withTrial = true, currency = plan.currency): string => {
+  const price = formatPlanPrice(plan, getPlanPrices(plan, currency)?.price ?? plan.price, currency);
+  return [
+    withTrial ? describeTrial(plan) : null,
+    describeIntroOffer(plan, currency),
+    plan.pricingModel === 'metered' ? `${price} plus usage` : price
+  ]
+    .filter((part): part is string => part !== null)
+    .join(', then ');
+};
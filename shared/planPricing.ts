@@ -0,0 +1,34 @@
+/**
+ * Plan pricing rules shared by billing and the pricing pages: free plans,
+ * seats and graduated usage tiers
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { PricingPlan, UsageInvoiceLine, UsageTier } from './schema';
+
+// Metered plans bill usage even without a base price, so they always go through checkout
+export const isFreePlan = (plan: Pick<PricingPlan, 'price' | 'pricingModel'>): boolean =>
+  plan.price === 0 && plan.pricingModel !== 'metered';
+
+// New subscribers can only buy public plans that aren't archived
+export const isPlanForSale = (plan: Pick<PricingPlan, 'isPublic' | 'archivedAt'>): boolean =>
+  plan.isPublic && plan.archivedAt === null;
+
+// Seats the plan's price is multiplied by
+export const getBilledSeats = (plan: Pick<PricingPlan, 'pricingModel'>, seats: number): number =>
+  plan.pricingModel === 'per_seat' ? seats : 1;
+
+// Price a period's usage through graduated tiers: each tier charges only the
+// units that fall inside it, rounded to a whole minor unit. Tiers the usage
+// doesn't reach are left out.
+export const priceUsage = (tiers: UsageTier[], quantity: number): { lines: UsageInvoiceLine[]; amount: number } => {
+  const lines: UsageInvoiceLine[] = [];
+  let tierStart = 0;
+  for (const tier of tiers) {
+    const tierQuantity = Math.min(quantity, tier.upTo ?? Infinity) - tierStart;
+    if (tierQuantity <= 0) break;
+    lines.push({ tier, quantity: tierQuantity, amount: Math.round(tierQuantity * tier.unitPrice) + tier.flatFee });
+    tierStart = tier.upTo ?? Infinity;
+  }
+  return { lines, amount: lines.reduce((sum, line) => sum + line.amount, 0) };
+};
@@ -10,10 +10,12 @@ export interface User {
   name: string | null;
   email: string;
   password: string | null;
+  // Wallet balance, maintained by the credits ledger; never written directly
   credits: number;
   githubId: string | null;
   githubUsername: string | null;
   avatarUrl: string | null;
+  isAdmin: boolean;
 }
 
 // OAuth App model
@@ -23,37 +25,463 @@ export interface OAuthApp {
   name: string;
   description: string;
   clientId: string | null;
-  clientSecret: string | null;
+  clientSecretHash: string | null;
+  previousClientSecretHash: string | null;
+  previousClientSecretExpiresAt: Date | null;
   homepageUrl: string;
-  callbackUrl: string;
+  redirectUris: string[];
   isPublished: boolean;
   verificationStatus: string;
   logoUrl: string | null;
   createdAt: Date;
   updatedAt: Date;
   isListed: boolean;
+  isPublicClient: boolean;
+  requiredScopes: string[];
+  optionalScopes: string[];
+  // First time the app was published; drives the "Recently Added" feed
+  publishedAt: Date | null;
+  // Primary marketplace category
+  categoryId: number | null;
+  // Free-form, normalized to lowercase
+  tags: string[];
+  // Platform's share of subscription revenue, in percent; null uses the platform default
+  platformFeePercent: number | null;
 }
 
-// Pricing Plan model
+// OAuth App as returned by the API: secret hashes never leave the server
+export type SafeOAuthApp = Omit<OAuthApp, 'clientSecretHash' | 'previousClientSecretHash'> & {
+  hasClientSecret: boolean;
+};
+
+// Aggregates shown on marketplace cards
+export interface AppListingStats {
+  averageRating: number | null;
+  reviewCount: number;
+  // Users who have authorized the app
+  installCount: number;
+  // Cheapest public plan, in the minor units of startingPriceCurrency; null
+  // when the app has no public plans
+  startingPrice: number | null;
+  startingPriceCurrency: string | null;
+}
+
+// App as listed in the marketplace
+export type MarketplaceListing = SafeOAuthApp & AppListingStats;
+
+// One page of marketplace search results
+export interface MarketplaceSearchResult<T> {
+  apps: T[];
+  total: number;
+  // Opaque cursor for the next page, null on the last page
+  nextCursor: string | null;
+}
+
+// App Category model: an admin-managed tree, ordered by position within a parent
+export interface AppCategory {
+  id: number;
+  parentId: number | null;
+  name: string;
+  slug: string;
+  description: string | null;
+  position: number;
+}
+
+// How a plan charges: a flat price per period, a price per seat per period, or
+// a base price (which may be zero) plus reported usage billed after each period
+export type PricingModel = 'flat' | 'per_seat' | 'metered';
+
+// One band of a metered plan's graduated price table. Usage up to upTo units
+// in a period (null for the last, open-ended tier) costs unitPrice per unit,
+// plus flatFee once any usage reaches the tier. Both are in minor units of the
+// plan's currency; unit prices can be fractions of one, e.g. 0.2 for a fifth
+// of a cent, while flat fees are whole.
+export interface UsageTier {
+  upTo: number | null;
+  unitPrice: number;
+  flatFee: number;
+}
+
+// Pricing Plan model. For per-seat plans price is per seat; for metered plans
+// it is the base price charged at the start of each period. Prices are integers
+// in the minor units of the currency, e.g. cents.
 export interface PricingPlan {
   id: number;
   appId: number;
   name: string;
   price: number;
+  // ISO 4217 code, e.g. "USD"
+  currency: string;
+  // The price in other currencies the plan is sold in, in their minor units,
+  // e.g. { EUR: 899 }. Metered plans are only sold in their own currency.
+  priceOverrides: Record<string, number>;
   billingInterval: string;
+  pricingModel: PricingModel;
+  // Metered plans only: what is counted, e.g. "API call", and its price
+  // table in ascending order; null and empty for other plans
+  usageUnit: string | null;
+  usageTiers: UsageTier[];
   features: string[];
   isPublic: boolean;
+  // Where the plan is listed among the app's plans, from 0
+  position: number;
+  // Archived plans can't be bought or changed; their subscribers keep them
+  archivedAt: Date | null;
+  // Free days before the first charge on paid plans; 0 for no trial. Each user
+  // gets one trial per app.
+  trialDays: number;
+  // Discounted price for the first introPeriods billing periods; both null when
+  // the plan has no introductory offer
+  introPrice: number | null;
+  introPeriods: number | null;
+}
+
+// A user's one trial of an app, kept after the subscription ends
+export interface AppTrial {
+  id: number;
+  userId: number;
+  appId: number;
+  startedAt: Date;
+}
+
+// Coupon model: a promotion code a developer hands out for their app's paid
+// plans. The discount is locked in when a subscription redeems the code.
+export type CouponDiscountType = 'percent' | 'fixed';
+export type CouponDuration = 'once' | 'repeating' | 'forever';
+
+export interface Coupon {
+  id: number;
+  appId: number;
+  // What subscribers enter; uppercase and unique within the app
+  code: string;
+  discountType: CouponDiscountType;
+  // Percent off, or an amount off each discounted billing period's price in
+  // minor units of currency
+  discountValue: number;
+  // Fixed discounts only: the currency they are in, and the only one they can
+  // be redeemed for; null for percentages
+  currency: string | null;
+  // The first paid billing period, the first durationPeriods of them, or all of them
+  duration: CouponDuration;
+  // Repeating coupons only; null otherwise
+  durationPeriods: number | null;
+  // Null for no limit
+  maxRedemptions: number | null;
+  // Kept up to date by storage as codes are redeemed and released
+  redemptionCount: number;
+  expiresAt: Date | null;
+  // Plans the code can be used on; empty for all of the app's paid plans
+  planIds: number[];
+  // Deactivated codes can't be redeemed, but discounts already given carry on
+  isActive: boolean;
+  createdAt: Date;
+}
+
+// A subscription's use of a coupon; one per user and coupon. Released again
+// if the checkout it was redeemed at never completes.
+export interface CouponRedemption {
+  id: number;
+  couponId: number;
+  userId: number;
+  subscriptionId: number;
+  // The plan it was redeemed on
+  planId: number;
+  redeemedAt: Date;
+}
+
+// Redemption as listed for the app's developer
+export interface CouponRedemptionDetails extends CouponRedemption {
+  customer: Pick<User, 'username' | 'name' | 'email'>;
+  subscriptionStatus: SubscriptionStatus;
+}
+
+// What a coupon takes off a checkout, shown before the user subscribes
+export interface CouponPreview {
+  code: string;
+  // e.g. "20% off for the first 3 billing periods"
+  description: string;
+  // Due now with the discount, for all seats, in minor units of currency; 0
+  // during a trial
+  amountDue: number;
+  currency: string;
 }
 
-// App Subscription model
+// App Subscription model. Paid plans start 'pending' until the payment provider
+// confirms checkout, then become 'trialing' or 'active'; free plans start
+// 'active'. Allowed status changes are defined in shared/subscriptionLifecycle.ts.
+export type SubscriptionStatus = 'pending' | 'trialing' | 'active' | 'past_due' | 'canceled' | 'expired';
+
 export interface AppSubscription {
   id: number;
   userId: number;
   appId: number;
   planId: number;
-  status: string;
+  status: SubscriptionStatus;
   startDate: Date;
   endDate: Date | null;
+  // Billing period being paid for; null until the subscription starts
+  currentPeriodStart: Date | null;
+  currentPeriodEnd: Date | null;
+  // Ends at currentPeriodEnd instead of renewing; can be undone until then
+  cancelAtPeriodEnd: boolean;
+  // Name of the PaymentProvider that handled checkout, 'credits' when paid from
+  // the user's wallet, null for free plans
+  paymentProvider: string | null;
+  // What the subscription is billed in: the plan's currency or one of its
+  // overrides, picked at checkout. Subscriptions paid with credits are billed
+  // in CREDITS_CURRENCY.
+  currency: string;
+  // Where the buyer is, for tax: ISO 3166-1 alpha-2 country and an optional
+  // region code such as "CA" for California; null on free plans
+  billingCountry: string | null;
+  billingRegion: string | null;
+  providerCheckoutId: string | null;
+  providerSubscriptionId: string | null;
+  // End of the free trial, when the subscription started with one. Set while
+  // pending when checkout offered a trial.
+  trialEnd: Date | null;
+  // Introductory price locked in at signup, in minor units of currency;
+  // billing periods starting before introEndsAt are charged introPrice
+  // instead of the plan's price
+  introPrice: number | null;
+  introEndsAt: Date | null;
+  // Seats paid for on per-seat plans; 1 on other plans
+  seats: number;
+  // Usage before this was billed early, when the subscription left a metered
+  // plan partway through a period; later usage is billed from here
+  usageBilledUntil: Date | null;
+  // Coupon redeemed at checkout. Its discount is locked in once the first paid
+  // period is known and applies to billing periods starting before
+  // discountEndsAt, or to all of them when that is null; it carries over to
+  // plan and seat changes.
+  couponId: number | null;
+  discountType: CouponDiscountType | null;
+  discountValue: number | null;
+  discountEndsAt: Date | null;
+  // Plan the developer is moving the subscription to, and when: the start of
+  // the first billing period after the notice they gave
+  migrationPlanId: number | null;
+  migratesAt: Date | null;
+}
+
+// Usage an app reported for a subscriber on a metered plan
+export interface UsageRecord {
+  id: number;
+  subscriptionId: number;
+  appId: number;
+  quantity: number;
+  // When the usage happened, which decides the billing period it is charged in
+  occurredAt: Date;
+  // Chosen by the app so a retried report is only counted once
+  idempotencyKey: string | null;
+  createdAt: Date;
+}
+
+// Usage falling into one tier of the plan's price table
+export interface UsageInvoiceLine {
+  tier: UsageTier;
+  quantity: number;
+  // In minor units of the plan's currency
+  amount: number;
+}
+
+// What a metered subscription owes for the usage reported in one billing period
+export interface UsageInvoice {
+  subscriptionId: number;
+  periodStart: Date;
+  periodEnd: Date;
+  usageUnit: string | null;
+  quantity: number;
+  // Only tiers the usage reached
+  lines: UsageInvoiceLine[];
+  amount: number;
+}
+
+// Subscription as shown on the user's subscriptions page
+export interface SubscriptionDetails extends AppSubscription {
+  app: Pick<OAuthApp, 'id' | 'name' | 'logoUrl'>;
+  plan: PricingPlan;
+  migrationPlan: PricingPlan | null;
+}
+
+// Cost of switching plans now. Unused time on the current plan is credited
+// against the new plan; a negative amountDue is owed to the user. Amounts are
+// in minor units of the subscription's currency.
+export interface ProrationPreview {
+  currentPlanCredit: number;
+  newPlanCharge: number;
+  amountDue: number;
+  // Billing period after the switch; it restarts when the interval changes
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+// Invoice model: the bill for one subscription charge, i.e. a billing period,
+// a plan or seat change, or a period's usage. Invoices are drafts while their
+// lines are put together and get their number when finalized ('open', awaiting
+// payment); they end 'paid', or 'void' when they will never be paid. Allowed
+// status changes are defined in shared/invoices.ts.
+export type InvoiceStatus = 'draft' | 'open' | 'paid' | 'void';
+
+// Prices include tax, so tax lines show the part of the charges that is tax
+// rather than adding to them. discount and credits_applied lines are negative.
+export type InvoiceLineType = 'plan' | 'discount' | 'proration' | 'usage' | 'tax' | 'credits_applied';
+
+export interface InvoiceLine {
+  type: InvoiceLineType;
+  description: string;
+  quantity: number;
+  // In minor units of the invoice's currency; negative for credits such as
+  // unused time after a downgrade
+  amount: number;
+}
+
+export interface Invoice {
+  id: number;
+  // e.g. "INV-000042"; null while a draft
+  number: string | null;
+  userId: number;
+  // Null once the subscription, app or plan is deleted; the names are copied
+  // so an issued invoice never changes
+  subscriptionId: number | null;
+  appId: number | null;
+  planId: number | null;
+  appName: string;
+  planName: string;
+  status: InvoiceStatus;
+  periodStart: Date;
+  periodEnd: Date;
+  lines: InvoiceLine[];
+  // The subscription's currency
+  currency: string;
+  // Totals of the lines, in minor units. total includes tax and is negative when
+  // the invoice credits the user; amountDue is what's left after credits
+  // applied from the wallet.
+  total: number;
+  tax: number;
+  creditsApplied: number;
+  amountDue: number;
+  // How it was paid, as AppSubscription.paymentProvider
+  paymentMethod: string | null;
+  // Unique key of the charge, shared with its ledger transaction, so a retried
+  // charge reuses the invoice
+  reference: string | null;
+  createdAt: Date;
+  finalizedAt: Date | null;
+  paidAt: Date | null;
+  voidedAt: Date | null;
+}
+
+// Invoice with its customer, as downloaded or shown to the app's developer
+export interface InvoiceDetails extends Invoice {
+  customer: Pick<User, 'username' | 'name' | 'email'>;
+}
+
+// Credits ledger. One credit is worth one cent. Each transaction is a set of
+// entries that sum to zero, so credits only ever move between accounts.
+export type CreditAccountType =
+  // A user's spendable credits, mirrored in User.credits
+  | 'wallet'
+  // What a developer has earned from subscriptions paid with credits
+  | 'earnings'
+  // Platform accounts: money taken in by the payment provider, promotional
+  // grants, money paid out to developers, and the platform's fees
+  | 'payments'
+  | 'promotions'
+  | 'payouts'
+  | 'revenue';
+
+export interface CreditAccount {
+  id: number;
+  // Owner of wallet and earnings accounts; null for platform accounts
+  userId: number | null;
+  type: CreditAccountType;
+  balance: number;
+  createdAt: Date;
+}
+
+export type CreditTransactionType = 'purchase' | 'plan_payment' | 'refund' | 'promotional_grant' | 'payout';
+
+export interface CreditTransaction {
+  id: number;
+  type: CreditTransactionType;
+  description: string;
+  // Subscription, app and plan a plan payment or refund belongs to
+  subscriptionId: number | null;
+  appId: number | null;
+  planId: number | null;
+  // Unique key that makes recording the same event twice a no-op, e.g. a provider checkout id
+  reference: string | null;
+  createdAt: Date;
+}
+
+export interface CreditEntry {
+  id: number;
+  transactionId: number;
+  accountId: number;
+  // Positive amounts credit the account, negative amounts debit it
+  amount: number;
+  balanceAfter: number;
+}
+
+// One side of a transaction to record; storage resolves (and creates) the account
+export interface CreditPosting {
+  userId: number | null;
+  account: CreditAccountType;
+  amount: number;
+}
+
+// A transaction and its postings for storage to record in the same step as
+// the change they belong to, e.g. a payout request
+export interface CreditTransactionDraft {
+  transaction: InsertCreditTransaction;
+  postings: CreditPosting[];
+}
+
+// A transaction as seen from one user's wallet
+export interface WalletTransaction extends CreditTransaction {
+  amount: number;
+  balanceAfter: number;
+}
+
+// A developer's subscription revenue for one app, plan and month (YYYY-MM, UTC).
+// Amounts are credits; refunds are netted in.
+export interface EarningsReportRow {
+  appId: number | null;
+  planId: number | null;
+  month: string;
+  grossAmount: number;
+  platformFee: number;
+  netAmount: number;
+  paymentCount: number;
+}
+
+// Earnings report as shown on the developer dashboard
+export interface DeveloperEarnings {
+  // Earnings not yet requested as a payout
+  availableBalance: number;
+  pendingPayouts: number;
+  apps: Pick<OAuthApp, 'id' | 'name' | 'platformFeePercent'>[];
+  plans: Pick<PricingPlan, 'id' | 'appId' | 'name'>[];
+  rows: EarningsReportRow[];
+}
+
+// Payout Request model. Requested earnings leave the developer's balance
+// straight away and return if the request is rejected.
+export type PayoutStatus = 'pending' | 'paid' | 'rejected';
+
+export interface PayoutRequest {
+  id: number;
+  userId: number;
+  // Credits
+  amount: number;
+  status: PayoutStatus;
+  // Ledger transaction that moved the earnings out
+  transactionId: number;
+  // Admin note, e.g. the bank transfer reference or the reason for rejecting
+  note: string | null;
+  requestedAt: Date;
+  processedAt: Date | null;
 }
 
 // App Review model
@@ -65,3 +493,125 @@ export interface AppReview {
   reviewText: string | null;
   createdAt: Date;
 }
+
+// OAuth Authorization Code model
+export interface OAuthAuthorizationCode {
+  id: number;
+  codeHash: string;
+  appId: number;
+  userId: number;
+  redirectUri: string | null;
+  codeChallenge: string | null;
+  codeChallengeMethod: string | null;
+  scopes: string[];
+  nonce: string | null;
+  expiresAt: Date;
+  usedAt: Date | null;
+  createdAt: Date;
+}
+
+// OAuth Token model (access/refresh token pair)
+export interface OAuthToken {
+  id: number;
+  appId: number;
+  userId: number;
+  authorizationCodeId: number | null;
+  scopes: string[];
+  accessTokenHash: string;
+  refreshTokenHash: string | null;
+  accessTokenExpiresAt: Date;
+  refreshTokenExpiresAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+// OAuth Grant model (a user's authorization of an app)
+export interface OAuthGrant {
+  id: number;
+  userId: number;
+  appId: number;
+  scopes: string[];
+  firstAuthorizedAt: Date;
+  lastAuthorizedAt: Date;
+}
+
+// Connected app as shown to the authorizing user
+export interface ConnectedApp {
+  app: Pick<OAuthApp, 'id' | 'name' | 'description' | 'homepageUrl' | 'logoUrl' | 'verificationStatus'>;
+  scopes: string[];
+  firstAuthorizedAt: Date;
+  lastAuthorizedAt: Date;
+  activeTokenCount: number;
+}
+
+// OAuth Scope definition
+export type ScopeSensitivity = 'low' | 'medium' | 'high';
+
+export interface OAuthScope {
+  name: string;
+  description: string;
+  sensitivity: ScopeSensitivity;
+}
+
+// Platform Signing Key model
+export type SigningAlgorithm = 'RS256' | 'ES256';
+
+export interface SigningKey {
+  id: number;
+  kid: string;
+  algorithm: SigningAlgorithm;
+  status: 'active' | 'retired';
+  publicJwk: Record<string, string>;
+  privateKeyPem: string;
+  createdAt: Date;
+  retiredAt: Date | null;
+  publishUntil: Date | null;
+}
+
+// Insert types: ids, timestamps and columns with defaults are filled in by storage
+type Optional<T, K extends keyof T> = Omit<T, K> & Partial<Pick<T, K>>;
+
+export type InsertUser = Optional<Omit<User, 'id' | 'credits'>,
+  'name' | 'password' | 'githubId' | 'githubUsername' | 'avatarUrl' | 'isAdmin'>;
+
+export type InsertOAuthApp = Optional<Omit<OAuthApp, 'id' | 'createdAt' | 'updatedAt'>,
+  'clientId' | 'clientSecretHash' | 'previousClientSecretHash' | 'previousClientSecretExpiresAt' |
+  'isPublished' | 'verificationStatus' | 'logoUrl' | 'isListed' | 'isPublicClient' |
+  'requiredScopes' | 'optionalScopes' | 'publishedAt' | 'categoryId' | 'tags' | 'platformFeePercent'>;
+
+export type InsertAppCategory = Optional<Omit<AppCategory, 'id'>, 'parentId' | 'description' | 'position'>;
+
+export type InsertPricingPlan = Optional<Omit<PricingPlan, 'id'>,
+  'currency' | 'priceOverrides' | 'features' | 'isPublic' | 'position' | 'archivedAt' | 'trialDays' | 'introPrice' |
+  'introPeriods' | 'pricingModel' | 'usageUnit' | 'usageTiers'>;
+
+export type InsertAppSubscription = Optional<Omit<AppSubscription, 'id'>,
+  'startDate' | 'endDate' | 'currentPeriodStart' | 'currentPeriodEnd' | 'cancelAtPeriodEnd' |
+  'paymentProvider' | 'currency' | 'billingCountry' | 'billingRegion' | 'providerCheckoutId' | 'providerSubscriptionId' |
+  'trialEnd' | 'introPrice' | 'introEndsAt' | 'seats' | 'usageBilledUntil' | 'couponId' | 'discountType' | 'discountValue' |
+  'discountEndsAt' | 'migrationPlanId' | 'migratesAt'>;
+
+export type InsertCoupon = Optional<Omit<Coupon, 'id' | 'redemptionCount' | 'createdAt'>,
+  'currency' | 'durationPeriods' | 'maxRedemptions' | 'expiresAt' | 'planIds' | 'isActive'>;
+
+export type InsertCouponRedemption = Omit<CouponRedemption, 'id' | 'redeemedAt'>;
+
+export type InsertCreditTransaction = Optional<Omit<CreditTransaction, 'id' | 'createdAt'>,
+  'subscriptionId' | 'appId' | 'planId' | 'reference'>;
+
+export type InsertUsageRecord = Optional<Omit<UsageRecord, 'id' | 'createdAt'>, 'idempotencyKey'>;
+
+export type InsertInvoice = Optional<Omit<Invoice, 'id' | 'number' | 'createdAt' | 'finalizedAt' | 'paidAt' | 'voidedAt'>,
+  'status' | 'paymentMethod' | 'reference'>;
+
+export type InsertPayoutRequest = Pick<PayoutRequest, 'userId' | 'amount' | 'transactionId'>;
+
+export type InsertAppReview = Optional<Omit<AppReview, 'id' | 'createdAt'>, 'reviewText'>;
+
+export type InsertOAuthAuthorizationCode = Omit<OAuthAuthorizationCode, 'id' | 'usedAt' | 'createdAt'>;
+
+export type InsertOAuthToken = Omit<OAuthToken, 'id' | 'revokedAt' | 'createdAt'>;
+
+export type InsertOAuthGrant = Pick<OAuthGrant, 'userId' | 'appId' | 'scopes'>;
+
+export type InsertSigningKey = Pick<SigningKey, 'kid' | 'algorithm' | 'publicJwk' | 'privateKeyPem'>;
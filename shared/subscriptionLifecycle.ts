@@ -0,0 +1,30 @@
+/**
+ * Subscription state machine shared by the API and the subscriptions page
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { SubscriptionStatus } from './schema';
+
+// Statuses a subscription may move to from each status. canceled and expired are final.
+export const SUBSCRIPTION_TRANSITIONS: Record<SubscriptionStatus, readonly SubscriptionStatus[]> = {
+  // Checkout either completes or is abandoned
+  pending: ['trialing', 'active', 'expired'],
+  trialing: ['active', 'past_due', 'canceled', 'expired'],
+  active: ['past_due', 'canceled', 'expired'],
+  // Payment failed; the provider retries before giving up
+  past_due: ['active', 'canceled', 'expired'],
+  canceled: [],
+  expired: []
+};
+
+// Statuses that hold the user's one subscription per app
+export const LIVE_SUBSCRIPTION_STATUSES: readonly SubscriptionStatus[] = ['pending', 'trialing', 'active', 'past_due'];
+
+// Statuses in which the user can use the app and manage the subscription
+export const MANAGEABLE_SUBSCRIPTION_STATUSES: readonly SubscriptionStatus[] = ['trialing', 'active', 'past_due'];
+
+export const canTransition = (from: SubscriptionStatus, to: SubscriptionStatus): boolean =>
+  SUBSCRIPTION_TRANSITIONS[from].includes(to);
+
+export const isLiveSubscription = (status: SubscriptionStatus): boolean =>
+  LIVE_SUBSCRIPTION_STATUSES.includes(status);
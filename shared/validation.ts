@@ -0,0 +1,597 @@
+/**
+ * Runtime validation schemas shared by the API and the React forms
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { z } from 'zod';
+import { isFreePlan } from './planPricing';
+import { normalizeCouponCode } from './coupons';
+import { CURRENCIES, DEFAULT_CURRENCY, isCurrency } from './currency';
+import { CouponDiscountType, CouponDuration, PricingModel, UsageTier } from './schema';
+
+// Field path (e.g. "features.2") to the first error message for that field
+export type FieldErrors = Record<string, string>;
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: FieldErrors };
+
+// Validate input against a schema, collecting one message per field
+export const validate = <T extends z.ZodTypeAny>(schema: T, input: unknown): ValidationResult<z.output<T>> => {
+  const result = schema.safeParse(input);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  const errors: FieldErrors = {};
+  for (const issue of result.error.issues) {
+    const field = issue.path.join('.') || '_';
+    errors[field] ??= issue.message;
+  }
+  return { success: false, errors };
+};
+
+const httpUrl = (label: string) => z.string().trim().url(`${label} must be a valid URL`)
+  .refine(url => /^https?:\/\//i.test(url), `${label} must use http or https`);
+
+// Lowercase words joined by single hyphens, e.g. "developer-tools"
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export const MAX_APP_TAGS = 10;
+
+const tagSchema = z.string().trim().toLowerCase()
+  .min(1, 'Tag cannot be empty')
+  .max(30, 'Tag must be at most 30 characters')
+  .regex(SLUG_PATTERN, 'Tags may only contain letters, numbers and single hyphens');
+
+// OAuth apps. Owner, credentials and publishing state are managed by the server.
+// Redirect URIs and scopes get stricter checks server-side (redirectUris.ts, oauthScopes.ts).
+
+export const insertOAuthAppSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be at most 100 characters'),
+  description: z.string().trim().min(1, 'Description is required')
+    .max(2000, 'Description must be at most 2000 characters'),
+  homepageUrl: httpUrl('Homepage URL'),
+  redirectUris: z.array(z.string().trim().min(1, 'Redirect URI cannot be empty'))
+    .min(1, 'At least one redirect URI is required'),
+  logoUrl: z.union([z.literal(''), httpUrl('Logo URL')]).nullable().optional(),
+  isPublicClient: z.boolean().default(false),
+  requiredScopes: z.array(z.string()).default([]),
+  optionalScopes: z.array(z.string()).default([]),
+  categoryId: z.number().int().positive('Category is invalid').nullable().optional(),
+  tags: z.array(tagSchema)
+    .max(MAX_APP_TAGS, `An app can have at most ${MAX_APP_TAGS} tags`)
+    .transform(tags => Array.from(new Set(tags)))
+    .default([])
+});
+
+export const updateOAuthAppSchema = insertOAuthAppSchema.partial().extend({
+  isListed: z.boolean().optional()
+});
+
+export type InsertOAuthAppInput = z.infer<typeof insertOAuthAppSchema>;
+export type UpdateOAuthAppInput = z.infer<typeof updateOAuthAppSchema>;
+
+// App categories. Admin-only; the server rejects unknown parents and cycles.
+
+export const insertAppCategorySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(50, 'Name must be at most 50 characters'),
+  slug: z.string().trim().toLowerCase()
+    .min(1, 'Slug is required')
+    .max(50, 'Slug must be at most 50 characters')
+    .regex(SLUG_PATTERN, 'Slug may only contain letters, numbers and single hyphens'),
+  description: z.string().trim().max(500, 'Description must be at most 500 characters').nullable().optional(),
+  parentId: z.number().int().positive('Parent category is invalid').nullable().optional(),
+  position: z.number({ invalid_type_error: 'Position must be a number' })
+    .int('Position must be a whole number')
+    .min(0, 'Position cannot be negative')
+    .default(0)
+});
+
+export const updateAppCategorySchema = insertAppCategorySchema.partial();
+
+export type InsertAppCategoryInput = z.infer<typeof insertAppCategorySchema>;
+export type UpdateAppCategoryInput = z.infer<typeof updateAppCategorySchema>;
+
+// Pricing plans. The app comes from the URL.
+
+export const BILLING_INTERVALS = ['monthly', 'yearly'] as const;
+
+export const PRICING_MODELS = ['flat', 'per_seat', 'metered'] as const;
+
+export const MAX_TRIAL_DAYS = 90;
+export const MAX_INTRO_PERIODS = 24;
+export const MAX_USAGE_TIERS = 10;
+export const MAX_SEATS = 1000;
+export const MIN_MIGRATION_NOTICE_DAYS = 30;
+export const MAX_MIGRATION_NOTICE_DAYS = 365;
+
+// ISO 4217 code of a currency we support; case-insensitive
+export const currencySchema = z.string({ invalid_type_error: 'Currency must be a currency code' })
+  .trim()
+  .transform(code => code.toUpperCase())
+  .refine(isCurrency, `Currency must be one of ${CURRENCIES.join(', ')}`);
+
+// Prices are integers in the currency's minor units, e.g. cents
+const minorUnits = (label: string) => z.number({ invalid_type_error: `${label} must be a number` })
+  .int(`${label} must be a whole number of cents`);
+
+const usageTierSchema = z.object({
+  // null for the last, open-ended tier
+  upTo: z.number({ invalid_type_error: 'Tier limit must be a number' })
+    .int('Tier limit must be a whole number of units')
+    .positive('Tier limit must be at least 1')
+    .nullable(),
+  // In minor units, down to a hundredth of one
+  unitPrice: z.number({ invalid_type_error: 'Unit price must be a number' })
+    .min(0, 'Unit price cannot be negative')
+    .multipleOf(0.01, 'Unit price must be a whole number of hundredths of a cent'),
+  flatFee: minorUnits('Flat fee')
+    .min(0, 'Flat fee cannot be negative')
+    .default(0)
+});
+
+export const insertPricingPlanSchema = z.object({
+  name: z.string().trim().min(1, 'Plan name is required').max(50, 'Plan name must be at most 50 characters'),
+  price: minorUnits('Price').min(0, 'Price cannot be negative'),
+  currency: currencySchema.default(DEFAULT_CURRENCY),
+  // Keyed by currency code; checked by getPlanErrors
+  priceOverrides: z.record(minorUnits('Price').positive('Price must be more than zero')).default({}),
+  billingInterval: z.enum(BILLING_INTERVALS, {
+    errorMap: () => ({ message: 'Billing interval must be monthly or yearly' })
+  }),
+  features: z.array(z.string().trim().min(1, 'Feature cannot be empty').max(200, 'Feature must be at most 200 characters'))
+    .max(50, 'A plan can list at most 50 features')
+    .default([]),
+  isPublic: z.boolean().default(true),
+  pricingModel: z.enum(PRICING_MODELS, {
+    errorMap: () => ({ message: 'Pricing model must be flat, per seat or metered' })
+  }).default('flat'),
+  usageUnit: z.string().trim()
+    .min(1, 'Usage unit cannot be empty')
+    .max(40, 'Usage unit must be at most 40 characters')
+    .nullable()
+    .optional(),
+  usageTiers: z.array(usageTierSchema)
+    .max(MAX_USAGE_TIERS, `A plan can have at most ${MAX_USAGE_TIERS} usage tiers`)
+    .default([]),
+  trialDays: z.number({ invalid_type_error: 'Trial length must be a number' })
+    .int('Trial length must be a whole number of days')
+    .min(0, 'Trial length cannot be negative')
+    .max(MAX_TRIAL_DAYS, `Trials can last at most ${MAX_TRIAL_DAYS} days`)
+    .default(0),
+  introPrice: minorUnits('Introductory price')
+    .positive('Introductory price must be more than zero; use a trial for free periods')
+    .nullable()
+    .optional(),
+  introPeriods: z.number({ invalid_type_error: 'Introductory periods must be a number' })
+    .int('Introductory periods must be a whole number')
+    .min(1, 'Introductory pricing must last at least one billing period')
+    .max(MAX_INTRO_PERIODS, `Introductory pricing can last at most ${MAX_INTRO_PERIODS} billing periods`)
+    .nullable()
+    .optional()
+});
+
+// Subscribers are billed by the model and in the currency they signed up
+// under, so neither can change
+export const updatePricingPlanSchema = insertPricingPlanSchema.omit({ pricingModel: true, currency: true }).partial();
+
+// Metered plans need a unit and a price table whose tiers ascend and end open-ended;
+// other plans have neither
+const getUsagePricingErrors = (
+  pricingModel: PricingModel,
+  usageUnit: string | null,
+  usageTiers: UsageTier[]
+): FieldErrors => {
+  const errors: FieldErrors = {};
+  if (pricingModel !== 'metered') {
+    if (usageUnit !== null) {
+      errors.usageUnit = 'Only metered plans have a usage unit';
+    }
+    if (usageTiers.length > 0) {
+      errors.usageTiers = 'Only metered plans have usage tiers';
+    }
+    return errors;
+  }
+
+  if (usageUnit === null) {
+    errors.usageUnit = 'Name what is counted, e.g. "API call"';
+  }
+  if (usageTiers.length === 0) {
+    errors.usageTiers = 'Metered plans need at least one usage tier';
+  }
+  usageTiers.forEach((tier, index) => {
+    const isLast = index === usageTiers.length - 1;
+    const previousUpTo = index > 0 ? usageTiers[index - 1].upTo : 0;
+    if (isLast && tier.upTo !== null) {
+      errors[`usageTiers.${index}.upTo`] = 'Leave the last tier open-ended';
+    } else if (!isLast && tier.upTo === null) {
+      errors[`usageTiers.${index}.upTo`] = 'Only the last tier can be open-ended';
+    } else if (tier.upTo !== null && previousUpTo !== null && tier.upTo <= previousUpTo) {
+      errors[`usageTiers.${index}.upTo`] = 'Each tier must go higher than the one before';
+    }
+  });
+  return errors;
+};
+
+// Rules spanning several plan fields. Updates are checked against the plan
+// they would produce, so pass the existing plan merged with the changes.
+export const getPlanErrors = (plan: {
+  price: number;
+  currency?: string;
+  priceOverrides?: Record<string, number>;
+  pricingModel?: PricingModel;
+  usageUnit?: string | null;
+  usageTiers?: UsageTier[];
+  trialDays?: number;
+  introPrice?: number | null;
+  introPeriods?: number | null;
+}): FieldErrors => {
+  const pricingModel = plan.pricingModel ?? 'flat';
+  const errors = getUsagePricingErrors(pricingModel, plan.usageUnit ?? null, plan.usageTiers ?? []);
+  const introPrice = plan.introPrice ?? null;
+  const introPeriods = plan.introPeriods ?? null;
+  if (isFreePlan({ price: plan.price, pricingModel }) && (plan.trialDays ?? 0) > 0) {
+    errors.trialDays = 'Free plans cannot have a trial';
+  }
+  if ((introPrice === null) !== (introPeriods === null)) {
+    errors[introPrice === null ? 'introPrice' : 'introPeriods'] =
+      'Set both the introductory price and how many billing periods it lasts';
+  } else if (introPrice !== null && introPrice >= plan.price) {
+    errors.introPrice = 'Introductory price must be below the regular price';
+  }
+
+  const overrides = Object.keys(plan.priceOverrides ?? {});
+  if (overrides.length > 0 && isFreePlan({ price: plan.price, pricingModel })) {
+    errors.priceOverrides = 'Free plans are free in every currency';
+  } else if (overrides.length > 0 && pricingModel === 'metered') {
+    errors.priceOverrides = 'Metered plans can only be sold in their own currency';
+  }
+  for (const currency of overrides) {
+    if (!isCurrency(currency)) {
+      errors[`priceOverrides.${currency}`] = `Currency must be one of ${CURRENCIES.join(', ')}`;
+    } else if (currency === (plan.currency ?? DEFAULT_CURRENCY)) {
+      errors[`priceOverrides.${currency}`] = 'This is already the plan\'s own currency';
+    }
+  }
+  return errors;
+};
+
+export type InsertPricingPlanInput = z.infer<typeof insertPricingPlanSchema>;
+export type UpdatePricingPlanInput = z.infer<typeof updatePricingPlanSchema>;
+
+// Every plan of the app, in the order to list them
+export const reorderPricingPlansSchema = z.object({
+  planIds: z.array(z.number().int().positive('Plan is required'), { invalid_type_error: 'planIds must be a list of plans' })
+    .min(1, 'List the app\'s plans')
+});
+
+// Move a plan's subscribers to another plan of the same app once the notice runs out
+export const planMigrationSchema = z.object({
+  targetPlanId: z.number().int().positive('Plan is required'),
+  noticeDays: z.number({ invalid_type_error: 'Notice must be a number of days' })
+    .int('Notice must be a whole number of days')
+    .min(MIN_MIGRATION_NOTICE_DAYS, `Give subscribers at least ${MIN_MIGRATION_NOTICE_DAYS} days' notice`)
+    .max(MAX_MIGRATION_NOTICE_DAYS, `Notice can be at most ${MAX_MIGRATION_NOTICE_DAYS} days`)
+    .default(MIN_MIGRATION_NOTICE_DAYS)
+});
+
+export type ReorderPricingPlansInput = z.infer<typeof reorderPricingPlansSchema>;
+export type PlanMigrationInput = z.infer<typeof planMigrationSchema>;
+
+// Coupons. The app comes from the URL; codes and discounts are fixed once issued.
+
+export const COUPON_DISCOUNT_TYPES = ['percent', 'fixed'] as const;
+export const COUPON_DURATIONS = ['once', 'repeating', 'forever'] as const;
+export const MAX_COUPON_PERIODS = 36;
+
+export const couponCodeSchema = z.string({ required_error: 'Enter a code' })
+  .trim()
+  .min(3, 'Codes are at least 3 characters')
+  .max(32, 'Codes are at most 32 characters')
+  .regex(/^[A-Za-z0-9_-]+$/, 'Codes can only contain letters, digits, - and _')
+  .transform(normalizeCouponCode);
+
+const maxRedemptions = z.number({ invalid_type_error: 'Redemption limit must be a number' })
+  .int('Redemption limit must be a whole number')
+  .min(1, 'Redemption limit must be at least 1')
+  .nullable()
+  .optional();
+
+const couponExpiry = z.coerce.date({ invalid_type_error: 'Expiry must be a date' })
+  .nullable()
+  .optional();
+
+export const insertCouponSchema = z.object({
+  code: couponCodeSchema,
+  discountType: z.enum(COUPON_DISCOUNT_TYPES, {
+    errorMap: () => ({ message: 'Discount must be a percentage or a fixed amount' })
+  }),
+  discountValue: z.number({ invalid_type_error: 'Discount must be a number' })
+    .positive('Discount must be more than zero')
+    .multipleOf(0.01, 'Discount can have at most two decimal places'),
+  // Fixed discounts only
+  currency: currencySchema.nullable().optional(),
+  duration: z.enum(COUPON_DURATIONS, {
+    errorMap: () => ({ message: 'Duration must be once, repeating or forever' })
+  }),
+  durationPeriods: z.number({ invalid_type_error: 'Billing periods must be a number' })
+    .int('Billing periods must be a whole number')
+    .min(1, 'The discount must last at least one billing period')
+    .max(MAX_COUPON_PERIODS, `The discount can last at most ${MAX_COUPON_PERIODS} billing periods`)
+    .nullable()
+    .optional(),
+  maxRedemptions,
+  expiresAt: couponExpiry,
+  planIds: z.array(z.number().int().positive('Plan is invalid'))
+    .max(50, 'A coupon can be limited to at most 50 plans')
+    .default([])
+});
+
+// Issued codes can only be switched off and on, or given a new limit or expiry
+export const updateCouponSchema = z.object({
+  isActive: z.boolean({ invalid_type_error: 'isActive must be true or false' }).optional(),
+  maxRedemptions,
+  expiresAt: couponExpiry
+});
+
+// Rules spanning several coupon fields
+export const getCouponErrors = (coupon: {
+  discountType: CouponDiscountType;
+  discountValue: number;
+  currency?: string | null;
+  duration: CouponDuration;
+  durationPeriods?: number | null;
+}): FieldErrors => {
+  const errors: FieldErrors = {};
+  if (coupon.discountType === 'percent' && coupon.discountValue > 100) {
+    errors.discountValue = 'A percentage discount can be at most 100%';
+  } else if (coupon.discountType === 'fixed' && !Number.isInteger(coupon.discountValue)) {
+    // Fixed discounts are in minor units, as prices are
+    errors.discountValue = 'A fixed discount must be a whole number of cents';
+  }
+  const currency = coupon.currency ?? null;
+  if (coupon.discountType === 'fixed' && currency === null) {
+    errors.currency = 'Choose the currency of the discount';
+  } else if (coupon.discountType === 'percent' && currency !== null) {
+    errors.currency = 'Only fixed discounts have a currency';
+  }
+  const durationPeriods = coupon.durationPeriods ?? null;
+  if (coupon.duration === 'repeating' && durationPeriods === null) {
+    errors.durationPeriods = 'Set how many billing periods the discount lasts';
+  } else if (coupon.duration !== 'repeating' && durationPeriods !== null) {
+    errors.durationPeriods = 'Only repeating coupons last a set number of billing periods';
+  }
+  return errors;
+};
+
+export type InsertCouponInput = z.infer<typeof insertCouponSchema>;
+export type UpdateCouponInput = z.infer<typeof updateCouponSchema>;
+
+// Reviews. The app comes from the URL and the author from the session.
+
+export const insertAppReviewSchema = z.object({
+  rating: z.number({ invalid_type_error: 'Rating must be a number' })
+    .int('Rating must be a whole number')
+    .min(1, 'Rating must be between 1 and 5')
+    .max(5, 'Rating must be between 1 and 5'),
+  reviewText: z.string().trim().max(5000, 'Review must be at most 5000 characters').nullable().optional()
+});
+
+export const updateAppReviewSchema = insertAppReviewSchema.partial();
+
+export type InsertAppReviewInput = z.infer<typeof insertAppReviewSchema>;
+export type UpdateAppReviewInput = z.infer<typeof updateAppReviewSchema>;
+
+// Subscriptions. The subscriber comes from the session; status changes go
+// through dedicated endpoints validated by shared/subscriptionLifecycle.ts.
+
+// Where the buyer is billed, for tax: ISO 3166-1 alpha-2 country, e.g. "DE",
+// and an optional region within it, e.g. "CA" for California
+export const billingCountrySchema = z.string({ invalid_type_error: 'Country must be a country code' })
+  .trim()
+  .regex(/^[A-Za-z]{2}$/, 'Country must be a two-letter country code')
+  .transform(code => code.toUpperCase());
+
+export const billingRegionSchema = z.string({ invalid_type_error: 'Region must be a region code' })
+  .trim()
+  .regex(/^[A-Za-z0-9]{1,3}$/, 'Region must be a code of up to three letters or digits')
+  .transform(code => code.toUpperCase());
+
+const seatCount = z.coerce.number({ invalid_type_error: 'Seats must be a number' })
+  .int('Seats must be a whole number')
+  .min(1, 'At least one seat is required')
+  .max(MAX_SEATS, `A subscription can have at most ${MAX_SEATS} seats`);
+
+export const insertAppSubscriptionSchema = z.object({
+  appId: z.number().int().positive('App is required'),
+  planId: z.number().int().positive('Plan is required'),
+  // Pay from the wallet instead of through the payment provider
+  payWithCredits: z.boolean({ invalid_type_error: 'payWithCredits must be true or false' }).default(false),
+  // Ignored unless the plan is priced per seat
+  seats: seatCount.default(1),
+  couponCode: couponCodeSchema.optional(),
+  // One the plan is sold in; the plan's own currency by default
+  currency: currencySchema.optional(),
+  // Required for paid plans
+  billingCountry: billingCountrySchema.optional(),
+  billingRegion: billingRegionSchema.nullable().optional()
+});
+
+// The checkout a coupon code would be applied to
+export const couponPreviewSchema = z.object({
+  appId: z.coerce.number().int().positive('App is required'),
+  planId: z.coerce.number().int().positive('Plan is required'),
+  seats: seatCount.default(1),
+  couponCode: couponCodeSchema,
+  currency: currencySchema.optional()
+});
+
+export const changeSubscriptionPlanSchema = z.object({
+  planId: z.coerce.number().int().positive('Plan is required')
+});
+
+export const changeSubscriptionSeatsSchema = z.object({
+  seats: seatCount
+});
+
+export const cancelSubscriptionSchema = z.object({
+  // Keep access until the end of the paid period unless cancelling immediately
+  atPeriodEnd: z.boolean({ invalid_type_error: 'atPeriodEnd must be true or false' }).default(true)
+});
+
+export type InsertAppSubscriptionInput = z.infer<typeof insertAppSubscriptionSchema>;
+export type CouponPreviewInput = z.infer<typeof couponPreviewSchema>;
+export type ChangeSubscriptionPlanInput = z.infer<typeof changeSubscriptionPlanSchema>;
+export type ChangeSubscriptionSeatsInput = z.infer<typeof changeSubscriptionSeatsSchema>;
+export type CancelSubscriptionInput = z.infer<typeof cancelSubscriptionSchema>;
+
+// Usage reports from apps on metered plans. The app comes from its client
+// credentials; the subscriber is identified by the `sub` of the app's tokens.
+
+export const MAX_USAGE_QUANTITY = 1_000_000_000;
+
+const subscriberId = z.coerce.number({ invalid_type_error: 'userId must be the subject of one of your tokens' })
+  .int('userId must be the subject of one of your tokens')
+  .positive('userId must be the subject of one of your tokens');
+
+export const reportUsageSchema = z.object({
+  userId: subscriberId,
+  quantity: z.number({ invalid_type_error: 'Quantity must be a number' })
+    .int('Quantity must be a whole number')
+    .positive('Quantity must be positive')
+    .max(MAX_USAGE_QUANTITY, `Quantity can be at most ${MAX_USAGE_QUANTITY}`),
+  // Defaults to now
+  occurredAt: z.coerce.date({ invalid_type_error: 'occurredAt must be a date' }).optional(),
+  idempotencyKey: z.string().trim()
+    .min(1, 'Idempotency key cannot be empty')
+    .max(100, 'Idempotency key must be at most 100 characters')
+    .optional()
+});
+
+export const usageSummarySchema = z.object({
+  userId: subscriberId
+});
+
+export type ReportUsageInput = z.infer<typeof reportUsageSchema>;
+export type UsageSummaryParams = z.infer<typeof usageSummarySchema>;
+
+// Credits. Amounts are whole credits (cents).
+
+export const MIN_CREDIT_PURCHASE = 500;
+export const MAX_CREDIT_PURCHASE = 100000;
+export const MAX_WALLET_PAGE_SIZE = 50;
+
+const creditAmount = (label: string) => z.number({ invalid_type_error: `${label} must be a number` })
+  .int(`${label} must be a whole number of credits`);
+
+export const purchaseCreditsSchema = z.object({
+  credits: creditAmount('Credits')
+    .min(MIN_CREDIT_PURCHASE, `You can buy at least ${MIN_CREDIT_PURCHASE} credits`)
+    .max(MAX_CREDIT_PURCHASE, `You can buy at most ${MAX_CREDIT_PURCHASE} credits at a time`)
+});
+
+// Admin-only
+export const grantCreditsSchema = z.object({
+  userId: z.number().int().positive('User is required'),
+  credits: creditAmount('Credits').positive('Credits must be positive'),
+  description: z.string().trim().min(1, 'Description is required').max(200, 'Description must be at most 200 characters')
+});
+
+// Wallet history query string, newest first
+export const walletTransactionsSchema = z.object({
+  before: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_WALLET_PAGE_SIZE).default(20)
+});
+
+export type PurchaseCreditsInput = z.infer<typeof purchaseCreditsSchema>;
+export type GrantCreditsInput = z.infer<typeof grantCreditsSchema>;
+export type WalletTransactionsParams = z.infer<typeof walletTransactionsSchema>;
+
+// Revenue share and payouts. The developer comes from the session; fees and
+// payout processing are admin-only.
+
+export const MIN_PAYOUT_CREDITS = 1000;
+
+export const PAYOUT_STATUSES = ['pending', 'paid', 'rejected'] as const;
+
+export const requestPayoutSchema = z.object({
+  amount: creditAmount('Amount').min(MIN_PAYOUT_CREDITS, `Payouts must be at least ${MIN_PAYOUT_CREDITS} credits`)
+});
+
+export const payoutListSchema = z.object({
+  status: z.enum(PAYOUT_STATUSES, {
+    errorMap: () => ({ message: 'Status must be pending, paid or rejected' })
+  }).optional()
+});
+
+const payoutNote = z.string().trim().max(500, 'Note must be at most 500 characters');
+
+export const completePayoutSchema = z.object({
+  note: payoutNote.nullable().optional()
+});
+
+export const rejectPayoutSchema = z.object({
+  note: payoutNote.min(1, 'Give a reason for rejecting the payout')
+});
+
+export const platformFeeSchema = z.object({
+  // null returns the app to the platform default
+  platformFeePercent: z.number({ invalid_type_error: 'Platform fee must be a number' })
+    .min(0, 'Platform fee must be between 0 and 100 percent')
+    .max(100, 'Platform fee must be between 0 and 100 percent')
+    .multipleOf(0.01, 'Platform fee can have at most two decimal places')
+    .nullable()
+});
+
+export type RequestPayoutInput = z.infer<typeof requestPayoutSchema>;
+export type PayoutListParams = z.infer<typeof payoutListSchema>;
+export type CompletePayoutInput = z.infer<typeof completePayoutSchema>;
+export type RejectPayoutInput = z.infer<typeof rejectPayoutSchema>;
+export type PlatformFeeInput = z.infer<typeof platformFeeSchema>;
+
+// Invoices. The subscriber or developer comes from the session; drafts are
+// never listed.
+
+export const LISTED_INVOICE_STATUSES = ['open', 'paid', 'void'] as const;
+
+export const invoiceListSchema = z.object({
+  // Developers only: one of their apps
+  appId: z.coerce.number().int().positive('App is invalid').optional(),
+  status: z.enum(LISTED_INVOICE_STATUSES, {
+    errorMap: () => ({ message: 'Status must be open, paid or void' })
+  }).optional()
+});
+
+export type InvoiceListParams = z.infer<typeof invoiceListSchema>;
+
+// Marketplace search query string. Relevance-ranked when `q` is given, newest first otherwise.
+// `category` matches the category and all of its subcategories.
+
+export const MAX_SEARCH_PAGE_SIZE = 50;
+
+export const marketplaceSearchSchema = z.object({
+  q: z.string().trim().max(200, 'Search query must be at most 200 characters').optional(),
+  verificationStatus: z.string().trim().min(1).optional(),
+  // In major units of currency; plans not sold in it don't match
+  minPrice: z.coerce.number().min(0, 'Minimum price cannot be negative').optional(),
+  maxPrice: z.coerce.number().min(0, 'Maximum price cannot be negative').optional(),
+  // Prices are shown and filtered in this currency where plans are sold in it
+  currency: currencySchema.default(DEFAULT_CURRENCY),
+  minRating: z.coerce.number().min(1, 'Minimum rating must be between 1 and 5')
+    .max(5, 'Minimum rating must be between 1 and 5').optional(),
+  category: z.coerce.number().int().positive('Category is invalid').optional(),
+  tag: tagSchema.optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_SEARCH_PAGE_SIZE).default(20)
+}).refine(
+  params => params.minPrice === undefined || params.maxPrice === undefined || params.minPrice <= params.maxPrice,
+  { message: 'Minimum price cannot exceed maximum price', path: ['minPrice'] }
+);
+
+export type MarketplaceSearchParams = z.infer<typeof marketplaceSearchSchema>;
+
+// The currency the other marketplace feeds show starting prices in
+export const marketplaceCurrencySchema = z.object({
+  currency: currencySchema.default(DEFAULT_CURRENCY)
+});
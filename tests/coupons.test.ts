@@ -0,0 +1,140 @@
+/**
+ * Coupons: creating codes, previewing them and the discount at checkout and renewal
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import request from 'supertest';
+import { Express } from 'express';
+import {
+  checkout,
+  createPlan,
+  createPublishedApp,
+  createTestApp,
+  createUser,
+  grantCredits,
+  lineAmounts,
+  signedInAs
+} from './testApp';
+import { settleDueSubscriptions } from '../server/subscriptionLifecycle';
+import { OAuthApp, PricingPlan, User } from '../shared/schema';
+
+let app: Express;
+let developer: User;
+let oauthApp: OAuthApp;
+let plan: PricingPlan;
+
+const createCoupon = (coupon: Record<string, unknown>) =>
+  request(app)
+    .post(`/api/oauth-apps/${oauthApp.id}/coupons`)
+    .set(signedInAs(developer))
+    .send({ duration: 'once', ...coupon });
+
+const previewCoupon = (user: User, couponCode: string, query: Record<string, unknown> = {}) =>
+  request(app)
+    .get('/api/subscriptions/coupons/preview')
+    .query({ appId: oauthApp.id, planId: plan.id, couponCode, ...query })
+    .set(signedInAs(user));
+
+const getBalance = async (user: User) =>
+  (await request(app).get('/api/wallet').set(signedInAs(user)).expect(200)).body.balance;
+
+beforeAll(async () => {
+  app = createTestApp();
+  developer = await createUser();
+  oauthApp = (await createPublishedApp(developer)).app;
+  plan = await createPlan(oauthApp, { price: 1000 });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('POST /api/oauth-apps/:id/coupons', () => {
+  it('takes fixed discounts in whole cents', async () => {
+    const res = await createCoupon({ code: 'HALFCENT', discountType: 'fixed', discountValue: 250.5, currency: 'USD' })
+      .expect(400);
+
+    expect(res.body.errors).toEqual({ discountValue: 'A fixed discount must be a whole number of cents' });
+  });
+
+  it('caps percentages at 100%', async () => {
+    const res = await createCoupon({ code: 'TOOMUCH', discountType: 'percent', discountValue: 150 }).expect(400);
+
+    expect(res.body.errors).toEqual({ discountValue: 'A percentage discount can be at most 100%' });
+  });
+});
+
+describe('GET /api/subscriptions/coupons/preview', () => {
+  it('shows what is due now with the discount', async () => {
+    await createCoupon({ code: 'FIVEOFF', discountType: 'fixed', discountValue: 500, currency: 'USD' }).expect(201);
+
+    const res = await previewCoupon(await createUser(), ' fiveoff').expect(200);
+
+    expect(res.body).toEqual({ code: 'FIVEOFF', description: '$5.00 off the first payment', amountDue: 500, currency: 'USD' });
+  });
+
+  it('discounts every seat by a percentage', async () => {
+    await createCoupon({ code: 'QUARTER', discountType: 'percent', discountValue: 25, duration: 'repeating', durationPeriods: 2 })
+      .expect(201);
+    const perSeat = await createPlan(oauthApp, { price: 1000, pricingModel: 'per_seat' });
+
+    const res = await previewCoupon(await createUser(), 'QUARTER', { planId: perSeat.id, seats: 3 }).expect(200);
+
+    expect(res.body).toMatchObject({ description: '25% off for the first 2 billing periods', amountDue: 2250 });
+  });
+
+  it('only applies fixed discounts in their own currency', async () => {
+    await createCoupon({ code: 'EUROS', discountType: 'fixed', discountValue: 500, currency: 'EUR' }).expect(201);
+
+    const res = await previewCoupon(await createUser(), 'EUROS').expect(400);
+
+    expect(res.body.errors).toEqual({ couponCode: 'This code only applies to payments in EUR' });
+  });
+});
+
+describe('redeeming at checkout', () => {
+  it('charges the discounted price and shows the discount on the invoice', async () => {
+    await createCoupon({ code: 'SAVE3', discountType: 'fixed', discountValue: 300, currency: 'USD' }).expect(201);
+    const user = await createUser();
+    await grantCredits(user, 5000);
+
+    await checkout(app, user, { appId: oauthApp.id, planId: plan.id, payWithCredits: true, couponCode: 'SAVE3' }).expect(201);
+
+    expect(await getBalance(user)).toBe(4300);
+    const invoices = await request(app).get('/api/invoices').set(signedInAs(user)).expect(200);
+    expect(invoices.body[0]).toMatchObject({ total: 700, amountDue: 0 });
+    expect(lineAmounts(invoices.body[0])).toEqual([['plan', 1000], ['discount', -300], ['credits_applied', -700]]);
+    expect(invoices.body[0].lines[1].description).toBe('Discount ($3.00 off)');
+  });
+
+  it('stops discounting once the coupon\'s periods are over', async () => {
+    await createCoupon({ code: 'FIRSTMONTH', discountType: 'percent', discountValue: 50 }).expect(201);
+    const user = await createUser();
+    await grantCredits(user, 5000);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T00:00:00Z'));
+    await checkout(app, user, { appId: oauthApp.id, planId: plan.id, payWithCredits: true, couponCode: 'FIRSTMONTH' })
+      .expect(201);
+
+    vi.setSystemTime(new Date('2026-04-01T00:00:00Z'));
+    await settleDueSubscriptions();
+
+    expect(await getBalance(user)).toBe(5000 - 500 - 1000);
+    const invoices = await request(app).get('/api/invoices').set(signedInAs(user)).expect(200);
+    expect(invoices.body.map((invoice: { total: number }) => invoice.total)).toEqual([1000, 500]);
+  });
+
+  it('can\'t be redeemed beyond its limit', async () => {
+    await createCoupon({ code: 'ONLYONE', discountType: 'fixed', discountValue: 100, currency: 'USD', maxRedemptions: 1 })
+      .expect(201);
+    const first = await createUser();
+    await grantCredits(first, 1000);
+    await checkout(app, first, { appId: oauthApp.id, planId: plan.id, payWithCredits: true, couponCode: 'ONLYONE' })
+      .expect(201);
+
+    const res = await previewCoupon(await createUser(), 'ONLYONE').expect(400);
+
+    expect(res.body.errors).toEqual({ couponCode: 'This code has been used up' });
+  });
+});
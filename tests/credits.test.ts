@@ -0,0 +1,115 @@
+/**
+ * Credits ledger: grants, paying for subscriptions from the wallet and the
+ * developer's share
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import request from 'supertest';
+import { Express } from 'express';
+import {
+  checkout,
+  createPlan,
+  createPublishedApp,
+  createTestApp,
+  createUser,
+  grantCredits,
+  lineAmounts,
+  signedInAs
+} from './testApp';
+import { OAuthApp, PricingPlan, User } from '../shared/schema';
+
+let app: Express;
+let developer: User;
+let oauthApp: OAuthApp;
+let plan: PricingPlan;
+
+const getBalance = async (user: User) =>
+  (await request(app).get('/api/wallet').set(signedInAs(user)).expect(200)).body.balance;
+
+beforeAll(async () => {
+  app = createTestApp();
+  developer = await createUser();
+  oauthApp = (await createPublishedApp(developer)).app;
+  plan = await createPlan(oauthApp, { price: 1000 });
+});
+
+describe('POST /api/admin/credits/grants', () => {
+  it('adds credits to the wallet', async () => {
+    const admin = await createUser({ isAdmin: true });
+    const user = await createUser();
+
+    await request(app)
+      .post('/api/admin/credits/grants')
+      .set(signedInAs(admin))
+      .send({ userId: user.id, credits: 2500, description: 'Welcome bonus' })
+      .expect(201);
+
+    expect(await getBalance(user)).toBe(2500);
+    const transactions = await request(app).get('/api/wallet/transactions').set(signedInAs(user)).expect(200);
+    expect(transactions.body).toMatchObject([{ type: 'promotional_grant', amount: 2500, balanceAfter: 2500 }]);
+  });
+
+  it('is for admins only', async () => {
+    const user = await createUser();
+
+    await request(app)
+      .post('/api/admin/credits/grants')
+      .set(signedInAs(user))
+      .send({ userId: user.id, credits: 2500, description: 'Free money' })
+      .expect(403);
+  });
+});
+
+describe('paying with credits', () => {
+  it('moves the price from the wallet to the developer, less the platform fee', async () => {
+    const user = await createUser();
+    await grantCredits(user, 5000);
+    const before = (await request(app).get('/api/developer/earnings').set(signedInAs(developer)).expect(200)).body;
+
+    const res = await checkout(app, user, { appId: oauthApp.id, planId: plan.id, payWithCredits: true }).expect(201);
+
+    expect(res.body.subscription.status).toBe('active');
+    expect(await getBalance(user)).toBe(4000);
+    const after = (await request(app).get('/api/developer/earnings').set(signedInAs(developer)).expect(200)).body;
+    // The default platform fee is 20%
+    expect(after.availableBalance - before.availableBalance).toBe(800);
+    const transactions = await request(app).get('/api/wallet/transactions').set(signedInAs(user)).expect(200);
+    expect(transactions.body[0]).toMatchObject({ type: 'plan_payment', amount: -1000, balanceAfter: 4000 });
+  });
+
+  it('invoices the payment as paid with credits', async () => {
+    const user = await createUser();
+    await grantCredits(user, 1000);
+
+    await checkout(app, user, { appId: oauthApp.id, planId: plan.id, payWithCredits: true }).expect(201);
+
+    const invoices = await request(app).get('/api/invoices').set(signedInAs(user)).expect(200);
+    expect(invoices.body).toHaveLength(1);
+    expect(invoices.body[0]).toMatchObject({
+      status: 'paid',
+      currency: 'USD',
+      total: 1000,
+      tax: 0,
+      creditsApplied: 1000,
+      amountDue: 0,
+      paymentMethod: 'credits'
+    });
+    expect(lineAmounts(invoices.body[0])).toEqual([
+      ['plan', 1000],
+      ['credits_applied', -1000]
+    ]);
+  });
+
+  it('refuses checkout when the wallet is short, without charging it', async () => {
+    const user = await createUser();
+    await grantCredits(user, 999);
+
+    const res = await checkout(app, user, { appId: oauthApp.id, planId: plan.id, payWithCredits: true }).expect(402);
+
+    expect(res.body.message).toBe('This plan costs 1000 credits; top up your wallet to continue');
+    expect(await getBalance(user)).toBe(999);
+    const subscriptions = await request(app).get('/api/subscriptions').set(signedInAs(user)).expect(200);
+    expect(subscriptions.body).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Currency and tax: buying plans in other currencies through the payment provider,
+ * with the tax included in the price at the billing address
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import request from 'supertest';
+import { Express } from 'express';
+import { checkout, createPlan, createPublishedApp, createTestApp, createUser, grantCredits, signedInAs } from './testApp';
+import { OAuthApp, PricingPlan, User } from '../shared/schema';
+
+// Read when the server modules load
+vi.hoisted(() => {
+  process.env.EXCHANGE_RATES = '{"EUR":1.1}';
+  process.env.TAX_RATES = '{"DE":{"percent":19,"label":"VAT"}}';
+});
+
+let app: Express;
+let developer: User;
+let oauthApp: OAuthApp;
+let plan: PricingPlan;
+
+const getEarnings = async () =>
+  (await request(app).get('/api/developer/earnings').set(signedInAs(developer)).expect(200)).body.availableBalance;
+
+// Check out through the fake provider's hosted page and pay
+const checkoutAndPay = async (user: User, body: Record<string, unknown>) => {
+  const res = await checkout(app, user, { appId: oauthApp.id, planId: plan.id, ...body }).expect(201);
+  await request(app).post(`${res.body.checkoutUrl}/pay`).expect(303);
+};
+
+beforeAll(async () => {
+  app = createTestApp();
+  developer = await createUser();
+  oauthApp = (await createPublishedApp(developer)).app;
+  plan = await createPlan(oauthApp, { price: 1000, priceOverrides: { EUR: 900, CHF: 950 } });
+});
+
+describe('paying in another currency', () => {
+  it('charges the plan\'s price in that currency, with the tax included', async () => {
+    const user = await createUser();
+
+    await checkoutAndPay(user, { currency: 'EUR', billingCountry: 'DE' });
+
+    const subscriptions = await request(app).get('/api/subscriptions').set(signedInAs(user)).expect(200);
+    expect(subscriptions.body[0]).toMatchObject({ status: 'active', currency: 'EUR' });
+    const invoices = await request(app).get('/api/invoices').set(signedInAs(user)).expect(200);
+    expect(invoices.body[0]).toMatchObject({ status: 'paid', currency: 'EUR', total: 900, tax: 144 });
+    const taxLine = invoices.body[0].lines.find((line: { type: string }) => line.type === 'tax');
+    expect(taxLine).toMatchObject({ description: 'VAT (19%, included)', amount: 144 });
+  });
+
+  it('pays the developer in credits at the exchange rate, less the platform fee', async () => {
+    const before = await getEarnings();
+
+    await checkoutAndPay(await createUser(), { currency: 'EUR', billingCountry: 'DE' });
+
+    // €9.00 is 990 credits, of which the platform keeps 20%
+    expect(await getEarnings() - before).toBe(792);
+  });
+
+  it('charges no tax where none is configured', async () => {
+    const user = await createUser();
+
+    await checkoutAndPay(user, { currency: 'EUR', billingCountry: 'FR' });
+
+    const invoices = await request(app).get('/api/invoices').set(signedInAs(user)).expect(200);
+    expect(invoices.body[0]).toMatchObject({ total: 900, tax: 0 });
+  });
+});
+
+describe('checkout in another currency', () => {
+  it('only takes credits for plans billed in USD', async () => {
+    const user = await createUser();
+    await grantCredits(user, 5000);
+
+    const res = await checkout(app, user, { appId: oauthApp.id, planId: plan.id, currency: 'EUR', payWithCredits: true })
+      .expect(400);
+
+    expect(res.body.errors).toEqual({ payWithCredits: 'Credits can only pay for plans billed in USD' });
+  });
+
+  it('refuses currencies the plan has no price in', async () => {
+    const res = await checkout(app, await createUser(), { appId: oauthApp.id, planId: plan.id, currency: 'GBP' }).expect(400);
+
+    expect(res.body.errors).toEqual({ currency: 'This plan is not sold in GBP' });
+  });
+
+  it('refuses currencies there is no exchange rate for', async () => {
+    const res = await checkout(app, await createUser(), { appId: oauthApp.id, planId: plan.id, currency: 'CHF' }).expect(400);
+
+    expect(res.body.errors).toEqual({ currency: 'Payments in CHF are not accepted yet' });
+  });
+
+  it('needs a billing country to work out the tax', async () => {
+    const res = await checkout(app, await createUser(), { appId: oauthApp.id, planId: plan.id, billingCountry: undefined })
+      .expect(400);
+
+    expect(res.body.errors).toEqual({ billingCountry: 'Country is required for paid plans' });
+  });
+});
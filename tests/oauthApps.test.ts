@@ -0,0 +1,58 @@
+/**
+ * Deleting apps: only apps nobody has subscribed to go, so subscription history stays
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import request from 'supertest';
+import { Express } from 'express';
+import { checkout, createPlan, createPublishedApp, createTestApp, createUser, grantCredits, signedInAs } from './testApp';
+import { User } from '../shared/schema';
+
+let app: Express;
+let developer: User;
+
+beforeAll(async () => {
+  app = createTestApp();
+  developer = await createUser();
+});
+
+describe('DELETE /api/oauth-apps/:id', () => {
+  it('deletes an app nobody has subscribed to', async () => {
+    const { app: oauthApp } = await createPublishedApp(developer);
+    await createPlan(oauthApp);
+
+    await request(app).delete(`/api/oauth-apps/${oauthApp.id}`).set(signedInAs(developer)).expect(204);
+
+    await request(app).get(`/api/oauth-apps/${oauthApp.id}`).expect(404);
+  });
+
+  it('refuses to delete an app with subscribers, keeping their subscriptions', async () => {
+    const { app: oauthApp } = await createPublishedApp(developer);
+    const plan = await createPlan(oauthApp, { price: 1000 });
+    const user = await createUser();
+    await grantCredits(user, 1000);
+    await checkout(app, user, { appId: oauthApp.id, planId: plan.id, payWithCredits: true }).expect(201);
+
+    const res = await request(app).delete(`/api/oauth-apps/${oauthApp.id}`).set(signedInAs(developer)).expect(409);
+
+    expect(res.body.message).toBe('This app has subscribers; unpublish it instead');
+    const subscriptions = await request(app).get('/api/subscriptions').set(signedInAs(user)).expect(200);
+    expect(subscriptions.body).toMatchObject([{ appId: oauthApp.id, status: 'active' }]);
+  });
+
+  it('refuses to delete an app whose subscriptions have all ended', async () => {
+    const { app: oauthApp } = await createPublishedApp(developer);
+    const plan = await createPlan(oauthApp, { price: 1000 });
+    const user = await createUser();
+    await grantCredits(user, 1000);
+    const { body } = await checkout(app, user, { appId: oauthApp.id, planId: plan.id, payWithCredits: true }).expect(201);
+    await request(app)
+      .post(`/api/subscriptions/${body.subscription.id}/cancel`)
+      .set(signedInAs(user))
+      .send({ atPeriodEnd: false })
+      .expect(200);
+
+    await request(app).delete(`/api/oauth-apps/${oauthApp.id}`).set(signedInAs(developer)).expect(409);
+  });
+});
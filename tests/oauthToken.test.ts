@@ -0,0 +1,194 @@
+/**
+ * Token endpoint: exchanging authorization codes and refresh tokens
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { createHash } from 'crypto';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import request from 'supertest';
+import { Express } from 'express';
+import { basicAuth, createPublishedApp, createTestApp, createUser, signedInAs, TestClient } from './testApp';
+import { storage } from '../server/storage';
+import { generateToken, hashToken } from '../server/oauthTokens';
+import { User } from '../shared/schema';
+
+const REDIRECT_URI = 'https://app.example.com/callback';
+
+let app: Express;
+let user: User;
+let client: TestClient;
+
+// Approve an authorization request as the user and return the code sent back to the client
+const authorize = async (params: Record<string, unknown> = {}) => {
+  const res = await request(app)
+    .post('/oauth/authorize')
+    .set(signedInAs(user))
+    .send({ client_id: client.clientId, redirect_uri: REDIRECT_URI, response_type: 'code', approved: true, ...params })
+    .expect(200);
+  return new URL(res.body.redirectUrl).searchParams.get('code')!;
+};
+
+const exchangeCode = (code: string, body: Record<string, string> = {}) =>
+  request(app)
+    .post('/oauth/token')
+    .set('Authorization', basicAuth(client.clientId, client.clientSecret))
+    .type('form')
+    .send({ grant_type: 'authorization_code', code, redirect_uri: REDIRECT_URI, ...body });
+
+const introspect = (token: string) =>
+  request(app)
+    .post('/oauth/introspect')
+    .set('Authorization', basicAuth(client.clientId, client.clientSecret))
+    .type('form')
+    .send({ token });
+
+beforeAll(async () => {
+  app = createTestApp();
+  user = await createUser();
+  const developer = await createUser();
+  client = await createPublishedApp(developer, { requiredScopes: ['profile'], optionalScopes: ['email'] });
+});
+
+describe('POST /oauth/token', () => {
+  it('exchanges an authorization code for tokens with the granted scopes', async () => {
+    const code = await authorize({ scope: 'profile email', grantedScopes: [] });
+
+    const res = await exchangeCode(code).expect(200);
+
+    expect(res.headers['cache-control']).toBe('no-store');
+    expect(res.body).toMatchObject({ token_type: 'Bearer', expires_in: 3600, scope: 'profile' });
+    const active = await introspect(res.body.access_token).expect(200);
+    expect(active.body).toMatchObject({ active: true, client_id: client.clientId, sub: String(user.id) });
+  });
+
+  it('accepts client credentials in the body', async () => {
+    const code = await authorize();
+
+    await request(app)
+      .post('/oauth/token')
+      .type('form')
+      .send({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: REDIRECT_URI,
+        client_id: client.clientId,
+        client_secret: client.clientSecret
+      })
+      .expect(200);
+  });
+
+  it('revokes the tokens issued from a code that is replayed', async () => {
+    const code = await authorize();
+    const first = await exchangeCode(code).expect(200);
+
+    const replay = await exchangeCode(code).expect(400);
+
+    expect(replay.body.error).toBe('invalid_grant');
+    const revoked = await introspect(first.body.access_token).expect(200);
+    expect(revoked.body).toEqual({ active: false });
+  });
+
+  it('rejects a redirect URI other than the one authorized', async () => {
+    const code = await authorize();
+
+    const res = await exchangeCode(code, { redirect_uri: 'https://app.example.com/other' }).expect(400);
+
+    expect(res.body.error).toBe('invalid_grant');
+  });
+
+  it('rejects a wrong client secret', async () => {
+    const code = await authorize();
+
+    const res = await request(app)
+      .post('/oauth/token')
+      .set('Authorization', basicAuth(client.clientId, 'not-the-secret'))
+      .type('form')
+      .send({ grant_type: 'authorization_code', code, redirect_uri: REDIRECT_URI })
+      .expect(401);
+
+    expect(res.body.error).toBe('invalid_client');
+    expect(res.headers['www-authenticate']).toBe('Basic realm="oauth"');
+  });
+
+  it('rejects Basic credentials with a malformed percent-escape', async () => {
+    const credentials = Buffer.from(`${client.clientId}:%E0%A4%A`).toString('base64');
+
+    const res = await request(app)
+      .post('/oauth/token')
+      .set('Authorization', `Basic ${credentials}`)
+      .type('form')
+      .send({ grant_type: 'authorization_code', code: 'anything' })
+      .expect(401);
+
+    expect(res.body.error).toBe('invalid_client');
+  });
+
+  it('checks the PKCE code verifier', async () => {
+    const verifier = generateToken(48);
+    const challenge = createHash('sha256').update(verifier).digest('base64url');
+
+    const wrong = await exchangeCode(
+      await authorize({ code_challenge: challenge, code_challenge_method: 'S256' }),
+      { code_verifier: generateToken(48) }
+    ).expect(400);
+    expect(wrong.body.error).toBe('invalid_grant');
+
+    await exchangeCode(
+      await authorize({ code_challenge: challenge, code_challenge_method: 'S256' }),
+      { code_verifier: verifier }
+    ).expect(200);
+  });
+
+  it('rotates refresh tokens and refuses to widen the grant', async () => {
+    const issued = await exchangeCode(await authorize()).expect(200);
+    const refresh = (body: Record<string, string>) =>
+      request(app)
+        .post('/oauth/token')
+        .set('Authorization', basicAuth(client.clientId, client.clientSecret))
+        .type('form')
+        .send({ grant_type: 'refresh_token', refresh_token: issued.body.refresh_token, ...body });
+
+    const widened = await refresh({ scope: 'profile email' }).expect(400);
+    expect(widened.body.error).toBe('invalid_scope');
+
+    const refreshed = await refresh({}).expect(200);
+    expect(refreshed.body.refresh_token).not.toBe(issued.body.refresh_token);
+    const reused = await refresh({}).expect(400);
+    expect(reused.body.error).toBe('invalid_grant');
+  });
+
+  it('rotates a refresh token used twice at once only once', async () => {
+    const issued = await exchangeCode(await authorize()).expect(200);
+    const refresh = () =>
+      request(app)
+        .post('/oauth/token')
+        .set('Authorization', basicAuth(client.clientId, client.clientSecret))
+        .type('form')
+        .send({ grant_type: 'refresh_token', refresh_token: issued.body.refresh_token });
+    // Both requests read the token before either revokes it
+    const unrevoked = await storage.getOAuthTokenByRefreshTokenHash(hashToken(issued.body.refresh_token));
+    const lookup = vi.spyOn(storage, 'getOAuthTokenByRefreshTokenHash').mockResolvedValue(unrevoked);
+
+    try {
+      await refresh().expect(200);
+      const second = await refresh().expect(400);
+      expect(second.body.error).toBe('invalid_grant');
+    } finally {
+      lookup.mockRestore();
+    }
+  });
+
+  it('refuses codes issued to another client', async () => {
+    const code = await authorize();
+    const other = await createPublishedApp(await createUser());
+
+    const res = await request(app)
+      .post('/oauth/token')
+      .set('Authorization', basicAuth(other.clientId, other.clientSecret))
+      .type('form')
+      .send({ grant_type: 'authorization_code', code, redirect_uri: REDIRECT_URI })
+      .expect(400);
+
+    expect(res.body.error).toBe('invalid_grant');
+  });
+});
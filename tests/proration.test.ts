@@ -0,0 +1,162 @@
+/**
+ * Proration: previews and charges for plan and seat changes partway through a period
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import request from 'supertest';
+import { Express } from 'express';
+import {
+  checkout,
+  createPlan,
+  createPublishedApp,
+  createTestApp,
+  createUser,
+  grantCredits,
+  lineAmounts,
+  signedInAs
+} from './testApp';
+import { AppSubscription, OAuthApp, PricingPlan, User } from '../shared/schema';
+
+// A 31-day month, so halfway through is noon on the 16th
+const PERIOD_START = new Date('2026-01-01T00:00:00Z');
+const HALFWAY = new Date('2026-01-16T12:00:00Z');
+
+let app: Express;
+let oauthApp: OAuthApp;
+let basic: PricingPlan;
+let pro: PricingPlan;
+
+const getBalance = async (user: User) =>
+  (await request(app).get('/api/wallet').set(signedInAs(user)).expect(200)).body.balance;
+
+// Subscribe from the wallet at the start of the period, then move on to halfway through it
+const subscribeHalfwayAgo = async (plan: PricingPlan, seats = 1): Promise<{ user: User; subscription: AppSubscription }> => {
+  const user = await createUser();
+  await grantCredits(user, 10000);
+  vi.setSystemTime(PERIOD_START);
+  const res = await checkout(app, user, { appId: oauthApp.id, planId: plan.id, payWithCredits: true, seats }).expect(201);
+  vi.setSystemTime(HALFWAY);
+  return { user, subscription: res.body.subscription };
+};
+
+beforeAll(async () => {
+  app = createTestApp();
+  oauthApp = (await createPublishedApp(await createUser())).app;
+  basic = await createPlan(oauthApp, { price: 1000 });
+  pro = await createPlan(oauthApp, { price: 3000 });
+});
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('plan changes', () => {
+  it('previews the unused time as a credit against the rest of the period on the new plan', async () => {
+    const { user, subscription } = await subscribeHalfwayAgo(basic);
+
+    const res = await request(app)
+      .get(`/api/subscriptions/${subscription.id}/proration`)
+      .query({ planId: pro.id })
+      .set(signedInAs(user))
+      .expect(200);
+
+    expect(res.body).toEqual({
+      currentPlanCredit: 500,
+      newPlanCharge: 1500,
+      amountDue: 1000,
+      periodStart: PERIOD_START.toISOString(),
+      periodEnd: '2026-02-01T00:00:00.000Z'
+    });
+  });
+
+  it('charges an upgrade to the wallet and invoices both sides of it', async () => {
+    const { user, subscription } = await subscribeHalfwayAgo(basic);
+
+    const res = await request(app)
+      .post(`/api/subscriptions/${subscription.id}/change-plan`)
+      .set(signedInAs(user))
+      .send({ planId: pro.id })
+      .expect(200);
+
+    expect(res.body.subscription).toMatchObject({ planId: pro.id, currentPeriodEnd: '2026-02-01T00:00:00.000Z' });
+    expect(await getBalance(user)).toBe(10000 - 1000 - 1000);
+    const invoices = await request(app).get('/api/invoices').set(signedInAs(user)).expect(200);
+    expect(lineAmounts(invoices.body[0])).toEqual([
+      ['proration', -500],
+      ['proration', 1500],
+      ['credits_applied', -1000]
+    ]);
+  });
+
+  it('refunds a downgrade to the wallet', async () => {
+    const { user, subscription } = await subscribeHalfwayAgo(pro);
+
+    const res = await request(app)
+      .post(`/api/subscriptions/${subscription.id}/change-plan`)
+      .set(signedInAs(user))
+      .send({ planId: basic.id })
+      .expect(200);
+
+    expect(res.body.proration).toMatchObject({ currentPlanCredit: 1500, newPlanCharge: 500, amountDue: -1000 });
+    expect(await getBalance(user)).toBe(10000 - 3000 + 1000);
+  });
+
+  it('starts a new period when the billing interval changes', async () => {
+    const yearly = await createPlan(oauthApp, { price: 10000, billingInterval: 'yearly' });
+    const { user, subscription } = await subscribeHalfwayAgo(basic);
+
+    const res = await request(app)
+      .get(`/api/subscriptions/${subscription.id}/proration`)
+      .query({ planId: yearly.id })
+      .set(signedInAs(user))
+      .expect(200);
+
+    expect(res.body).toEqual({
+      currentPlanCredit: 500,
+      newPlanCharge: 10000,
+      amountDue: 9500,
+      periodStart: HALFWAY.toISOString(),
+      periodEnd: '2027-01-16T12:00:00.000Z'
+    });
+  });
+
+  it('refuses an upgrade the wallet can\'t cover, leaving the subscription as it was', async () => {
+    const user = await createUser();
+    await grantCredits(user, 1500);
+    vi.setSystemTime(PERIOD_START);
+    const { body } = await checkout(app, user, { appId: oauthApp.id, planId: basic.id, payWithCredits: true }).expect(201);
+    vi.setSystemTime(HALFWAY);
+
+    await request(app)
+      .post(`/api/subscriptions/${body.subscription.id}/change-plan`)
+      .set(signedInAs(user))
+      .send({ planId: pro.id })
+      .expect(402);
+
+    expect(await getBalance(user)).toBe(500);
+    const subscriptions = await request(app).get('/api/subscriptions').set(signedInAs(user)).expect(200);
+    expect(subscriptions.body[0].planId).toBe(basic.id);
+  });
+});
+
+describe('seat changes', () => {
+  it('charges the added seats for the rest of the period', async () => {
+    const perSeat = await createPlan(oauthApp, { price: 500, pricingModel: 'per_seat' });
+    const { user, subscription } = await subscribeHalfwayAgo(perSeat, 2);
+
+    const res = await request(app)
+      .post(`/api/subscriptions/${subscription.id}/seats`)
+      .set(signedInAs(user))
+      .send({ seats: 5 })
+      .expect(200);
+
+    expect(res.body.subscription.seats).toBe(5);
+    expect(res.body.proration).toMatchObject({ currentPlanCredit: 500, newPlanCharge: 1250, amountDue: 750 });
+    expect(await getBalance(user)).toBe(10000 - 1000 - 750);
+  });
+});
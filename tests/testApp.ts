@@ -0,0 +1,113 @@
+/**
+ * Route test helpers: the API mounted as in production, on the in-memory store,
+ * with a stand-in for the session and shortcuts for seeding users, apps and plans
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import express, { Express } from 'express';
+import request from 'supertest';
+import { storage } from '../server/storage';
+import { grantPromotionalCredits } from '../server/creditsLedger';
+import { generateToken, hashClientSecret } from '../server/oauthTokens';
+import paymentRoutes from '../server/paymentRoutes';
+import oauthServerRoutes from '../server/oauthServerRoutes';
+import oauthAppRoutes from '../server/oauthAppRoutes';
+import subscriptionRoutes from '../server/subscriptionRoutes';
+import usageRoutes from '../server/usageRoutes';
+import walletRoutes from '../server/walletRoutes';
+import invoiceRoutes from '../server/invoiceRoutes';
+import developerRoutes from '../server/developerRoutes';
+import adminCreditRoutes from '../server/adminCreditRoutes';
+import { InsertPricingPlan, Invoice, OAuthApp, PricingPlan, User } from '../shared/schema';
+
+if (process.env.DATABASE_URL || process.env.STRIPE_SECRET_KEY) {
+  throw new Error('Unset DATABASE_URL and STRIPE_SECRET_KEY: the route tests run on the in-memory store and the fake payment provider');
+}
+
+// Names the signed-in user, in place of passport's session cookie
+const TEST_USER_HEADER = 'X-Test-User';
+
+export const createTestApp = (): Express => {
+  const app = express();
+  // Ahead of the JSON body parser, so webhooks get their raw body
+  app.use('/api/payments', paymentRoutes);
+  app.use(express.json());
+  app.use(async (req, _res, next) => {
+    const userId = Number(req.get(TEST_USER_HEADER));
+    const user = userId ? await storage.getUser(userId) : undefined;
+    Object.assign(req, { user, isAuthenticated: () => !!user });
+    next();
+  });
+  app.use('/oauth', oauthServerRoutes);
+  app.use('/api/oauth-apps', oauthAppRoutes);
+  app.use('/api/subscriptions', subscriptionRoutes);
+  app.use('/api/usage', usageRoutes);
+  app.use('/api/wallet', walletRoutes);
+  app.use('/api/invoices', invoiceRoutes);
+  app.use('/api/developer', developerRoutes);
+  app.use('/api/admin/credits', adminCreditRoutes);
+  return app;
+};
+
+// Headers that sign the request in as the user
+export const signedInAs = (user: Pick<User, 'id'>) => ({ [TEST_USER_HEADER]: String(user.id) });
+
+// The store lives as long as the test file, so every name is made unique
+let sequence = 0;
+const nextName = (prefix: string) => `${prefix}${++sequence}`;
+
+export const createUser = (overrides: Partial<Pick<User, 'isAdmin'>> = {}): Promise<User> => {
+  const username = nextName('user');
+  return storage.createUser({ username, email: `${username}@example.com`, ...overrides });
+};
+
+export interface TestClient {
+  app: OAuthApp;
+  clientId: string;
+  clientSecret: string;
+}
+
+// A published, confidential app with client credentials
+export const createPublishedApp = async (
+  owner: Pick<User, 'id'>,
+  overrides: Partial<Pick<OAuthApp, 'redirectUris' | 'requiredScopes' | 'optionalScopes'>> = {}
+): Promise<TestClient> => {
+  const clientId = generateToken(16);
+  const clientSecret = generateToken();
+  const app = await storage.createOAuthApp({
+    userId: owner.id,
+    name: nextName('App '),
+    description: 'An app for testing',
+    homepageUrl: 'https://app.example.com',
+    redirectUris: ['https://app.example.com/callback'],
+    clientId,
+    clientSecretHash: await hashClientSecret(clientSecret),
+    isPublished: true,
+    publishedAt: new Date(),
+    ...overrides
+  });
+  return { app, clientId, clientSecret };
+};
+
+export const createPlan = (
+  app: Pick<OAuthApp, 'id'>,
+  plan: Partial<Omit<InsertPricingPlan, 'appId'>> = {}
+): Promise<PricingPlan> =>
+  storage.createPricingPlan({ appId: app.id, name: nextName('Plan '), price: 1000, billingInterval: 'monthly', ...plan });
+
+export const grantCredits = (user: Pick<User, 'id'>, credits: number) =>
+  grantPromotionalCredits(user.id, credits, 'Test credits');
+
+// Start checkout as the user. Paid plans need a billing country; US, which has no tax, unless given.
+export const checkout = (app: Express, user: Pick<User, 'id'>, body: Record<string, unknown>) =>
+  request(app)
+    .post('/api/subscriptions/checkout')
+    .set(signedInAs(user))
+    .send({ billingCountry: 'US', ...body });
+
+// HTTP Basic client credentials, form-encoded as RFC 6749 asks
+export const basicAuth = (clientId: string, clientSecret: string) =>
+  `Basic ${Buffer.from(`${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`).toString('base64')}`;
+
+// An invoice's lines as [type, amount] pairs, in order
+export const lineAmounts = (invoice: Pick<Invoice, 'lines'>) => invoice.lines.map(line => [line.type, line.amount]);
@@ -0,0 +1,133 @@
+/**
+ * Usage tiers: metered plans, usage reports from the app and billing them at the end of the period
+ * Copyright (c) 2025 Ervin Remus Radosavlevici (ervin210@icloud.com)
+ */
+
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import request from 'supertest';
+import { Express } from 'express';
+import {
+  basicAuth,
+  checkout,
+  createPublishedApp,
+  createTestApp,
+  createUser,
+  grantCredits,
+  lineAmounts,
+  signedInAs,
+  TestClient
+} from './testApp';
+import { settleDueSubscriptions } from '../server/subscriptionLifecycle';
+import { AppSubscription, PricingPlan, User } from '../shared/schema';
+
+const PERIOD_START = new Date('2026-01-01T00:00:00Z');
+const MIDMONTH = new Date('2026-01-15T00:00:00Z');
+
+// The first 1,000 calls at 0.2¢ each, then 0.1¢ each plus a $5.00 fee
+const TIERS = [
+  { upTo: 1000, unitPrice: 0.2, flatFee: 0 },
+  { upTo: null, unitPrice: 0.1, flatFee: 500 }
+];
+
+let app: Express;
+let developer: User;
+let client: TestClient;
+let plan: PricingPlan;
+
+const createMeteredPlan = (usageTiers: unknown) =>
+  request(app)
+    .post(`/api/oauth-apps/${client.app.id}/pricing-plans`)
+    .set(signedInAs(developer))
+    .send({ name: 'Pay as you go', price: 0, billingInterval: 'monthly', pricingModel: 'metered', usageUnit: 'API call', usageTiers });
+
+const reportUsage = (report: Record<string, unknown>) =>
+  request(app)
+    .post('/api/usage/records')
+    .set('Authorization', basicAuth(client.clientId, client.clientSecret))
+    .send(report);
+
+const getBalance = async (user: User) =>
+  (await request(app).get('/api/wallet').set(signedInAs(user)).expect(200)).body.balance;
+
+// Subscribe from the wallet at the start of the period, then move on to the middle of it
+const subscribe = async (): Promise<{ user: User; subscription: AppSubscription }> => {
+  const user = await createUser();
+  await grantCredits(user, 5000);
+  vi.setSystemTime(PERIOD_START);
+  const res = await checkout(app, user, { appId: client.app.id, planId: plan.id, payWithCredits: true }).expect(201);
+  vi.setSystemTime(MIDMONTH);
+  return { user, subscription: res.body.subscription };
+};
+
+beforeAll(async () => {
+  app = createTestApp();
+  developer = await createUser();
+  client = await createPublishedApp(developer);
+  plan = (await createMeteredPlan(TIERS).expect(201)).body;
+});
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('POST /api/oauth-apps/:id/pricing-plans', () => {
+  it('prices usage in hundredths of a cent at most', async () => {
+    const res = await createMeteredPlan([{ upTo: null, unitPrice: 0.005, flatFee: 0 }]).expect(400);
+
+    expect(res.body.errors).toEqual({ 'usageTiers.0.unitPrice': 'Unit price must be a whole number of hundredths of a cent' });
+  });
+});
+
+describe('POST /api/usage/records', () => {
+  it('records usage for a subscriber and prices it across the tiers', async () => {
+    const { user, subscription } = await subscribe();
+
+    await reportUsage({ userId: user.id, quantity: 1200 }).expect(201);
+    await reportUsage({ userId: user.id, quantity: 300 }).expect(201);
+
+    const res = await request(app).get(`/api/subscriptions/${subscription.id}/usage`).set(signedInAs(user)).expect(200);
+    expect(res.body).toMatchObject({ usageUnit: 'API call', quantity: 1500, amount: 750 });
+    expect(res.body.lines.map((line: { quantity: number; amount: number }) => [line.quantity, line.amount]))
+      .toEqual([[1000, 200], [500, 550]]);
+  });
+
+  it('records a report sent twice with the same idempotency key once', async () => {
+    const { user, subscription } = await subscribe();
+
+    const first = await reportUsage({ userId: user.id, quantity: 40, idempotencyKey: 'batch-1' }).expect(201);
+    const retry = await reportUsage({ userId: user.id, quantity: 40, idempotencyKey: 'batch-1' }).expect(200);
+
+    expect(retry.body.id).toBe(first.body.id);
+    const res = await request(app).get(`/api/subscriptions/${subscription.id}/usage`).set(signedInAs(user)).expect(200);
+    expect(res.body).toMatchObject({ quantity: 40, amount: 8 });
+  });
+
+  it('needs the app\'s client credentials', async () => {
+    const { user } = await subscribe();
+
+    await request(app)
+      .post('/api/usage/records')
+      .set('Authorization', basicAuth(client.clientId, 'not-the-secret'))
+      .send({ userId: user.id, quantity: 1 })
+      .expect(401);
+  });
+});
+
+describe('settling a metered period', () => {
+  it('charges the period\'s usage to the wallet and invoices it by tier', async () => {
+    const { user } = await subscribe();
+    await reportUsage({ userId: user.id, quantity: 1500 }).expect(201);
+
+    vi.setSystemTime(new Date('2026-02-01T00:00:00Z'));
+    await settleDueSubscriptions();
+
+    expect(await getBalance(user)).toBe(5000 - 750);
+    const invoices = await request(app).get('/api/invoices').set(signedInAs(user)).expect(200);
+    const usageInvoice = invoices.body.find((invoice: { total: number }) => invoice.total === 750);
+    expect(lineAmounts(usageInvoice)).toEqual([['usage', 200], ['usage', 550], ['credits_applied', -750]]);
+  });
+});